@@ -6,16 +6,20 @@ import {
   createCalendarEvent,
   updateCalendarEvent,
   deleteCalendarEvent,
+  changeEventSchedule,
   uploadEventPermissionForm,
+  updatePermissionFormStampLayout,
 } from "@/lib/calendar-events";
 import {
   uploadSignedPermissionSlip,
+  signPermissionSlip,
   submitPaymentMethodOnly,
   unsubmitPermissionSlip,
   unsubmitPermissionSlipForTeacher,
   uploadPermissionSlipForStudent,
   recordPaymentMethodForStudent,
   markCashReceived,
+  markRefundIssued,
   markInboxItemAsRead,
 } from "@/lib/event-permission-slips";
 import {
@@ -23,6 +27,11 @@ import {
   linkGuardianToStudent,
   unlinkGuardianFromStudent,
 } from "@/lib/class-students";
+import { deleteStudentGroup, saveStudentGroup } from "@/lib/student-groups";
+import { decideEventApproval } from "@/lib/event-approvals";
+import { addSchoolClosure, deleteSchoolClosure } from "@/lib/school-closures";
+import { acknowledgeUrgentBroadcast, sendUrgentBroadcast } from "@/lib/urgent-broadcasts";
+import type { SchoolClosureKind, UrgentBroadcastKind } from "@/lib/db/types";
 import {
   getReportCardsForStudent,
   createReportCard,
@@ -43,7 +52,32 @@ import {
   getMessages,
   sendMessage,
 } from "@/lib/messaging";
-import type { CalendarEventVisibility } from "@/lib/db/types";
+import {
+  regenerateCalendarFeedToken,
+  revokeCalendarFeedToken,
+  getCalendarFeedUrl,
+} from "@/lib/calendar-feed";
+import { previewEventImport, importEvents } from "@/lib/event-import";
+import { signUpToVolunteer, withdrawVolunteerSignup } from "@/lib/event-volunteers";
+import { deleteEventTemplate, saveEventAsTemplate } from "@/lib/event-templates";
+import { sendSlipReminders } from "@/lib/slip-escalations";
+import { startSlipCheckout } from "@/lib/payments";
+import { recordLedgerEntry, voidLedgerEntry } from "@/lib/family-ledger";
+import { decideFeeWaiver, requestFeeWaiver } from "@/lib/fee-waivers";
+import type { RecordLedgerEntryInput } from "@/lib/family-ledger";
+import type { ImportPreviewRow, ImportedEventRow } from "@/lib/event-import";
+import type { EventScheduleChangeInput } from "@/lib/calendar-events";
+import type { VolunteerRoleInput } from "@/lib/event-volunteers";
+import type { PermissionFormFieldInput } from "@/lib/permission-forms";
+import type {
+  CalendarEventVisibility,
+  EventTemplateScope,
+  RecurrenceOverride,
+  PermissionFormResponses,
+  RecurrenceRule,
+  SlipEscalation,
+  SlipStampLayout,
+} from "@/lib/db/types";
 
 export async function createEventAction(input: {
   schoolId: string;
@@ -58,6 +92,18 @@ export async function createEventAction(input: {
   costPerOccurrence?: number;
   occurrenceDates?: string[];
   permissionSlipDueDate?: string;
+  capacity?: number;
+  volunteerRoles?: VolunteerRoleInput[];
+  permissionFormFields?: PermissionFormFieldInput[];
+  slipEscalation?: SlipEscalation;
+  recurrence?: RecurrenceRule;
+  recurrenceExceptions?: string[];
+  recurrenceOverrides?: RecurrenceOverride[];
+  permissionFormTemplateId?: string;
+  linkedClassIds?: string[];
+  linkedGrade?: string;
+  targetStudentIds?: string[];
+  targetGroupId?: string;
 }): Promise<{ success: boolean; eventId?: string; error?: string }> {
   const session = await auth0.getSession();
   if (!session?.user?.sub) {
@@ -82,6 +128,15 @@ export async function updateEventAction(
     costPerOccurrence?: number | null;
     occurrenceDates?: string[] | null;
     permissionSlipDueDate?: string | null;
+    capacity?: number | null;
+    volunteerRoles?: VolunteerRoleInput[];
+    permissionFormFields?: PermissionFormFieldInput[];
+    slipEscalation?: SlipEscalation | null;
+    recurrence?: RecurrenceRule | null;
+    recurrenceExceptions?: string[];
+    recurrenceOverrides?: RecurrenceOverride[];
+    targetStudentIds?: string[] | null;
+    targetGroupId?: string | null;
   }
 ): Promise<{ success: boolean; error?: string }> {
   const session = await auth0.getSession();
@@ -113,10 +168,87 @@ export async function deleteEventAction(
     : { success: false, error: result.error };
 }
 
+/** Cancel, postpone, reinstate or reschedule an event without deleting it. */
+export async function changeEventScheduleAction(
+  eventId: string,
+  input: EventScheduleChangeInput
+): Promise<{ success: boolean; error?: string }> {
+  const session = await auth0.getSession();
+  if (!session?.user?.sub) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const result = await changeEventSchedule(session.user.sub, eventId, input);
+  return result.success
+    ? { success: true }
+    : { success: false, error: result.error };
+}
+
+/** Save an event's setup as a reusable template, for this teacher or their whole school. */
+export async function saveEventTemplateAction(
+  eventId: string,
+  name: string,
+  scope: EventTemplateScope
+): Promise<{ success: boolean; error?: string }> {
+  const session = await auth0.getSession();
+  if (!session?.user?.sub) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const result = await saveEventAsTemplate(session.user.sub, eventId, name, scope);
+  return result.success
+    ? { success: true }
+    : { success: false, error: result.error };
+}
+
+export async function deleteEventTemplateAction(
+  templateId: string
+): Promise<{ success: boolean; error?: string }> {
+  const session = await auth0.getSession();
+  if (!session?.user?.sub) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const result = await deleteEventTemplate(session.user.sub, templateId);
+  return result.success
+    ? { success: true }
+    : { success: false, error: result.error };
+}
+
+/** Principal approves or rejects a field trip or paid event (and its linked copies). */
+export async function decideEventApprovalAction(
+  eventId: string,
+  decision: "approved" | "rejected",
+  comment: string
+): Promise<{ success: boolean; error?: string }> {
+  const session = await auth0.getSession();
+  if (!session?.user?.sub) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const result = await decideEventApproval(session.user.sub, eventId, decision, comment);
+  return result.success
+    ? { success: true }
+    : { success: false, error: result.error };
+}
+
+/** Form answers arrive as JSON alongside the uploaded file */
+function parseFormResponses(value: FormDataEntryValue | null): PermissionFormResponses | undefined {
+  if (typeof value !== "string" || !value) return undefined;
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as PermissionFormResponses)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 export async function uploadSignedSlipAction(
   slipId: string,
   formData: FormData
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; waitlisted?: boolean; error?: string }> {
   const session = await auth0.getSession();
   if (!session?.user?.sub) {
     return { success: false, error: "Not authenticated" };
@@ -141,22 +273,57 @@ export async function uploadSignedSlipAction(
     paymentMethod === "online" || paymentMethod === "cash"
       ? paymentMethod
       : undefined;
+  const selectedDates = formData
+    .getAll("occurrenceDates")
+    .filter((d): d is string => typeof d === "string");
   const result = await uploadSignedPermissionSlip(
     session.user.sub,
     slipId,
     base64,
-    validPayment
+    validPayment,
+    selectedDates.length > 0 ? selectedDates : undefined,
+    parseFormResponses(formData.get("formResponses"))
   );
   return result.success
-    ? { success: true }
+    ? { success: true, waitlisted: result.waitlisted }
     : { success: false, error: result.error };
 }
 
-/** For payment-only events: parent confirms payment method without uploading PDF. */
+/** Parent signs the permission slip in the browser: typed name, optionally a drawn signature. */
+export async function signPermissionSlipAction(
+  slipId: string,
+  input: {
+    signerName: string;
+    signatureImage?: string;
+    paymentMethod?: "online" | "cash";
+    selectedDates?: string[];
+    formResponses?: PermissionFormResponses;
+  }
+): Promise<{ success: boolean; waitlisted?: boolean; error?: string }> {
+  const session = await auth0.getSession();
+  if (!session?.user?.sub) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const result = await signPermissionSlip(
+    session.user.sub,
+    slipId,
+    { signerName: input.signerName, signatureImage: input.signatureImage },
+    input.paymentMethod,
+    input.selectedDates,
+    input.formResponses
+  );
+  return result.success
+    ? { success: true, waitlisted: result.waitlisted }
+    : { success: false, error: result.error };
+}
+
+/** For payment-only events: parent confirms payment method (and, for per-date events, which dates) without uploading PDF. */
 export async function submitPaymentMethodAction(
   slipId: string,
-  paymentMethod: "online" | "cash"
-): Promise<{ success: boolean; error?: string }> {
+  paymentMethod: "online" | "cash",
+  selectedDates?: string[]
+): Promise<{ success: boolean; waitlisted?: boolean; error?: string }> {
   const session = await auth0.getSession();
   if (!session?.user?.sub) {
     return { success: false, error: "Not authenticated" };
@@ -165,10 +332,25 @@ export async function submitPaymentMethodAction(
   const result = await submitPaymentMethodOnly(
     session.user.sub,
     slipId,
-    paymentMethod
+    paymentMethod,
+    selectedDates
   );
   return result.success
-    ? { success: true }
+    ? { success: true, waitlisted: result.waitlisted }
+    : { success: false, error: result.error };
+}
+
+export async function startSlipCheckoutAction(
+  slipId: string
+): Promise<{ success: boolean; checkoutUrl?: string; error?: string }> {
+  const session = await auth0.getSession();
+  if (!session?.user?.sub) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const result = await startSlipCheckout(session.user.sub, slipId);
+  return result.success
+    ? { success: true, checkoutUrl: result.checkoutUrl }
     : { success: false, error: result.error };
 }
 
@@ -296,6 +478,103 @@ export async function markCashReceivedAction(
     : { success: false, error: result.error };
 }
 
+export async function markRefundIssuedAction(
+  slipId: string,
+  issued: boolean
+): Promise<{ success: boolean; error?: string }> {
+  const session = await auth0.getSession();
+  if (!session?.user?.sub) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const result = await markRefundIssued(session.user.sub, slipId, issued);
+  return result.success
+    ? { success: true }
+    : { success: false, error: result.error };
+}
+
+/** Teacher records a payment, credit, refund or charge on a student's account. */
+export async function recordLedgerEntryAction(
+  input: RecordLedgerEntryInput
+): Promise<{ success: boolean; error?: string }> {
+  const session = await auth0.getSession();
+  if (!session?.user?.sub) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const result = await recordLedgerEntry(session.user.sub, input);
+  return result.success
+    ? { success: true }
+    : { success: false, error: result.error };
+}
+
+/** Teacher voids a ledger entry recorded by mistake. */
+export async function voidLedgerEntryAction(
+  entryId: string
+): Promise<{ success: boolean; error?: string }> {
+  const session = await auth0.getSession();
+  if (!session?.user?.sub) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const result = await voidLedgerEntry(session.user.sub, entryId);
+  return result.success
+    ? { success: true }
+    : { success: false, error: result.error };
+}
+
+/** Parent privately asks for help with the cost of an event. */
+export async function requestFeeWaiverAction(
+  slipId: string,
+  input: { amount?: number; message?: string }
+): Promise<{ success: boolean; error?: string }> {
+  const session = await auth0.getSession();
+  if (!session?.user?.sub) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const result = await requestFeeWaiver(session.user.sub, slipId, input);
+  return result.success
+    ? { success: true }
+    : { success: false, error: result.error };
+}
+
+/** Teacher or school admin approves or declines a fee waiver request. */
+export async function decideFeeWaiverAction(
+  waiverId: string,
+  decision: "approved" | "denied",
+  input: { amount?: number; note?: string }
+): Promise<{ success: boolean; error?: string }> {
+  const session = await auth0.getSession();
+  if (!session?.user?.sub) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const result = await decideFeeWaiver(session.user.sub, waiverId, decision, input);
+  return result.success
+    ? { success: true }
+    : { success: false, error: result.error };
+}
+
+/** Parent signs up for (or withdraws from) a volunteer role on an event. */
+export async function setVolunteerSignupAction(
+  eventId: string,
+  roleId: string,
+  signedUp: boolean
+): Promise<{ success: boolean; error?: string }> {
+  const session = await auth0.getSession();
+  if (!session?.user?.sub) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const result = signedUp
+    ? await signUpToVolunteer(session.user.sub, eventId, roleId)
+    : await withdrawVolunteerSignup(session.user.sub, eventId, roleId);
+  return result.success
+    ? { success: true }
+    : { success: false, error: result.error };
+}
+
 export async function leaveClassAction(
   classId: string
 ): Promise<{ success: boolean; error?: string }> {
@@ -378,13 +657,83 @@ export async function uploadEventPermissionFormAction(
   const result = await uploadEventPermissionForm(
     session.user.sub,
     eventId,
-    base64
+    base64,
+    formData.get("requireResign") === "true"
   );
   return result.success
     ? { success: true }
     : { success: false, error: result.error };
 }
 
+export async function saveStampLayoutAction(
+  eventId: string,
+  layout: SlipStampLayout
+): Promise<{ success: boolean; error?: string }> {
+  const session = await auth0.getSession();
+  if (!session?.user?.sub) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const result = await updatePermissionFormStampLayout(session.user.sub, eventId, layout);
+  return result.success
+    ? { success: true }
+    : { success: false, error: result.error };
+}
+
+export async function sendSlipRemindersAction(
+  eventId: string
+): Promise<{ success: boolean; reminded?: number; error?: string }> {
+  const session = await auth0.getSession();
+  if (!session?.user?.sub) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const result = await sendSlipReminders(session.user.sub, eventId);
+  return result.success
+    ? { success: true, reminded: result.reminded }
+    : { success: false, error: result.error };
+}
+
+export async function previewEventImportAction(
+  classId: string,
+  formData: FormData
+): Promise<
+  { success: true; rows: ImportPreviewRow[] } | { success: false; error: string }
+> {
+  const session = await auth0.getSession();
+  if (!session?.user?.sub) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const file = formData.get("file") as File | null;
+  if (!file || !(file instanceof File)) {
+    return { success: false, error: "Please select an .ics or .csv file" };
+  }
+  if (!/\.(ics|csv)$/i.test(file.name)) {
+    return { success: false, error: "File must be .ics or .csv" };
+  }
+  if (file.size > 1024 * 1024) {
+    return { success: false, error: "File must be under 1MB" };
+  }
+
+  const text = await file.text();
+  return previewEventImport(session.user.sub, classId, file.name, text);
+}
+
+export async function importEventsAction(
+  classId: string,
+  rows: ImportedEventRow[]
+): Promise<
+  | { success: true; created: number; failed: { title: string; error: string }[] }
+  | { success: false; error: string }
+> {
+  const session = await auth0.getSession();
+  if (!session?.user?.sub) {
+    return { success: false, error: "Not authenticated" };
+  }
+  return importEvents(session.user.sub, classId, rows);
+}
+
 export async function unlinkGuardianAction(
   classId: string,
   studentId: string,
@@ -406,6 +755,116 @@ export async function unlinkGuardianAction(
     : { success: false, error: result.error };
 }
 
+/** Create a student group (team, club) in a class, or update one when groupId is given. */
+export async function saveStudentGroupAction(
+  classId: string,
+  input: { groupId?: string; name: string; studentIds: string[] }
+): Promise<{ success: boolean; groupId?: string; error?: string }> {
+  const session = await auth0.getSession();
+  if (!session?.user?.sub) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const result = await saveStudentGroup(session.user.sub, classId, input);
+  return result.success
+    ? { success: true, groupId: result.groupId }
+    : { success: false, error: result.error };
+}
+
+export async function deleteStudentGroupAction(
+  classId: string,
+  groupId: string
+): Promise<{ success: boolean; error?: string }> {
+  const session = await auth0.getSession();
+  if (!session?.user?.sub) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const result = await deleteStudentGroup(session.user.sub, classId, groupId);
+  return result.success
+    ? { success: true }
+    : { success: false, error: result.error };
+}
+
+// --- School closures ---
+
+/** Add a holiday, PD day or snow day. Repeating events at the school skip it. */
+export async function addSchoolClosureAction(input: {
+  schoolId: string;
+  name: string;
+  kind: SchoolClosureKind;
+  startDate: string;
+  endDate?: string;
+}): Promise<{ success: boolean; closureId?: string; error?: string }> {
+  const session = await auth0.getSession();
+  if (!session?.user?.sub) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const result = await addSchoolClosure(session.user.sub, input);
+  return result.success
+    ? { success: true, closureId: result.closureId }
+    : { success: false, error: result.error };
+}
+
+export async function deleteSchoolClosureAction(
+  closureId: string
+): Promise<{ success: boolean; error?: string }> {
+  const session = await auth0.getSession();
+  if (!session?.user?.sub) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const result = await deleteSchoolClosure(session.user.sub, closureId);
+  return result.success
+    ? { success: true }
+    : { success: false, error: result.error };
+}
+
+// --- Urgent broadcasts ---
+
+/** Send an urgent message to every family at a school, optionally cancelling today's events. */
+export async function sendUrgentBroadcastAction(input: {
+  schoolId: string;
+  kind: UrgentBroadcastKind;
+  title: string;
+  message: string;
+  cancelTodaysEvents: boolean;
+}): Promise<{
+  success: boolean;
+  recipientCount?: number;
+  cancelledEventCount?: number;
+  error?: string;
+}> {
+  const session = await auth0.getSession();
+  if (!session?.user?.sub) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const result = await sendUrgentBroadcast(session.user.sub, input);
+  return result.success
+    ? {
+        success: true,
+        recipientCount: result.recipientCount,
+        cancelledEventCount: result.cancelledEventCount,
+      }
+    : { success: false, error: result.error };
+}
+
+export async function acknowledgeUrgentBroadcastAction(
+  broadcastId: string
+): Promise<{ success: boolean; error?: string }> {
+  const session = await auth0.getSession();
+  if (!session?.user?.sub) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const result = await acknowledgeUrgentBroadcast(session.user.sub, broadcastId);
+  return result.success
+    ? { success: true }
+    : { success: false, error: result.error };
+}
+
 // --- Report cards ---
 
 export async function getReportCardsAction(
@@ -639,3 +1098,27 @@ export async function sendMessageAction(
   }
   return sendMessage(session.user.sub, conversationId, body);
 }
+
+export async function regenerateCalendarFeedAction(): Promise<
+  { success: true; url: string } | { success: false; error: string }
+> {
+  const session = await auth0.getSession();
+  if (!session?.user?.sub) {
+    return { success: false, error: "Not authenticated" };
+  }
+  const result = await regenerateCalendarFeedToken(session.user.sub);
+  return result.success
+    ? { success: true, url: getCalendarFeedUrl(result.token) }
+    : { success: false, error: result.error };
+}
+
+export async function revokeCalendarFeedAction(): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  const session = await auth0.getSession();
+  if (!session?.user?.sub) {
+    return { success: false, error: "Not authenticated" };
+  }
+  return revokeCalendarFeedToken(session.user.sub);
+}
@@ -0,0 +1,30 @@
+import { NextRequest } from "next/server";
+import { buildCalendarFeed } from "@/lib/calendar-feed";
+
+/**
+ * GET /api/calendar-feed/[token]
+ * Serves the user's events as an iCalendar feed for Google/Apple/Outlook subscriptions.
+ * No session: calendar apps fetch this URL directly, so the token is the credential.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+  // Allow "<token>.ics" so calendar apps that key off the extension are happy
+  const feedToken = token.replace(/\.ics$/i, "");
+
+  const result = await buildCalendarFeed(feedToken);
+  if (!result.success) {
+    const status = result.error === "Calendar not found" ? 404 : 500;
+    return new Response(result.error, { status });
+  }
+
+  return new Response(result.ics, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="school-connect.ics"',
+      "Cache-Control": "private, max-age=900",
+    },
+  });
+}
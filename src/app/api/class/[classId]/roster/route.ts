@@ -0,0 +1,56 @@
+import { NextRequest } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { getRosterExport, renderRosterFile } from "@/lib/event-roster";
+
+/**
+ * GET /api/class/[classId]/roster?format=csv|pdf&from=YYYY-MM-DD&to=YYYY-MM-DD&confidential=1
+ * Roster and payments across every permission slip or paid event for a class. from/to limit
+ * it to events starting in a term; confidential=1 adds fee assistance. Teachers of the class only.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ classId: string }> }
+) {
+  const session = await auth0.getSession(request);
+  if (!session?.user?.sub) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const { classId } = await params;
+  const searchParams = request.nextUrl.searchParams;
+  const format = searchParams.get("format") ?? "csv";
+  if (format !== "csv" && format !== "pdf") {
+    return new Response("Format must be csv or pdf", { status: 400 });
+  }
+
+  const result = await getRosterExport(session.user.sub, {
+    classId,
+    from: searchParams.get("from") || undefined,
+    to: searchParams.get("to") || undefined,
+  });
+  if (!result.success) {
+    const status =
+      result.error === "Class not found"
+        ? 404
+        : result.error.startsWith("You don't")
+          ? 403
+          : result.error.startsWith("Dates")
+            ? 400
+            : 500;
+    return new Response(result.error, { status });
+  }
+
+  try {
+    const confidential = request.nextUrl.searchParams.get("confidential") === "1";
+    const file = await renderRosterFile(result.roster, format, confidential);
+    return new Response(file.body as BodyInit, {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error("[class/roster] Error:", error);
+    return new Response("Failed to build the roster", { status: 500 });
+  }
+}
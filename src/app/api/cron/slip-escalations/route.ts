@@ -0,0 +1,20 @@
+import { NextRequest } from "next/server";
+import { runSlipEscalations } from "@/lib/slip-escalations";
+
+/**
+ * GET /api/cron/slip-escalations
+ * Daily scheduled job: sends permission slip reminders and flags overdue slips to the admin.
+ * No session: the scheduler sends CRON_SECRET as a bearer token.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const result = await runSlipEscalations();
+  if (!result.success) {
+    return new Response(result.error, { status: 500 });
+  }
+  return Response.json({ reminded: result.reminded, flagged: result.flagged });
+}
@@ -0,0 +1,73 @@
+import { NextRequest } from "next/server";
+import { ObjectId } from "mongodb";
+import { auth0 } from "@/lib/auth0";
+import { calendarEventsCollection, classesCollection } from "@/lib/db/collections";
+import { getEventPermissionSlipStatus } from "@/lib/event-permission-slips";
+import { formatFormResponse } from "@/lib/permission-form-fields";
+import { toCsv } from "@/lib/csv";
+
+const STATUS_LABELS = {
+  signed: "Submitted",
+  waitlisted: "Waitlisted",
+  pending: "Not submitted",
+  no_parent: "No parent linked",
+} as const;
+
+/**
+ * GET /api/event/[eventId]/form-responses
+ * Parents' answers to the permission form questions as CSV, one row per student.
+ * Teachers of the event's class only.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const session = await auth0.getSession(request);
+  if (!session?.user?.sub) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const { eventId } = await params;
+  if (!eventId || !/^[a-f0-9]{24}$/i.test(eventId)) {
+    return new Response("Invalid event ID", { status: 400 });
+  }
+
+  try {
+    const events = await calendarEventsCollection();
+    const event = await events.findOne({ _id: new ObjectId(eventId) });
+    if (!event?.classId) {
+      return new Response("Event not found", { status: 404 });
+    }
+    const classes = await classesCollection();
+    const cls = await classes.findOne({ _id: new ObjectId(event.classId) });
+    if (!cls?.teacherIds?.includes(session.user.sub)) {
+      return new Response("Access denied", { status: 403 });
+    }
+
+    const [status] = await getEventPermissionSlipStatus([eventId]);
+    const fields = status?.formFields ?? [];
+    const rows = [
+      ["Student", "Status", "Submitted by", ...fields.map((f) => f.label)],
+      ...(status?.students ?? []).map((s) => [
+        s.studentName,
+        STATUS_LABELS[s.status],
+        s.signedBy ?? "",
+        ...fields.map((f) =>
+          s.formResponses ? formatFormResponse(f, s.formResponses[f.key]) : ""
+        ),
+      ]),
+    ];
+
+    const filename = `form-responses-${event.title.replace(/[^a-z0-9]/gi, "-").toLowerCase()}.csv`;
+    // The byte-order mark makes Excel read the file as UTF-8
+    return new Response(`\uFEFF${toCsv(rows)}`, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error("[event/form-responses] Error:", error);
+    return new Response("Failed to export responses", { status: 500 });
+  }
+}
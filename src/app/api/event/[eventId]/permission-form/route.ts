@@ -5,10 +5,14 @@ import {
   calendarEventsCollection,
   classesCollection,
 } from "@/lib/db/collections";
+import { getDbUser } from "@/lib/sync-user";
+import { stampSignedSlip } from "@/lib/pdf-stamp";
 
 /**
  * GET /api/event/[eventId]/permission-form
- * Returns the permission form PDF for preview. Teachers only.
+ * Returns the permission form PDF for preview. Teachers, and the school's admin when approving.
+ * With ?stampPreview=1 the form comes back stamped with sample signature details, so teachers
+ * can check where the parent's name, signature and date will land.
  */
 export async function GET(
   request: NextRequest,
@@ -44,7 +48,10 @@ export async function GET(
       });
     }
     if (!cls || !cls.teacherIds?.includes(session.user.sub)) {
-      return new Response("Access denied", { status: 403 });
+      const user = await getDbUser(session.user.sub);
+      if (user?.role !== "admin" || user.schoolId !== event.schoolId) {
+        return new Response("Access denied", { status: 403 });
+      }
     }
 
     if (!event.permissionFormPdfBase64) {
@@ -53,7 +60,18 @@ export async function GET(
       });
     }
 
-    const buffer = Buffer.from(event.permissionFormPdfBase64, "base64");
+    const pdfBase64 =
+      request.nextUrl.searchParams.get("stampPreview") === "1"
+        ? await stampSignedSlip(event.permissionFormPdfBase64, event.permissionFormStampLayout, {
+            formTitle: event.title,
+            parentName: "Sample Parent",
+            studentName: "Sample Student",
+            date: "January 1, 2026, 9:00 AM",
+            ...(event.cost && { payment: "Pay online" }),
+            signatureHash: "0".repeat(64),
+          })
+        : event.permissionFormPdfBase64;
+    const buffer = Buffer.from(pdfBase64, "base64");
     const pdfBytes = new Uint8Array(buffer);
 
     const filename = `permission-form-${event.title.replace(/[^a-z0-9]/gi, "-").toLowerCase()}.pdf`;
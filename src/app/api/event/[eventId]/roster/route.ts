@@ -0,0 +1,45 @@
+import { NextRequest } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { getRosterExport, renderRosterFile } from "@/lib/event-roster";
+
+/**
+ * GET /api/event/[eventId]/roster?format=csv|pdf&confidential=1
+ * Students, parents, slip status and payments for one event, for reconciling trip money.
+ * confidential=1 adds fee assistance. Teachers of the event's class only.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const session = await auth0.getSession(request);
+  if (!session?.user?.sub) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const { eventId } = await params;
+  const format = request.nextUrl.searchParams.get("format") ?? "csv";
+  if (format !== "csv" && format !== "pdf") {
+    return new Response("Format must be csv or pdf", { status: 400 });
+  }
+
+  const result = await getRosterExport(session.user.sub, { eventId });
+  if (!result.success) {
+    const status =
+      result.error === "Event not found" ? 404 : result.error.startsWith("You don't") ? 403 : 500;
+    return new Response(result.error, { status });
+  }
+
+  try {
+    const confidential = request.nextUrl.searchParams.get("confidential") === "1";
+    const file = await renderRosterFile(result.roster, format, confidential);
+    return new Response(file.body as BodyInit, {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error("[event/roster] Error:", error);
+    return new Response("Failed to build the roster", { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest } from "next/server";
+import { ObjectId } from "mongodb";
+import { auth0 } from "@/lib/auth0";
+import { calendarEventsCollection, classesCollection } from "@/lib/db/collections";
+import { getEventPermissionSlipStatus } from "@/lib/event-permission-slips";
+import { buildSignedSlipBundle } from "@/lib/signed-slip-bundle";
+
+/**
+ * GET /api/event/[eventId]/signed-slips?format=zip|pdf
+ * Every signed slip for the event in one download: a ZIP of PDFs named by student (default),
+ * or one merged PDF with a cover sheet of who has and hasn't signed.
+ * Teachers of the event's class only.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const session = await auth0.getSession(request);
+  if (!session?.user?.sub) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const { eventId } = await params;
+  if (!eventId || !/^[a-f0-9]{24}$/i.test(eventId)) {
+    return new Response("Invalid event ID", { status: 400 });
+  }
+  const format = request.nextUrl.searchParams.get("format") ?? "zip";
+  if (format !== "zip" && format !== "pdf") {
+    return new Response("Format must be zip or pdf", { status: 400 });
+  }
+
+  try {
+    const events = await calendarEventsCollection();
+    const event = await events.findOne({ _id: new ObjectId(eventId) });
+    if (!event?.classId) {
+      return new Response("Event not found", { status: 404 });
+    }
+    const classes = await classesCollection();
+    const cls = await classes.findOne({ _id: new ObjectId(event.classId) });
+    if (!cls?.teacherIds?.includes(session.user.sub)) {
+      return new Response("Access denied", { status: 403 });
+    }
+
+    const [status] = await getEventPermissionSlipStatus([eventId]);
+    if (!status) {
+      return new Response("Event not found", { status: 404 });
+    }
+    const bundle = await buildSignedSlipBundle(status, format);
+
+    const filename = `signed-slips-${event.title.replace(/[^a-z0-9]/gi, "-").toLowerCase()}.${format}`;
+    return new Response(new Uint8Array(bundle) as unknown as BodyInit, {
+      headers: {
+        "Content-Type": format === "zip" ? "application/zip" : "application/pdf",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error("[event/signed-slips] Error:", error);
+    return new Response("Failed to build the download", { status: 500 });
+  }
+}
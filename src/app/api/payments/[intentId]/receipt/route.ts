@@ -0,0 +1,37 @@
+import { NextRequest } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { getPaymentReceipt, renderReceiptPdf } from "@/lib/payments";
+
+/**
+ * GET /api/payments/[intentId]/receipt
+ * PDF receipt for an online payment. The parent who paid and the class's teachers only.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ intentId: string }> }
+) {
+  const session = await auth0.getSession(request);
+  if (!session?.user?.sub) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const { intentId } = await params;
+  const result = await getPaymentReceipt(session.user.sub, intentId);
+  if (!result.success) {
+    const status = result.error === "Receipt not found" ? 404 : 500;
+    return new Response(result.error, { status });
+  }
+
+  try {
+    const pdf = await renderReceiptPdf(result.receipt);
+    return new Response(new Uint8Array(pdf) as unknown as BodyInit, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="receipt-${result.receipt.receiptNumber}.pdf"`,
+      },
+    });
+  } catch (error) {
+    console.error("[payments/receipt] Error:", error);
+    return new Response("Failed to generate receipt", { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest } from "next/server";
+import { handlePaymentWebhook } from "@/lib/payments";
+
+/**
+ * POST /api/payments/webhook/[provider]
+ * The payment provider reports how a checkout went. No session: the provider's signature on
+ * the raw body is the credential.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider } = await params;
+  const rawBody = await request.text();
+
+  const result = await handlePaymentWebhook(provider, rawBody, request.headers);
+  if (!result.success) {
+    const status =
+      result.error === "Invalid signature"
+        ? 401
+        : result.error === "Unknown payment provider" || result.error === "Payment not found"
+          ? 404
+          : 500;
+    return new Response(result.error, { status });
+  }
+  return new Response("OK");
+}
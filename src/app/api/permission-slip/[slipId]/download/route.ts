@@ -55,7 +55,7 @@ export async function GET(
 
     let pdfBuffer: Buffer;
 
-    if (slip.status === "signed" && slip.signedPdfBase64) {
+    if (slip.status !== "pending" && slip.signedPdfBase64) {
       pdfBuffer = Buffer.from(slip.signedPdfBase64, "base64");
     } else if (event.permissionFormPdfBase64) {
       pdfBuffer = Buffer.from(event.permissionFormPdfBase64, "base64");
@@ -2,16 +2,54 @@
 
 import { useState, useTransition, useEffect, useRef, useMemo } from "react";
 import { useRouter } from "next/navigation";
-import { createEventAction, uploadEventPermissionFormAction } from "@/app/actions";
-import type { TeacherClassSerialized } from "@/lib/teacher-dashboard";
+import {
+  createEventAction,
+  deleteEventTemplateAction,
+  uploadEventPermissionFormAction,
+} from "@/app/actions";
+import type { SchoolClassOption, TeacherClassSerialized } from "@/lib/teacher-dashboard";
+import { getClosedRuleDates, getEventOccurrenceDates } from "@/lib/recurrence";
+import { expandClosureDates, findClosureOn } from "@/lib/closure-dates";
+import type { SchoolClosureSerialized } from "@/lib/school-closures";
+import { addDaysToDate, getZonedToday, resolveTimeZone } from "@/lib/timezone";
+import type { EventTemplateSerialized } from "@/lib/event-templates";
+import {
+  RecurrenceEditor,
+  defaultRecurrenceRule,
+  type RecurrenceValue,
+} from "./recurrence-editor";
+import { VolunteerRolesEditor } from "./volunteer-roles-editor";
+import { FormFieldsEditor } from "./form-fields-editor";
+import { SlipEscalationEditor } from "./slip-escalation-editor";
+import { EventAudiencePicker, type EventAudience } from "./event-audience-picker";
+import type { VolunteerRoleInput } from "@/lib/event-volunteers";
+import type { PermissionFormFieldInput } from "@/lib/permission-forms";
+import type { SlipEscalation } from "@/lib/db/types";
 
 interface AddEventModalProps {
   classes: TeacherClassSerialized[];
+  /** Saved templates the teacher can start from */
+  templates?: EventTemplateSerialized[];
+  /** Classes at the teacher's schools the event can also be published to */
+  schoolClasses?: SchoolClassOption[];
+  /** Closures at the teacher's schools, to warn about scheduling on days off */
+  closures?: SchoolClosureSerialized[];
   isOpen: boolean;
   onClose: () => void;
+  /** Switches to the import flow (.ics / CSV) instead of entering one event by hand */
+  onImportClick?: () => void;
 }
 
-export function AddEventModal({ classes, isOpen, onClose }: AddEventModalProps) {
+export function AddEventModal({
+  classes,
+  templates = [],
+  schoolClasses = [],
+  closures = [],
+  isOpen,
+  onClose,
+  onImportClick,
+}: AddEventModalProps) {
+  const [templateId, setTemplateId] = useState("");
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [startDate, setStartDate] = useState("");
@@ -25,9 +63,18 @@ export function AddEventModal({ classes, isOpen, onClose }: AddEventModalProps)
   const [hasMultipleDates, setHasMultipleDates] = useState(false);
   const [occurrenceDates, setOccurrenceDates] = useState<string[]>([]);
   const [newDate, setNewDate] = useState("");
+  const [repeatMode, setRepeatMode] = useState<"dates" | "rule">("dates");
+  const [recurrenceValue, setRecurrenceValue] = useState<RecurrenceValue | null>(null);
   const [costPerOccurrence, setCostPerOccurrence] = useState<string>("");
   const [hasSeparateDueDate, setHasSeparateDueDate] = useState(false);
   const [permissionSlipDueDate, setPermissionSlipDueDate] = useState("");
+  const [capacity, setCapacity] = useState("");
+  const [volunteerRoles, setVolunteerRoles] = useState<VolunteerRoleInput[]>([]);
+  const [formFields, setFormFields] = useState<PermissionFormFieldInput[]>([]);
+  const [slipEscalation, setSlipEscalation] = useState<SlipEscalation>({});
+  const [linkedClassIds, setLinkedClassIds] = useState<string[]>([]);
+  const [linkedGrade, setLinkedGrade] = useState("");
+  const [audience, setAudience] = useState<EventAudience>({ studentIds: null, groupId: null });
   const [isPending, startTransition] = useTransition();
   const [error, setError] = useState<string | null>(null);
   const permissionFormInputRef = useRef<HTMLInputElement>(null);
@@ -44,9 +91,31 @@ export function AddEventModal({ classes, isOpen, onClose }: AddEventModalProps)
     [classes]
   );
 
+  const scopeSchoolId = classes.find((c) => c.id === (scope || classes[0]?.id))?.schoolId;
+  const schoolClosures = closures.filter((c) => c.schoolId === scopeSchoolId);
+  const usesRule = hasMultipleDates && repeatMode === "rule" && recurrenceValue !== null;
+  // Same as the server: repeat dates on closed days are skipped
+  const ruleClosureDates = usesRule
+    ? getClosedRuleDates(
+        recurrenceValue.rule,
+        recurrenceValue.exceptions,
+        recurrenceValue.overrides,
+        new Set(expandClosureDates(schoolClosures))
+      )
+    : [];
+  const effectiveDates = usesRule
+    ? getEventOccurrenceDates({
+        startAt: `${recurrenceValue.rule.startDate}T00:00:00`,
+        recurrence: recurrenceValue.rule,
+        recurrenceExceptions: recurrenceValue.exceptions,
+        recurrenceOverrides: recurrenceValue.overrides,
+        closureDates: ruleClosureDates,
+      })
+    : occurrenceDates;
+
   useEffect(() => {
     if (isOpen && classes.length > 0) {
-      const today = new Date().toISOString().slice(0, 10);
+      const today = getZonedToday(resolveTimeZone(classes[0].timeZone));
       /* eslint-disable react-hooks/set-state-in-effect -- Reset form defaults when modal opens */
       setStartDate(today);
       setEndDate(today);
@@ -60,7 +129,7 @@ export function AddEventModal({ classes, isOpen, onClose }: AddEventModalProps)
   function resetForm() {
     setTitle("");
     setDescription("");
-    const today = new Date().toISOString().slice(0, 10);
+    const today = getZonedToday(resolveTimeZone(classes[0]?.timeZone));
     setStartDate(today);
     setEndDate(today);
     setStartTime("09:00");
@@ -71,8 +140,18 @@ export function AddEventModal({ classes, isOpen, onClose }: AddEventModalProps)
     setCost("");
     setHasMultipleDates(false);
     setOccurrenceDates([]);
+    setRepeatMode("dates");
+    setRecurrenceValue(null);
     setHasSeparateDueDate(false);
     setPermissionSlipDueDate("");
+    setCapacity("");
+    setVolunteerRoles([]);
+    setFormFields([]);
+    setSlipEscalation({});
+    setTemplateId("");
+    setLinkedClassIds([]);
+    setLinkedGrade("");
+    setAudience({ studentIds: null, groupId: null });
     setNewDate("");
     setCostPerOccurrence("");
     setError(null);
@@ -81,6 +160,86 @@ export function AddEventModal({ classes, isOpen, onClose }: AddEventModalProps)
     }
   }
 
+  const selectedTemplate = templates.find((t) => t.id === templateId);
+
+  const selectedClass = classes.find((c) => c.id === (scope || scopeOptions[0]?.value));
+  const selectedSchoolId = selectedClass?.schoolId;
+  const otherSchoolClasses = schoolClasses.filter(
+    (c) => c.schoolId === selectedSchoolId && c.id !== (scope || scopeOptions[0]?.value)
+  );
+  const schoolGrades = [...new Set(otherSchoolClasses.flatMap((c) => c.grades))].sort();
+  const gradeClassIds = linkedGrade
+    ? otherSchoolClasses.filter((c) => c.grades.includes(linkedGrade)).map((c) => c.id)
+    : [];
+  const linkedCount = new Set([...linkedClassIds, ...gradeClassIds]).size;
+
+  function toggleLinkedClass(classId: string) {
+    setLinkedClassIds((prev) =>
+      prev.includes(classId) ? prev.filter((id) => id !== classId) : [...prev, classId]
+    );
+  }
+
+  /** Fills the form from a template, keeping the chosen start date and shifting the rest */
+  function applyTemplate(id: string) {
+    setTemplateId(id);
+    const template = templates.find((t) => t.id === id);
+    if (!template) return;
+    setTitle(template.title);
+    setDescription(template.description ?? "");
+    const hasTimes = Boolean(template.startTime && template.endTime);
+    setHasStartEndTime(hasTimes);
+    if (hasTimes) {
+      setStartTime(template.startTime!);
+      setEndTime(template.endTime!);
+    }
+    setHasMultipleDates(false);
+    setOccurrenceDates([]);
+    setEndDate(addDaysToDate(startDate, template.durationDays));
+    setRequiresPermissionSlip(template.requiresPermissionSlip);
+    setCost(template.cost != null ? String(template.cost) : "");
+    setCostPerOccurrence(template.cost != null ? String(template.cost) : "");
+    setCapacity(template.capacity != null ? String(template.capacity) : "");
+    setVolunteerRoles(template.volunteerRoles.map((r) => ({ name: r.name, needed: r.needed })));
+    setFormFields(template.permissionFormFields);
+    setHasSeparateDueDate(template.dueDateOffsetDays != null);
+    setPermissionSlipDueDate(
+      template.dueDateOffsetDays != null
+        ? addDaysToDate(startDate, -template.dueDateOffsetDays)
+        : startDate
+    );
+  }
+
+  function handleStartDateChange(d: string) {
+    setStartDate(d);
+    if (selectedTemplate) {
+      setEndDate(addDaysToDate(d, selectedTemplate.durationDays));
+      if (selectedTemplate.dueDateOffsetDays != null) {
+        setPermissionSlipDueDate(addDaysToDate(d, -selectedTemplate.dueDateOffsetDays));
+        return;
+      }
+    } else {
+      setEndDate(d);
+    }
+    if (!permissionSlipDueDate || permissionSlipDueDate === startDate) {
+      setPermissionSlipDueDate(d);
+    }
+  }
+
+  function handleDeleteTemplate() {
+    if (!selectedTemplate?.isOwner) return;
+    if (!confirm(`Delete the template "${selectedTemplate.name}"?`)) return;
+    setError(null);
+    startTransition(async () => {
+      const res = await deleteEventTemplateAction(selectedTemplate.id);
+      if (res.success) {
+        setTemplateId("");
+        router.refresh();
+      } else if (res.error) {
+        setError(res.error);
+      }
+    });
+  }
+
   function addOccurrenceDate() {
     if (newDate && !occurrenceDates.includes(newDate)) {
       const updated = [...occurrenceDates, newDate].sort();
@@ -136,7 +295,12 @@ export function AddEventModal({ classes, isOpen, onClose }: AddEventModalProps)
       return;
     }
 
-    if (hasMultipleDates && occurrenceDates.length < 2) {
+    if (audience.studentIds !== null && audience.studentIds.length === 0) {
+      setError("Pick at least one student");
+      return;
+    }
+
+    if (hasMultipleDates && effectiveDates.length < 2) {
       setError("Multiple dates events need at least 2 dates");
       return;
     }
@@ -154,10 +318,10 @@ export function AddEventModal({ classes, isOpen, onClose }: AddEventModalProps)
     }
 
     const firstDate = isRecurring
-      ? occurrenceDates[0]
+      ? effectiveDates[0]
       : startDate;
     const lastDate = isRecurring
-      ? occurrenceDates[occurrenceDates.length - 1]
+      ? effectiveDates[effectiveDates.length - 1]
       : endDate;
     const startAt = hasStartEndTime
       ? `${firstDate}T${startTime}:00`
@@ -176,7 +340,7 @@ export function AddEventModal({ classes, isOpen, onClose }: AddEventModalProps)
           costPerOccurrence.trim() && !Number.isNaN(parseFloat(costPerOccurrence))
             ? parseFloat(costPerOccurrence)
             : undefined;
-        dates = occurrenceDates;
+        dates = effectiveDates;
       } else {
         costNum =
           cost.trim() && !Number.isNaN(parseFloat(cost))
@@ -188,6 +352,11 @@ export function AddEventModal({ classes, isOpen, onClose }: AddEventModalProps)
       const dueDateForSlip = needsDueDate && hasSeparateDueDate && permissionSlipDueDate
         ? permissionSlipDueDate
         : undefined;
+      const capacityNum = needsDueDate && capacity.trim() ? parseInt(capacity, 10) : undefined;
+
+      const pdfFile = permissionFormInputRef.current?.files?.[0];
+      const useTemplateForm =
+        requiresPermissionSlip && selectedTemplate?.hasPermissionForm && !pdfFile;
 
       const { success, eventId, error: err } = await createEventAction({
         schoolId: selected.schoolId,
@@ -202,9 +371,24 @@ export function AddEventModal({ classes, isOpen, onClose }: AddEventModalProps)
         costPerOccurrence: costPerOccNum,
         occurrenceDates: dates,
         permissionSlipDueDate: dueDateForSlip,
+        capacity: capacityNum,
+        volunteerRoles,
+        permissionFormFields: requiresPermissionSlip ? formFields : undefined,
+        slipEscalation: needsDueDate ? slipEscalation : undefined,
+        permissionFormTemplateId: useTemplateForm ? selectedTemplate.id : undefined,
+        linkedClassIds: linkedClassIds.length > 0 ? linkedClassIds : undefined,
+        linkedGrade: linkedGrade || undefined,
+        targetStudentIds: audience.studentIds ?? undefined,
+        targetGroupId: audience.groupId ?? undefined,
+        ...(isRecurring && usesRule
+          ? {
+              recurrence: recurrenceValue.rule,
+              recurrenceExceptions: recurrenceValue.exceptions,
+              recurrenceOverrides: recurrenceValue.overrides,
+            }
+          : {}),
       });
       if (success && eventId) {
-        const pdfFile = permissionFormInputRef.current?.files?.[0];
         if (requiresPermissionSlip && pdfFile && pdfFile.size > 0 && pdfFile.type === "application/pdf") {
           const formData = new FormData();
           formData.append("pdf", pdfFile);
@@ -228,7 +412,27 @@ export function AddEventModal({ classes, isOpen, onClose }: AddEventModalProps)
   if (!isOpen) return null;
 
   const defaultScope = scope || scopeOptions[0]?.value;
-  const isRecurring = hasMultipleDates && occurrenceDates.length > 1;
+  const isRecurring = hasMultipleDates && effectiveDates.length > 1;
+
+  const closedDates = usesRule
+    ? ruleClosureDates
+    : (hasMultipleDates
+        ? occurrenceDates
+        : expandClosureDates([{ startDate, endDate: endDate > startDate ? endDate : startDate }])
+      ).filter((d) => findClosureOn(schoolClosures, d));
+  const closureNames = [
+    ...new Set(closedDates.map((d) => findClosureOn(schoolClosures, d)?.name)),
+  ].join(", ");
+  const closureWarning =
+    closedDates.length === 0
+      ? null
+      : usesRule
+        ? `${closedDates.length} repeat date${closedDates.length !== 1 ? "s fall" : " falls"} on a school closure (${closureNames}) and will be skipped.`
+        : `${closedDates
+            .map((d) =>
+              new Date(`${d}T12:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric" })
+            )
+            .join(", ")} ${closedDates.length !== 1 ? "are school closures" : "is a school closure"} (${closureNames}).`;
 
   return (
     <>
@@ -244,7 +448,59 @@ export function AddEventModal({ classes, isOpen, onClose }: AddEventModalProps)
         <p className="mt-1 text-sm text-zinc-600">
           Field trips, picture day, and more. Parents in the class will see this.
         </p>
+        {onImportClick && (
+          <button
+            type="button"
+            onClick={() => {
+              resetForm();
+              onImportClick();
+            }}
+            disabled={isPending}
+            className="mt-2 text-sm font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+          >
+            Have a lot of events? Import from an .ics or CSV file
+          </button>
+        )}
         <form onSubmit={handleSubmit} className="mt-6 flex flex-col gap-4">
+          {templates.length > 0 && (
+            <div>
+              <label htmlFor="event-template" className="mb-1 block text-sm font-medium text-zinc-700">
+                Start from a template
+              </label>
+              <div className="flex gap-2">
+                <select
+                  id="event-template"
+                  value={templateId}
+                  onChange={(e) => applyTemplate(e.target.value)}
+                  disabled={isPending}
+                  className="h-10 min-w-0 flex-1 rounded-lg border border-zinc-300 bg-white px-3 text-zinc-900 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+                >
+                  <option value="">None</option>
+                  {templates.map((t) => (
+                    <option key={t.id} value={t.id}>
+                      {t.name}
+                      {t.scope === "school" && !t.isOwner ? " (school)" : ""}
+                    </option>
+                  ))}
+                </select>
+                {selectedTemplate?.isOwner && (
+                  <button
+                    type="button"
+                    onClick={handleDeleteTemplate}
+                    disabled={isPending}
+                    className="rounded-lg border border-zinc-300 px-3 text-sm font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+              {selectedTemplate && (
+                <p className="mt-0.5 text-xs text-zinc-500">
+                  Pick the start date; the end and due dates move with it.
+                </p>
+              )}
+            </div>
+          )}
           <div>
             <label htmlFor="event-title" className="mb-1 block text-sm font-medium text-zinc-700">
               Title
@@ -281,7 +537,12 @@ export function AddEventModal({ classes, isOpen, onClose }: AddEventModalProps)
             <select
               id="event-scope"
               value={defaultScope}
-              onChange={(e) => setScope(e.target.value)}
+              onChange={(e) => {
+                setScope(e.target.value);
+                setLinkedClassIds([]);
+                setLinkedGrade("");
+                setAudience({ studentIds: null, groupId: null });
+              }}
               required
               disabled={isPending}
               className="h-10 w-full rounded-lg border border-zinc-300 bg-white px-3 text-zinc-900 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
@@ -293,6 +554,75 @@ export function AddEventModal({ classes, isOpen, onClose }: AddEventModalProps)
               ))}
             </select>
           </div>
+          {selectedClass && selectedClass.students.length > 0 && (
+            <EventAudiencePicker
+              students={selectedClass.students}
+              groups={selectedClass.groups}
+              value={audience}
+              onChange={(value) => {
+                setAudience(value);
+                if (value.studentIds !== null) {
+                  setLinkedClassIds([]);
+                  setLinkedGrade("");
+                }
+              }}
+              disabled={isPending}
+            />
+          )}
+          {otherSchoolClasses.length > 0 && audience.studentIds === null && (
+            <details className="rounded-lg border border-zinc-200 bg-zinc-50/50 p-4">
+              <summary className="cursor-pointer text-sm font-medium text-zinc-700">
+                Also publish to other classes
+                {linkedCount > 0 ? ` (${linkedCount})` : ""}
+              </summary>
+              <p className="mt-2 text-xs text-zinc-500">
+                Each class gets its own copy. Slips, payments and spots are tracked per class,
+                and each teacher sees only their own students.
+              </p>
+              {schoolGrades.length > 0 && (
+                <div className="mt-3">
+                  <label htmlFor="event-linked-grade" className="mb-1 block text-xs font-medium text-zinc-600">
+                    Every class with students in
+                  </label>
+                  <select
+                    id="event-linked-grade"
+                    value={linkedGrade}
+                    onChange={(e) => setLinkedGrade(e.target.value)}
+                    disabled={isPending}
+                    className="h-10 w-full rounded-lg border border-zinc-300 bg-white px-3 text-zinc-900 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+                  >
+                    <option value="">No grade</option>
+                    {schoolGrades.map((g) => (
+                      <option key={g} value={g}>
+                        Grade {g}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <ul className="mt-3 space-y-1.5">
+                {otherSchoolClasses.map((c) => (
+                  <li key={c.id}>
+                    <label className="flex cursor-pointer items-center gap-2 text-sm text-zinc-700">
+                      <input
+                        type="checkbox"
+                        checked={linkedClassIds.includes(c.id) || gradeClassIds.includes(c.id)}
+                        onChange={() => toggleLinkedClass(c.id)}
+                        disabled={isPending || gradeClassIds.includes(c.id)}
+                        className="h-4 w-4 rounded border-zinc-300 text-amber-600 focus:ring-amber-500 disabled:opacity-50"
+                      />
+                      <span>
+                        {c.name}
+                        {c.teacherNames.length > 0 && (
+                          <span className="text-zinc-500"> · {c.teacherNames.join(", ")}</span>
+                        )}
+                      </span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
           <div className="space-y-1">
             <label
               htmlFor="event-requires-permission-slip"
@@ -321,7 +651,9 @@ export function AddEventModal({ classes, isOpen, onClose }: AddEventModalProps)
                     Permission form PDF (optional)
                   </h3>
                   <p className="mt-1 text-xs text-zinc-500">
-                    Upload now or add later when editing the event.
+                    {selectedTemplate?.hasPermissionForm
+                      ? "Uses the template's form unless you choose another file."
+                      : "Upload now or add later when editing the event."}
                   </p>
                   <div className="mt-3 flex flex-wrap items-center gap-2">
                     <input
@@ -333,6 +665,13 @@ export function AddEventModal({ classes, isOpen, onClose }: AddEventModalProps)
                       className="block text-sm text-zinc-600 file:mr-2 file:rounded-lg file:border-0 file:bg-amber-100 file:px-3 file:py-1.5 file:text-sm file:font-medium file:text-amber-800 hover:file:bg-amber-200 disabled:opacity-50"
                     />
                   </div>
+                  <div className="mt-4 border-t border-zinc-200 pt-3">
+                    <FormFieldsEditor
+                      value={formFields}
+                      onChange={setFormFields}
+                      disabled={isPending}
+                    />
+                  </div>
                 </div>
               </>
             )}
@@ -360,14 +699,7 @@ export function AddEventModal({ classes, isOpen, onClose }: AddEventModalProps)
                   id="event-date"
                   type="date"
                   value={startDate}
-                  onChange={(e) => {
-                    const d = e.target.value;
-                    setStartDate(d);
-                    setEndDate(d);
-                    if (!permissionSlipDueDate || permissionSlipDueDate === startDate) {
-                      setPermissionSlipDueDate(d);
-                    }
-                  }}
+                  onChange={(e) => handleStartDateChange(e.target.value)}
                   required
                   disabled={isPending}
                   className="h-10 flex-1 rounded-lg border border-zinc-300 bg-white px-3 text-zinc-900 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
@@ -412,54 +744,91 @@ export function AddEventModal({ classes, isOpen, onClose }: AddEventModalProps)
             </label>
           {hasMultipleDates && (
             <div>
-              <label className="mb-1 block text-sm font-medium text-zinc-700">
-                Occurrence dates
-              </label>
-              <div className="flex gap-2">
-                <input
-                  type="date"
-                  value={newDate}
-                  onChange={(e) => setNewDate(e.target.value)}
+              <div className="mb-3 inline-flex rounded-lg bg-zinc-100 p-1 text-sm">
+                <button
+                  type="button"
+                  onClick={() => setRepeatMode("dates")}
                   disabled={isPending}
-                  className="h-10 flex-1 rounded-lg border border-zinc-300 bg-white px-3 text-zinc-900 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
-                />
+                  className={`rounded-md px-3 py-1 font-medium ${repeatMode === "dates" ? "bg-white text-zinc-900 shadow-sm" : "text-zinc-600"}`}
+                >
+                  Pick dates
+                </button>
                 <button
                   type="button"
-                  onClick={addOccurrenceDate}
-                  disabled={isPending || !newDate}
-                  className="rounded-lg border border-zinc-300 bg-white px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50"
+                  onClick={() => {
+                    setRepeatMode("rule");
+                    if (!recurrenceValue) {
+                      setRecurrenceValue({
+                        rule: defaultRecurrenceRule(occurrenceDates[0] ?? startDate),
+                        exceptions: [],
+                        overrides: [],
+                      });
+                    }
+                  }}
+                  disabled={isPending}
+                  className={`rounded-md px-3 py-1 font-medium ${repeatMode === "rule" ? "bg-white text-zinc-900 shadow-sm" : "text-zinc-600"}`}
                 >
-                  Add
+                  Repeat on a schedule
                 </button>
               </div>
-              {occurrenceDates.length > 0 && (
-                <div className="mt-2 flex flex-wrap gap-2">
-                  {occurrenceDates.map((d) => (
-                    <span
-                      key={d}
-                      className="inline-flex items-center gap-1 rounded-lg bg-zinc-100 px-2.5 py-1 text-sm text-zinc-800"
+              {repeatMode === "rule" && recurrenceValue ? (
+                <RecurrenceEditor
+                  value={recurrenceValue}
+                  onChange={setRecurrenceValue}
+                  disabled={isPending}
+                />
+              ) : (
+                <>
+                  <label className="mb-1 block text-sm font-medium text-zinc-700">
+                    Occurrence dates
+                  </label>
+                  <div className="flex gap-2">
+                    <input
+                      type="date"
+                      value={newDate}
+                      onChange={(e) => setNewDate(e.target.value)}
+                      disabled={isPending}
+                      className="h-10 flex-1 rounded-lg border border-zinc-300 bg-white px-3 text-zinc-900 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+                    />
+                    <button
+                      type="button"
+                      onClick={addOccurrenceDate}
+                      disabled={isPending || !newDate}
+                      className="rounded-lg border border-zinc-300 bg-white px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50"
                     >
-                      {new Date(d + "T12:00:00").toLocaleDateString("en-US", {
-                        month: "short",
-                        day: "numeric",
-                        year: "numeric",
-                      })}
-                      <button
-                        type="button"
-                        onClick={() => removeOccurrenceDate(d)}
-                        disabled={isPending}
-                        className="text-zinc-500 hover:text-zinc-700"
-                        aria-label="Remove"
-                      >
-                        ×
-                      </button>
-                    </span>
-                  ))}
-                </div>
+                      Add
+                    </button>
+                  </div>
+                  {occurrenceDates.length > 0 && (
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {occurrenceDates.map((d) => (
+                        <span
+                          key={d}
+                          className="inline-flex items-center gap-1 rounded-lg bg-zinc-100 px-2.5 py-1 text-sm text-zinc-800"
+                        >
+                          {new Date(d + "T12:00:00").toLocaleDateString("en-US", {
+                            month: "short",
+                            day: "numeric",
+                            year: "numeric",
+                          })}
+                          <button
+                            type="button"
+                            onClick={() => removeOccurrenceDate(d)}
+                            disabled={isPending}
+                            className="text-zinc-500 hover:text-zinc-700"
+                            aria-label="Remove"
+                          >
+                            ×
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  <p className="mt-1 text-xs text-zinc-500">
+                    Add at least 2 dates. Same time applies to each.
+                  </p>
+                </>
               )}
-              <p className="mt-1 text-xs text-zinc-500">
-                Add at least 2 dates. Same time applies to each.
-              </p>
               {hasStartEndTime && (
                 <div className="mt-3 flex gap-2">
                   <div>
@@ -488,6 +857,11 @@ export function AddEventModal({ classes, isOpen, onClose }: AddEventModalProps)
               )}
             </div>
           )}
+          {closureWarning && (
+            <p className="rounded-lg bg-amber-50 px-3 py-2 text-sm text-amber-800">
+              {closureWarning}
+            </p>
+          )}
           <div>
             <label
               htmlFor={isRecurring ? "event-cost-per-occurrence" : "event-cost"}
@@ -510,9 +884,9 @@ export function AddEventModal({ classes, isOpen, onClose }: AddEventModalProps)
               disabled={isPending}
               className="h-10 w-full rounded-lg border border-zinc-300 bg-white px-3 text-zinc-900 placeholder:text-zinc-400 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
             />
-            {isRecurring && occurrenceDates.length > 0 && costPerOccurrence && !Number.isNaN(parseFloat(costPerOccurrence)) && parseFloat(costPerOccurrence) > 0 && (
+            {isRecurring && effectiveDates.length > 0 && costPerOccurrence && !Number.isNaN(parseFloat(costPerOccurrence)) && parseFloat(costPerOccurrence) > 0 && (
               <p className="mt-0.5 text-xs text-zinc-500">
-                Total: ${(parseFloat(costPerOccurrence) * occurrenceDates.length).toFixed(2)} ({occurrenceDates.length} dates × ${parseFloat(costPerOccurrence).toFixed(2)})
+                Total: ${(parseFloat(costPerOccurrence) * effectiveDates.length).toFixed(2)} ({effectiveDates.length} dates × ${parseFloat(costPerOccurrence).toFixed(2)})
               </p>
             )}
             {requiresPermissionSlip &&
@@ -532,7 +906,7 @@ export function AddEventModal({ classes, isOpen, onClose }: AddEventModalProps)
                   onChange={(e) => {
                     setHasSeparateDueDate(e.target.checked);
                     if (e.target.checked && !permissionSlipDueDate) {
-                      setPermissionSlipDueDate(hasMultipleDates && occurrenceDates.length > 0 ? occurrenceDates[0] : startDate);
+                      setPermissionSlipDueDate(hasMultipleDates && effectiveDates.length > 0 ? effectiveDates[0] : startDate);
                     }
                   }}
                   disabled={isPending}
@@ -557,8 +931,39 @@ export function AddEventModal({ classes, isOpen, onClose }: AddEventModalProps)
                   />
                 </div>
               )}
+              <SlipEscalationEditor
+                value={slipEscalation}
+                onChange={setSlipEscalation}
+                disabled={isPending}
+              />
+              <div>
+                <label htmlFor="event-capacity" className="mb-1 block text-sm font-medium text-zinc-700">
+                  Spots available (optional)
+                </label>
+                <input
+                  id="event-capacity"
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={capacity}
+                  onChange={(e) => setCapacity(e.target.value)}
+                  placeholder="Unlimited"
+                  disabled={isPending}
+                  className="h-10 w-full rounded-lg border border-zinc-300 bg-white px-3 text-zinc-900 placeholder:text-zinc-400 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+                />
+                {capacity.trim() && (
+                  <p className="mt-0.5 text-xs text-zinc-500">
+                    Once full, families who submit go on a waitlist and move up as spots open.
+                  </p>
+                )}
+              </div>
             </div>
           )}
+          <VolunteerRolesEditor
+            value={volunteerRoles}
+            onChange={setVolunteerRoles}
+            disabled={isPending}
+          />
           {error && (
             <p className="text-sm text-red-600">{error}</p>
           )}
@@ -2,16 +2,25 @@
 
 import { useState, useTransition, useEffect } from "react";
 import { createInterviewSlotsAction } from "@/app/actions";
+import { addDaysToDate, getZonedToday } from "@/lib/timezone";
+import { findClosureOn } from "@/lib/closure-dates";
+import type { SchoolClosureSerialized } from "@/lib/school-closures";
 
-function getDefaultInterviewDate(): string {
-  const d = new Date();
-  d.setDate(d.getDate() + 7);
-  return d.toISOString().slice(0, 10);
+function getDefaultInterviewDate(timeZone: string): string {
+  return addDaysToDate(getZonedToday(timeZone), 7);
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
 }
 
 interface AddInterviewSlotsModalProps {
   classId: string;
   className: string;
+  /** School time zone; slot times are entered on the school's clock */
+  timeZone: string;
+  /** Closures at the class's school, to warn about booking on a day off */
+  closures?: SchoolClosureSerialized[];
   isOpen: boolean;
   onClose: () => void;
 }
@@ -19,10 +28,12 @@ interface AddInterviewSlotsModalProps {
 export function AddInterviewSlotsModal({
   classId,
   className,
+  timeZone,
+  closures = [],
   isOpen,
   onClose,
 }: AddInterviewSlotsModalProps) {
-  const [date, setDate] = useState(getDefaultInterviewDate);
+  const [date, setDate] = useState(() => getDefaultInterviewDate(timeZone));
   const [times, setTimes] = useState<string[]>([]);
   const [slotDuration, setSlotDuration] = useState(15);
   const [bufferMinutes, setBufferMinutes] = useState(0);
@@ -37,7 +48,7 @@ export function AddInterviewSlotsModal({
 
   function handleClose() {
     if (!isPending) {
-      setDate(getDefaultInterviewDate());
+      setDate(getDefaultInterviewDate(timeZone));
       setTimes([]);
       setBulkStartTime("");
       setBulkAddGroups([]);
@@ -48,9 +59,9 @@ export function AddInterviewSlotsModal({
 
   useEffect(() => {
     if (isOpen) {
-      setDate(getDefaultInterviewDate());
+      setDate(getDefaultInterviewDate(timeZone));
     }
-  }, [isOpen]);
+  }, [isOpen, timeZone]);
 
   /** When buffer or duration changes, respace all quick-add slots to include the new buffer */
   useEffect(() => {
@@ -195,13 +206,12 @@ export function AddInterviewSlotsModal({
     for (const time of times) {
       const [h, m] = time.split(":").map(Number);
       if (isNaN(h) || isNaN(m)) continue;
-      const startAt = new Date(date);
-      startAt.setHours(h, m, 0, 0);
-      const endAt = new Date(startAt);
-      endAt.setMinutes(endAt.getMinutes() + slotLen);
+      // Wall-clock times at the school; the server converts them to instants
+      const endMins = h * 60 + m + slotLen;
+      const endDate = endMins >= 24 * 60 ? addDaysToDate(date, 1) : date;
       slots.push({
-        startAt: startAt.toISOString(),
-        endAt: endAt.toISOString(),
+        startAt: `${date}T${pad(h)}:${pad(m)}:00`,
+        endAt: `${endDate}T${pad(Math.floor(endMins / 60) % 24)}:${pad(endMins % 60)}:00`,
       });
     }
 
@@ -233,6 +243,8 @@ export function AddInterviewSlotsModal({
 
   if (!isOpen) return null;
 
+  const closureOnDate = findClosureOn(closures, date);
+
   return (
     <>
       <div
@@ -263,9 +275,14 @@ export function AddInterviewSlotsModal({
               onChange={(e) => setDate(e.target.value)}
               disabled={isPending}
               required
-              min={new Date().toISOString().slice(0, 10)}
+              min={getZonedToday(timeZone)}
               className="w-full rounded-lg border border-zinc-300 bg-white px-3 py-2 text-zinc-900 placeholder:text-zinc-500 disabled:opacity-50 [color-scheme:light]"
             />
+            {closureOnDate && (
+              <p className="mt-1 text-xs text-amber-700">
+                The school is closed that day ({closureOnDate.name}).
+              </p>
+            )}
             </div>
             <div className="w-32">
               <label
@@ -0,0 +1,380 @@
+"use client";
+
+import Link from "next/link";
+import Image from "next/image";
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { decideEventApprovalAction } from "@/app/actions";
+import type { ApprovalEventSerialized } from "@/lib/event-approvals";
+import type { SchoolClosureSerialized } from "@/lib/school-closures";
+import type { UrgentBroadcastSummarySerialized } from "@/lib/urgent-broadcasts";
+import type { OverdueSlipSerialized } from "@/lib/slip-escalations";
+import type { FeeWaiverSerialized } from "@/lib/fee-waivers";
+import { formatClosureDates } from "@/lib/closure-dates";
+import { getZonedToday } from "@/lib/timezone";
+import { SchoolClosuresModal } from "./school-closures-modal";
+import { UrgentBroadcastList, UrgentBroadcastModal } from "./urgent-broadcasts";
+import { FeeWaiverQueue } from "./fee-waiver-queue";
+
+interface AdminDashboardProps {
+  userName: string | null;
+  schoolName: string | null;
+  pending: ApprovalEventSerialized[];
+  recentlyDecided: ApprovalEventSerialized[];
+  schoolId: string | null;
+  /** Holidays, PD days and snow days at the school */
+  closures: SchoolClosureSerialized[];
+  /** Recent urgent broadcasts to the school's families */
+  broadcasts: UrgentBroadcastSummarySerialized[];
+  /** Outstanding slips teachers asked to flag once overdue */
+  overdueSlips: OverdueSlipSerialized[];
+  /** Families' confidential requests for help with costs */
+  feeWaivers: FeeWaiverSerialized[];
+  /** School time zone: event times are on its clock */
+  timeZone: string;
+}
+
+/** Event times are floating school-local strings, so format them without shifting zones */
+function formatEventDay(local: string): string {
+  return new Date(`${local.slice(0, 10)}T12:00:00`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function formatEventTime(local: string): string | null {
+  // All-day events start at midnight
+  const time = local.slice(11, 16);
+  if (!time || local.endsWith("T00:00:00")) return null;
+  const [h, m] = time.split(":").map(Number);
+  return new Date(2000, 0, 1, h, m).toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function ApprovalCard({ event }: { event: ApprovalEventSerialized }) {
+  const router = useRouter();
+  const [comment, setComment] = useState("");
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const startTime = formatEventTime(event.startAt);
+
+  function decide(decision: "approved" | "rejected") {
+    setError(null);
+    startTransition(async () => {
+      const res = await decideEventApprovalAction(event.id, decision, comment);
+      if (res.success) {
+        router.refresh();
+      } else if (res.error) {
+        setError(res.error);
+      }
+    });
+  }
+
+  return (
+    <li className="rounded-xl border border-zinc-200 bg-white p-5 shadow-sm">
+      <h3 className="font-medium text-zinc-900">{event.title}</h3>
+      <p className="mt-1 text-sm text-zinc-600">
+        {event.classNames.join(", ")}
+        {event.teacherNames.length > 0 && ` · ${event.teacherNames.join(", ")}`}
+      </p>
+      <p className="mt-1 text-sm text-zinc-600">
+        {formatEventDay(event.startAt)}
+        {startTime && ` at ${startTime}`}
+        {event.occurrenceCount > 1 && ` (${event.occurrenceCount} dates)`}
+      </p>
+      {event.description && (
+        <p className="mt-2 text-sm text-zinc-500">{event.description}</p>
+      )}
+      <ul className="mt-3 space-y-0.5 text-xs text-zinc-600">
+        <li>{event.studentCount} student{event.studentCount !== 1 ? "s" : ""}</li>
+        {event.cost != null && <li>Cost: ${event.cost.toFixed(2)} per student</li>}
+        {event.requiresPermissionSlip && (
+          <li>
+            Permission slip required
+            {event.hasPermissionForm && (
+              <>
+                {" · "}
+                <a
+                  href={`/api/event/${event.id}/permission-form`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium text-red-600 hover:text-red-700"
+                >
+                  View form
+                </a>
+              </>
+            )}
+          </li>
+        )}
+        {event.permissionSlipDueDate && (
+          <li>Due {formatEventDay(event.permissionSlipDueDate)}</li>
+        )}
+        {event.capacity != null && <li>{event.capacity} spots</li>}
+      </ul>
+      <label htmlFor={`approval-comment-${event.id}`} className="mt-4 mb-1 block text-sm font-medium text-zinc-700">
+        Comment for the teacher
+      </label>
+      <textarea
+        id={`approval-comment-${event.id}`}
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        placeholder="Required when rejecting, e.g. what needs to change"
+        rows={2}
+        maxLength={1000}
+        disabled={isPending}
+        className="w-full rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-900 placeholder:text-zinc-400 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+      />
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      <div className="mt-3 flex gap-3">
+        <button
+          type="button"
+          onClick={() => decide("rejected")}
+          disabled={isPending || !comment.trim()}
+          className="flex-1 rounded-lg border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50"
+        >
+          Reject
+        </button>
+        <button
+          type="button"
+          onClick={() => decide("approved")}
+          disabled={isPending}
+          className="flex-1 rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50"
+        >
+          {isPending ? "Saving..." : "Approve"}
+        </button>
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Principal's view: field trips and paid events waiting for approval before families see them.
+ */
+export function AdminDashboard({
+  userName,
+  schoolName,
+  pending,
+  recentlyDecided,
+  schoolId,
+  closures,
+  broadcasts,
+  overdueSlips,
+  feeWaivers,
+  timeZone,
+}: AdminDashboardProps) {
+  const [isClosuresOpen, setIsClosuresOpen] = useState(false);
+  const [isBroadcastOpen, setIsBroadcastOpen] = useState(false);
+  const today = getZonedToday(timeZone);
+  const upcomingClosures = closures.filter((c) => c.endDate >= today);
+
+  return (
+    <div className="min-h-screen bg-zinc-50 font-sans">
+      <header className="sticky top-0 z-10 border-b border-zinc-200 bg-white">
+        <div className="mx-auto max-w-4xl px-4 py-4 sm:px-6">
+          <div className="flex items-center gap-6 border-b border-zinc-200 pb-2">
+            <div className="flex shrink-0 items-center gap-4">
+              <Link href="/" className="flex items-center">
+                <Image
+                  src="/school_connect.png"
+                  alt="School Connect"
+                  width={40}
+                  height={40}
+                  className="h-10 w-10 object-contain"
+                />
+              </Link>
+              <Image
+                src="/logo_yrdsb_desktop.svg"
+                alt="York Region District School Board"
+                width={140}
+                height={44}
+                className="h-9 w-auto"
+              />
+            </div>
+            <nav className="flex flex-1 items-center gap-6">
+              <span className="border-b-2 border-red-600 pb-2 text-sm font-medium text-red-600">
+                Approvals
+              </span>
+              {/* eslint-disable-next-line @next/next/no-html-link-for-pages -- Auth0 logout needs a full page load */}
+              <a
+                href="/auth/logout"
+                className="ml-auto text-sm font-medium text-zinc-600 hover:text-zinc-900"
+              >
+                Logout
+              </a>
+            </nav>
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-4xl px-4 py-8 sm:px-6">
+        <h1 className="text-xl font-semibold text-zinc-900">
+          {userName ? `Welcome, ${userName}` : "Welcome"}
+        </h1>
+        {!schoolName ? (
+          <p className="mt-2 text-sm text-zinc-600">
+            Your account isn&apos;t linked to a school yet. Ask your board administrator to set
+            it up.
+          </p>
+        ) : (
+          <>
+            <p className="mt-1 text-sm text-zinc-600">
+              {schoolName}: field trips and paid events wait here until you approve them.
+              Families don&apos;t see them or get slips before then.
+            </p>
+
+            <section className="mt-8">
+              <div className="mb-4 flex items-center justify-between gap-2">
+                <h2 className="text-lg font-medium text-zinc-900">Urgent broadcasts</h2>
+                <button
+                  type="button"
+                  onClick={() => setIsBroadcastOpen(true)}
+                  className="rounded-lg bg-red-600 px-3 py-2 text-sm font-medium text-white hover:bg-red-700"
+                >
+                  Send urgent broadcast
+                </button>
+              </div>
+              {broadcasts.length === 0 ? (
+                <p className="text-sm text-zinc-500">
+                  For weather closures and lockdowns: reaches every family at the school at once.
+                </p>
+              ) : (
+                <UrgentBroadcastList broadcasts={broadcasts} timeZone={timeZone} />
+              )}
+            </section>
+
+            <section className="mt-10">
+              <h2 className="mb-4 text-lg font-medium text-zinc-900">
+                Waiting for approval ({pending.length})
+              </h2>
+              {pending.length === 0 ? (
+                <p className="text-sm text-zinc-500">Nothing waiting. You&apos;re all caught up.</p>
+              ) : (
+                <ul className="space-y-4">
+                  {pending.map((event) => (
+                    <ApprovalCard key={event.id} event={event} />
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            {overdueSlips.length > 0 && (
+              <section className="mt-10">
+                <h2 className="mb-4 text-lg font-medium text-zinc-900">
+                  Overdue permission slips ({overdueSlips.length})
+                </h2>
+                <ul className="divide-y divide-zinc-200 rounded-xl border border-red-200 bg-white">
+                  {overdueSlips.map((slip) => (
+                    <li key={slip.slipId} className="px-5 py-3 text-sm">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium text-zinc-800">
+                          {slip.studentName} · {slip.eventTitle}
+                        </span>
+                        <span className="text-red-600">Due {formatEventDay(slip.dueDate)}</span>
+                      </div>
+                      <p className="text-xs text-zinc-500">
+                        {slip.className} · Parent: {slip.guardianName} ·{" "}
+                        {slip.remindersSent === 1
+                          ? "1 reminder sent"
+                          : `${slip.remindersSent} reminders sent`}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            {feeWaivers.length > 0 && (
+              <section className="mt-10">
+                <FeeWaiverQueue waivers={feeWaivers} showClass timeZone={timeZone} />
+              </section>
+            )}
+
+            <section className="mt-10">
+              <div className="mb-4 flex items-center justify-between gap-2">
+                <h2 className="text-lg font-medium text-zinc-900">School closures</h2>
+                <button
+                  type="button"
+                  onClick={() => setIsClosuresOpen(true)}
+                  className="rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50"
+                >
+                  Manage closures
+                </button>
+              </div>
+              {upcomingClosures.length === 0 ? (
+                <p className="text-sm text-zinc-500">
+                  No upcoming holidays or PD days. Add them so repeating events skip those days.
+                </p>
+              ) : (
+                <ul className="divide-y divide-zinc-200 rounded-xl border border-zinc-200 bg-white">
+                  {upcomingClosures.map((c) => (
+                    <li key={c.id} className="px-5 py-3 text-sm">
+                      <span className="font-medium text-zinc-800">{c.name}</span>
+                      <span className="text-zinc-500"> · {formatClosureDates(c)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            {recentlyDecided.length > 0 && (
+              <section className="mt-10">
+                <h2 className="mb-4 text-lg font-medium text-zinc-900">Recent decisions</h2>
+                <ul className="divide-y divide-zinc-200 rounded-xl border border-zinc-200 bg-white">
+                  {recentlyDecided.map((event) => (
+                    <li key={event.id} className="px-5 py-3 text-sm">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium text-zinc-800">{event.title}</span>
+                        <span
+                          className={
+                            event.approvalStatus === "approved"
+                              ? "text-emerald-600"
+                              : "text-red-600"
+                          }
+                        >
+                          {event.approvalStatus === "approved" ? "Approved" : "Rejected"}
+                          {event.decidedAt &&
+                            ` ${new Date(event.decidedAt).toLocaleDateString("en-US", {
+                              month: "short",
+                              day: "numeric",
+                              timeZone,
+                            })}`}
+                        </span>
+                      </div>
+                      <p className="text-xs text-zinc-500">
+                        {event.classNames.join(", ")} · {formatEventDay(event.startAt)}
+                      </p>
+                      {event.approvalComment && (
+                        <p className="mt-1 text-xs text-zinc-600">{event.approvalComment}</p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+          </>
+        )}
+      </main>
+
+      {schoolId && schoolName && (
+        <SchoolClosuresModal
+          schools={[{ id: schoolId, name: schoolName }]}
+          closures={closures}
+          timeZone={timeZone}
+          isOpen={isClosuresOpen}
+          onClose={() => setIsClosuresOpen(false)}
+        />
+      )}
+      {schoolId && schoolName && (
+        <UrgentBroadcastModal
+          schools={[{ id: schoolId, name: schoolName }]}
+          isOpen={isBroadcastOpen}
+          onClose={() => setIsBroadcastOpen(false)}
+        />
+      )}
+    </div>
+  );
+}
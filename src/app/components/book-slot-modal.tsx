@@ -8,6 +8,8 @@ import type { InterviewSlotSerialized } from "@/lib/interview-slots";
 interface BookSlotModalProps {
   slot: InterviewSlotSerialized;
   className: string;
+  /** School time zone; the slot time is shown on the school's clock */
+  timeZone: string;
   students: ClassStudentSerialized[];
   /** Student IDs that already have a slot in this class */
   studentIdsWithSlot: string[];
@@ -25,6 +27,7 @@ interface BookSlotModalProps {
 export function BookSlotModal({
   slot,
   className,
+  timeZone,
   students,
   studentIdsWithSlot,
   isOpen,
@@ -71,11 +74,13 @@ export function BookSlotModal({
   const timeStr = start.toLocaleTimeString("en-US", {
     hour: "numeric",
     minute: "2-digit",
+    timeZone,
   });
   const dateStr = start.toLocaleDateString("en-US", {
     weekday: "short",
     month: "short",
     day: "numeric",
+    timeZone,
   });
 
   return (
@@ -0,0 +1,159 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import {
+  regenerateCalendarFeedAction,
+  revokeCalendarFeedAction,
+} from "@/app/actions";
+
+interface CalendarFeedPanelProps {
+  /** Current subscription URL, or null when the feed is turned off */
+  feedUrl: string | null;
+}
+
+/**
+ * Lets a user turn on, copy, regenerate or turn off their private calendar
+ * subscription link (for Google, Apple or Outlook calendars).
+ */
+export function CalendarFeedPanel({ feedUrl }: CalendarFeedPanelProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [url, setUrl] = useState(feedUrl);
+  const [expanded, setExpanded] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function handleRegenerate() {
+    if (
+      url &&
+      !confirm(
+        "Create a new link? Calendars subscribed with the current link will stop updating."
+      )
+    ) {
+      return;
+    }
+    setError(null);
+    startTransition(async () => {
+      const result = await regenerateCalendarFeedAction();
+      if (result.success) {
+        setUrl(result.url);
+        setExpanded(true);
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    });
+  }
+
+  function handleRevoke() {
+    if (
+      !confirm(
+        "Turn off your calendar link? Subscribed calendars will stop updating."
+      )
+    ) {
+      return;
+    }
+    setError(null);
+    startTransition(async () => {
+      const result = await revokeCalendarFeedAction();
+      if (result.success) {
+        setUrl(null);
+        router.refresh();
+      } else {
+        setError(result.error ?? "Failed to turn off calendar link");
+      }
+    });
+  }
+
+  async function handleCopy() {
+    if (!url) return;
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setCopied(false);
+    }
+  }
+
+  return (
+    <div className="mb-4 rounded-xl border border-zinc-200 bg-white p-4 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="text-sm font-medium text-zinc-900">
+            Subscribe in your calendar app
+          </h3>
+          <p className="mt-0.5 text-xs text-zinc-500">
+            {url
+              ? "Your events and booked interviews sync to Google, Apple or Outlook calendar."
+              : "Get a private link that keeps Google, Apple or Outlook calendar up to date."}
+          </p>
+        </div>
+        {url ? (
+          <button
+            type="button"
+            onClick={() => setExpanded((v) => !v)}
+            className="rounded-lg border border-zinc-300 bg-white px-3 py-1.5 text-sm font-medium text-zinc-700 transition-colors hover:bg-zinc-50"
+          >
+            {expanded ? "Hide link" : "Show link"}
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={handleRegenerate}
+            disabled={isPending}
+            className="rounded-lg bg-red-600 px-3 py-1.5 text-sm font-medium text-white transition-colors hover:bg-red-700 disabled:opacity-50"
+          >
+            {isPending ? "Creating…" : "Get calendar link"}
+          </button>
+        )}
+      </div>
+
+      {url && expanded && (
+        <div className="mt-3 space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              readOnly
+              value={url}
+              onFocus={(e) => e.target.select()}
+              className="min-w-0 flex-1 rounded-lg border border-zinc-300 bg-zinc-50 px-3 py-1.5 font-mono text-xs text-zinc-700"
+              aria-label="Calendar subscription link"
+            />
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="rounded-lg bg-zinc-100 px-3 py-1.5 text-sm font-medium text-zinc-800 transition-colors hover:bg-zinc-200"
+            >
+              {copied ? "Copied!" : "Copy"}
+            </button>
+          </div>
+          <p className="text-xs text-zinc-500">
+            Keep this link private - anyone with it can see your calendar.
+          </p>
+          <div className="flex gap-3 text-sm">
+            <button
+              type="button"
+              onClick={handleRegenerate}
+              disabled={isPending}
+              className="font-medium text-zinc-600 hover:text-zinc-900 disabled:opacity-50"
+            >
+              Regenerate link
+            </button>
+            <button
+              type="button"
+              onClick={handleRevoke}
+              disabled={isPending}
+              className="font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+            >
+              Turn off
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,385 @@
+"use client";
+
+import { getEventOccurrenceDates, getOccurrenceTimes } from "@/lib/recurrence";
+import type {
+  CalendarEventStatus,
+  RecurrenceOverride,
+  RecurrenceRule,
+} from "@/lib/db/types";
+import type { InterviewSlotSerialized } from "@/lib/interview-slots";
+import type { SchoolClosureSerialized } from "@/lib/school-closures";
+import { CLOSURE_KIND_LABELS, expandClosureDates } from "@/lib/closure-dates";
+import { addDaysToDate, toZonedLocal } from "@/lib/timezone";
+
+export type CalendarViewMode = "month" | "week" | "day" | "agenda";
+
+const VIEW_LABELS: Record<CalendarViewMode, string> = {
+  month: "Month",
+  week: "Week",
+  day: "Day",
+  agenda: "Agenda",
+};
+
+/** Days shown per page of the agenda view */
+const AGENDA_DAYS = 30;
+
+/** One thing on the calendar: an event occurrence, an interview slot or a day the school is closed */
+export interface CalendarItem {
+  key: string;
+  kind: "event" | "interview" | "closure";
+  /** Event id, interview slot id or closure id */
+  id: string;
+  title: string;
+  /** Class name, who the interview is with, or the kind of closure */
+  subtitle?: string;
+  /** School-local YYYY-MM-DDTHH:mm:ss */
+  startAt: string;
+  endAt: string;
+  allDay: boolean;
+  status?: CalendarEventStatus;
+  /** Open interview slot nobody has booked */
+  isOpen?: boolean;
+}
+
+interface CalendarItemEvent {
+  id: string;
+  classId?: string | null;
+  title: string;
+  startAt: string;
+  endAt: string;
+  occurrenceDates?: string[];
+  recurrence?: RecurrenceRule;
+  recurrenceExceptions?: string[];
+  recurrenceOverrides?: RecurrenceOverride[];
+  closureDates?: string[];
+  status: CalendarEventStatus;
+}
+
+export interface CalendarInterviewSlot {
+  slot: InterviewSlotSerialized;
+  title: string;
+  subtitle?: string;
+  /** Slot times are UTC; they're shown on this school's clock */
+  timeZone: string;
+}
+
+/** Every occurrence of the events, one item per date, on the school's clock */
+export function eventsToCalendarItems(
+  events: CalendarItemEvent[],
+  classNames?: Map<string, string>
+): CalendarItem[] {
+  return events.flatMap((event) =>
+    getEventOccurrenceDates(event).map((date) => {
+      const { startAt, endAt } = getOccurrenceTimes(event, date);
+      return {
+        key: `event-${event.id}-${date}`,
+        kind: "event" as const,
+        id: event.id,
+        title: event.title,
+        subtitle: event.classId ? classNames?.get(event.classId) : undefined,
+        startAt,
+        endAt,
+        allDay: startAt.endsWith("T00:00:00") && endAt.endsWith("T23:59:59"),
+        status: event.status,
+      };
+    })
+  );
+}
+
+export function interviewSlotsToCalendarItems(slots: CalendarInterviewSlot[]): CalendarItem[] {
+  return slots.map(({ slot, title, subtitle, timeZone }) => ({
+    key: `interview-${slot.id}`,
+    kind: "interview" as const,
+    id: slot.id,
+    title,
+    subtitle,
+    startAt: toZonedLocal(new Date(slot.startAt), timeZone),
+    endAt: toZonedLocal(new Date(slot.endAt), timeZone),
+    allDay: false,
+    isOpen: !slot.isClaimed,
+  }));
+}
+
+/** One all-day item per closed day */
+export function closuresToCalendarItems(closures: SchoolClosureSerialized[]): CalendarItem[] {
+  return closures.flatMap((closure) =>
+    expandClosureDates([closure]).map((date) => ({
+      key: `closure-${closure.id}-${date}`,
+      kind: "closure" as const,
+      id: closure.id,
+      title: closure.name,
+      subtitle: CLOSURE_KIND_LABELS[closure.kind],
+      startAt: `${date}T00:00:00`,
+      endAt: `${date}T23:59:59`,
+      allDay: true,
+    }))
+  );
+}
+
+function compareItems(a: CalendarItem, b: CalendarItem): number {
+  if ((a.kind === "closure") !== (b.kind === "closure")) return a.kind === "closure" ? -1 : 1;
+  if (a.allDay !== b.allDay) return a.allDay ? -1 : 1;
+  return a.startAt.localeCompare(b.startAt) || a.title.localeCompare(b.title);
+}
+
+/** First day (Sunday) of the week containing the date */
+function getWeekStart(date: string): string {
+  return addDaysToDate(date, -new Date(`${date}T12:00:00`).getDay());
+}
+
+/** Dates covered by the view around the anchor date */
+function getViewDates(view: CalendarViewMode, anchor: string): string[] {
+  if (view === "day") return [anchor];
+  const start = view === "week" ? getWeekStart(anchor) : anchor;
+  const length = view === "week" ? 7 : AGENDA_DAYS;
+  return Array.from({ length }, (_, i) => addDaysToDate(start, i));
+}
+
+/** Moves the anchor date one page forward or back */
+export function stepCalendarDate(view: CalendarViewMode, anchor: string, direction: 1 | -1): string {
+  if (view === "month") {
+    const [year, month] = anchor.split("-").map(Number);
+    const d = new Date(Date.UTC(year, month - 1 + direction, 1));
+    return d.toISOString().slice(0, 10);
+  }
+  const step = view === "day" ? 1 : view === "week" ? 7 : AGENDA_DAYS;
+  return addDaysToDate(anchor, step * direction);
+}
+
+function formatDay(date: string, options: Intl.DateTimeFormatOptions): string {
+  return new Date(`${date}T12:00:00`).toLocaleDateString("en-US", options);
+}
+
+/** Heading for the page being shown, e.g. "Oct 18 – Oct 24, 2026" */
+export function getCalendarTitle(view: CalendarViewMode, anchor: string): string {
+  if (view === "month") {
+    return formatDay(anchor, { month: "long", year: "numeric" });
+  }
+  if (view === "day") {
+    return formatDay(anchor, { weekday: "long", month: "long", day: "numeric", year: "numeric" });
+  }
+  const dates = getViewDates(view, anchor);
+  return `${formatDay(dates[0], { month: "short", day: "numeric" })} – ${formatDay(
+    dates[dates.length - 1],
+    { month: "short", day: "numeric", year: "numeric" }
+  )}`;
+}
+
+function formatTime(local: string): string {
+  const [h, m] = local.slice(11, 16).split(":").map(Number);
+  return new Date(2000, 0, 1, h, m).toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Keyboard shortcuts for a calendar: arrows page back and forward, T jumps to today,
+ * and M/W/D/A switch views. Ignored while typing in a field.
+ */
+export function handleCalendarKeyDown(
+  e: React.KeyboardEvent,
+  view: CalendarViewMode,
+  anchor: string,
+  today: string,
+  onChange: (view: CalendarViewMode, anchor: string) => void
+) {
+  const target = e.target as HTMLElement;
+  if (
+    e.altKey ||
+    e.ctrlKey ||
+    e.metaKey ||
+    ["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName)
+  ) {
+    return;
+  }
+  const views: Record<string, CalendarViewMode> = {
+    m: "month",
+    w: "week",
+    d: "day",
+    a: "agenda",
+  };
+  const key = e.key.toLowerCase();
+  if (e.key === "ArrowLeft" || e.key === "ArrowRight") {
+    onChange(view, stepCalendarDate(view, anchor, e.key === "ArrowLeft" ? -1 : 1));
+  } else if (key === "t") {
+    onChange(view, today);
+  } else if (views[key]) {
+    onChange(views[key], anchor);
+  } else {
+    return;
+  }
+  e.preventDefault();
+}
+
+export function CalendarViewSwitcher({
+  view,
+  onChange,
+}: {
+  view: CalendarViewMode;
+  onChange: (view: CalendarViewMode) => void;
+}) {
+  return (
+    <div className="inline-flex rounded-lg border border-zinc-300 bg-white p-0.5" role="group" aria-label="Calendar view">
+      {(Object.keys(VIEW_LABELS) as CalendarViewMode[]).map((mode) => (
+        <button
+          key={mode}
+          type="button"
+          onClick={() => onChange(mode)}
+          aria-pressed={view === mode}
+          title={`${VIEW_LABELS[mode]} (${mode[0].toUpperCase()})`}
+          className={`rounded-md px-3 py-1.5 text-xs font-medium ${
+            view === mode ? "bg-red-600 text-white" : "text-zinc-600 hover:bg-zinc-50"
+          }`}
+        >
+          {VIEW_LABELS[mode]}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function CalendarItemButton({
+  item,
+  onClick,
+  compact,
+}: {
+  item: CalendarItem;
+  onClick: (item: CalendarItem) => void;
+  compact?: boolean;
+}) {
+  if (item.kind === "closure") {
+    return (
+      <div className="rounded-lg bg-zinc-100 px-2 py-1.5 text-xs text-zinc-600">
+        <span className="block font-medium">No school</span>
+        <span className={`block ${compact ? "truncate" : ""}`}>
+          {item.title}
+        </span>
+      </div>
+    );
+  }
+  const colors =
+    item.kind === "interview"
+      ? item.isOpen
+        ? "border-dashed border-sky-300 bg-white text-sky-800 hover:bg-sky-50"
+        : "border-sky-200 bg-sky-50 text-sky-900 hover:bg-sky-100"
+      : item.status === "cancelled"
+        ? "border-zinc-200 bg-zinc-50 text-zinc-400 line-through hover:bg-zinc-100"
+        : "border-amber-200 bg-amber-50 text-amber-900 hover:bg-amber-100";
+  const time = item.allDay ? "All day" : `${formatTime(item.startAt)} – ${formatTime(item.endAt)}`;
+
+  return (
+    <button
+      type="button"
+      onClick={() => onClick(item)}
+      className={`w-full rounded-lg border px-2 py-1.5 text-left text-xs transition-colors ${colors}`}
+    >
+      <span className="block font-medium">{time}</span>
+      <span className={`block ${compact ? "truncate" : ""}`}>
+        {item.title}
+        {item.status && item.status !== "scheduled" && item.status !== "cancelled" && ` (${item.status})`}
+      </span>
+      {item.subtitle && (
+        <span className={`block opacity-75 ${compact ? "truncate" : ""}`}>{item.subtitle}</span>
+      )}
+    </button>
+  );
+}
+
+/**
+ * Week, day and agenda layouts of the calendar. Events (every recurring occurrence) and
+ * interview slots are listed per day in time order, after any closure and all-day items.
+ */
+export function CalendarTimeView({
+  view,
+  anchor,
+  today,
+  items,
+  onItemClick,
+}: {
+  view: Exclude<CalendarViewMode, "month">;
+  anchor: string;
+  today: string;
+  items: CalendarItem[];
+  onItemClick: (item: CalendarItem) => void;
+}) {
+  const dates = getViewDates(view, anchor);
+  const itemsByDate = new Map<string, CalendarItem[]>();
+  for (const item of items) {
+    const date = item.startAt.slice(0, 10);
+    if (!itemsByDate.has(date)) itemsByDate.set(date, []);
+    itemsByDate.get(date)!.push(item);
+  }
+  for (const dayItems of itemsByDate.values()) dayItems.sort(compareItems);
+
+  if (view === "agenda") {
+    const daysWithItems = dates.filter((d) => itemsByDate.has(d));
+    if (daysWithItems.length === 0) {
+      return (
+        <div className="rounded-xl border border-zinc-200 bg-white p-8 text-center text-sm text-zinc-600">
+          Nothing scheduled in these {AGENDA_DAYS} days.
+        </div>
+      );
+    }
+    return (
+      <ol className="divide-y divide-zinc-200 rounded-xl border border-zinc-200 bg-white">
+        {daysWithItems.map((date) => (
+          <li key={date} className="flex flex-col gap-2 p-4 sm:flex-row sm:gap-6">
+            <h3
+              className={`shrink-0 text-sm font-medium sm:w-36 ${
+                date === today ? "text-red-600" : "text-zinc-900"
+              }`}
+            >
+              {date === today ? "Today" : formatDay(date, { weekday: "short", month: "short", day: "numeric" })}
+            </h3>
+            <div className="flex-1 space-y-2">
+              {itemsByDate.get(date)!.map((item) => (
+                <CalendarItemButton key={item.key} item={item} onClick={onItemClick} />
+              ))}
+            </div>
+          </li>
+        ))}
+      </ol>
+    );
+  }
+
+  return (
+    <div
+      className={`grid overflow-hidden rounded-xl border border-zinc-200 bg-white ${
+        view === "week" ? "grid-cols-1 sm:grid-cols-7" : "grid-cols-1"
+      }`}
+    >
+      {dates.map((date) => {
+        const dayItems = itemsByDate.get(date) ?? [];
+        const isToday = date === today;
+        return (
+          <div
+            key={date}
+            className={`min-h-[120px] border-b border-zinc-100 p-2 sm:border-r sm:last:border-r-0 ${
+              isToday ? "bg-amber-50/80" : "bg-white"
+            }`}
+          >
+            <h3 className={`mb-2 text-xs font-medium ${isToday ? "text-red-600" : "text-zinc-500"}`}>
+              {formatDay(date, view === "week"
+                ? { weekday: "short", day: "numeric" }
+                : { weekday: "long", month: "long", day: "numeric" })}
+            </h3>
+            <div className="space-y-1.5">
+              {dayItems.map((item) => (
+                <CalendarItemButton
+                  key={item.key}
+                  item={item}
+                  onClick={onItemClick}
+                  compact={view === "week"}
+                />
+              ))}
+              {dayItems.length === 0 && view === "day" && (
+                <p className="py-6 text-center text-sm text-zinc-500">Nothing scheduled.</p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
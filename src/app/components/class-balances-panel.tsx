@@ -0,0 +1,264 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { recordLedgerEntryAction, voidLedgerEntryAction } from "@/app/actions";
+import type { ClassBalanceReport } from "@/lib/family-ledger";
+import type { LedgerEntryKind, LedgerPaymentMethod } from "@/lib/db/types";
+import { LedgerStatement, describeBalance, formatMoney } from "./ledger-statement";
+
+function RecordEntryForm({
+  report,
+  studentId,
+  onDone,
+}: {
+  report: ClassBalanceReport;
+  studentId: string;
+  onDone: () => void;
+}) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [kind, setKind] = useState<LedgerEntryKind>("payment");
+  const [amount, setAmount] = useState("");
+  const [eventId, setEventId] = useState(report.events[0]?.id ?? "");
+  const [method, setMethod] = useState<LedgerPaymentMethod>("cash");
+  const [note, setNote] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const takesMethod = kind === "payment" || kind === "refund";
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    startTransition(async () => {
+      const res = await recordLedgerEntryAction({
+        classId: report.classId,
+        studentId,
+        eventId: eventId || undefined,
+        kind,
+        amount: Number(amount),
+        method: takesMethod ? method : undefined,
+        note,
+      });
+      if (res.success) {
+        setAmount("");
+        setNote("");
+        onDone();
+        router.refresh();
+      } else if (res.error) {
+        setError(res.error);
+      }
+    });
+  }
+
+  const inputClass =
+    "h-9 rounded-lg border border-zinc-300 bg-white px-2 text-sm text-zinc-900 focus:border-red-500 focus:outline-none focus:ring-1 focus:ring-red-500";
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2 border-t border-zinc-100 bg-zinc-50/50 px-3 py-3">
+      <div className="flex flex-wrap items-end gap-2">
+        <label className="flex flex-col gap-1 text-xs text-zinc-500">
+          Record
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as LedgerEntryKind)}
+            className={inputClass}
+          >
+            <option value="payment">Payment</option>
+            <option value="credit">Credit</option>
+            <option value="refund">Refund</option>
+            <option value="charge">Charge</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-zinc-500">
+          Amount ($)
+          <input
+            type="number"
+            min="0.01"
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            required
+            className={`${inputClass} w-24`}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-zinc-500">
+          For
+          <select value={eventId} onChange={(e) => setEventId(e.target.value)} className={inputClass}>
+            {report.events.map((event) => (
+              <option key={event.id} value={event.id}>
+                {event.title}
+              </option>
+            ))}
+            <option value="">Account (no event)</option>
+          </select>
+        </label>
+        {takesMethod && (
+          <label className="flex flex-col gap-1 text-xs text-zinc-500">
+            Method
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value as LedgerPaymentMethod)}
+              className={inputClass}
+            >
+              <option value="cash">Cash</option>
+              <option value="cheque">Cheque</option>
+              <option value="other">Other</option>
+            </select>
+          </label>
+        )}
+        <label className="flex min-w-[10rem] flex-1 flex-col gap-1 text-xs text-zinc-500">
+          Note
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            maxLength={200}
+            placeholder={eventId ? "Optional" : "What is this for?"}
+            className={inputClass}
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={isPending || !amount}
+          className="h-9 rounded-lg bg-red-600 px-4 text-sm font-medium text-white hover:bg-red-700 disabled:pointer-events-none disabled:opacity-50"
+        >
+          {isPending ? "Saving..." : "Save"}
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </form>
+  );
+}
+
+/**
+ * Outstanding balances for one class: who still owes money (or is owed some back), each
+ * family's statement, and a form to record payments handed in at school.
+ */
+export function ClassBalancesPanel({ report }: { report: ClassBalanceReport }) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [showAll, setShowAll] = useState(false);
+  const [expandedStudentId, setExpandedStudentId] = useState<string | null>(null);
+  const [recordingStudentId, setRecordingStudentId] = useState<string | null>(null);
+  const [voidingId, setVoidingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const unsettled = report.students
+    .filter((s) => s.balance !== 0)
+    .sort((a, b) => b.balance - a.balance);
+  const shown = showAll ? report.students : unsettled;
+
+  function handleVoid(entryId: string) {
+    if (!confirm("Void this entry? It will no longer count towards the balance.")) return;
+    setError(null);
+    setVoidingId(entryId);
+    startTransition(async () => {
+      const res = await voidLedgerEntryAction(entryId);
+      setVoidingId(null);
+      if (res.success) {
+        router.refresh();
+      } else if (res.error) {
+        setError(res.error);
+      }
+    });
+  }
+
+  return (
+    <div className="overflow-hidden rounded-xl border border-zinc-200 bg-white">
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b border-zinc-200 bg-zinc-50 px-4 py-3">
+        <div>
+          <h3 className="font-medium text-zinc-900">{report.className}</h3>
+          <p className="text-xs text-zinc-500">
+            {formatMoney(report.totalOutstanding)} outstanding
+            {report.totalCredit > 0 && ` · ${formatMoney(report.totalCredit)} owed back to families`}
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-zinc-600">
+          <input
+            type="checkbox"
+            checked={showAll}
+            onChange={(e) => setShowAll(e.target.checked)}
+            className="h-4 w-4 rounded border-zinc-300 text-red-600 focus:ring-red-500"
+          />
+          Show all students
+        </label>
+      </div>
+      {error && <p className="px-4 pt-2 text-sm text-red-600">{error}</p>}
+      {shown.length === 0 ? (
+        <p className="px-4 py-3 text-sm text-zinc-500">Every family is paid up.</p>
+      ) : (
+        <ul className="divide-y divide-zinc-100">
+          {shown.map((ledger) => (
+            <li key={ledger.studentId}>
+              <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-2">
+                <button
+                  type="button"
+                  onClick={() =>
+                    setExpandedStudentId(
+                      expandedStudentId === ledger.studentId ? null : ledger.studentId
+                    )
+                  }
+                  className="text-left"
+                >
+                  <span className="font-medium text-zinc-900 hover:underline">
+                    {ledger.studentName}
+                  </span>
+                  {ledger.events.some((e) => e.balance > 0) && (
+                    <span className="block text-xs text-zinc-500">
+                      {ledger.events
+                        .filter((e) => e.balance > 0)
+                        .map((e) => `${e.eventTitle} ${formatMoney(e.balance)}`)
+                        .join(" · ")}
+                    </span>
+                  )}
+                </button>
+                <div className="flex items-center gap-3">
+                  <span
+                    className={`text-sm font-medium ${
+                      ledger.balance > 0
+                        ? "text-amber-700"
+                        : ledger.balance < 0
+                          ? "text-emerald-700"
+                          : "text-zinc-600"
+                    }`}
+                  >
+                    {describeBalance(ledger.balance)}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setExpandedStudentId(ledger.studentId);
+                      setRecordingStudentId(
+                        recordingStudentId === ledger.studentId ? null : ledger.studentId
+                      );
+                    }}
+                    className="rounded-lg border border-zinc-300 bg-white px-3 py-1 text-sm font-medium text-zinc-700 hover:bg-zinc-50"
+                  >
+                    Record
+                  </button>
+                </div>
+              </div>
+              {expandedStudentId === ledger.studentId && (
+                <div className="border-t border-zinc-100">
+                  <LedgerStatement
+                    ledger={ledger}
+                    timeZone={report.timeZone}
+                    onVoid={handleVoid}
+                    voidingId={isPending ? voidingId : null}
+                  />
+                  {recordingStudentId === ledger.studentId && (
+                    <RecordEntryForm
+                      report={report}
+                      studentId={ledger.studentId}
+                      onDone={() => setRecordingStudentId(null)}
+                    />
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
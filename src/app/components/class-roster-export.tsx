@@ -0,0 +1,71 @@
+"use client";
+
+import { useState } from "react";
+
+/**
+ * Download links for a class's roster and payments across its events. Leave the dates empty
+ * for every event, or set them to cover one term.
+ */
+export function ClassRosterExport({ classId }: { classId: string }) {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [confidential, setConfidential] = useState(false);
+
+  function href(format: "csv" | "pdf") {
+    const params = new URLSearchParams({ format });
+    if (from) params.set("from", from);
+    if (to) params.set("to", to);
+    if (confidential) params.set("confidential", "1");
+    return `/api/class/${classId}/roster?${params}`;
+  }
+
+  return (
+    <details className="text-sm font-normal text-zinc-600">
+      <summary className="cursor-pointer font-medium text-zinc-700">Export roster</summary>
+      <div className="mt-2 flex flex-wrap items-end gap-2">
+        <label className="flex flex-col gap-1 text-xs text-zinc-500">
+          From
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="h-8 rounded-lg border border-zinc-300 bg-white px-2 text-sm text-zinc-900"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-zinc-500">
+          To
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="h-8 rounded-lg border border-zinc-300 bg-white px-2 text-sm text-zinc-900"
+          />
+        </label>
+        <label className="flex h-8 items-center gap-1.5 text-xs text-zinc-600">
+          <input
+            type="checkbox"
+            checked={confidential}
+            onChange={(e) => setConfidential(e.target.checked)}
+            className="h-4 w-4 rounded border-zinc-300 text-red-600 focus:ring-red-500"
+          />
+          Include fee assistance (confidential)
+        </label>
+        <a
+          href={href("csv")}
+          className="rounded-lg border border-zinc-300 bg-white px-3 py-1.5 font-medium text-zinc-700 hover:bg-zinc-50"
+        >
+          CSV
+        </a>
+        <a
+          href={href("pdf")}
+          className="rounded-lg border border-zinc-300 bg-white px-3 py-1.5 font-medium text-zinc-700 hover:bg-zinc-50"
+        >
+          PDF
+        </a>
+      </div>
+      <p className="mt-1 text-xs text-zinc-500">
+        Every event with a permission slip or payment. Leave the dates empty to include them all.
+      </p>
+    </details>
+  );
+}
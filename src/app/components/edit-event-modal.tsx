@@ -3,27 +3,44 @@
 import { useState, useTransition, useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { updateEventAction, deleteEventAction, uploadEventPermissionFormAction } from "@/app/actions";
-import type { CalendarEventSerialized } from "@/lib/teacher-dashboard";
+import type { CalendarEventSerialized, TeacherClassSerialized } from "@/lib/teacher-dashboard";
+import { getEventOccurrenceDates } from "@/lib/recurrence";
+import {
+  RecurrenceEditor,
+  defaultRecurrenceRule,
+  type RecurrenceValue,
+} from "./recurrence-editor";
+import { EventScheduleModal, type EventScheduleAction } from "./event-schedule-modal";
+import { SaveEventTemplateModal } from "./save-event-template-modal";
+import { VolunteerRolesEditor } from "./volunteer-roles-editor";
+import { EventAudiencePicker, type EventAudience } from "./event-audience-picker";
+import { SlipStampLayoutEditor } from "./slip-stamp-layout-editor";
+import { FormFieldsEditor } from "./form-fields-editor";
+import { SlipEscalationEditor } from "./slip-escalation-editor";
+import type { VolunteerRoleInput } from "@/lib/event-volunteers";
+import type { PermissionFormFieldInput } from "@/lib/permission-forms";
+import type { SlipEscalation } from "@/lib/db/types";
 
 interface EditEventModalProps {
   event: CalendarEventSerialized | null;
   className?: string;
+  /** The event's class, for choosing which of its students the event is for */
+  classInfo?: TeacherClassSerialized;
   isOpen: boolean;
   onClose: () => void;
   /** Called when event is deleted (e.g. to close permission slip modal) */
   onDeleted?: (eventId: string) => void;
 }
 
+/** Splits a floating local time (school clock) without shifting it through UTC */
 function parseDateTime(iso: string): { date: string; time: string } {
-  const d = new Date(iso);
-  const date = d.toISOString().slice(0, 10);
-  const time = d.toTimeString().slice(0, 5);
-  return { date, time };
+  return { date: iso.slice(0, 10), time: iso.slice(11, 16) || "00:00" };
 }
 
 export function EditEventModal({
   event,
   className,
+  classInfo,
   isOpen,
   onClose,
   onDeleted,
@@ -40,15 +57,25 @@ export function EditEventModal({
   const [isRecurring, setIsRecurring] = useState(false);
   const [occurrenceDates, setOccurrenceDates] = useState<string[]>([]);
   const [newDate, setNewDate] = useState("");
+  const [repeatMode, setRepeatMode] = useState<"dates" | "rule">("dates");
+  const [recurrenceValue, setRecurrenceValue] = useState<RecurrenceValue | null>(null);
   const [costPerOccurrence, setCostPerOccurrence] = useState("");
   const [isPending, startTransition] = useTransition();
   const [error, setError] = useState<string | null>(null);
   const [isUploadingForm, setIsUploadingForm] = useState(false);
   const [hasPermissionForm, setHasPermissionForm] = useState(false);
   const [hasFileSelected, setHasFileSelected] = useState(false);
+  const [requireResign, setRequireResign] = useState(false);
   const [hasSeparateDueDate, setHasSeparateDueDate] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [permissionSlipDueDate, setPermissionSlipDueDate] = useState("");
+  const [capacity, setCapacity] = useState("");
+  const [volunteerRoles, setVolunteerRoles] = useState<VolunteerRoleInput[]>([]);
+  const [formFields, setFormFields] = useState<PermissionFormFieldInput[]>([]);
+  const [slipEscalation, setSlipEscalation] = useState<SlipEscalation>({});
+  const [scheduleAction, setScheduleAction] = useState<EventScheduleAction | null>(null);
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+  const [audience, setAudience] = useState<EventAudience>({ studentIds: null, groupId: null });
   const router = useRouter();
 
   useEffect(() => {
@@ -66,6 +93,16 @@ export function EditEventModal({
       setRequiresPermissionSlip(event.requiresPermissionSlip ?? false);
       setIsRecurring(recurring);
       setOccurrenceDates(event.occurrenceDates ?? []);
+      setRepeatMode(event.recurrence ? "rule" : "dates");
+      setRecurrenceValue(
+        event.recurrence
+          ? {
+              rule: event.recurrence,
+              exceptions: event.recurrenceExceptions ?? [],
+              overrides: event.recurrenceOverrides ?? [],
+            }
+          : null
+      );
       setCost(
         !recurring && event.cost != null && event.cost > 0
           ? String(event.cost)
@@ -78,13 +115,32 @@ export function EditEventModal({
       );
       setHasPermissionForm(event.hasPermissionForm ?? false);
       setHasFileSelected(false);
+      setRequireResign(false);
       setHasSeparateDueDate(Boolean(event.permissionSlipDueDate));
       setPermissionSlipDueDate(event.permissionSlipDueDate ?? start.date);
+      setCapacity(event.capacity != null ? String(event.capacity) : "");
+      setVolunteerRoles(event.volunteerRoles ?? []);
+      setFormFields(event.permissionFormFields ?? []);
+      setSlipEscalation(event.slipEscalation ?? {});
+      setAudience({
+        studentIds: event.targetStudentIds ?? null,
+        groupId: event.targetGroupId ?? null,
+      });
       setError(null);
       /* eslint-enable react-hooks/set-state-in-effect */
     }
   }, [isOpen, event]);
 
+  const usesRule = isRecurring && repeatMode === "rule" && recurrenceValue !== null;
+  const effectiveDates = usesRule
+    ? getEventOccurrenceDates({
+        startAt: `${recurrenceValue.rule.startDate}T00:00:00`,
+        recurrence: recurrenceValue.rule,
+        recurrenceExceptions: recurrenceValue.exceptions,
+        recurrenceOverrides: recurrenceValue.overrides,
+      })
+    : occurrenceDates;
+
   function addOccurrenceDate() {
     if (newDate && !occurrenceDates.includes(newDate)) {
       setOccurrenceDates([...occurrenceDates, newDate].sort());
@@ -132,6 +188,7 @@ export function EditEventModal({
     setError(null);
     const formData = new FormData();
     formData.append("pdf", file);
+    if (hasPermissionForm && requireResign) formData.append("requireResign", "true");
     const { success, error: err } = await uploadEventPermissionFormAction(event.id, formData);
     setIsUploadingForm(false);
     if (success) {
@@ -152,7 +209,11 @@ export function EditEventModal({
 
   async function handleDelete() {
     if (!event) return;
-    if (!confirm("Are you sure you want to delete this event? This cannot be undone.")) {
+    if (
+      !confirm(
+        "Are you sure you want to delete this event? This cannot be undone. Once families have signed or paid, the event can only be cancelled."
+      )
+    ) {
       return;
     }
     setIsDeleting(true);
@@ -173,7 +234,7 @@ export function EditEventModal({
     if (!event) return;
     setError(null);
 
-    if (isRecurring && occurrenceDates.length < 2) {
+    if (isRecurring && effectiveDates.length < 2) {
       setError("Recurring events need at least 2 dates");
       return;
     }
@@ -187,7 +248,7 @@ export function EditEventModal({
       return;
     }
 
-    const firstDate = isRecurring ? occurrenceDates[0] : startDate;
+    const firstDate = isRecurring ? effectiveDates[0] : startDate;
     const startAt = `${firstDate}T${startTime}:00`;
     const endAt = isRecurring
       ? `${firstDate}T${endTime}:00`
@@ -204,7 +265,7 @@ export function EditEventModal({
           : requiresPermissionSlip
             ? null
             : undefined;
-      dates = occurrenceDates;
+      dates = effectiveDates;
       costNum = undefined;
     } else {
       costNum =
@@ -224,15 +285,41 @@ export function EditEventModal({
       endAt,
       requiresPermissionSlip,
       permissionSlipDueDate: (requiresPermissionSlip || costNum != null || costPerOccNum != null) && hasSeparateDueDate ? (permissionSlipDueDate || null) : null,
+      capacity: (requiresPermissionSlip || costNum != null || costPerOccNum != null) && capacity.trim() ? parseInt(capacity, 10) : null,
+      volunteerRoles,
+      // Unticking the slip hides the questions but keeps them for if it's ticked again
+      ...(requiresPermissionSlip && { permissionFormFields: formFields }),
+      slipEscalation: requiresPermissionSlip || costNum != null || costPerOccNum != null ? slipEscalation : null,
     };
+    const initialTargets = event.targetStudentIds ?? null;
+    if (
+      JSON.stringify(audience.studentIds?.slice().sort() ?? null) !==
+        JSON.stringify(initialTargets?.slice().sort() ?? null) ||
+      audience.groupId !== (event.targetGroupId ?? null)
+    ) {
+      if (audience.studentIds !== null && audience.studentIds.length === 0) {
+        setError("Pick at least one student");
+        return;
+      }
+      updatePayload.targetStudentIds = audience.studentIds;
+      updatePayload.targetGroupId = audience.groupId;
+    }
     if (isRecurring) {
       updatePayload.costPerOccurrence = costPerOccNum ?? null;
       updatePayload.occurrenceDates = dates ?? null;
       updatePayload.cost = null;
+      if (usesRule) {
+        updatePayload.recurrence = recurrenceValue.rule;
+        updatePayload.recurrenceExceptions = recurrenceValue.exceptions;
+        updatePayload.recurrenceOverrides = recurrenceValue.overrides;
+      } else {
+        updatePayload.recurrence = null;
+      }
     } else {
       updatePayload.cost = costNum ?? null;
       updatePayload.costPerOccurrence = null;
       updatePayload.occurrenceDates = null;
+      updatePayload.recurrence = null;
     }
 
     startTransition(async () => {
@@ -263,14 +350,14 @@ export function EditEventModal({
         {className && (
           <p className="mt-1 text-sm text-zinc-500">{className}</p>
         )}
-        {isRecurring && occurrenceDates.length > 0 && (
+        {isRecurring && effectiveDates.length > 0 && (
           <div className="mt-3 rounded-lg border border-amber-200 bg-amber-50 p-3">
             <p className="text-xs font-medium text-amber-800">
-              All {occurrenceDates.length} occurrence date
-              {occurrenceDates.length !== 1 ? "s" : ""}
+              All {effectiveDates.length} occurrence date
+              {effectiveDates.length !== 1 ? "s" : ""}
             </p>
             <div className="mt-2 flex flex-wrap gap-1.5">
-              {occurrenceDates.map((d) => (
+              {effectiveDates.map((d) => (
                 <span
                   key={d}
                   className="inline-flex rounded-md bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-900"
@@ -373,9 +460,39 @@ export function EditEventModal({
                       {isUploadingForm ? "Uploading..." : hasPermissionForm ? "Replace form" : "Upload form"}
                     </button>
                   </div>
+                  {hasPermissionForm && hasFileSelected && (
+                    <label className="mt-3 flex cursor-pointer items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={requireResign}
+                        onChange={(e) => setRequireResign(e.target.checked)}
+                        disabled={isUploadingForm || isPending}
+                        className="h-4 w-4 rounded border-zinc-300 text-red-600 focus:ring-red-500"
+                      />
+                      <span className="text-sm text-zinc-700">
+                        Ask parents who already signed to sign the new form
+                      </span>
+                    </label>
+                  )}
                   <p className="mt-2 text-xs text-zinc-500">
-                    Parents will download this PDF to sign and return.
+                    Parents sign online and their signature is stamped onto this PDF.
+                    {hasPermissionForm && " Replacing it lets parents know the form changed."}
                   </p>
+                  {event && hasPermissionForm && (
+                    <SlipStampLayoutEditor
+                      key={event.id}
+                      eventId={event.id}
+                      layout={event.permissionFormStampLayout}
+                      disabled={isUploadingForm || isPending}
+                    />
+                  )}
+                  <div className="mt-4 border-t border-zinc-200 pt-3">
+                    <FormFieldsEditor
+                      value={formFields}
+                      onChange={setFormFields}
+                      disabled={isUploadingForm || isPending}
+                    />
+                  </div>
                 </div>
               </>
             )}
@@ -388,7 +505,7 @@ export function EditEventModal({
                     onChange={(e) => {
                       setHasSeparateDueDate(e.target.checked);
                       if (e.target.checked && !permissionSlipDueDate) {
-                        setPermissionSlipDueDate(isRecurring && occurrenceDates.length > 0 ? occurrenceDates[0] : startDate);
+                        setPermissionSlipDueDate(isRecurring && effectiveDates.length > 0 ? effectiveDates[0] : startDate);
                       }
                     }}
                     disabled={isPending}
@@ -413,6 +530,32 @@ export function EditEventModal({
                     />
                   </div>
                 )}
+                <SlipEscalationEditor
+                  value={slipEscalation}
+                  onChange={setSlipEscalation}
+                  disabled={isPending}
+                />
+                <div>
+                  <label htmlFor="edit-event-capacity" className="mb-1 block text-sm font-medium text-zinc-700">
+                    Spots available (optional)
+                  </label>
+                  <input
+                    id="edit-event-capacity"
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={capacity}
+                    onChange={(e) => setCapacity(e.target.value)}
+                    placeholder="Unlimited"
+                    disabled={isPending}
+                    className="h-10 w-full rounded-lg border border-zinc-300 bg-white px-3 text-zinc-900 placeholder:text-zinc-400 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+                  />
+                  {capacity.trim() && (
+                    <p className="mt-0.5 text-xs text-zinc-500">
+                      Adding spots moves families up from the waitlist in the order they submitted.
+                    </p>
+                  )}
+                </div>
               </div>
             )}
           </div>
@@ -433,54 +576,95 @@ export function EditEventModal({
           </label>
           {isRecurring && (
             <div>
-              <label className="mb-1 block text-sm font-medium text-zinc-700">
-                Occurrence dates
-              </label>
-              <div className="flex gap-2">
-                <input
-                  type="date"
-                  value={newDate}
-                  onChange={(e) => setNewDate(e.target.value)}
+              <div className="mb-3 inline-flex rounded-lg bg-zinc-100 p-1 text-sm">
+                <button
+                  type="button"
+                  onClick={() => {
+                    // Switching away from a rule keeps its current dates as a fixed list
+                    if (usesRule) setOccurrenceDates(effectiveDates);
+                    setRepeatMode("dates");
+                  }}
                   disabled={isPending}
-                  className="h-10 flex-1 rounded-lg border border-zinc-300 bg-white px-3 text-zinc-900 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
-                />
+                  className={`rounded-md px-3 py-1 font-medium ${repeatMode === "dates" ? "bg-white text-zinc-900 shadow-sm" : "text-zinc-600"}`}
+                >
+                  Pick dates
+                </button>
                 <button
                   type="button"
-                  onClick={addOccurrenceDate}
-                  disabled={isPending || !newDate}
-                  className="rounded-lg border border-zinc-300 bg-white px-4 py-2 text-sm font-medium text-zinc-700 disabled:opacity-50"
+                  onClick={() => {
+                    setRepeatMode("rule");
+                    if (!recurrenceValue) {
+                      setRecurrenceValue({
+                        rule: defaultRecurrenceRule(occurrenceDates[0] ?? startDate),
+                        exceptions: [],
+                        overrides: [],
+                      });
+                    }
+                  }}
+                  disabled={isPending}
+                  className={`rounded-md px-3 py-1 font-medium ${repeatMode === "rule" ? "bg-white text-zinc-900 shadow-sm" : "text-zinc-600"}`}
                 >
-                  Add
+                  Repeat on a schedule
                 </button>
               </div>
-              {occurrenceDates.length > 0 && (
-                <div className="mt-2 flex flex-wrap gap-2">
-                  {occurrenceDates.map((d) => (
-                    <span
-                      key={d}
-                      className="inline-flex items-center gap-1 rounded-lg bg-zinc-100 px-2.5 py-1 text-sm text-zinc-800"
+              {repeatMode === "rule" && recurrenceValue ? (
+                <RecurrenceEditor
+                  value={recurrenceValue}
+                  onChange={setRecurrenceValue}
+                  disabled={isPending}
+                />
+              ) : (
+                <>
+                  <label className="mb-1 block text-sm font-medium text-zinc-700">
+                    Occurrence dates
+                  </label>
+                  <div className="flex gap-2">
+                    <input
+                      type="date"
+                      value={newDate}
+                      onChange={(e) => setNewDate(e.target.value)}
+                      disabled={isPending}
+                      className="h-10 flex-1 rounded-lg border border-zinc-300 bg-white px-3 text-zinc-900 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+                    />
+                    <button
+                      type="button"
+                      onClick={addOccurrenceDate}
+                      disabled={isPending || !newDate}
+                      className="rounded-lg border border-zinc-300 bg-white px-4 py-2 text-sm font-medium text-zinc-700 disabled:opacity-50"
                     >
-                      {new Date(d + "T12:00:00").toLocaleDateString("en-US", {
-                        month: "short",
-                        day: "numeric",
-                        year: "numeric",
-                      })}
-                      <button
-                        type="button"
-                        onClick={() => removeOccurrenceDate(d)}
-                        disabled={isPending}
-                        className="text-zinc-500"
-                        aria-label="Remove"
-                      >
-                        ×
-                      </button>
-                    </span>
-                  ))}
-                </div>
+                      Add
+                    </button>
+                  </div>
+                  {occurrenceDates.length > 0 && (
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {occurrenceDates.map((d) => (
+                        <span
+                          key={d}
+                          className="inline-flex items-center gap-1 rounded-lg bg-zinc-100 px-2.5 py-1 text-sm text-zinc-800"
+                        >
+                          {new Date(d + "T12:00:00").toLocaleDateString("en-US", {
+                            month: "short",
+                            day: "numeric",
+                            year: "numeric",
+                          })}
+                          <button
+                            type="button"
+                            onClick={() => removeOccurrenceDate(d)}
+                            disabled={isPending}
+                            className="text-zinc-500"
+                            aria-label="Remove"
+                          >
+                            ×
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  <p className="mt-1 text-xs text-zinc-500">
+                    Add at least 2 dates. Same time applies to each.
+                  </p>
+                </>
               )}
-              <p className="mt-1 text-xs text-zinc-500">
-                Add at least 2 dates. Same time applies to each.
-              </p>
             </div>
           )}
           <div>
@@ -505,9 +689,9 @@ export function EditEventModal({
               disabled={isPending}
               className="h-10 w-full rounded-lg border border-zinc-300 bg-white px-3 text-zinc-900 placeholder:text-zinc-400 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
             />
-            {isRecurring && occurrenceDates.length > 0 && costPerOccurrence && !Number.isNaN(parseFloat(costPerOccurrence)) && parseFloat(costPerOccurrence) > 0 && (
+            {isRecurring && effectiveDates.length > 0 && costPerOccurrence && !Number.isNaN(parseFloat(costPerOccurrence)) && parseFloat(costPerOccurrence) > 0 && (
               <p className="mt-0.5 text-xs text-zinc-500">
-                Total: ${(parseFloat(costPerOccurrence) * occurrenceDates.length).toFixed(2)} ({occurrenceDates.length} dates × ${parseFloat(costPerOccurrence).toFixed(2)})
+                Total: ${(parseFloat(costPerOccurrence) * effectiveDates.length).toFixed(2)} ({effectiveDates.length} dates × ${parseFloat(costPerOccurrence).toFixed(2)})
               </p>
             )}
           </div>
@@ -561,6 +745,20 @@ export function EditEventModal({
               />
             </div>
           </div>
+          {classInfo && classInfo.students.length > 0 && (
+            <EventAudiencePicker
+              students={classInfo.students}
+              groups={classInfo.groups}
+              value={audience}
+              onChange={setAudience}
+              disabled={isPending}
+            />
+          )}
+          <VolunteerRolesEditor
+            value={volunteerRoles}
+            onChange={setVolunteerRoles}
+            disabled={isPending}
+          />
           {error && <p className="text-sm text-red-600">{error}</p>}
           <div className="flex flex-col gap-3 pt-2">
             <div className="flex gap-3">
@@ -580,6 +778,55 @@ export function EditEventModal({
                 {isPending ? "Saving..." : "Save"}
               </button>
             </div>
+            <div className="flex flex-wrap gap-2">
+              {event?.status === "scheduled" ? (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => setScheduleAction("cancel")}
+                    disabled={isPending || isDeleting}
+                    className="flex-1 rounded-lg border border-zinc-300 px-3 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50"
+                  >
+                    Cancel event
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setScheduleAction("postpone")}
+                    disabled={isPending || isDeleting}
+                    className="flex-1 rounded-lg border border-zinc-300 px-3 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50"
+                  >
+                    Postpone
+                  </button>
+                </>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => setScheduleAction("reinstate")}
+                  disabled={isPending || isDeleting}
+                  className="flex-1 rounded-lg border border-zinc-300 px-3 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50"
+                >
+                  Reinstate
+                </button>
+              )}
+              {!isRecurring && (
+                <button
+                  type="button"
+                  onClick={() => setScheduleAction("reschedule")}
+                  disabled={isPending || isDeleting}
+                  className="flex-1 rounded-lg border border-zinc-300 px-3 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50"
+                >
+                  Move to new date
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => setIsSavingTemplate(true)}
+                disabled={isPending || isDeleting}
+                className="flex-1 rounded-lg border border-zinc-300 px-3 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50"
+              >
+                Save as template
+              </button>
+            </div>
             <button
               type="button"
               onClick={handleDelete}
@@ -591,6 +838,17 @@ export function EditEventModal({
           </div>
         </form>
       </div>
+      <EventScheduleModal
+        event={event}
+        action={scheduleAction}
+        onClose={() => setScheduleAction(null)}
+        onDone={onClose}
+      />
+      <SaveEventTemplateModal
+        event={event}
+        isOpen={isSavingTemplate}
+        onClose={() => setIsSavingTemplate(false)}
+      />
     </>
   );
 }
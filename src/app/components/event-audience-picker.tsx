@@ -0,0 +1,98 @@
+"use client";
+
+import type { StudentGroup } from "@/lib/db/types";
+import type { ClassStudentSerialized } from "@/lib/teacher-dashboard";
+
+export interface EventAudience {
+  /** null = the whole class */
+  studentIds: string[] | null;
+  groupId: string | null;
+}
+
+interface EventAudiencePickerProps {
+  students: ClassStudentSerialized[];
+  groups: StudentGroup[];
+  value: EventAudience;
+  onChange: (value: EventAudience) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Chooses who an event is for: the whole class, one of its groups, or hand-picked students.
+ * Only the chosen students' parents get slips and see the event.
+ */
+export function EventAudiencePicker({
+  students,
+  groups,
+  value,
+  onChange,
+  disabled,
+}: EventAudiencePickerProps) {
+  const mode = value.studentIds === null ? "class" : value.groupId ?? "custom";
+
+  function handleModeChange(next: string) {
+    if (next === "class") {
+      onChange({ studentIds: null, groupId: null });
+    } else if (next === "custom") {
+      onChange({ studentIds: value.studentIds ?? [], groupId: null });
+    } else {
+      const group = groups.find((g) => g.id === next);
+      onChange({ studentIds: group?.studentIds ?? [], groupId: group ? next : null });
+    }
+  }
+
+  function toggleStudent(studentId: string) {
+    const current = value.studentIds ?? [];
+    const studentIds = current.includes(studentId)
+      ? current.filter((id) => id !== studentId)
+      : [...current, studentId];
+    // Changing a group's students turns it into a custom pick
+    onChange({ studentIds, groupId: null });
+  }
+
+  return (
+    <div>
+      <label htmlFor="event-audience" className="mb-1 block text-sm font-medium text-zinc-700">
+        Who&apos;s it for
+      </label>
+      <select
+        id="event-audience"
+        value={mode}
+        onChange={(e) => handleModeChange(e.target.value)}
+        disabled={disabled}
+        className="h-10 w-full rounded-lg border border-zinc-300 bg-white px-3 text-zinc-900 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+      >
+        <option value="class">Whole class</option>
+        {groups.map((g) => (
+          <option key={g.id} value={g.id}>
+            {g.name} ({g.studentIds.length})
+          </option>
+        ))}
+        <option value="custom">Pick students…</option>
+      </select>
+      {value.studentIds !== null && (
+        <>
+          <ul className="mt-2 max-h-40 space-y-1 overflow-y-auto rounded-lg border border-zinc-200 p-2">
+            {students.map((s) => (
+              <li key={s.id}>
+                <label className="flex cursor-pointer items-center gap-2 text-sm text-zinc-700">
+                  <input
+                    type="checkbox"
+                    checked={value.studentIds?.includes(s.id) ?? false}
+                    onChange={() => toggleStudent(s.id)}
+                    disabled={disabled}
+                    className="h-4 w-4 rounded border-zinc-300 text-red-600 focus:ring-red-500"
+                  />
+                  {s.name}
+                </label>
+              </li>
+            ))}
+          </ul>
+          <p className="mt-0.5 text-xs text-zinc-500">
+            Only these students&apos; parents get a slip and see the event.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
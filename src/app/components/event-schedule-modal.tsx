@@ -0,0 +1,230 @@
+"use client";
+
+import { useState, useTransition, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { changeEventScheduleAction } from "@/app/actions";
+import type { CalendarEventSerialized } from "@/lib/teacher-dashboard";
+
+export type EventScheduleAction = "cancel" | "postpone" | "reschedule" | "reinstate";
+
+interface EventScheduleModalProps {
+  event: CalendarEventSerialized | null;
+  action: EventScheduleAction | null;
+  onClose: () => void;
+  /** Called after the change is saved */
+  onDone?: () => void;
+}
+
+const COPY: Record<EventScheduleAction, { title: string; submit: string; help: string }> = {
+  cancel: {
+    title: "Cancel event",
+    submit: "Cancel event",
+    help: "The event stays on the calendar marked as cancelled. Families who already paid are listed as owed a refund.",
+  },
+  postpone: {
+    title: "Postpone event",
+    submit: "Postpone",
+    help: "Parents see the event as postponed until you pick a new date.",
+  },
+  reschedule: {
+    title: "Move to a new date",
+    submit: "Reschedule",
+    help: "Signed slips and payments carry over to the new date.",
+  },
+  reinstate: {
+    title: "Reinstate event",
+    submit: "Reinstate",
+    help: "The event goes back to its scheduled date.",
+  },
+};
+
+export function EventScheduleModal({
+  event,
+  action,
+  onClose,
+  onDone,
+}: EventScheduleModalProps) {
+  const router = useRouter();
+  const [reason, setReason] = useState("");
+  const [date, setDate] = useState("");
+  const [startTime, setStartTime] = useState("09:00");
+  const [endTime, setEndTime] = useState("10:00");
+  const [isAllDay, setIsAllDay] = useState(false);
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (event && action) {
+      /* eslint-disable react-hooks/set-state-in-effect -- Reset form state when modal opens */
+      setReason("");
+      setDate(event.startAt.slice(0, 10));
+      setStartTime(event.startAt.slice(11, 16));
+      setEndTime(event.endAt.slice(11, 16));
+      setIsAllDay(
+        event.startAt.endsWith("T00:00:00") && event.endAt.endsWith("T23:59:59")
+      );
+      setError(null);
+      /* eslint-enable react-hooks/set-state-in-effect */
+    }
+  }, [event, action]);
+
+  if (!event || !action) return null;
+  const copy = COPY[action];
+
+  function handleClose() {
+    if (!isPending) onClose();
+  }
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!event || !action) return;
+    setError(null);
+
+    let input: Parameters<typeof changeEventScheduleAction>[1];
+    if (action === "reschedule") {
+      if (!date) {
+        setError("Please choose a new date");
+        return;
+      }
+      if (!isAllDay && endTime <= startTime) {
+        setError("End time must be after start time");
+        return;
+      }
+      input = {
+        action,
+        startAt: `${date}T${isAllDay ? "00:00" : startTime}:00`,
+        endAt: isAllDay ? `${date}T23:59:59` : `${date}T${endTime}:00`,
+        reason: reason.trim() || undefined,
+      };
+    } else {
+      input = { action, reason: reason.trim() || undefined };
+    }
+
+    startTransition(async () => {
+      const res = await changeEventScheduleAction(event.id, input);
+      if (res.success) {
+        onDone?.();
+        onClose();
+        router.refresh();
+      } else if (res.error) {
+        setError(res.error);
+      }
+    });
+  }
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 z-[60] bg-black/50"
+        aria-hidden="true"
+        onClick={handleClose}
+      />
+      <div className="fixed left-1/2 top-1/2 z-[70] w-[calc(100%-2rem)] max-w-md -translate-x-1/2 -translate-y-1/2 rounded-xl border border-zinc-200 bg-white p-6 shadow-xl">
+        <h2 className="text-lg font-semibold text-zinc-900">{copy.title}</h2>
+        <p className="mt-1 text-sm text-zinc-600">{event.title}</p>
+        <p className="mt-3 text-xs text-zinc-500">
+          {copy.help} Parents will see the change in their inbox.
+        </p>
+        <form onSubmit={handleSubmit} className="mt-4 flex flex-col gap-4">
+          {action === "reschedule" && (
+            <div className="space-y-3">
+              <div>
+                <label htmlFor="reschedule-date" className="mb-1 block text-sm font-medium text-zinc-700">
+                  New date
+                </label>
+                <input
+                  id="reschedule-date"
+                  type="date"
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                  disabled={isPending}
+                  required
+                  className="h-10 w-full rounded-lg border border-zinc-300 px-3 text-zinc-900 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-zinc-700">
+                <input
+                  type="checkbox"
+                  checked={isAllDay}
+                  onChange={(e) => setIsAllDay(e.target.checked)}
+                  disabled={isPending}
+                  className="h-4 w-4 rounded border-zinc-300 text-red-600 focus:ring-red-500"
+                />
+                All day
+              </label>
+              {!isAllDay && (
+                <div className="flex gap-3">
+                  <div className="flex-1">
+                    <label htmlFor="reschedule-start" className="mb-1 block text-sm font-medium text-zinc-700">
+                      Start
+                    </label>
+                    <input
+                      id="reschedule-start"
+                      type="time"
+                      value={startTime}
+                      onChange={(e) => setStartTime(e.target.value)}
+                      disabled={isPending}
+                      className="h-10 w-full rounded-lg border border-zinc-300 px-3 text-zinc-900 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <label htmlFor="reschedule-end" className="mb-1 block text-sm font-medium text-zinc-700">
+                      End
+                    </label>
+                    <input
+                      id="reschedule-end"
+                      type="time"
+                      value={endTime}
+                      onChange={(e) => setEndTime(e.target.value)}
+                      disabled={isPending}
+                      className="h-10 w-full rounded-lg border border-zinc-300 px-3 text-zinc-900 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+          {action !== "reinstate" && (
+            <div>
+              <label htmlFor="schedule-reason" className="mb-1 block text-sm font-medium text-zinc-700">
+                Message to parents (optional)
+              </label>
+              <textarea
+                id="schedule-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                disabled={isPending}
+                rows={3}
+                maxLength={500}
+                placeholder={
+                  action === "cancel"
+                    ? "e.g. The bus company cancelled our booking."
+                    : "e.g. Moved because of the weather forecast."
+                }
+                className="w-full rounded-lg border border-zinc-300 px-3 py-2 text-sm text-zinc-900 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+              />
+            </div>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={handleClose}
+              disabled={isPending}
+              className="flex-1 rounded-lg border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50"
+            >
+              Back
+            </button>
+            <button
+              type="submit"
+              disabled={isPending}
+              className="flex-1 rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50"
+            >
+              {isPending ? "Saving..." : copy.submit}
+            </button>
+          </div>
+        </form>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,91 @@
+import type { CalendarEventStatus, EventApprovalStatus } from "@/lib/db/types";
+
+/** Small pill shown next to cancelled or postponed events. Renders nothing for scheduled events. */
+export function EventStatusBadge({ status }: { status?: CalendarEventStatus }) {
+  if (status === "cancelled") {
+    return (
+      <span className="ml-2 inline-flex rounded-full bg-red-100 px-2 py-0.5 text-xs font-medium text-red-700">
+        Cancelled
+      </span>
+    );
+  }
+  if (status === "postponed") {
+    return (
+      <span className="ml-2 inline-flex rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800">
+        Postponed
+      </span>
+    );
+  }
+  return null;
+}
+
+/** Teacher-facing pill for events waiting on, or refused, principal approval */
+export function ApprovalBadge({ status }: { status?: EventApprovalStatus }) {
+  if (status === "pending") {
+    return (
+      <span className="ml-2 inline-flex rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800">
+        Awaiting approval
+      </span>
+    );
+  }
+  if (status === "rejected") {
+    return (
+      <span className="ml-2 inline-flex rounded-full bg-red-100 px-2 py-0.5 text-xs font-medium text-red-700">
+        Not approved
+      </span>
+    );
+  }
+  return null;
+}
+
+function formatMovedFrom(startAt: string): string {
+  return new Date(startAt).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+/** Notice shown to parents when an event was cancelled, postponed or moved to a new date */
+export function EventStatusBanner({
+  status,
+  reason,
+  rescheduledFrom,
+  refundOwed,
+  refundIssued,
+}: {
+  status: CalendarEventStatus;
+  reason?: string;
+  rescheduledFrom?: string;
+  refundOwed?: number;
+  refundIssued?: boolean;
+}) {
+  if (status === "scheduled" && !rescheduledFrom) return null;
+
+  const heading =
+    status === "cancelled"
+      ? "This event has been cancelled."
+      : status === "postponed"
+        ? "This event has been postponed. Your teacher will share a new date."
+        : `This event has moved. It was originally on ${formatMovedFrom(rescheduledFrom!)}.`;
+
+  return (
+    <div
+      className={`rounded-lg border p-3 text-sm ${
+        status === "cancelled"
+          ? "border-red-200 bg-red-50 text-red-800"
+          : "border-amber-200 bg-amber-50 text-amber-800"
+      }`}
+    >
+      <p className="font-medium">{heading}</p>
+      {reason && <p className="mt-1">{reason}</p>}
+      {refundOwed != null && (
+        <p className="mt-1">
+          {refundIssued
+            ? `Your $${refundOwed.toFixed(2)} has been refunded.`
+            : `You'll be refunded the $${refundOwed.toFixed(2)} you paid.`}
+        </p>
+      )}
+    </div>
+  );
+}
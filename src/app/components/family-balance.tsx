@@ -0,0 +1,68 @@
+"use client";
+
+import type { StudentLedger } from "@/lib/family-ledger";
+import { LedgerStatement, describeBalance, formatMoney } from "./ledger-statement";
+
+interface FamilyBalanceProps {
+  ledgers: StudentLedger[];
+  timeZone: string;
+}
+
+/** What the family owes (or is owed) for trips and other costs, per child */
+export function FamilyBalance({ ledgers, timeZone }: FamilyBalanceProps) {
+  if (ledgers.length === 0) return null;
+  const total = Math.round(ledgers.reduce((sum, l) => sum + l.balance, 0) * 100) / 100;
+
+  return (
+    <div className="mt-8">
+      <div className="mb-4 flex items-center justify-between">
+        <h2 className="text-lg font-medium text-zinc-900">Family balance</h2>
+        <span
+          className={`text-sm font-medium ${
+            total > 0 ? "text-amber-700" : total < 0 ? "text-emerald-700" : "text-zinc-600"
+          }`}
+        >
+          {total > 0
+            ? `You owe ${formatMoney(total)}`
+            : total < 0
+              ? `You're owed ${formatMoney(-total)}`
+              : "All paid up"}
+        </span>
+      </div>
+      <div className="space-y-4">
+        {ledgers.map((ledger) => (
+          <details
+            key={ledger.studentId}
+            className="overflow-hidden rounded-xl border border-zinc-200 bg-white"
+          >
+            <summary className="flex cursor-pointer items-center justify-between gap-2 px-4 py-3">
+              <span className="font-medium text-zinc-900">{ledger.studentName}</span>
+              <span
+                className={`text-sm ${
+                  ledger.balance > 0
+                    ? "text-amber-700"
+                    : ledger.balance < 0
+                      ? "text-emerald-700"
+                      : "text-zinc-600"
+                }`}
+              >
+                {describeBalance(ledger.balance)}
+              </span>
+            </summary>
+            <div className="border-t border-zinc-200">
+              <p className="px-3 py-2 text-xs text-zinc-500">
+                Charged {formatMoney(ledger.totalCharged)} · Paid {formatMoney(ledger.totalPaid)}
+                {ledger.totalCredited > 0 && ` · Credited ${formatMoney(ledger.totalCredited)}`}
+                {ledger.totalRefunded > 0 && ` · Refunded ${formatMoney(ledger.totalRefunded)}`}
+              </p>
+              <LedgerStatement ledger={ledger} timeZone={timeZone} />
+            </div>
+          </details>
+        ))}
+      </div>
+      <p className="mt-2 text-xs text-zinc-500">
+        Amounts paid in person are added by the teacher. If something looks wrong, message them.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { requestFeeWaiverAction } from "@/app/actions";
+import type { FeeWaiverSummary } from "@/lib/fee-waivers";
+
+interface FeeAssistanceRequestProps {
+  slipId: string;
+  /** What this child would owe for the event */
+  cost: number;
+  /** This parent's latest request for the event, if any */
+  request?: FeeWaiverSummary;
+}
+
+/**
+ * Lets a family privately ask for help with an event's cost. Only the teacher and school
+ * office see the request; other families and regular exports never do.
+ */
+export function FeeAssistanceRequest({ slipId, cost, request }: FeeAssistanceRequestProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [isOpen, setIsOpen] = useState(false);
+  const [amount, setAmount] = useState(cost.toFixed(2));
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    startTransition(async () => {
+      const res = await requestFeeWaiverAction(slipId, { amount: Number(amount), message });
+      if (res.success) {
+        setIsOpen(false);
+        setMessage("");
+        router.refresh();
+      } else if (res.error) {
+        setError(res.error);
+      }
+    });
+  }
+
+  if (request?.status === "pending") {
+    return (
+      <p className="rounded-lg border border-zinc-200 bg-zinc-50 px-3 py-2 text-sm text-zinc-600">
+        You asked for help with ${request.requestedAmount.toFixed(2)} of this cost. Only the
+        teacher and school office can see your request.
+      </p>
+    );
+  }
+  if (request?.status === "approved") {
+    return (
+      <div className="rounded-lg border border-emerald-200 bg-emerald-50/50 px-3 py-2 text-sm text-emerald-800">
+        <p>
+          Fee assistance approved: ${(request.approvedAmount ?? 0).toFixed(2)} taken off what
+          you owe.
+        </p>
+        {request.decisionNote && <p className="mt-1 text-zinc-600">{request.decisionNote}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-sm">
+      {request?.status === "denied" && (
+        <div className="mb-2 rounded-lg border border-zinc-200 bg-zinc-50 px-3 py-2 text-zinc-600">
+          <p>Your request for help with this cost wasn&apos;t approved.</p>
+          {request.decisionNote && <p className="mt-1">{request.decisionNote}</p>}
+        </div>
+      )}
+      {!isOpen ? (
+        <button
+          type="button"
+          onClick={() => setIsOpen(true)}
+          className="font-medium text-zinc-600 underline hover:text-zinc-900"
+        >
+          {request?.status === "denied" ? "Ask again" : "Need help with the cost?"}
+        </button>
+      ) : (
+        <form
+          onSubmit={handleSubmit}
+          className="space-y-3 rounded-lg border border-zinc-200 bg-white p-4"
+        >
+          <p className="text-zinc-600">
+            Ask privately for some or all of the cost to be covered. Only the teacher and school
+            office will see this.
+          </p>
+          <label className="flex flex-col gap-1 text-xs text-zinc-500">
+            Amount you need help with ($)
+            <input
+              type="number"
+              min="0.01"
+              step="0.01"
+              max={cost}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              required
+              className="h-9 w-28 rounded-lg border border-zinc-300 bg-white px-2 text-sm text-zinc-900 focus:border-amber-500 focus:outline-none focus:ring-1 focus:ring-amber-500"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-zinc-500">
+            Anything you&apos;d like them to know (optional)
+            <textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              maxLength={1000}
+              rows={3}
+              className="rounded-lg border border-zinc-300 bg-white px-2 py-1.5 text-sm text-zinc-900 focus:border-amber-500 focus:outline-none focus:ring-1 focus:ring-amber-500"
+            />
+          </label>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isPending || !amount}
+              className="rounded-lg bg-amber-600 px-4 py-2 text-sm font-medium text-white hover:bg-amber-700 disabled:pointer-events-none disabled:opacity-50"
+            >
+              {isPending ? "Sending..." : "Send privately"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsOpen(false)}
+              disabled={isPending}
+              className="rounded-lg border border-zinc-300 bg-white px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
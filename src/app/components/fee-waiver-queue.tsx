@@ -0,0 +1,185 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { decideFeeWaiverAction } from "@/app/actions";
+import type { FeeWaiverSerialized } from "@/lib/fee-waivers";
+
+function formatDate(iso: string, timeZone: string): string {
+  return new Date(iso).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone });
+}
+
+function PendingWaiverRow({
+  waiver,
+  showClass,
+  timeZone,
+}: {
+  waiver: FeeWaiverSerialized;
+  showClass: boolean;
+  timeZone: string;
+}) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const maxAmount = waiver.maxAmount ?? waiver.eventCost;
+  const [amount, setAmount] = useState(Math.min(waiver.requestedAmount, maxAmount).toFixed(2));
+  const [note, setNote] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  function decide(decision: "approved" | "denied") {
+    setError(null);
+    startTransition(async () => {
+      const res = await decideFeeWaiverAction(waiver.id, decision, {
+        amount: decision === "approved" ? Number(amount) : undefined,
+        note,
+      });
+      if (res.success) {
+        router.refresh();
+      } else if (res.error) {
+        setError(res.error);
+      }
+    });
+  }
+
+  return (
+    <li className="px-4 py-3">
+      <p className="font-medium text-zinc-900">
+        {waiver.studentName} · {waiver.eventTitle}
+      </p>
+      <p className="text-xs text-zinc-500">
+        {showClass && `${waiver.className} · `}Asked by {waiver.guardianName} on{" "}
+        {formatDate(waiver.createdAt, timeZone)} · ${waiver.requestedAmount.toFixed(2)} of $
+        {waiver.eventCost.toFixed(2)}
+        {maxAmount < waiver.eventCost && ` · $${maxAmount.toFixed(2)} still owed`}
+      </p>
+      {waiver.message && (
+        <p className="mt-2 whitespace-pre-wrap rounded-lg bg-zinc-50 px-3 py-2 text-sm text-zinc-700">
+          {waiver.message}
+        </p>
+      )}
+      <div className="mt-2 flex flex-wrap items-end gap-2">
+        <label className="flex flex-col gap-1 text-xs text-zinc-500">
+          Take off ($)
+          <input
+            type="number"
+            min="0.01"
+            step="0.01"
+            max={maxAmount}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className="h-9 w-24 rounded-lg border border-zinc-300 bg-white px-2 text-sm text-zinc-900"
+          />
+        </label>
+        <label className="flex min-w-[10rem] flex-1 flex-col gap-1 text-xs text-zinc-500">
+          Note to the family (optional)
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            maxLength={1000}
+            className="h-9 rounded-lg border border-zinc-300 bg-white px-2 text-sm text-zinc-900"
+          />
+        </label>
+        <button
+          type="button"
+          onClick={() => decide("approved")}
+          disabled={isPending || !amount}
+          className="h-9 rounded-lg bg-emerald-600 px-4 text-sm font-medium text-white hover:bg-emerald-700 disabled:opacity-50"
+        >
+          Approve
+        </button>
+        <button
+          type="button"
+          onClick={() => decide("denied")}
+          disabled={isPending}
+          className="h-9 rounded-lg border border-zinc-300 bg-white px-4 text-sm font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50"
+        >
+          Decline
+        </button>
+      </div>
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+    </li>
+  );
+}
+
+/**
+ * Private requests for help with trip costs, for the class teacher or school admin to decide.
+ * Whoever decides first settles it for both.
+ */
+export function FeeWaiverQueue({
+  waivers,
+  showClass = false,
+  timeZone,
+}: {
+  waivers: FeeWaiverSerialized[];
+  /** Admins see requests from every class */
+  showClass?: boolean;
+  timeZone: string;
+}) {
+  const pending = waivers.filter((w) => w.status === "pending");
+  const decided = waivers.filter((w) => w.status !== "pending");
+  if (waivers.length === 0) return null;
+
+  return (
+    <div className="overflow-hidden rounded-xl border border-zinc-200 bg-white">
+      <div className="border-b border-zinc-200 bg-zinc-50 px-4 py-3">
+        <h3 className="font-medium text-zinc-900">
+          Fee assistance requests
+          {pending.length > 0 && (
+            <span className="ml-2 rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800">
+              {pending.length} waiting
+            </span>
+          )}
+        </h3>
+        <p className="text-xs text-zinc-500">
+          Confidential. Other families never see these, and they are left out of regular
+          roster exports.
+        </p>
+      </div>
+      {pending.length > 0 ? (
+        <ul className="divide-y divide-zinc-100">
+          {pending.map((waiver) => (
+            <PendingWaiverRow
+              key={waiver.id}
+              waiver={waiver}
+              showClass={showClass}
+              timeZone={timeZone}
+            />
+          ))}
+        </ul>
+      ) : (
+        <p className="px-4 py-3 text-sm text-zinc-500">No requests waiting.</p>
+      )}
+      {decided.length > 0 && (
+        <details className="border-t border-zinc-200">
+          <summary className="cursor-pointer px-4 py-2 text-sm font-medium text-zinc-700">
+            Recently decided ({decided.length})
+          </summary>
+          <ul className="divide-y divide-zinc-100">
+            {decided.map((waiver) => (
+              <li key={waiver.id} className="px-4 py-2 text-sm">
+                <span className="text-zinc-900">
+                  {waiver.studentName} · {waiver.eventTitle}
+                </span>
+                <span
+                  className={`ml-2 ${
+                    waiver.status === "approved" ? "text-emerald-700" : "text-zinc-500"
+                  }`}
+                >
+                  {waiver.status === "approved"
+                    ? `Approved $${(waiver.approvedAmount ?? 0).toFixed(2)}`
+                    : "Declined"}
+                </span>
+                <span className="block text-xs text-zinc-500">
+                  {showClass && `${waiver.className} · `}
+                  {waiver.decidedByName && `By ${waiver.decidedByName}`}
+                  {waiver.decidedAt && ` on ${formatDate(waiver.decidedAt, timeZone)}`}
+                  {waiver.decisionNote && ` · "${waiver.decisionNote}"`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import type { PermissionFormFieldType } from "@/lib/db/types";
+import type { PermissionFormFieldInput } from "@/lib/permission-forms";
+
+interface FormFieldsEditorProps {
+  value: PermissionFormFieldInput[];
+  onChange: (value: PermissionFormFieldInput[]) => void;
+  disabled?: boolean;
+}
+
+const inputClass =
+  "h-10 rounded-lg border border-zinc-300 bg-white px-3 text-zinc-900 placeholder:text-zinc-400 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50";
+
+const TYPE_LABELS: Record<PermissionFormFieldType, string> = {
+  text: "Short answer",
+  checkbox: "Checkbox",
+  choice: "Choice",
+};
+
+/**
+ * Questions parents answer on the permission slip (e.g. "Emergency phone", "Allergies").
+ * Existing questions keep their key so answers already given stay attached after a rename.
+ */
+export function FormFieldsEditor({ value, onChange, disabled }: FormFieldsEditorProps) {
+  function updateField(index: number, patch: Partial<PermissionFormFieldInput>) {
+    onChange(value.map((f, i) => (i === index ? { ...f, ...patch } : f)));
+  }
+
+  return (
+    <div>
+      <p className="mb-1 text-sm font-medium text-zinc-700">Questions for parents</p>
+      {value.length > 0 && (
+        <ul className="mb-2 space-y-3">
+          {value.map((field, i) => (
+            <li key={field.key ?? `new-${i}`} className="space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={field.label}
+                  onChange={(e) => updateField(i, { label: e.target.value })}
+                  placeholder="e.g. Emergency phone number"
+                  maxLength={100}
+                  disabled={disabled}
+                  aria-label="Question"
+                  className={`${inputClass} min-w-0 flex-1`}
+                />
+                <select
+                  value={field.type}
+                  onChange={(e) =>
+                    updateField(i, { type: e.target.value as PermissionFormFieldType })
+                  }
+                  disabled={disabled}
+                  aria-label="Answer type"
+                  className={`${inputClass} w-36`}
+                >
+                  {(Object.keys(TYPE_LABELS) as PermissionFormFieldType[]).map((type) => (
+                    <option key={type} value={type}>
+                      {TYPE_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => onChange(value.filter((_, j) => j !== i))}
+                  disabled={disabled}
+                  className="rounded p-2 text-zinc-500 hover:bg-zinc-100 hover:text-zinc-700 disabled:opacity-50"
+                  aria-label={`Remove ${field.label || "question"}`}
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <path d="M18 6 6 18" />
+                    <path d="m6 6 12 12" />
+                  </svg>
+                </button>
+              </div>
+              {field.type === "choice" && (
+                <input
+                  type="text"
+                  value={(field.options ?? []).join(", ")}
+                  onChange={(e) => updateField(i, { options: e.target.value.split(",") })}
+                  placeholder="Choices, separated by commas (e.g. Yes, No)"
+                  disabled={disabled}
+                  aria-label="Choices"
+                  className={`${inputClass} w-full`}
+                />
+              )}
+              <label className="flex cursor-pointer items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={field.required ?? false}
+                  onChange={(e) => updateField(i, { required: e.target.checked })}
+                  disabled={disabled}
+                  className="h-4 w-4 rounded border-zinc-300 text-red-600 focus:ring-red-500"
+                />
+                <span className="text-xs text-zinc-600">
+                  {field.type === "checkbox" ? "Must be ticked" : "Required"}
+                </span>
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+      <button
+        type="button"
+        onClick={() => onChange([...value, { label: "", type: "text" }])}
+        disabled={disabled || value.length >= 20}
+        className="rounded-lg border border-zinc-300 px-3 py-1.5 text-sm font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50"
+      >
+        Add question
+      </button>
+      {value.length > 0 && (
+        <p className="mt-1 text-xs text-zinc-500">
+          Parents answer these when they complete the slip.
+        </p>
+      )}
+    </div>
+  );
+}
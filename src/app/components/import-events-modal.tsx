@@ -0,0 +1,328 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { previewEventImportAction, importEventsAction } from "@/app/actions";
+import type { TeacherClassSerialized } from "@/lib/teacher-dashboard";
+import type { ImportPreviewRow } from "@/lib/event-import";
+
+interface ImportEventsModalProps {
+  classes: TeacherClassSerialized[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+function formatRowDate(row: ImportPreviewRow): string {
+  if (!row.startAt) return "—";
+  const start = new Date(row.startAt);
+  const end = new Date(row.endAt);
+  const isAllDay =
+    row.startAt.endsWith("T00:00:00") && row.endAt.endsWith("T23:59:59");
+  const date = start.toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+  if (isAllDay) {
+    const sameDay = row.startAt.slice(0, 10) === row.endAt.slice(0, 10);
+    return sameDay
+      ? date
+      : `${date} – ${end.toLocaleDateString(undefined, { month: "short", day: "numeric" })}`;
+  }
+  const time = (d: Date) =>
+    d.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+  return `${date}, ${time(start)} – ${time(end)}`;
+}
+
+export function ImportEventsModal({ classes, isOpen, onClose }: ImportEventsModalProps) {
+  const router = useRouter();
+  const [classId, setClassId] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [rows, setRows] = useState<ImportPreviewRow[] | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(() => new Set());
+  const [result, setResult] = useState<{
+    created: number;
+    failed: { title: string; error: string }[];
+  } | null>(null);
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedClassId = classId || classes[0]?.id || "";
+
+  function handleClose() {
+    if (!isPending) {
+      setClassId("");
+      setFile(null);
+      setRows(null);
+      setSelected(new Set());
+      setResult(null);
+      setError(null);
+      onClose();
+    }
+  }
+
+  function handlePreview(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+
+    if (!file || file.size === 0) {
+      setError("Please select an .ics or .csv file");
+      return;
+    }
+    if (!/\.(ics|csv)$/i.test(file.name)) {
+      setError("File must be .ics or .csv");
+      return;
+    }
+
+    startTransition(async () => {
+      const formData = new FormData();
+      formData.set("file", file);
+      const res = await previewEventImportAction(selectedClassId, formData);
+      if (res.success) {
+        setRows(res.rows);
+        // Pre-select everything that can be imported and isn't already on the calendar
+        setSelected(
+          new Set(
+            res.rows
+              .filter((r) => !r.error && !r.isDuplicate)
+              .map((r) => r.rowNumber)
+          )
+        );
+      } else {
+        setError(res.error);
+      }
+    });
+  }
+
+  function toggleRow(rowNumber: number) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(rowNumber)) next.delete(rowNumber);
+      else next.add(rowNumber);
+      return next;
+    });
+  }
+
+  function handleImport() {
+    if (!rows) return;
+    setError(null);
+    const toImport = rows
+      .filter((r) => selected.has(r.rowNumber) && !r.error)
+      .map((r) => ({
+        title: r.title,
+        description: r.description,
+        startAt: r.startAt,
+        endAt: r.endAt,
+        cost: r.cost,
+        requiresPermissionSlip: r.requiresPermissionSlip,
+      }));
+
+    startTransition(async () => {
+      const res = await importEventsAction(selectedClassId, toImport);
+      if (res.success) {
+        setResult({ created: res.created, failed: res.failed });
+        router.refresh();
+      } else {
+        setError(res.error);
+      }
+    });
+  }
+
+  if (!isOpen) return null;
+
+  const importableCount = rows
+    ? rows.filter((r) => selected.has(r.rowNumber) && !r.error).length
+    : 0;
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 z-40 bg-black/50"
+        aria-hidden="true"
+        onClick={handleClose}
+      />
+      <div className="fixed left-4 right-4 top-4 bottom-4 z-50 mx-auto max-h-[90vh] w-full max-w-3xl overflow-y-auto rounded-xl border border-zinc-200 bg-white p-6 shadow-xl sm:left-1/2 sm:right-auto sm:top-1/2 sm:-translate-x-1/2 sm:-translate-y-1/2 sm:bottom-auto">
+        <h2 className="text-lg font-semibold text-zinc-900">Import events</h2>
+        <p className="mt-1 text-sm text-zinc-600">
+          Bring in PD days, assemblies and pizza days from another calendar.
+        </p>
+
+        {result ? (
+          <div className="mt-6 space-y-4">
+            <p className="text-sm text-zinc-700">
+              Imported {result.created} event{result.created === 1 ? "" : "s"}.
+            </p>
+            {result.failed.length > 0 && (
+              <div className="rounded-lg border border-red-200 bg-red-50 p-3">
+                <p className="text-sm font-medium text-red-800">
+                  {result.failed.length} could not be imported:
+                </p>
+                <ul className="mt-1 list-inside list-disc text-sm text-red-700">
+                  {result.failed.map((f, i) => (
+                    <li key={i}>
+                      {f.title}: {f.error}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <button
+              type="button"
+              onClick={handleClose}
+              className="w-full rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700"
+            >
+              Done
+            </button>
+          </div>
+        ) : rows ? (
+          <div className="mt-6 space-y-4">
+            <div className="overflow-x-auto rounded-lg border border-zinc-200">
+              <table className="min-w-full divide-y divide-zinc-200">
+                <thead className="bg-zinc-50">
+                  <tr>
+                    <th className="w-10 px-3 py-2" />
+                    <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-zinc-500">
+                      Event
+                    </th>
+                    <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-zinc-500">
+                      When
+                    </th>
+                    <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-zinc-500">
+                      Status
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-zinc-200 bg-white">
+                  {rows.map((row) => (
+                    <tr
+                      key={row.rowNumber}
+                      className={row.error ? "bg-red-50/50" : row.isDuplicate ? "bg-amber-50/50" : ""}
+                    >
+                      <td className="px-3 py-2">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(row.rowNumber) && !row.error}
+                          onChange={() => toggleRow(row.rowNumber)}
+                          disabled={isPending || Boolean(row.error)}
+                          aria-label={`Import row ${row.rowNumber}`}
+                          className="h-4 w-4 rounded border-zinc-300 text-red-600 focus:ring-red-500 disabled:opacity-50"
+                        />
+                      </td>
+                      <td className="px-3 py-2 text-sm text-zinc-900">
+                        {row.title || <span className="text-zinc-400">Row {row.rowNumber}</span>}
+                        {(row.cost != null || row.requiresPermissionSlip) && (
+                          <span className="ml-2 text-xs text-zinc-500">
+                            {row.cost != null && `$${row.cost.toFixed(2)}`}
+                            {row.cost != null && row.requiresPermissionSlip && " · "}
+                            {row.requiresPermissionSlip && "Permission slip"}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-sm text-zinc-600">
+                        {formatRowDate(row)}
+                      </td>
+                      <td className="px-3 py-2 text-xs">
+                        {row.error ? (
+                          <span className="text-red-700">{row.error}</span>
+                        ) : row.isDuplicate ? (
+                          <span className="text-amber-700">
+                            Possible duplicate · {row.duplicateReason}
+                          </span>
+                        ) : (
+                          <span className="text-zinc-500">{row.warning ?? "New"}</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={() => {
+                  setRows(null);
+                  setSelected(new Set());
+                }}
+                disabled={isPending}
+                className="flex-1 rounded-lg border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50"
+              >
+                Back
+              </button>
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={isPending || importableCount === 0}
+                className="flex-1 rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50"
+              >
+                {isPending
+                  ? "Importing..."
+                  : `Import ${importableCount} event${importableCount === 1 ? "" : "s"}`}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handlePreview} className="mt-6 flex flex-col gap-4">
+            <div>
+              <label htmlFor="import-class" className="mb-1 block text-sm font-medium text-zinc-700">
+                Class
+              </label>
+              <select
+                id="import-class"
+                value={selectedClassId}
+                onChange={(e) => setClassId(e.target.value)}
+                disabled={isPending}
+                className="h-10 w-full rounded-lg border border-zinc-300 bg-white px-3 text-zinc-900 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+              >
+                {classes.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name} ({c.schoolName})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="import-file" className="mb-1 block text-sm font-medium text-zinc-700">
+                Calendar file
+              </label>
+              <input
+                id="import-file"
+                type="file"
+                accept=".ics,.csv,text/calendar,text/csv"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                disabled={isPending}
+                required
+                className="block w-full text-sm text-zinc-600 file:mr-2 file:rounded-lg file:border-0 file:bg-red-100 file:px-4 file:py-2 file:text-sm file:font-medium file:text-red-800 hover:file:bg-red-200"
+              />
+              <p className="mt-1 text-xs text-zinc-500">
+                .ics from Google, Apple or Outlook, or a CSV with columns Title, Date,
+                and optionally End Date, Start Time, End Time, Description, Cost,
+                Permission Slip.
+              </p>
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex gap-3 pt-2">
+              <button
+                type="button"
+                onClick={handleClose}
+                disabled={isPending}
+                className="flex-1 rounded-lg border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isPending || !file || !selectedClassId}
+                className="flex-1 rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50"
+              >
+                {isPending ? "Reading..." : "Preview"}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </>
+  );
+}
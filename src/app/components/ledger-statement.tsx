@@ -0,0 +1,126 @@
+"use client";
+
+import type { LedgerLine, StudentLedger } from "@/lib/family-ledger";
+
+const KIND_LABELS: Record<LedgerLine["kind"], string> = {
+  charge: "Charge",
+  payment: "Payment",
+  credit: "Credit",
+  refund: "Refund",
+};
+
+const METHOD_LABELS: Record<NonNullable<LedgerLine["method"]>, string> = {
+  cash: "cash",
+  cheque: "cheque",
+  online: "online",
+  other: "other",
+};
+
+/** "$12.50", "-$5.00" */
+export function formatMoney(amount: number): string {
+  return `${amount < 0 ? "-" : ""}$${Math.abs(amount).toFixed(2)}`;
+}
+
+/** "Owes $15.00", "In credit $5.00" or "Paid up" */
+export function describeBalance(balance: number): string {
+  if (balance > 0) return `Owes ${formatMoney(balance)}`;
+  if (balance < 0) return `In credit ${formatMoney(-balance)}`;
+  return "Paid up";
+}
+
+interface LedgerStatementProps {
+  ledger: StudentLedger;
+  timeZone: string;
+  /** Teachers can void entries they recorded by mistake */
+  onVoid?: (entryId: string) => void;
+  voidingId?: string | null;
+}
+
+/**
+ * A student's account, oldest first, with the running balance. Charges and refunds add to
+ * what's owed; payments and credits take it off.
+ */
+export function LedgerStatement({ ledger, timeZone, onVoid, voidingId }: LedgerStatementProps) {
+  if (ledger.lines.length === 0) {
+    return <p className="px-3 py-2 text-sm text-zinc-500">Nothing on this account yet.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-left text-sm">
+        <thead>
+          <tr className="border-b border-zinc-100 bg-zinc-50/50">
+            <th className="px-3 py-2 text-xs font-medium text-zinc-600">Date</th>
+            <th className="px-3 py-2 text-xs font-medium text-zinc-600">For</th>
+            <th className="px-3 py-2 text-xs font-medium text-zinc-600">Type</th>
+            <th className="px-3 py-2 text-right text-xs font-medium text-zinc-600">Amount</th>
+            <th className="px-3 py-2 text-right text-xs font-medium text-zinc-600">Balance</th>
+            {onVoid && <th className="px-3 py-2" />}
+          </tr>
+        </thead>
+        <tbody>
+          {ledger.lines.map((line) => {
+            const adds = line.kind === "charge" || line.kind === "refund";
+            return (
+              <tr key={line.id} className="border-b border-zinc-100 last:border-0">
+                <td className="whitespace-nowrap px-3 py-2 text-zinc-600">
+                  {new Date(line.date).toLocaleDateString("en-US", {
+                    month: "short",
+                    day: "numeric",
+                    year: "numeric",
+                    timeZone,
+                  })}
+                </td>
+                <td className="px-3 py-2 text-zinc-900">
+                  {line.description}
+                  {line.note && <span className="block text-xs text-zinc-500">{line.note}</span>}
+                </td>
+                <td className="px-3 py-2 text-zinc-600">
+                  {KIND_LABELS[line.kind]}
+                  {line.method && ` (${METHOD_LABELS[line.method]})`}
+                  {line.paymentIntentId && (
+                    <>
+                      {" · "}
+                      <a
+                        href={`/api/payments/${line.paymentIntentId}/receipt`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="underline hover:text-zinc-900"
+                      >
+                        Receipt
+                      </a>
+                    </>
+                  )}
+                </td>
+                <td
+                  className={`whitespace-nowrap px-3 py-2 text-right ${
+                    adds ? "text-zinc-900" : "text-emerald-700"
+                  }`}
+                >
+                  {adds ? formatMoney(line.amount) : formatMoney(-line.amount)}
+                </td>
+                <td className="whitespace-nowrap px-3 py-2 text-right text-zinc-600">
+                  {formatMoney(line.balance)}
+                </td>
+                {onVoid && (
+                  <td className="px-3 py-2 text-right">
+                    {line.recorded && (
+                      <button
+                        type="button"
+                        onClick={() => onVoid(line.id)}
+                        disabled={voidingId === line.id}
+                        className="text-xs font-medium text-zinc-500 hover:text-red-600 disabled:opacity-50"
+                      >
+                        {voidingId === line.id ? "Voiding..." : "Void"}
+                      </button>
+                    )}
+                  </td>
+                )}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { sendSlipRemindersAction } from "@/app/actions";
+import type { EventPermissionStatus } from "@/lib/event-permission-slips";
+
+interface OverdueSlipsPanelProps {
+  events: EventPermissionStatus[];
+  onOpenEvent: (eventId: string) => void;
+}
+
+function formatDueDate(date: string): string {
+  return new Date(date + "T12:00:00").toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  });
+}
+
+function formatRemindedAt(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+}
+
+function OverdueEventRow({
+  event,
+  onOpenEvent,
+}: {
+  event: EventPermissionStatus;
+  onOpenEvent: (eventId: string) => void;
+}) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [message, setMessage] = useState<string | null>(null);
+  const outstanding = event.students.filter(
+    (s) => s.status === "pending" || s.status === "no_parent"
+  );
+  const canRemind = outstanding.some((s) => s.status === "pending");
+
+  function handleRemind() {
+    setMessage(null);
+    startTransition(async () => {
+      const res = await sendSlipRemindersAction(event.eventId);
+      if (res.success) {
+        setMessage(`Reminded ${res.reminded} ${res.reminded === 1 ? "family" : "families"}`);
+        router.refresh();
+      } else if (res.error) {
+        setMessage(res.error);
+      }
+    });
+  }
+
+  return (
+    <li className="px-4 py-3">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <button
+            type="button"
+            onClick={() => onOpenEvent(event.eventId)}
+            className="font-medium text-zinc-900 hover:underline"
+          >
+            {event.eventTitle}
+          </button>
+          <p className="text-xs text-zinc-500">
+            {event.className} · Due {formatDueDate(event.dueDate)} · {outstanding.length}{" "}
+            outstanding
+          </p>
+        </div>
+        {canRemind && (
+          <button
+            type="button"
+            onClick={handleRemind}
+            disabled={isPending}
+            className="rounded-lg border border-red-300 bg-white px-3 py-1.5 text-sm font-medium text-red-700 hover:bg-red-50 disabled:opacity-50"
+          >
+            {isPending ? "Sending..." : "Send reminder"}
+          </button>
+        )}
+      </div>
+      {message && <p className="mt-1 text-xs text-zinc-600">{message}</p>}
+      <ul className="mt-2 space-y-1">
+        {outstanding.map((student) => (
+          <li key={student.studentId} className="flex flex-wrap items-center gap-2 text-sm text-zinc-700">
+            <span>{student.studentName}</span>
+            {student.status === "no_parent" ? (
+              <span className="text-xs text-zinc-500">No parent linked</span>
+            ) : student.lastRemindedAt ? (
+              <span className="text-xs text-zinc-500">
+                Reminded {formatRemindedAt(student.lastRemindedAt)}
+              </span>
+            ) : (
+              <span className="text-xs text-zinc-500">Not reminded yet</span>
+            )}
+            {student.overdueFlagged && (
+              <span className="rounded-full bg-red-100 px-2 py-0.5 text-xs font-medium text-red-700">
+                Admin notified
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </li>
+  );
+}
+
+/** Events whose due date has passed with slips or payments still missing */
+export function OverdueSlipsPanel({ events, onOpenEvent }: OverdueSlipsPanelProps) {
+  if (events.length === 0) return null;
+
+  return (
+    <div className="overflow-hidden rounded-xl border border-red-200 bg-white">
+      <h3 className="border-b border-red-200 bg-red-50 px-4 py-3 font-medium text-red-900">
+        Overdue
+      </h3>
+      <ul className="divide-y divide-zinc-100">
+        {events.map((event) => (
+          <OverdueEventRow key={event.eventId} event={event} onOpenEvent={onOpenEvent} />
+        ))}
+      </ul>
+    </div>
+  );
+}
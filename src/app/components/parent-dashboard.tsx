@@ -2,6 +2,11 @@
 
 import { useState, useTransition, useEffect, useMemo } from "react";
 import { useRouter } from "next/navigation";
+import {
+  describeRecurrenceRule,
+  getEventOccurrenceDates,
+  getOccurrenceTimes,
+} from "@/lib/recurrence";
 import Link from "next/link";
 import Image from "next/image";
 import {
@@ -9,12 +14,15 @@ import {
   uploadSignedSlipAction,
   submitPaymentMethodAction,
   unsubmitSlipAction,
+  setVolunteerSignupAction,
 } from "@/app/actions";
 import type {
   ParentClassSerialized,
   CalendarEventSerialized,
 } from "@/lib/parent-dashboard";
 import type { PermissionSlipTask, InboxItem } from "@/lib/event-permission-slips";
+import type { PermissionFormResponses } from "@/lib/db/types";
+import type { VolunteerRoleSummary } from "@/lib/event-volunteers";
 
 import type { ReportCardSerialized } from "@/lib/report-cards";
 import type { ParentInterviewClass } from "@/lib/interview-slots";
@@ -25,6 +33,32 @@ import {
   markInboxItemAsReadAction,
 } from "@/app/actions";
 import { ParentMessageThreadModal } from "./parent-message-thread-modal";
+import { CalendarFeedPanel } from "./calendar-feed-panel";
+import { EventStatusBadge, EventStatusBanner } from "./event-status";
+import { addDaysToDate, getZonedToday } from "@/lib/timezone";
+import { findClosureOn, formatClosureDates } from "@/lib/closure-dates";
+import type { SchoolClosureSerialized } from "@/lib/school-closures";
+import type { ParentUrgentBroadcastSerialized } from "@/lib/urgent-broadcasts";
+import { UrgentBroadcastBanner } from "./urgent-broadcasts";
+import { SignSlipForm } from "./sign-slip-form";
+import { SlipFormFieldInputs } from "./slip-form-fields";
+import { SlipPayment } from "./slip-payment";
+import { FamilyBalance } from "./family-balance";
+import { FeeAssistanceRequest } from "./fee-assistance-request";
+import type { StudentLedger } from "@/lib/family-ledger";
+import { formatFormResponse, hasRequiredAnswers } from "@/lib/permission-form-fields";
+import {
+  CalendarTimeView,
+  CalendarViewSwitcher,
+  closuresToCalendarItems,
+  eventsToCalendarItems,
+  getCalendarTitle,
+  handleCalendarKeyDown,
+  interviewSlotsToCalendarItems,
+  stepCalendarDate,
+  type CalendarInterviewSlot,
+  type CalendarViewMode,
+} from "./calendar-views";
 
 interface ParentDashboardProps {
   userName: string | null;
@@ -35,18 +69,25 @@ interface ParentDashboardProps {
   reportCards: ReportCardSerialized[];
   interviewData: ParentInterviewClass[];
   conversations: ParentConversationSummary[];
+  calendarFeedUrl: string | null;
+  /** Holidays, PD days and other closures at the children's schools */
+  schoolClosures: SchoolClosureSerialized[];
+  /** Urgent school messages, pinned until acknowledged */
+  urgentBroadcasts: ParentUrgentBroadcastSerialized[];
+  /** Charges, payments, credits and refunds per child */
+  familyLedger: StudentLedger[];
+  /** School time zone: event times are on its clock and "today" is its date */
+  timeZone: string;
 }
 
-function formatEventDate(iso: string): string {
+function formatEventDate(iso: string, timeZone: string): string {
   const d = new Date(iso);
-  const today = new Date();
-  const tomorrow = new Date(today);
-  tomorrow.setDate(tomorrow.getDate() + 1);
+  const today = getZonedToday(timeZone);
 
-  if (d.toDateString() === today.toDateString()) {
+  if (iso.slice(0, 10) === today) {
     return `Today at ${d.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })}`;
   }
-  if (d.toDateString() === tomorrow.toDateString()) {
+  if (iso.slice(0, 10) === addDaysToDate(today, 1)) {
     return `Tomorrow at ${d.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })}`;
   }
   return d.toLocaleDateString("en-US", {
@@ -87,35 +128,51 @@ function formatEventTimeRange(startIso: string, endIso: string): string {
 
 const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
+const WAITLISTED_MESSAGE =
+  "This event is full, so you're on the waitlist. If a spot opens up you'll be moved in automatically and we'll let you know in your inbox.";
+
 function CalendarView({
   events,
+  interviewSlots,
+  closures,
+  timeZone,
   onEventClick,
+  onInterviewClick,
 }: {
   events: CalendarEventSerialized[];
+  interviewSlots: CalendarInterviewSlot[];
+  closures: SchoolClosureSerialized[];
+  timeZone: string;
   onEventClick?: (eventId: string) => void;
+  onInterviewClick?: () => void;
 }) {
-  const today = new Date();
-  const [viewDate, setViewDate] = useState(new Date(today.getFullYear(), today.getMonth(), 1));
+  const today = getZonedToday(timeZone);
+  const [view, setView] = useState<CalendarViewMode>("month");
+  const [anchor, setAnchor] = useState(today);
 
-  const year = viewDate.getFullYear();
-  const month = viewDate.getMonth();
-  const monthName = viewDate.toLocaleDateString("en-US", { month: "long", year: "numeric" });
+  function changeView(nextView: CalendarViewMode, nextAnchor: string) {
+    setView(nextView);
+    setAnchor(nextAnchor);
+  }
+
+  // Month grid: the month containing the anchor date
+  const year = Number(anchor.slice(0, 4));
+  const month = Number(anchor.slice(5, 7)) - 1;
 
   const firstDay = new Date(year, month, 1);
   const lastDay = new Date(year, month + 1, 0);
   const startOffset = firstDay.getDay();
   const daysInMonth = lastDay.getDate();
 
-  const prevMonth = () =>
-    setViewDate(new Date(year, month - 1, 1));
-  const nextMonth = () =>
-    setViewDate(new Date(year, month + 1, 1));
+  const prevPage = () => setAnchor(stepCalendarDate(view, anchor, -1));
+  const nextPage = () => setAnchor(stepCalendarDate(view, anchor, 1));
 
   const eventsByDate = new Map<string, CalendarEventSerialized[]>();
   const eventSortKey = (ev: CalendarEventSerialized, cellDateStr: string): number => {
     let timePart = "12:00:00";
-    if (ev.startAt.includes("T")) {
-      const afterT = ev.startAt.slice(11);
+    const { startAt } = getOccurrenceTimes(ev, cellDateStr);
+    if (startAt.includes("T")) {
+      const afterT = startAt.slice(11);
       const match = afterT.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?/);
       if (match) {
         const [, h = "12", m = "00", s] = match;
@@ -127,10 +184,7 @@ function CalendarView({
     return Number.isNaN(ts) ? 0 : ts;
   };
   for (const event of events) {
-    const dates: string[] =
-      event.occurrenceDates && event.occurrenceDates.length > 1
-        ? event.occurrenceDates
-        : [event.startAt.slice(0, 10)];
+    const dates = getEventOccurrenceDates(event);
     for (const dateStr of dates) {
       const d = new Date(dateStr + "T12:00:00");
       if (d.getFullYear() === year && d.getMonth() === month) {
@@ -148,98 +202,289 @@ function CalendarView({
   const allCells = [...leadingEmpty, ...dayNumbers, ...trailingEmpty];
 
   return (
-    <div className="rounded-xl border border-zinc-200 bg-white">
+    <div
+      className="rounded-xl border border-zinc-200 bg-white focus:outline-none"
+      tabIndex={0}
+      aria-label="Calendar. Use the arrow keys to page, T for today, and M, W, D or A to switch views."
+      onKeyDown={(e) => handleCalendarKeyDown(e, view, anchor, today, changeView)}
+    >
       <div className="flex items-center justify-between border-b border-zinc-200 px-4 py-3">
         <button
           type="button"
-          onClick={prevMonth}
+          onClick={prevPage}
           className="rounded p-2 text-zinc-600 hover:bg-zinc-100"
-          aria-label="Previous month"
+          aria-label={`Previous ${view === "agenda" ? "page" : view}`}
         >
           <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
             <path d="m15 18-6-6 6-6" />
           </svg>
         </button>
         <h2 className="text-lg font-semibold text-zinc-900">
-          {monthName}
+          {getCalendarTitle(view, anchor)}
         </h2>
         <button
           type="button"
-          onClick={nextMonth}
+          onClick={nextPage}
           className="rounded p-2 text-zinc-600 hover:bg-zinc-100"
-          aria-label="Next month"
+          aria-label={`Next ${view === "agenda" ? "page" : view}`}
         >
           <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
             <path d="m9 18 6-6-6-6" />
           </svg>
         </button>
       </div>
+      <div className="flex items-center justify-between gap-2 px-4 pt-4">
+        <button
+          type="button"
+          onClick={() => setAnchor(today)}
+          className="rounded-lg border border-zinc-300 bg-white px-3 py-1.5 text-xs font-medium text-zinc-600 hover:bg-zinc-50"
+        >
+          Today
+        </button>
+        <CalendarViewSwitcher view={view} onChange={(v) => changeView(v, anchor)} />
+      </div>
       <div className="p-4">
-        <div className="grid grid-cols-7 gap-px overflow-hidden rounded-lg bg-zinc-200">
-          {WEEKDAYS.map((day) => (
-            <div
-              key={day}
-              className="bg-zinc-100 py-2 text-center text-xs font-medium text-zinc-600"
-            >
-              {day}
-            </div>
-          ))}
-          {allCells.map((cell, i) => {
-            if (cell === null) {
-              return (
-                <div
-                  key={`empty-${i}`}
-                  className="min-h-[80px] bg-zinc-50"
-                />
-              );
-            }
-            const cellDateStr = `${year}-${String(month + 1).padStart(2, "0")}-${String(cell).padStart(2, "0")}`;
-            const dayEventsRaw = eventsByDate.get(cell.toString()) ?? [];
-            const dayEvents = [...dayEventsRaw].sort(
-              (a, b) => eventSortKey(a, cellDateStr) - eventSortKey(b, cellDateStr)
-            );
-            const isToday =
-              year === today.getFullYear() &&
-              month === today.getMonth() &&
-              cell === today.getDate();
-            return (
+        {view === "month" ? (
+          <div className="grid grid-cols-7 gap-px overflow-hidden rounded-lg bg-zinc-200">
+            {WEEKDAYS.map((day) => (
               <div
-                key={cell}
-                className={`min-h-[80px] overflow-y-auto p-1 ${
-                  isToday ? "bg-amber-50/80" : "bg-white"
-                }`}
+                key={day}
+                className="bg-zinc-100 py-2 text-center text-xs font-medium text-zinc-600"
               >
-                <span
-                  className={`inline-flex h-7 w-7 items-center justify-center rounded-full text-sm ${
-                    isToday
-                      ? "bg-red-600 font-medium text-white"
-                      : "text-zinc-900"
+                {day}
+              </div>
+            ))}
+            {allCells.map((cell, i) => {
+              if (cell === null) {
+                return (
+                  <div
+                    key={`empty-${i}`}
+                    className="min-h-[80px] bg-zinc-50"
+                  />
+                );
+              }
+              const cellDateStr = `${year}-${String(month + 1).padStart(2, "0")}-${String(cell).padStart(2, "0")}`;
+              const dayEventsRaw = eventsByDate.get(cell.toString()) ?? [];
+              const dayEvents = [...dayEventsRaw].sort(
+                (a, b) => eventSortKey(a, cellDateStr) - eventSortKey(b, cellDateStr)
+              );
+              const isToday = cellDateStr === today;
+              const closure = findClosureOn(closures, cellDateStr);
+              return (
+                <div
+                  key={cell}
+                  className={`min-h-[80px] overflow-y-auto p-1 ${
+                    isToday ? "bg-amber-50/80" : closure ? "bg-zinc-50" : "bg-white"
                   }`}
                 >
-                  {cell}
-                </span>
-                <div className="mt-1 space-y-1">
-                  {dayEvents.map((ev) => (
-                    <button
-                      key={ev.id}
-                      type="button"
-                      onClick={() => onEventClick?.(ev.id)}
-                      className="w-full truncate rounded bg-amber-100 px-1.5 py-0.5 text-left text-xs text-amber-900 line-clamp-2 transition-colors hover:bg-amber-200"
-                    >
-                      {ev.title}
-                    </button>
-                  ))}
+                  <span
+                    className={`inline-flex h-7 w-7 items-center justify-center rounded-full text-sm ${
+                      isToday
+                        ? "bg-red-600 font-medium text-white"
+                        : "text-zinc-900"
+                    }`}
+                  >
+                    {cell}
+                  </span>
+                  {closure && (
+                    <span className="block truncate px-1.5 text-xs text-zinc-500" title={closure.name}>
+                      No school · {closure.name}
+                    </span>
+                  )}
+                  <div className="mt-1 space-y-1">
+                    {dayEvents.map((ev) => (
+                      <button
+                        key={ev.id}
+                        type="button"
+                        onClick={() => onEventClick?.(ev.id)}
+                        className={`w-full truncate rounded px-1.5 py-0.5 text-left text-xs line-clamp-2 transition-colors ${
+                          ev.status === "cancelled"
+                            ? "bg-zinc-100 text-zinc-400 line-through hover:bg-zinc-200"
+                            : "bg-amber-100 text-amber-900 hover:bg-amber-200"
+                        }`}
+                      >
+                        {ev.title}
+                      </button>
+                    ))}
+                  </div>
                 </div>
-              </div>
-            );
-          })}
-        </div>
+              );
+            })}
+          </div>
+        ) : (
+          <CalendarTimeView
+            view={view}
+            anchor={anchor}
+            today={today}
+            items={[
+              ...eventsToCalendarItems(events),
+              ...interviewSlotsToCalendarItems(interviewSlots),
+              ...closuresToCalendarItems(closures),
+            ]}
+            onItemClick={(item) =>
+              item.kind === "event" ? onEventClick?.(item.id) : onInterviewClick?.()
+            }
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function formatOccurrenceDate(date: string): string {
+  return new Date(date + "T12:00:00").toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+/** Lets a parent choose which dates of a per-date paid event (e.g. pizza days) to sign up for */
+function OccurrenceDatePicker({
+  dates,
+  selected,
+  costPerOccurrence,
+  onChange,
+  disabled,
+}: {
+  dates: string[];
+  selected: string[];
+  costPerOccurrence: number;
+  onChange: (dates: string[]) => void;
+  disabled?: boolean;
+}) {
+  const allSelected = selected.length === dates.length;
+
+  function toggle(date: string) {
+    onChange(
+      selected.includes(date)
+        ? selected.filter((d) => d !== date)
+        : [...selected, date].sort()
+    );
+  }
+
+  return (
+    <div className="rounded-lg border border-zinc-200 bg-zinc-50/50 p-3">
+      <div className="mb-2 flex items-center justify-between">
+        <p className="text-sm font-medium text-zinc-700">
+          Choose dates (${costPerOccurrence.toFixed(2)} each)
+        </p>
+        <button
+          type="button"
+          onClick={() => onChange(allSelected ? [] : [...dates])}
+          disabled={disabled}
+          className="text-xs font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+        >
+          {allSelected ? "Clear all" : "Select all"}
+        </button>
+      </div>
+      <div className="grid grid-cols-2 gap-1.5 sm:grid-cols-3">
+        {dates.map((d) => (
+          <label
+            key={d}
+            className="flex cursor-pointer items-center gap-2 rounded-md border border-zinc-200 bg-white px-2 py-1.5 text-sm text-zinc-700"
+          >
+            <input
+              type="checkbox"
+              checked={selected.includes(d)}
+              onChange={() => toggle(d)}
+              disabled={disabled}
+              className="h-4 w-4 rounded border-zinc-300 text-red-600 focus:ring-red-500"
+            />
+            {formatOccurrenceDate(d)}
+          </label>
+        ))}
       </div>
+      <p className="mt-2 text-sm font-medium text-zinc-800">
+        Total: ${(costPerOccurrence * selected.length).toFixed(2)}
+        <span className="font-normal text-zinc-500">
+          {" "}
+          ({selected.length} of {dates.length} date{dates.length !== 1 ? "s" : ""})
+        </span>
+      </p>
     </div>
   );
 }
 
-function formatSlotDateTime(startAt: string): string {
+/** Volunteer roles the teacher asked for, with sign up / withdraw per role */
+function VolunteerSignupPanel({
+  eventId,
+  roles,
+}: {
+  eventId: string;
+  roles: VolunteerRoleSummary[];
+}) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [updatingRoleId, setUpdatingRoleId] = useState<string | null>(null);
+
+  function handleToggle(role: VolunteerRoleSummary) {
+    if (isPending) return;
+    setUpdatingRoleId(role.roleId);
+    startTransition(async () => {
+      const { success, error } = await setVolunteerSignupAction(
+        eventId,
+        role.roleId,
+        !role.signedUp
+      );
+      setUpdatingRoleId(null);
+      if (success) {
+        router.refresh();
+      } else if (error) {
+        alert(error);
+      }
+    });
+  }
+
+  return (
+    <div className="rounded-lg border border-zinc-200 bg-zinc-50/50 p-3">
+      <p className="mb-2 text-sm font-medium text-zinc-700">Volunteers needed</p>
+      <ul className="space-y-2">
+        {roles.map((role) => {
+          const isFull = role.filled >= role.needed;
+          return (
+            <li key={role.roleId} className="flex items-center justify-between gap-3 text-sm">
+              <span className="text-zinc-700">
+                <span className="font-medium text-zinc-900">{role.name}</span>{" "}
+                <span className="text-zinc-500">
+                  ({role.filled} of {role.needed} filled)
+                </span>
+              </span>
+              {role.signedUp ? (
+                <button
+                  type="button"
+                  onClick={() => handleToggle(role)}
+                  disabled={isPending}
+                  className="rounded-lg border border-zinc-300 bg-white px-3 py-1 text-xs font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50"
+                >
+                  {updatingRoleId === role.roleId ? "Saving..." : "Withdraw"}
+                </button>
+              ) : isFull ? (
+                <span className="text-xs text-zinc-500">Full</span>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => handleToggle(role)}
+                  disabled={isPending}
+                  className="rounded-lg bg-red-600 px-3 py-1 text-xs font-medium text-white hover:bg-red-700 disabled:opacity-50"
+                >
+                  {updatingRoleId === role.roleId ? "Saving..." : "Sign up"}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      {roles.some((r) => r.signedUp) && (
+        <p className="mt-2 text-xs text-emerald-700">
+          Thanks for volunteering! Your teacher can see you&apos;re signed up.
+        </p>
+      )}
+    </div>
+  );
+}
+
+function formatSlotDateTime(startAt: string, timeZone: string): string {
   const d = new Date(startAt);
   return d.toLocaleDateString("en-US", {
     weekday: "short",
@@ -247,6 +492,7 @@ function formatSlotDateTime(startAt: string): string {
     day: "numeric",
     hour: "numeric",
     minute: "2-digit",
+    timeZone,
   });
 }
 
@@ -285,7 +531,7 @@ function ParentInterviewClassSection({
                 <div className="flex items-center gap-2">
                   <span className="text-sm text-zinc-600">
                     {child.claimedSlotStartAt
-                      ? formatSlotDateTime(child.claimedSlotStartAt)
+                      ? formatSlotDateTime(child.claimedSlotStartAt, item.timeZone)
                       : "Slot claimed"}
                   </span>
                   <button
@@ -320,7 +566,7 @@ function ParentInterviewClassSection({
                   </option>
                   {availableSlots.map((s) => (
                     <option key={s.id} value={s.id}>
-                      {formatSlotDateTime(s.startAt)}
+                      {formatSlotDateTime(s.startAt, item.timeZone)}
                     </option>
                   ))}
                 </select>
@@ -344,6 +590,11 @@ export function ParentDashboard({
   reportCards,
   interviewData,
   conversations,
+  calendarFeedUrl,
+  schoolClosures,
+  urgentBroadcasts,
+  familyLedger,
+  timeZone,
 }: ParentDashboardProps) {
   const firstName = userName?.split(/\s+/)[0] ?? "there";
   const [activeTab, setActiveTab] = useState<Tab>("inbox");
@@ -353,6 +604,8 @@ export function ParentDashboard({
   const [openMenuClassId, setOpenMenuClassId] = useState<string | null>(null);
   const [expandedInboxId, setExpandedInboxId] = useState<string | null>(null);
   const [inboxSlipFileSelected, setInboxSlipFileSelected] = useState(false);
+  const [selectedOccurrenceDates, setSelectedOccurrenceDates] = useState<string[]>([]);
+  const [formResponses, setFormResponses] = useState<PermissionFormResponses>({});
   const [readItemIds, setReadItemIds] = useState<Set<string>>(() => new Set());
   const [completedItemIds, setCompletedItemIds] = useState<Set<string>>(
     () => new Set()
@@ -375,6 +628,10 @@ export function ParentDashboard({
       return;
     }
     const item = inboxItems.find((i) => i.id === expandedInboxId);
+    setSelectedOccurrenceDates(
+      item?.selectedOccurrenceDates ?? item?.occurrenceDates ?? []
+    );
+    setFormResponses(item?.formResponses ?? {});
     const isInformational =
       item &&
       !item.requiresPermissionSlip &&
@@ -389,15 +646,28 @@ export function ParentDashboard({
     // eslint-disable-next-line react-hooks/exhaustive-deps -- inboxItems excluded to prevent re-render loop (router.refresh updates it, causing effect to re-run)
   }, [expandedInboxId]);
 
-  async function handlePaymentOnly(slipId: string, paymentMethod: "online" | "cash") {
+  async function handlePaymentOnly(
+    slipId: string,
+    paymentMethod: "online" | "cash",
+    selectedDates?: string[]
+  ) {
     if (uploadingSlipId) return;
+    if (selectedDates && selectedDates.length === 0) {
+      alert("Please choose at least one date");
+      return;
+    }
     setUploadingSlipId(slipId);
     try {
-      const { success, error } = await submitPaymentMethodAction(slipId, paymentMethod);
+      const { success, waitlisted, error } = await submitPaymentMethodAction(
+        slipId,
+        paymentMethod,
+        selectedDates
+      );
       setUploadingSlipId(null);
       if (success) {
         setExpandedInboxId(null);
         router.refresh();
+        if (waitlisted) alert(WAITLISTED_MESSAGE);
       } else if (error) {
         alert(error);
       }
@@ -424,15 +694,25 @@ export function ParentDashboard({
       alert("File is too large. Please use a PDF under 5 MB.");
       return;
     }
+    const item = inboxItems.find((i) => i.id === slipId);
+    if (item?.costPerOccurrence != null) {
+      if (selectedOccurrenceDates.length === 0) {
+        alert("Please choose at least one date");
+        return;
+      }
+      for (const d of selectedOccurrenceDates) formData.append("occurrenceDates", d);
+    }
+    if (item?.formFields) formData.append("formResponses", JSON.stringify(formResponses));
     setUploadingSlipId(slipId);
     startTransition(async () => {
       try {
-        const { success, error } = await uploadSignedSlipAction(slipId, formData);
+        const { success, waitlisted, error } = await uploadSignedSlipAction(slipId, formData);
         setUploadingSlipId(null);
         if (success) {
           form.reset();
           setExpandedInboxId(null);
           router.refresh();
+          if (waitlisted) alert(WAITLISTED_MESSAGE);
         } else if (error) {
           alert(error);
         }
@@ -460,9 +740,12 @@ export function ParentDashboard({
 
   function handleUnsubmit(slipId: string) {
     if (isPending || unsubmittingSlipId) return;
+    const onWaitlist = inboxItems.find((i) => i.id === slipId)?.waitlistPosition != null;
     if (
       !confirm(
-        "Are you sure you want to unsubmit? You'll need to upload a new signed PDF."
+        onWaitlist
+          ? "Leave the waitlist? If you submit again later you'll join the end of the line."
+          : "Are you sure you want to unsubmit? You'll need to upload a new signed PDF."
       )
     )
       return;
@@ -609,6 +892,8 @@ export function ParentDashboard({
       </header>
 
       <main className="mx-auto max-w-4xl px-4 py-8 sm:px-6">
+        <UrgentBroadcastBanner broadcasts={urgentBroadcasts} timeZone={timeZone} />
+
         {/* Inbox tab */}
         {activeTab === "inbox" && (
           <section>
@@ -629,26 +914,60 @@ export function ParentDashboard({
                 </thead>
                 <tbody>
                   {inboxItems.length > 0 ? (
-                    inboxItems.map((item, i) => (
+                    inboxItems.map((item, i) => {
+                      const isOverdue =
+                        item.pastDue &&
+                        item.eventStatus !== "cancelled" &&
+                        item.waitlistPosition == null &&
+                        item.status !== "completed" &&
+                        !completedItemIds.has(item.id);
+                      return (
                       <tr
                         key={item.id}
                         onClick={() => setExpandedInboxId(item.id)}
                         className={`cursor-pointer transition-colors ${
-                          i % 2 === 0
-                            ? "bg-white hover:bg-zinc-50"
-                            : "bg-zinc-50/50 hover:bg-zinc-100/50"
+                          isOverdue
+                            ? "bg-red-50/70 hover:bg-red-50"
+                            : i % 2 === 0
+                              ? "bg-white hover:bg-zinc-50"
+                              : "bg-zinc-50/50 hover:bg-zinc-100/50"
                         }`}
                       >
                         <td className="px-4 py-3">
                           {(() => {
                             const displayStatus =
-                              item.status === "completed" ||
-                              completedItemIds.has(item.id)
-                                ? "completed"
-                                : readItemIds.has(item.id) || item.status === "read"
-                                  ? "read"
-                                  : item.status;
-                            return displayStatus === "completed" ? (
+                              item.changeNotice?.unread && !readItemIds.has(item.id)
+                                ? "updated"
+                                : item.promotedFromWaitlist?.unread && !readItemIds.has(item.id)
+                                  ? "promoted"
+                                  : item.waitlistPosition != null
+                                    ? "waitlisted"
+                                    : item.status === "completed" ||
+                                    completedItemIds.has(item.id)
+                                  ? "completed"
+                                  : isOverdue
+                                    ? "overdue"
+                                  : item.reminder?.unread && !readItemIds.has(item.id)
+                                    ? "reminder"
+                                  : readItemIds.has(item.id) || item.status === "read"
+                                    ? "read"
+                                    : item.status;
+                            return displayStatus === "updated" ? (
+                              <span className="flex items-center gap-2 text-sm font-medium text-zinc-900">
+                                <span className="h-2 w-2 rounded-full bg-red-500" />
+                                Updated
+                              </span>
+                            ) : displayStatus === "promoted" ? (
+                              <span className="flex items-center gap-2 text-sm font-medium text-zinc-900">
+                                <span className="h-2 w-2 rounded-full bg-red-500" />
+                                Spot confirmed
+                              </span>
+                            ) : displayStatus === "waitlisted" ? (
+                              <span className="flex items-center gap-2 text-sm text-zinc-600">
+                                <span className="h-2 w-2 rounded-full bg-zinc-400" />
+                                Waitlist #{item.waitlistPosition}
+                              </span>
+                            ) : displayStatus === "completed" ? (
                               <span className="flex items-center gap-2 text-sm text-emerald-600">
                                 <svg
                                   xmlns="http://www.w3.org/2000/svg"
@@ -666,6 +985,16 @@ export function ParentDashboard({
                                 </svg>
                                 Completed
                               </span>
+                            ) : displayStatus === "overdue" ? (
+                              <span className="flex items-center gap-2 text-sm font-semibold text-red-700">
+                                <span className="h-2 w-2 rounded-full bg-red-600" />
+                                Overdue
+                              </span>
+                            ) : displayStatus === "reminder" ? (
+                              <span className="flex items-center gap-2 text-sm font-medium text-zinc-900">
+                                <span className="h-2 w-2 rounded-full bg-red-500" />
+                                Reminder
+                              </span>
                             ) : displayStatus === "unread" ? (
                               <span className="flex items-center gap-2 text-sm font-medium text-zinc-900">
                                 <span className="h-2 w-2 rounded-full bg-red-500" />
@@ -682,7 +1011,9 @@ export function ParentDashboard({
                         <td className="px-4 py-3">
                           <span className="font-medium text-zinc-900">
                             {item.eventTitle}
+                            <EventStatusBadge status={item.eventStatus} />
                             {item.status !== "completed" &&
+                              item.eventStatus !== "cancelled" &&
                               (item.requiresPermissionSlip ||
                                 (item.cost ?? 0) > 0) && (
                               <span className="text-red-600">
@@ -698,9 +1029,15 @@ export function ParentDashboard({
                           {formatDueDate(
                             item.permissionSlipDueDate ?? item.eventStartAt
                           )}
+                          {item.pastDue && item.eventStatus !== "cancelled" && (
+                            <span className="ml-2 rounded bg-red-100 px-1.5 py-0.5 text-xs font-medium text-red-700">
+                              Past due
+                            </span>
+                          )}
                         </td>
                       </tr>
-                    ))
+                      );
+                    })
                   ) : (
                     <tr>
                       <td
@@ -721,6 +1058,20 @@ export function ParentDashboard({
               const item = inboxItems.find((i) => i.id === expandedInboxId);
               const task = item ? taskMap.get(item.id) : undefined;
               if (!item) return null;
+              const isPerDate =
+                item.costPerOccurrence != null &&
+                (item.occurrenceDates?.length ?? 0) > 1;
+              // Pending per-date items are priced from the parent's current selection,
+              // less any fee assistance already approved
+              const amountDue = Math.max(
+                (isPerDate && item.status !== "completed"
+                  ? item.costPerOccurrence! * selectedOccurrenceDates.length
+                  : item.cost ?? 0) -
+                  (item.feeAssistance?.status === "approved"
+                    ? item.feeAssistance.approvedAmount ?? 0
+                    : 0),
+                0
+              );
               return (
                 <div
                   className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
@@ -770,6 +1121,88 @@ export function ParentDashboard({
                             : item.studentName ?? item.className}
                         </p>
                       )}
+                      <EventStatusBanner
+                        status={item.eventStatus}
+                        reason={item.statusReason}
+                        rescheduledFrom={item.rescheduledFrom}
+                        refundOwed={item.refundOwed}
+                        refundIssued={item.refundIssued}
+                      />
+                      {item.reminder && item.status !== "completed" && !completedItemIds.has(item.id) && (
+                        <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+                          <p className="font-medium">
+                            {item.pastDue
+                              ? "This is overdue."
+                              : item.reminder.kind === "due_date"
+                                ? "This is due today."
+                                : "Reminder from your teacher."}{" "}
+                            Please {item.requiresPermissionSlip ? "sign the permission slip" : "choose how you'll pay"}{" "}
+                            as soon as you can.
+                          </p>
+                          <p className="mt-1 text-xs">
+                            Reminder sent{" "}
+                            {new Date(item.reminder.sentAt).toLocaleDateString("en-US", {
+                              month: "short",
+                              day: "numeric",
+                              timeZone,
+                            })}
+                          </p>
+                        </div>
+                      )}
+                      {item.changeNotice && (
+                        <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                          <p className="font-medium">
+                            Updated by your teacher on{" "}
+                            {new Date(item.changeNotice.changedAt).toLocaleDateString("en-US", {
+                              month: "short",
+                              day: "numeric",
+                              timeZone,
+                            })}
+                          </p>
+                          <ul className="mt-1 list-inside list-disc">
+                            {item.changeNotice.summary.map((line, i) => (
+                              <li key={i}>{line}</li>
+                            ))}
+                          </ul>
+                          {item.changeNotice.resignRequired && item.status !== "completed" && (
+                            <p className="mt-2 font-medium">
+                              The permission form changed. Please review and sign the new version below.
+                            </p>
+                          )}
+                        </div>
+                      )}
+                      {item.waitlistPosition != null && (
+                        <div className="rounded-lg border border-zinc-200 bg-zinc-50 p-3 text-sm text-zinc-700">
+                          <p className="font-medium">
+                            You&apos;re #{item.waitlistPosition} on the waitlist
+                          </p>
+                          <p className="mt-1">
+                            This event is full. If a spot opens up, {item.studentName ?? "your child"} will be
+                            moved in automatically using what you already submitted.
+                          </p>
+                        </div>
+                      )}
+                      {item.promotedFromWaitlist && item.status === "completed" && (
+                        <div className="rounded-lg border border-emerald-200 bg-emerald-50 p-3 text-sm text-emerald-800">
+                          <p className="font-medium">A spot opened up - you&apos;re in!</p>
+                          <p className="mt-1">
+                            {item.studentName ?? "Your child"} moved off the waitlist on{" "}
+                            {new Date(item.promotedFromWaitlist.at).toLocaleDateString("en-US", {
+                              month: "short",
+                              day: "numeric",
+                              timeZone,
+                            })}
+                            .
+                          </p>
+                        </div>
+                      )}
+                      {item.status !== "completed" && item.spotsLeft != null && item.eventStatus !== "cancelled" && (
+                        <p className={`text-sm ${item.spotsLeft === 0 ? "font-medium text-amber-700" : "text-zinc-600"}`}>
+                          {item.spotsLeft === 0
+                            ? "This event is full. If you submit now you'll join the waitlist."
+                            : `${item.spotsLeft} spot${item.spotsLeft !== 1 ? "s" : ""} left`}
+                        </p>
+                      )}
                       <p className="text-sm text-zinc-600">
                         {item.permissionSlipDueDate ? (
                           <>
@@ -788,20 +1221,56 @@ export function ParentDashboard({
                           {item.eventDescription}
                         </p>
                       )}
-                      {(item.cost != null && item.cost > 0) && (
+                      {item.volunteerRoles && item.eventStatus !== "cancelled" && (
+                        <VolunteerSignupPanel
+                          eventId={item.eventId}
+                          roles={item.volunteerRoles}
+                        />
+                      )}
+                      {isPerDate && item.status !== "completed" && task ? (
+                        <OccurrenceDatePicker
+                          dates={item.occurrenceDates!}
+                          selected={selectedOccurrenceDates}
+                          costPerOccurrence={item.costPerOccurrence!}
+                          onChange={setSelectedOccurrenceDates}
+                          disabled={!!uploadingSlipId}
+                        />
+                      ) : (item.cost != null && item.cost > 0) && (
                         <p className="text-sm font-medium text-zinc-700">
                           Cost: ${item.cost.toFixed(2)}
                         </p>
                       )}
+                      {isPerDate && item.status === "completed" && (
+                        <p className="text-sm text-zinc-600">
+                          Signed up for:{" "}
+                          {(item.selectedOccurrenceDates ?? item.occurrenceDates ?? [])
+                            .map(formatOccurrenceDate)
+                            .join(", ")}
+                        </p>
+                      )}
                       {item.permissionSlipDueDate && (item.requiresPermissionSlip || (item.cost ?? 0) > 0) && (
-                        <p className="text-sm font-medium text-amber-700">
-                          Due by {formatDueDate(item.permissionSlipDueDate)} (sign and submit payment)
+                        <p className={`text-sm font-medium ${item.pastDue ? "text-red-700" : "text-amber-700"}`}>
+                          {item.pastDue ? "Was due" : "Due by"} {formatDueDate(item.permissionSlipDueDate)} (sign and submit payment)
                         </p>
                       )}
+                      {item.cost != null &&
+                        item.cost > 0 &&
+                        item.studentId &&
+                        item.status === "completed" &&
+                        item.waitlistPosition == null &&
+                        item.eventStatus !== "cancelled" &&
+                        (!item.paidAt ||
+                          (item.feeAssistance && item.feeAssistance.status !== "denied")) && (
+                          <FeeAssistanceRequest
+                            slipId={item.id}
+                            cost={item.cost}
+                            request={item.feeAssistance}
+                          />
+                        )}
                       {item.status !== "completed" && task && (item.cost ?? 0) > 0 && !item.requiresPermissionSlip && (
                         <div className="rounded-lg border border-amber-200 bg-amber-50/50 p-4">
                           <p className="mb-3 text-sm font-medium text-zinc-700">
-                            How will you pay the ${item.cost!.toFixed(2)}?
+                            How will you pay the ${amountDue.toFixed(2)}?
                           </p>
                           <p className="mb-3 text-xs text-zinc-500">
                             No document upload required — just select your payment method below.
@@ -809,8 +1278,14 @@ export function ParentDashboard({
                           <div className="flex flex-col gap-2">
                             <button
                               type="button"
-                              onClick={() => handlePaymentOnly(task.id, "online")}
-                              disabled={!!uploadingSlipId}
+                              onClick={() =>
+                                handlePaymentOnly(
+                                  task.id,
+                                  "online",
+                                  isPerDate ? selectedOccurrenceDates : undefined
+                                )
+                              }
+                              disabled={!!uploadingSlipId || (isPerDate && selectedOccurrenceDates.length === 0)}
                               className="flex w-full items-center gap-2 rounded-lg border border-zinc-200 bg-white px-4 py-3 text-left text-sm font-medium text-zinc-900 hover:bg-zinc-50 disabled:opacity-50"
                             >
                               <span className="h-4 w-4 rounded-full border-2 border-amber-500" />
@@ -818,8 +1293,14 @@ export function ParentDashboard({
                             </button>
                             <button
                               type="button"
-                              onClick={() => handlePaymentOnly(task.id, "cash")}
-                              disabled={!!uploadingSlipId}
+                              onClick={() =>
+                                handlePaymentOnly(
+                                  task.id,
+                                  "cash",
+                                  isPerDate ? selectedOccurrenceDates : undefined
+                                )
+                              }
+                              disabled={!!uploadingSlipId || (isPerDate && selectedOccurrenceDates.length === 0)}
                               className="flex w-full items-center gap-2 rounded-lg border border-zinc-200 bg-white px-4 py-3 text-left text-sm font-medium text-zinc-900 hover:bg-zinc-50 disabled:opacity-50"
                             >
                               <span className="h-4 w-4 rounded-full border-2 border-amber-500" />
@@ -847,107 +1328,147 @@ export function ParentDashboard({
                             />
                           </div>
                           <p className="text-xs text-zinc-500">
-                            Review the form above, sign it, then upload the signed
-                            copy below.
+                            Review the form above, then sign below.
                           </p>
-                          <form
-                            onSubmit={(e) => handleUploadSlip(e, task.id)}
-                            className="flex flex-col gap-4"
-                          >
-                            {(task.cost != null && task.cost > 0) && (
-                              <div className="rounded-lg border border-amber-200 bg-amber-50/50 p-3">
-                                <p className="mb-2 text-sm font-medium text-zinc-700">
-                                  How will you pay the ${task.cost.toFixed(2)}?
-                                </p>
-                                <div className="flex flex-col gap-2">
-                                  <label className="flex cursor-pointer items-center gap-2">
-                                    <input
-                                      type="radio"
-                                      name="paymentMethod"
-                                      value="online"
-                                      required={task.cost > 0}
-                                      disabled={!!uploadingSlipId}
-                                      className="h-4 w-4 border-zinc-300 text-amber-600 focus:ring-amber-500"
-                                    />
-                                    <span className="text-sm font-medium text-zinc-900">
-                                      Pay online
-                                    </span>
-                                  </label>
-                                  <label className="flex cursor-pointer items-center gap-2">
-                                    <input
-                                      type="radio"
-                                      name="paymentMethod"
-                                      value="cash"
-                                      required={task.cost > 0}
-                                      disabled={!!uploadingSlipId}
-                                      className="h-4 w-4 border-zinc-300 text-amber-600 focus:ring-amber-500"
-                                    />
-                                    <span className="text-sm font-medium text-zinc-900">
-                                      Sending cash with my child
-                                    </span>
-                                  </label>
+                          {item.formFields && (
+                            <SlipFormFieldInputs
+                              slipId={task.id}
+                              fields={item.formFields}
+                              value={formResponses}
+                              onChange={setFormResponses}
+                              disabled={!!uploadingSlipId}
+                            />
+                          )}
+                          <SignSlipForm
+                            key={task.id}
+                            slipId={task.id}
+                            eventTitle={task.eventTitle}
+                            studentName={task.studentName}
+                            amountDue={amountDue}
+                            hasCost={task.cost != null && task.cost > 0}
+                            selectedDates={isPerDate ? selectedOccurrenceDates : undefined}
+                            formFields={item.formFields}
+                            formResponses={formResponses}
+                            disabled={!!uploadingSlipId}
+                            onSigned={(waitlisted) => {
+                              setExpandedInboxId(null);
+                              router.refresh();
+                              if (waitlisted) alert(WAITLISTED_MESSAGE);
+                            }}
+                          />
+                          <details className="rounded-lg border border-zinc-200 p-3">
+                            <summary className="cursor-pointer text-sm font-medium text-zinc-700">
+                              Prefer paper? Upload a signed copy instead
+                            </summary>
+                            <form
+                              onSubmit={(e) => handleUploadSlip(e, task.id)}
+                              className="mt-3 flex flex-col gap-4"
+                            >
+                              {(task.cost != null && task.cost > 0) && (
+                                <div className="rounded-lg border border-amber-200 bg-amber-50/50 p-3">
+                                  <p className="mb-2 text-sm font-medium text-zinc-700">
+                                    How will you pay the ${amountDue.toFixed(2)}?
+                                  </p>
+                                  <div className="flex flex-col gap-2">
+                                    <label className="flex cursor-pointer items-center gap-2">
+                                      <input
+                                        type="radio"
+                                        name="paymentMethod"
+                                        value="online"
+                                        required={task.cost > 0}
+                                        disabled={!!uploadingSlipId}
+                                        className="h-4 w-4 border-zinc-300 text-amber-600 focus:ring-amber-500"
+                                      />
+                                      <span className="text-sm font-medium text-zinc-900">
+                                        Pay online
+                                      </span>
+                                    </label>
+                                    <label className="flex cursor-pointer items-center gap-2">
+                                      <input
+                                        type="radio"
+                                        name="paymentMethod"
+                                        value="cash"
+                                        required={task.cost > 0}
+                                        disabled={!!uploadingSlipId}
+                                        className="h-4 w-4 border-zinc-300 text-amber-600 focus:ring-amber-500"
+                                      />
+                                      <span className="text-sm font-medium text-zinc-900">
+                                        Sending cash with my child
+                                      </span>
+                                    </label>
+                                  </div>
                                 </div>
-                              </div>
-                            )}
-                            <div className="flex flex-wrap gap-3">
-                              <a
-                                href={`/api/permission-slip/${task.id}/download`}
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className="inline-flex items-center gap-2 rounded-lg border border-zinc-300 bg-white px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50"
-                              >
-                                <svg
-                                  xmlns="http://www.w3.org/2000/svg"
-                                  width="16"
-                                  height="16"
-                                  viewBox="0 0 24 24"
-                                  fill="none"
-                                  stroke="currentColor"
-                                  strokeWidth="2"
+                              )}
+                              <div className="flex flex-wrap gap-3">
+                                <a
+                                  href={`/api/permission-slip/${task.id}/download`}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="inline-flex items-center gap-2 rounded-lg border border-zinc-300 bg-white px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50"
                                 >
-                                  <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
-                                  <polyline points="7 10 12 15 17 10" />
-                                  <line x1="12" x2="12" y1="15" y2="3" />
-                                </svg>
-                                Download PDF
-                              </a>
-                              <input
-                                type="file"
-                                name="pdf"
-                                accept=".pdf,application/pdf"
-                                required
-                                disabled={!!uploadingSlipId}
-                                onChange={(e) =>
-                                  setInboxSlipFileSelected(
-                                    !!e.target.files?.[0]
-                                  )
-                                }
-                                className="block text-sm text-zinc-600 file:mr-2 file:rounded-lg file:border-0 file:bg-amber-100 file:px-4 file:py-2 file:text-sm file:font-medium file:text-amber-800 hover:file:bg-amber-200"
-                              />
-                              <button
-                                type="submit"
-                                disabled={
-                                  !!uploadingSlipId || !inboxSlipFileSelected
-                                }
-                                className="shrink-0 rounded-lg bg-amber-600 px-4 py-2 text-sm font-medium text-white hover:bg-amber-700 disabled:pointer-events-none disabled:opacity-50"
-                              >
-                                {uploadingSlipId === task.id
-                                  ? "Uploading..."
-                                  : "Upload signed PDF"}
-                              </button>
-                            </div>
-                          </form>
+                                  <svg
+                                    xmlns="http://www.w3.org/2000/svg"
+                                    width="16"
+                                    height="16"
+                                    viewBox="0 0 24 24"
+                                    fill="none"
+                                    stroke="currentColor"
+                                    strokeWidth="2"
+                                  >
+                                    <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                                    <polyline points="7 10 12 15 17 10" />
+                                    <line x1="12" x2="12" y1="15" y2="3" />
+                                  </svg>
+                                  Download PDF
+                                </a>
+                                <input
+                                  type="file"
+                                  name="pdf"
+                                  accept=".pdf,application/pdf"
+                                  required
+                                  disabled={!!uploadingSlipId}
+                                  onChange={(e) =>
+                                    setInboxSlipFileSelected(
+                                      !!e.target.files?.[0]
+                                    )
+                                  }
+                                  className="block text-sm text-zinc-600 file:mr-2 file:rounded-lg file:border-0 file:bg-amber-100 file:px-4 file:py-2 file:text-sm file:font-medium file:text-amber-800 hover:file:bg-amber-200"
+                                />
+                                <button
+                                  type="submit"
+                                  disabled={
+                                    !!uploadingSlipId ||
+                                    !inboxSlipFileSelected ||
+                                    !hasRequiredAnswers(item.formFields ?? [], formResponses)
+                                  }
+                                  className="shrink-0 rounded-lg bg-amber-600 px-4 py-2 text-sm font-medium text-white hover:bg-amber-700 disabled:pointer-events-none disabled:opacity-50"
+                                >
+                                  {uploadingSlipId === task.id
+                                    ? "Uploading..."
+                                    : "Upload signed PDF"}
+                                </button>
+                              </div>
+                            </form>
+                          </details>
                         </>
                       )}
                       {item.status === "completed" && (
                         <>
                           {item.paymentMethod && (
-                            <p className="text-sm text-zinc-600">
-                              Payment:{" "}
-                              {item.paymentMethod === "online"
-                                ? "Pay online"
-                                : "Sending cash with child"}
-                            </p>
+                            <SlipPayment
+                              slipId={item.id}
+                              paymentMethod={item.paymentMethod}
+                              amount={
+                                familyLedger
+                                  .find((l) => l.studentId === item.studentId)
+                                  ?.events.find((e) => e.eventId === item.eventId)?.balance ??
+                                item.cost
+                              }
+                              paidAt={item.paidAt}
+                              paymentIntentId={item.paymentIntentId}
+                              eventCancelled={item.eventStatus === "cancelled"}
+                              timeZone={timeZone}
+                            />
                           )}
                           {item.requiresPermissionSlip && item.hasPermissionForm && (
                             <>
@@ -975,6 +1496,31 @@ export function ParentDashboard({
                                 </svg>
                                 You&apos;ve signed this permission slip.
                               </p>
+                              {item.eSignature && (
+                                <p className="text-xs text-zinc-500">
+                                  Signed electronically as {item.eSignature.signerName} on{" "}
+                                  {new Date(item.eSignature.signedAt).toLocaleString("en-US", {
+                                    month: "short",
+                                    day: "numeric",
+                                    year: "numeric",
+                                    hour: "numeric",
+                                    minute: "2-digit",
+                                    timeZone,
+                                  })}
+                                </p>
+                              )}
+                              {item.formFields && (
+                                <dl className="space-y-1 text-sm">
+                                  {item.formFields.map((field) => (
+                                    <div key={field.key} className="flex gap-2">
+                                      <dt className="text-zinc-500">{field.label}:</dt>
+                                      <dd className="text-zinc-900">
+                                        {formatFormResponse(field, item.formResponses?.[field.key]) || "—"}
+                                      </dd>
+                                    </div>
+                                  ))}
+                                </dl>
+                              )}
                               <div className="flex flex-wrap gap-3">
                                 <a
                                   href={`/api/permission-slip/${item.id}/download`}
@@ -1005,7 +1551,9 @@ export function ParentDashboard({
                                 >
                                   {unsubmittingSlipId === item.id
                                     ? "Unsubmitting..."
-                                    : "Unsubmit"}
+                                    : item.waitlistPosition != null
+                                      ? "Leave waitlist"
+                                      : "Unsubmit"}
                                 </button>
                               </div>
                             </>
@@ -1056,7 +1604,9 @@ export function ParentDashboard({
                               >
                                 {unsubmittingSlipId === item.id
                                   ? "Unsubmitting..."
-                                  : "Change payment method"}
+                                  : item.waitlistPosition != null
+                                    ? "Leave waitlist"
+                                    : "Change payment method"}
                               </button>
                             </>
                           )}
@@ -1073,10 +1623,51 @@ export function ParentDashboard({
         {/* Calendar tab */}
         {activeTab === "calendar" && (
           <section>
+            <CalendarFeedPanel feedUrl={calendarFeedUrl} />
             <CalendarView
               events={upcomingEvents}
+              interviewSlots={interviewData.flatMap((item) =>
+                item.children.flatMap((child) => {
+                  const slot = item.slots.find((s) => s.id === child.claimedSlotId);
+                  return slot
+                    ? [
+                        {
+                          slot,
+                          title: `Interview: ${child.name}`,
+                          subtitle: item.teacherName
+                            ? `With ${item.teacherName} · ${item.className}`
+                            : item.className,
+                          timeZone: item.timeZone,
+                        },
+                      ]
+                    : [];
+                })
+              )}
+              closures={schoolClosures}
+              timeZone={timeZone}
               onEventClick={(eventId) => setSelectedCalendarEventId(eventId)}
+              onInterviewClick={() => setActiveTab("interviews")}
             />
+            {(() => {
+              const today = getZonedToday(timeZone);
+              const upcomingClosures = schoolClosures
+                .filter((c) => c.endDate >= today)
+                .slice(0, 5);
+              return upcomingClosures.length > 0 ? (
+                <div className="mt-4 rounded-xl border border-zinc-200 bg-white p-4">
+                  <h3 className="text-sm font-medium text-zinc-900">Upcoming days off</h3>
+                  <ul className="mt-2 space-y-1 text-sm text-zinc-600">
+                    {upcomingClosures.map((c) => (
+                      <li key={c.id}>
+                        <span className="font-medium text-zinc-800">{formatClosureDates(c)}</span>
+                        {" · "}
+                        {c.name}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : null;
+            })()}
           </section>
         )}
 
@@ -1107,6 +1698,7 @@ export function ParentDashboard({
                     className="text-lg font-semibold text-zinc-900"
                   >
                     {event.title}
+                    <EventStatusBadge status={event.status} />
                   </h2>
                   <button
                     type="button"
@@ -1129,6 +1721,11 @@ export function ParentDashboard({
                   </button>
                 </div>
                 <div className="space-y-4 px-6 py-5">
+                  <EventStatusBanner
+                    status={event.status}
+                    reason={event.statusReason}
+                    rescheduledFrom={event.rescheduledFrom}
+                  />
                   {event.classId &&
                     classes.find((c) => c.id === event.classId)?.name && (
                       <p className="text-sm text-zinc-500">
@@ -1147,6 +1744,11 @@ export function ParentDashboard({
                           )[1]}{" "}
                           (each date)
                         </span>
+                        {event.recurrence && (
+                          <span className="mt-1 block text-zinc-700">
+                            {describeRecurrenceRule(event.recurrence)}
+                          </span>
+                        )}
                         <span className="mt-2 block font-medium text-zinc-700">
                           All {event.occurrenceDates.length} dates:
                         </span>
@@ -1166,6 +1768,19 @@ export function ParentDashboard({
                             </span>
                           ))}
                         </div>
+                        {event.recurrenceExceptions && event.recurrenceExceptions.length > 0 && (
+                          <span className="mt-2 block text-xs text-zinc-500">
+                            No event on{" "}
+                            {event.recurrenceExceptions
+                              .map((d) =>
+                                new Date(d + "T12:00:00").toLocaleDateString("en-US", {
+                                  month: "short",
+                                  day: "numeric",
+                                })
+                              )
+                              .join(", ")}
+                          </span>
+                        )}
                       </>
                     ) : (
                       formatEventTimeRange(event.startAt, event.endAt)
@@ -1487,6 +2102,7 @@ export function ParentDashboard({
                 </div>
               ))}
             </div>
+            <FamilyBalance ledgers={familyLedger} timeZone={timeZone} />
           </section>
         )}
       </main>
@@ -0,0 +1,382 @@
+"use client";
+
+import { useState } from "react";
+import type {
+  RecurrenceFrequency,
+  RecurrenceOverride,
+  RecurrenceRule,
+} from "@/lib/db/types";
+import {
+  describeRecurrenceRule,
+  expandRecurrenceRule,
+  validateRecurrenceRule,
+} from "@/lib/recurrence";
+
+export interface RecurrenceValue {
+  rule: RecurrenceRule;
+  exceptions: string[];
+  overrides: RecurrenceOverride[];
+}
+
+interface RecurrenceEditorProps {
+  value: RecurrenceValue;
+  onChange: (value: RecurrenceValue) => void;
+  disabled?: boolean;
+}
+
+const WEEKDAY_LABELS = ["S", "M", "T", "W", "T", "F", "S"];
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const UNIT_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: "day",
+  weekly: "week",
+  monthly: "month",
+};
+
+const inputClass =
+  "h-10 rounded-lg border border-zinc-300 bg-white px-3 text-zinc-900 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50";
+
+function formatShortDate(date: string): string {
+  return new Date(date + "T12:00:00").toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+/** Default rule for a new series: weekly on the start date's weekday for 8 weeks */
+export function defaultRecurrenceRule(startDate: string): RecurrenceRule {
+  const until = new Date(`${startDate}T00:00:00Z`);
+  until.setUTCDate(until.getUTCDate() + 7 * 7);
+  return {
+    freq: "weekly",
+    interval: 1,
+    byWeekday: [new Date(`${startDate}T00:00:00Z`).getUTCDay()],
+    startDate,
+    until: until.toISOString().slice(0, 10),
+  };
+}
+
+/**
+ * Repeat-rule editor: frequency, interval, weekdays and end condition, with a preview
+ * of generated dates where single dates can be skipped, moved or given other times.
+ */
+export function RecurrenceEditor({ value, onChange, disabled }: RecurrenceEditorProps) {
+  const { rule, exceptions, overrides } = value;
+  const [changeDate, setChangeDate] = useState("");
+  const [changeNewDate, setChangeNewDate] = useState("");
+  const [changeStartTime, setChangeStartTime] = useState("");
+  const [changeEndTime, setChangeEndTime] = useState("");
+
+  const ruleError = validateRecurrenceRule(rule);
+  const ruleDates = ruleError ? [] : expandRecurrenceRule(rule);
+  const endsOn = rule.count == null;
+
+  /** Applies a rule change and drops skips/changes for dates the new rule no longer produces */
+  function updateRule(patch: Partial<RecurrenceRule>) {
+    const next = { ...rule, ...patch };
+    const nextDates = new Set(validateRecurrenceRule(next) ? [] : expandRecurrenceRule(next));
+    onChange({
+      rule: next,
+      exceptions: exceptions.filter((d) => nextDates.has(d)),
+      overrides: overrides.filter((o) => nextDates.has(o.date)),
+    });
+  }
+
+  function toggleWeekday(day: number) {
+    const current = rule.byWeekday?.length
+      ? rule.byWeekday
+      : [new Date(`${rule.startDate}T00:00:00Z`).getUTCDay()];
+    const next = current.includes(day)
+      ? current.filter((d) => d !== day)
+      : [...current, day].sort();
+    if (next.length === 0) return;
+    updateRule({ byWeekday: next });
+  }
+
+  function toggleException(date: string) {
+    onChange({
+      ...value,
+      exceptions: exceptions.includes(date)
+        ? exceptions.filter((d) => d !== date)
+        : [...exceptions, date].sort(),
+      overrides: overrides.filter((o) => o.date !== date),
+    });
+  }
+
+  function addOverride() {
+    if (!changeDate || (!changeNewDate && !changeStartTime && !changeEndTime)) return;
+    const override: RecurrenceOverride = { date: changeDate };
+    if (changeNewDate && changeNewDate !== changeDate) override.newDate = changeNewDate;
+    if (changeStartTime) override.startTime = changeStartTime;
+    if (changeEndTime) override.endTime = changeEndTime;
+    onChange({
+      ...value,
+      overrides: [...overrides.filter((o) => o.date !== changeDate), override].sort((a, b) =>
+        a.date.localeCompare(b.date)
+      ),
+    });
+    setChangeDate("");
+    setChangeNewDate("");
+    setChangeStartTime("");
+    setChangeEndTime("");
+  }
+
+  function removeOverride(date: string) {
+    onChange({ ...value, overrides: overrides.filter((o) => o.date !== date) });
+  }
+
+  const overrideByDate = new Map(overrides.map((o) => [o.date, o]));
+  const activeDates = ruleDates.filter((d) => !exceptions.includes(d));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-end gap-2">
+        <div>
+          <label className="mb-1 block text-xs font-medium text-zinc-600">Starts</label>
+          <input
+            type="date"
+            value={rule.startDate}
+            onChange={(e) => e.target.value && updateRule({ startDate: e.target.value })}
+            disabled={disabled}
+            className={`${inputClass} w-40`}
+          />
+        </div>
+        <div>
+          <label className="mb-1 block text-xs font-medium text-zinc-600">Repeats</label>
+          <select
+            value={rule.freq}
+            onChange={(e) => {
+              const freq = e.target.value as RecurrenceFrequency;
+              updateRule({
+                freq,
+                byWeekday: freq === "weekly" ? rule.byWeekday : undefined,
+              });
+            }}
+            disabled={disabled}
+            className={`${inputClass} w-32`}
+          >
+            <option value="daily">Daily</option>
+            <option value="weekly">Weekly</option>
+            <option value="monthly">Monthly</option>
+          </select>
+        </div>
+        <div>
+          <label className="mb-1 block text-xs font-medium text-zinc-600">Every</label>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={1}
+              max={52}
+              value={rule.interval}
+              onChange={(e) => updateRule({ interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              disabled={disabled}
+              className={`${inputClass} w-16`}
+            />
+            <span className="text-sm text-zinc-600">
+              {UNIT_LABELS[rule.freq]}
+              {rule.interval !== 1 ? "s" : ""}
+            </span>
+          </div>
+        </div>
+      </div>
+
+      {rule.freq === "weekly" && (
+        <div>
+          <span className="mb-1 block text-xs font-medium text-zinc-600">On</span>
+          <div className="flex gap-1">
+            {WEEKDAY_LABELS.map((label, day) => {
+              const selected = rule.byWeekday?.length
+                ? rule.byWeekday.includes(day)
+                : new Date(`${rule.startDate}T00:00:00Z`).getUTCDay() === day;
+              return (
+                <button
+                  key={day}
+                  type="button"
+                  onClick={() => toggleWeekday(day)}
+                  disabled={disabled}
+                  aria-pressed={selected}
+                  aria-label={WEEKDAY_NAMES[day]}
+                  className={`h-8 w-8 rounded-full text-xs font-medium transition-colors disabled:opacity-50 ${
+                    selected
+                      ? "bg-red-600 text-white"
+                      : "bg-zinc-100 text-zinc-700 hover:bg-zinc-200"
+                  }`}
+                >
+                  {label}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <span className="mb-1 block text-xs font-medium text-zinc-600">Ends</span>
+        <div className="flex flex-wrap items-center gap-3 text-sm text-zinc-700">
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={endsOn}
+              onChange={() =>
+                updateRule({ count: undefined, until: rule.until ?? ruleDates[ruleDates.length - 1] ?? rule.startDate })
+              }
+              disabled={disabled}
+              className="h-4 w-4 border-zinc-300 text-red-600 focus:ring-red-500"
+            />
+            On
+            <input
+              type="date"
+              value={rule.until ?? ""}
+              min={rule.startDate}
+              onChange={(e) => updateRule({ until: e.target.value || undefined, count: undefined })}
+              disabled={disabled || !endsOn}
+              className={`${inputClass} w-40`}
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={!endsOn}
+              onChange={() => updateRule({ until: undefined, count: ruleDates.length || 10 })}
+              disabled={disabled}
+              className="h-4 w-4 border-zinc-300 text-red-600 focus:ring-red-500"
+            />
+            After
+            <input
+              type="number"
+              min={1}
+              max={200}
+              value={rule.count ?? ""}
+              onChange={(e) => updateRule({ count: Math.max(1, parseInt(e.target.value, 10) || 1), until: undefined })}
+              disabled={disabled || endsOn}
+              className={`${inputClass} w-20`}
+            />
+            times
+          </label>
+        </div>
+      </div>
+
+      {ruleError ? (
+        <p className="text-xs text-red-600">{ruleError}</p>
+      ) : (
+        <div>
+          <p className="text-xs text-zinc-500">
+            {describeRecurrenceRule(rule)} · {activeDates.length} date
+            {activeDates.length !== 1 ? "s" : ""}. Click a date to skip it.
+          </p>
+          <div className="mt-2 flex flex-wrap gap-1.5">
+            {ruleDates.map((d) => {
+              const skipped = exceptions.includes(d);
+              const override = overrideByDate.get(d);
+              return (
+                <button
+                  key={d}
+                  type="button"
+                  onClick={() => toggleException(d)}
+                  disabled={disabled}
+                  title={skipped ? "Skipped - click to restore" : "Click to skip this date"}
+                  className={`rounded-md px-2 py-0.5 text-xs transition-colors disabled:opacity-50 ${
+                    skipped
+                      ? "bg-zinc-50 text-zinc-400 line-through"
+                      : override
+                        ? "bg-amber-100 text-amber-900 hover:bg-amber-200"
+                        : "bg-zinc-100 text-zinc-800 hover:bg-zinc-200"
+                  }`}
+                >
+                  {formatShortDate(d)}
+                  {override?.newDate && ` → ${formatShortDate(override.newDate)}`}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {activeDates.length > 0 && (
+        <div className="rounded-lg border border-zinc-200 bg-zinc-50/50 p-3">
+          <span className="block text-xs font-medium text-zinc-600">
+            Change one date (move it or use different times)
+          </span>
+          <div className="mt-2 flex flex-wrap items-center gap-2">
+            <select
+              value={changeDate}
+              onChange={(e) => {
+                setChangeDate(e.target.value);
+                setChangeNewDate(e.target.value);
+              }}
+              disabled={disabled}
+              className={`${inputClass} w-40`}
+              aria-label="Date to change"
+            >
+              <option value="">Pick a date…</option>
+              {activeDates.map((d) => (
+                <option key={d} value={d}>
+                  {formatShortDate(d)}
+                </option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={changeNewDate}
+              onChange={(e) => setChangeNewDate(e.target.value)}
+              disabled={disabled || !changeDate}
+              className={`${inputClass} w-40`}
+              aria-label="New date"
+            />
+            <input
+              type="time"
+              value={changeStartTime}
+              onChange={(e) => setChangeStartTime(e.target.value)}
+              disabled={disabled || !changeDate}
+              className={`${inputClass} w-28`}
+              aria-label="New start time"
+            />
+            <input
+              type="time"
+              value={changeEndTime}
+              onChange={(e) => setChangeEndTime(e.target.value)}
+              disabled={disabled || !changeDate}
+              className={`${inputClass} w-28`}
+              aria-label="New end time"
+            />
+            <button
+              type="button"
+              onClick={addOverride}
+              disabled={
+                disabled ||
+                !changeDate ||
+                ((!changeNewDate || changeNewDate === changeDate) && !changeStartTime && !changeEndTime)
+              }
+              className="rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50"
+            >
+              Apply
+            </button>
+          </div>
+          {overrides.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {overrides.map((o) => (
+                <li key={o.date} className="flex items-center gap-2 text-xs text-zinc-700">
+                  <span>
+                    {formatShortDate(o.date)}
+                    {o.newDate && ` moved to ${formatShortDate(o.newDate)}`}
+                    {(o.startTime || o.endTime) &&
+                      ` · ${o.startTime ?? "usual start"}–${o.endTime ?? "usual end"}`}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => removeOverride(o.date)}
+                    disabled={disabled}
+                    className="text-zinc-500 hover:text-zinc-700"
+                    aria-label="Remove change"
+                  >
+                    ×
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import { useState, useTransition, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { saveEventTemplateAction } from "@/app/actions";
+import type { CalendarEventSerialized } from "@/lib/teacher-dashboard";
+
+interface SaveEventTemplateModalProps {
+  event: CalendarEventSerialized | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Saves an event as a template (description, times, cost, due-date offset, permission form)
+ * so it can be reused next time from Add Event.
+ */
+export function SaveEventTemplateModal({
+  event,
+  isOpen,
+  onClose,
+}: SaveEventTemplateModalProps) {
+  const router = useRouter();
+  const [name, setName] = useState("");
+  const [shareWithSchool, setShareWithSchool] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen && event) {
+      /* eslint-disable react-hooks/set-state-in-effect -- Reset form state when modal opens */
+      setName(event.title);
+      setShareWithSchool(false);
+      setSaved(false);
+      setError(null);
+      /* eslint-enable react-hooks/set-state-in-effect */
+    }
+  }, [isOpen, event]);
+
+  if (!isOpen || !event) return null;
+
+  function handleClose() {
+    if (!isPending) onClose();
+  }
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!event) return;
+    setError(null);
+    startTransition(async () => {
+      const res = await saveEventTemplateAction(
+        event.id,
+        name,
+        shareWithSchool ? "school" : "teacher"
+      );
+      if (res.success) {
+        setSaved(true);
+        router.refresh();
+      } else if (res.error) {
+        setError(res.error);
+      }
+    });
+  }
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 z-[60] bg-black/50"
+        aria-hidden="true"
+        onClick={handleClose}
+      />
+      <div className="fixed left-1/2 top-1/2 z-[70] w-[calc(100%-2rem)] max-w-md -translate-x-1/2 -translate-y-1/2 rounded-xl border border-zinc-200 bg-white p-6 shadow-xl">
+        <h2 className="text-lg font-semibold text-zinc-900">Save as template</h2>
+        <p className="mt-1 text-sm text-zinc-600">{event.title}</p>
+        {saved ? (
+          <div className="mt-4 flex flex-col gap-4">
+            <p className="rounded-lg border border-emerald-200 bg-emerald-50 p-3 text-sm text-emerald-800">
+              Template saved. Choose it under &ldquo;Start from a template&rdquo; when you add an event.
+            </p>
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white"
+            >
+              Done
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="mt-4 flex flex-col gap-4">
+            <p className="text-xs text-zinc-500">
+              Keeps the description, times, cost, spots, volunteer roles, permission form and how
+              many days before the event it&apos;s due. You pick new dates when you use it.
+            </p>
+            <div>
+              <label htmlFor="template-name" className="mb-1 block text-sm font-medium text-zinc-700">
+                Template name
+              </label>
+              <input
+                id="template-name"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                required
+                disabled={isPending}
+                className="h-10 w-full rounded-lg border border-zinc-300 bg-white px-3 text-zinc-900 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-zinc-700">
+              <input
+                type="checkbox"
+                checked={shareWithSchool}
+                onChange={(e) => setShareWithSchool(e.target.checked)}
+                disabled={isPending}
+                className="h-4 w-4 rounded border-zinc-300 text-red-600 focus:ring-red-500"
+              />
+              Share with all teachers at my school
+            </label>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={handleClose}
+                disabled={isPending}
+                className="flex-1 rounded-lg border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isPending || !name.trim()}
+                className="flex-1 rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white disabled:opacity-50"
+              >
+                {isPending ? "Saving..." : "Save template"}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </>
+  );
+}
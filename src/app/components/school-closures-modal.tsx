@@ -0,0 +1,245 @@
+"use client";
+
+import { useState, useTransition, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { addSchoolClosureAction, deleteSchoolClosureAction } from "@/app/actions";
+import type { SchoolClosureKind } from "@/lib/db/types";
+import type { SchoolClosureSerialized } from "@/lib/school-closures";
+import { CLOSURE_KIND_LABELS, formatClosureDates } from "@/lib/closure-dates";
+import { getZonedToday } from "@/lib/timezone";
+
+interface SchoolClosuresModalProps {
+  /** Schools the user can add closures for */
+  schools: { id: string; name: string }[];
+  closures: SchoolClosureSerialized[];
+  timeZone: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Holidays, PD days and snow days. Repeating events skip closed days, and teachers are
+ * warned before scheduling on one.
+ */
+export function SchoolClosuresModal({
+  schools,
+  closures,
+  timeZone,
+  isOpen,
+  onClose,
+}: SchoolClosuresModalProps) {
+  const router = useRouter();
+  const [schoolId, setSchoolId] = useState(schools[0]?.id ?? "");
+  const [kind, setKind] = useState<SchoolClosureKind>("holiday");
+  const [name, setName] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      /* eslint-disable react-hooks/set-state-in-effect -- Reset form state when modal opens */
+      setName("");
+      setStartDate("");
+      setEndDate("");
+      setError(null);
+      /* eslint-enable react-hooks/set-state-in-effect */
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const today = getZonedToday(timeZone);
+  const upcoming = closures.filter((c) => c.endDate >= today);
+  const schoolNames = new Map(schools.map((s) => [s.id, s.name]));
+
+  function handleClose() {
+    if (!isPending) onClose();
+  }
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    startTransition(async () => {
+      const res = await addSchoolClosureAction({
+        schoolId,
+        name,
+        kind,
+        startDate,
+        endDate: endDate || undefined,
+      });
+      if (res.success) {
+        setName("");
+        setStartDate("");
+        setEndDate("");
+        router.refresh();
+      } else if (res.error) {
+        setError(res.error);
+      }
+    });
+  }
+
+  function handleDelete(closure: SchoolClosureSerialized) {
+    if (!confirm(`Remove "${closure.name}"? Repeating events will be back on those days.`)) {
+      return;
+    }
+    setError(null);
+    startTransition(async () => {
+      const res = await deleteSchoolClosureAction(closure.id);
+      if (res.success) {
+        router.refresh();
+      } else if (res.error) {
+        setError(res.error);
+      }
+    });
+  }
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 z-[60] bg-black/50"
+        aria-hidden="true"
+        onClick={handleClose}
+      />
+      <div className="fixed left-1/2 top-1/2 z-[70] max-h-[90vh] w-[calc(100%-2rem)] max-w-md -translate-x-1/2 -translate-y-1/2 overflow-y-auto rounded-xl border border-zinc-200 bg-white p-6 shadow-xl">
+        <h2 className="text-lg font-semibold text-zinc-900">School closures</h2>
+        <p className="mt-1 text-sm text-zinc-600">
+          Holidays, PD days and snow days. Repeating events skip these days automatically.
+        </p>
+
+        {upcoming.length > 0 ? (
+          <ul className="mt-4 divide-y divide-zinc-200 rounded-lg border border-zinc-200">
+            {upcoming.map((c) => (
+              <li key={c.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                <span className="text-sm text-zinc-800">
+                  {c.name}
+                  <span className="block text-xs text-zinc-500">
+                    {formatClosureDates(c)} · {CLOSURE_KIND_LABELS[c.kind]}
+                    {schools.length > 1 && ` · ${schoolNames.get(c.schoolId) ?? "School"}`}
+                  </span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(c)}
+                  disabled={isPending}
+                  className="text-xs font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="mt-4 text-sm text-zinc-500">No upcoming closures.</p>
+        )}
+
+        <form onSubmit={handleSubmit} className="mt-6 flex flex-col gap-4 border-t border-zinc-200 pt-4">
+          <h3 className="text-sm font-medium text-zinc-900">Add a closure</h3>
+          {schools.length > 1 && (
+            <div>
+              <label htmlFor="closure-school" className="mb-1 block text-sm font-medium text-zinc-700">
+                School
+              </label>
+              <select
+                id="closure-school"
+                value={schoolId}
+                onChange={(e) => setSchoolId(e.target.value)}
+                disabled={isPending}
+                className="h-10 w-full rounded-lg border border-zinc-300 bg-white px-3 text-zinc-900 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+              >
+                {schools.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="closure-kind" className="mb-1 block text-sm font-medium text-zinc-700">
+                Type
+              </label>
+              <select
+                id="closure-kind"
+                value={kind}
+                onChange={(e) => setKind(e.target.value as SchoolClosureKind)}
+                disabled={isPending}
+                className="h-10 w-full rounded-lg border border-zinc-300 bg-white px-3 text-zinc-900 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+              >
+                {(Object.keys(CLOSURE_KIND_LABELS) as SchoolClosureKind[]).map((k) => (
+                  <option key={k} value={k}>
+                    {CLOSURE_KIND_LABELS[k]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="closure-name" className="mb-1 block text-sm font-medium text-zinc-700">
+                Name
+              </label>
+              <input
+                id="closure-name"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={kind === "holiday" ? "e.g. Thanksgiving" : CLOSURE_KIND_LABELS[kind]}
+                maxLength={100}
+                disabled={isPending}
+                className="h-10 w-full rounded-lg border border-zinc-300 bg-white px-3 text-zinc-900 placeholder:text-zinc-400 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+              />
+            </div>
+            <div>
+              <label htmlFor="closure-start" className="mb-1 block text-sm font-medium text-zinc-700">
+                First day
+              </label>
+              <input
+                id="closure-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                required
+                disabled={isPending}
+                className="h-10 w-full rounded-lg border border-zinc-300 bg-white px-3 text-zinc-900 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+              />
+            </div>
+            <div>
+              <label htmlFor="closure-end" className="mb-1 block text-sm font-medium text-zinc-700">
+                Last day
+              </label>
+              <input
+                id="closure-end"
+                type="date"
+                value={endDate}
+                min={startDate || undefined}
+                onChange={(e) => setEndDate(e.target.value)}
+                disabled={isPending}
+                className="h-10 w-full rounded-lg border border-zinc-300 bg-white px-3 text-zinc-900 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+              />
+              <p className="mt-0.5 text-xs text-zinc-500">Leave empty for one day</p>
+            </div>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={handleClose}
+              disabled={isPending}
+              className="flex-1 rounded-lg border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 disabled:opacity-50"
+            >
+              Done
+            </button>
+            <button
+              type="submit"
+              disabled={isPending || !startDate || !schoolId}
+              className="flex-1 rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white disabled:opacity-50"
+            >
+              {isPending ? "Saving..." : "Add closure"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { signPermissionSlipAction } from "@/app/actions";
+import type { PermissionFormField, PermissionFormResponses } from "@/lib/db/types";
+import { SignaturePad } from "./signature-pad";
+import { hasRequiredAnswers } from "@/lib/permission-form-fields";
+
+interface SignSlipFormProps {
+  slipId: string;
+  eventTitle: string;
+  studentName?: string;
+  /** Amount owed for the chosen dates; payment choice is asked for when above zero */
+  amountDue: number;
+  hasCost: boolean;
+  /** Per-date events: the dates the parent picked above the form */
+  selectedDates?: string[];
+  /** The teacher's questions and the parent's answers, filled in above the form */
+  formFields?: PermissionFormField[];
+  formResponses?: PermissionFormResponses;
+  disabled?: boolean;
+  onSigned: (waitlisted: boolean) => void;
+}
+
+/**
+ * Sign a permission slip in the browser: type your name, or draw a signature as well.
+ */
+export function SignSlipForm({
+  slipId,
+  eventTitle,
+  studentName,
+  amountDue,
+  hasCost,
+  selectedDates,
+  formFields,
+  formResponses,
+  disabled,
+  onSigned,
+}: SignSlipFormProps) {
+  const [mode, setMode] = useState<"type" | "draw">("type");
+  const [signerName, setSignerName] = useState("");
+  const [signatureImage, setSignatureImage] = useState<string | null>(null);
+  const [paymentMethod, setPaymentMethod] = useState<"online" | "cash" | null>(null);
+  const [agreed, setAgreed] = useState(false);
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const isDisabled = disabled || isPending;
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (selectedDates && selectedDates.length === 0) {
+      setError("Please choose at least one date");
+      return;
+    }
+    setError(null);
+    startTransition(async () => {
+      const res = await signPermissionSlipAction(slipId, {
+        signerName,
+        signatureImage: mode === "draw" && signatureImage ? signatureImage : undefined,
+        paymentMethod: hasCost && paymentMethod ? paymentMethod : undefined,
+        selectedDates,
+        formResponses,
+      });
+      if (res.success) {
+        onSigned(Boolean(res.waitlisted));
+      } else if (res.error) {
+        setError(res.error);
+      }
+    });
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+      <p className="rounded-lg border border-zinc-200 bg-zinc-50 px-3 py-2 text-sm text-zinc-700">
+        I give permission for {studentName ?? "my child"} to take part in &ldquo;{eventTitle}&rdquo;
+        as described in the form above.
+      </p>
+
+      {hasCost && (
+        <div className="rounded-lg border border-amber-200 bg-amber-50/50 p-3">
+          <p className="mb-2 text-sm font-medium text-zinc-700">
+            How will you pay the ${amountDue.toFixed(2)}?
+          </p>
+          <div className="flex flex-col gap-2">
+            {(["online", "cash"] as const).map((method) => (
+              <label key={method} className="flex cursor-pointer items-center gap-2">
+                <input
+                  type="radio"
+                  name={`sign-payment-${slipId}`}
+                  value={method}
+                  checked={paymentMethod === method}
+                  onChange={() => setPaymentMethod(method)}
+                  required
+                  disabled={isDisabled}
+                  className="h-4 w-4 border-zinc-300 text-amber-600 focus:ring-amber-500"
+                />
+                <span className="text-sm font-medium text-zinc-900">
+                  {method === "online" ? "Pay online" : "Sending cash with my child"}
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <div className="mb-2 flex gap-1 rounded-lg bg-zinc-100 p-1 text-sm">
+          {(["type", "draw"] as const).map((m) => (
+            <button
+              key={m}
+              type="button"
+              onClick={() => setMode(m)}
+              disabled={isDisabled}
+              className={`flex-1 rounded-md px-3 py-1.5 font-medium ${
+                mode === m ? "bg-white text-zinc-900 shadow-sm" : "text-zinc-600"
+              }`}
+            >
+              {m === "type" ? "Type your name" : "Draw a signature"}
+            </button>
+          ))}
+        </div>
+        <label htmlFor={`signer-name-${slipId}`} className="mb-1 block text-sm font-medium text-zinc-700">
+          Your full name
+        </label>
+        <input
+          id={`signer-name-${slipId}`}
+          type="text"
+          value={signerName}
+          onChange={(e) => setSignerName(e.target.value)}
+          autoComplete="name"
+          maxLength={100}
+          required
+          disabled={isDisabled}
+          className="h-10 w-full rounded-lg border border-zinc-300 bg-white px-3 text-zinc-900 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+        />
+        {mode === "type" ? (
+          signerName.trim() && (
+            <p className="mt-2 border-b border-zinc-300 pb-1 font-serif text-2xl italic text-zinc-900">
+              {signerName}
+            </p>
+          )
+        ) : (
+          <div className="mt-3">
+            <SignaturePad onChange={setSignatureImage} disabled={isDisabled} />
+          </div>
+        )}
+      </div>
+
+      <label className="flex items-start gap-2 text-sm text-zinc-700">
+        <input
+          type="checkbox"
+          checked={agreed}
+          onChange={(e) => setAgreed(e.target.checked)}
+          disabled={isDisabled}
+          className="mt-0.5 h-4 w-4 rounded border-zinc-300"
+        />
+        I agree that this is my signature on this permission slip.
+      </label>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <button
+        type="submit"
+        disabled={
+          isDisabled ||
+          !agreed ||
+          !signerName.trim() ||
+          (mode === "draw" && !signatureImage) ||
+          (hasCost && !paymentMethod) ||
+          !hasRequiredAnswers(formFields ?? [], formResponses ?? {})
+        }
+        className="self-start rounded-lg bg-amber-600 px-4 py-2 text-sm font-medium text-white hover:bg-amber-700 disabled:pointer-events-none disabled:opacity-50"
+      >
+        {isPending ? "Signing..." : "Sign permission slip"}
+      </button>
+    </form>
+  );
+}
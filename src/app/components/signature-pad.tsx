@@ -0,0 +1,113 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+interface SignaturePadProps {
+  /** Called with a PNG data URL after each stroke, or null when cleared */
+  onChange: (dataUrl: string | null) => void;
+  disabled?: boolean;
+}
+
+const PAD_WIDTH = 480;
+const PAD_HEIGHT = 140;
+
+/**
+ * Draw-with-finger-or-mouse signature box. Strokes are drawn at the device pixel ratio and
+ * exported at the pad's CSS size, which keeps the PNG small enough to send with the form.
+ */
+export function SignaturePad({ onChange, disabled }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const hasInkRef = useRef(false);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = PAD_WIDTH * ratio;
+    canvas.height = PAD_HEIGHT * ratio;
+    ctx.scale(ratio, ratio);
+    ctx.lineWidth = 2;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.strokeStyle = "#18181b";
+  }, []);
+
+  function getPoint(e: React.PointerEvent<HTMLCanvasElement>) {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * PAD_WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * PAD_HEIGHT,
+    };
+  }
+
+  function handlePointerDown(e: React.PointerEvent<HTMLCanvasElement>) {
+    if (disabled) return;
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    const { x, y } = getPoint(e);
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+  }
+
+  function handlePointerMove(e: React.PointerEvent<HTMLCanvasElement>) {
+    if (!drawingRef.current) return;
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+    const { x, y } = getPoint(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    hasInkRef.current = true;
+  }
+
+  function handlePointerUp() {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    if (!hasInkRef.current || !canvasRef.current) return;
+    // Export at CSS size so high-density screens don't inflate the upload
+    const out = document.createElement("canvas");
+    out.width = PAD_WIDTH;
+    out.height = PAD_HEIGHT;
+    out.getContext("2d")?.drawImage(canvasRef.current, 0, 0, PAD_WIDTH, PAD_HEIGHT);
+    onChange(out.toDataURL("image/png"));
+  }
+
+  function handleClear() {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, PAD_WIDTH, PAD_HEIGHT);
+    hasInkRef.current = false;
+    onChange(null);
+  }
+
+  return (
+    <div>
+      <canvas
+        ref={canvasRef}
+        aria-label="Signature pad: draw your signature"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className={`aspect-[24/7] w-full touch-none rounded-lg border border-dashed border-zinc-300 bg-white ${
+          disabled ? "opacity-50" : "cursor-crosshair"
+        }`}
+      />
+      <div className="mt-1 flex items-center justify-between text-xs text-zinc-500">
+        <span>Sign with your finger or mouse</span>
+        <button
+          type="button"
+          onClick={handleClear}
+          disabled={disabled}
+          className="font-medium text-zinc-600 hover:text-zinc-900 disabled:opacity-50"
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+}
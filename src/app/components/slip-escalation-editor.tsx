@@ -0,0 +1,81 @@
+"use client";
+
+import type { SlipEscalation } from "@/lib/db/types";
+
+interface SlipEscalationEditorProps {
+  value: SlipEscalation;
+  onChange: (value: SlipEscalation) => void;
+  disabled?: boolean;
+}
+
+const DEFAULT_REMIND_DAYS_BEFORE = 3;
+
+/**
+ * Follow-up for families who haven't signed or paid: automatic reminders before and on the
+ * due date, and flagging anything still outstanding afterwards to the school admin.
+ */
+export function SlipEscalationEditor({ value, onChange, disabled }: SlipEscalationEditorProps) {
+  const remindBefore = value.remindDaysBefore != null;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-zinc-700">Follow up on missing slips</p>
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex cursor-pointer items-center gap-2">
+          <input
+            type="checkbox"
+            checked={remindBefore}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                remindDaysBefore: e.target.checked ? DEFAULT_REMIND_DAYS_BEFORE : undefined,
+              })
+            }
+            disabled={disabled}
+            className="h-4 w-4 rounded border-zinc-300 text-amber-600 focus:ring-amber-500 disabled:opacity-50"
+          />
+          <span className="text-sm text-zinc-700">Remind families</span>
+        </label>
+        {remindBefore && (
+          <label className="flex items-center gap-1 text-sm text-zinc-700">
+            <input
+              type="number"
+              min={1}
+              max={30}
+              step={1}
+              value={value.remindDaysBefore}
+              onChange={(e) => {
+                const days = parseInt(e.target.value, 10);
+                onChange({ ...value, remindDaysBefore: Number.isNaN(days) ? 1 : days });
+              }}
+              disabled={disabled}
+              aria-label="Days before the due date"
+              className="h-8 w-16 rounded-lg border border-zinc-300 bg-white px-2 text-sm text-zinc-900 disabled:opacity-50"
+            />
+            days before the due date
+          </label>
+        )}
+      </div>
+      <label className="flex cursor-pointer items-center gap-2">
+        <input
+          type="checkbox"
+          checked={value.remindOnDueDate ?? false}
+          onChange={(e) => onChange({ ...value, remindOnDueDate: e.target.checked })}
+          disabled={disabled}
+          className="h-4 w-4 rounded border-zinc-300 text-amber-600 focus:ring-amber-500 disabled:opacity-50"
+        />
+        <span className="text-sm text-zinc-700">Remind again on the due date</span>
+      </label>
+      <label className="flex cursor-pointer items-center gap-2">
+        <input
+          type="checkbox"
+          checked={value.flagToAdmin ?? false}
+          onChange={(e) => onChange({ ...value, flagToAdmin: e.target.checked })}
+          disabled={disabled}
+          className="h-4 w-4 rounded border-zinc-300 text-amber-600 focus:ring-amber-500 disabled:opacity-50"
+        />
+        <span className="text-sm text-zinc-700">Let the school admin know about overdue slips</span>
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import type { PermissionFormField, PermissionFormResponses } from "@/lib/db/types";
+
+interface SlipFormFieldInputsProps {
+  /** Keeps input ids unique when several slips are on the page */
+  slipId: string;
+  fields: PermissionFormField[];
+  value: PermissionFormResponses;
+  onChange: (value: PermissionFormResponses) => void;
+  disabled?: boolean;
+}
+
+const inputClass =
+  "h-10 w-full rounded-lg border border-zinc-300 bg-white px-3 text-zinc-900 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50";
+
+/**
+ * The teacher's questions on a permission slip. Answers go with whichever way the parent
+ * completes the slip, signing online or uploading a paper copy.
+ */
+export function SlipFormFieldInputs({
+  slipId,
+  fields,
+  value,
+  onChange,
+  disabled,
+}: SlipFormFieldInputsProps) {
+  function setAnswer(key: string, answer: string | boolean) {
+    onChange({ ...value, [key]: answer });
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border border-zinc-200 p-3">
+      <p className="text-sm font-medium text-zinc-700">A few questions from the teacher</p>
+      {fields.map((field) => {
+        const id = `slip-field-${slipId}-${field.key}`;
+        const label = (
+          <>
+            {field.label}
+            {field.required && <span className="text-red-600"> *</span>}
+          </>
+        );
+        if (field.type === "checkbox") {
+          return (
+            <label key={field.key} className="flex cursor-pointer items-start gap-2 text-sm text-zinc-700">
+              <input
+                type="checkbox"
+                checked={value[field.key] === true}
+                onChange={(e) => setAnswer(field.key, e.target.checked)}
+                disabled={disabled}
+                className="mt-0.5 h-4 w-4 rounded border-zinc-300 text-amber-600 focus:ring-amber-500"
+              />
+              <span>{label}</span>
+            </label>
+          );
+        }
+        const current = typeof value[field.key] === "string" ? (value[field.key] as string) : "";
+        return (
+          <div key={field.key}>
+            <label htmlFor={id} className="mb-1 block text-sm text-zinc-700">
+              {label}
+            </label>
+            {field.type === "choice" ? (
+              <select
+                id={id}
+                value={current}
+                onChange={(e) => setAnswer(field.key, e.target.value)}
+                disabled={disabled}
+                className={inputClass}
+              >
+                <option value="">Choose…</option>
+                {field.options?.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input
+                id={id}
+                type="text"
+                value={current}
+                onChange={(e) => setAnswer(field.key, e.target.value)}
+                maxLength={500}
+                disabled={disabled}
+                className={inputClass}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { startSlipCheckoutAction } from "@/app/actions";
+
+interface SlipPaymentProps {
+  slipId: string;
+  paymentMethod: "online" | "cash";
+  /** What's left to pay, after anything recorded by the teacher */
+  amount?: number;
+  paidAt?: string;
+  paymentIntentId?: string;
+  eventCancelled: boolean;
+  timeZone: string;
+}
+
+/**
+ * Payment line on a completed inbox item. Families paying online are sent to the payment
+ * provider's checkout; the slip shows as paid once the provider confirms it.
+ */
+export function SlipPayment({
+  slipId,
+  paymentMethod,
+  amount,
+  paidAt,
+  paymentIntentId,
+  eventCancelled,
+  timeZone,
+}: SlipPaymentProps) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  if (paymentMethod === "cash") {
+    return <p className="text-sm text-zinc-600">Payment: Sending cash with child</p>;
+  }
+
+  if (paidAt) {
+    return (
+      <p className="text-sm text-emerald-700">
+        Paid online on{" "}
+        {new Date(paidAt).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone })}
+        {paymentIntentId && (
+          <>
+            {" · "}
+            <a
+              href={`/api/payments/${paymentIntentId}/receipt`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-medium underline hover:text-emerald-800"
+            >
+              View receipt
+            </a>
+          </>
+        )}
+      </p>
+    );
+  }
+
+  if (amount != null && amount <= 0 && !eventCancelled) {
+    return <p className="text-sm text-emerald-700">Payment: Nothing left to pay</p>;
+  }
+
+  function handlePay() {
+    setError(null);
+    startTransition(async () => {
+      const res = await startSlipCheckoutAction(slipId);
+      if (res.success && res.checkoutUrl) {
+        window.location.assign(res.checkoutUrl);
+      } else if (res.error) {
+        setError(res.error);
+      }
+    });
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-zinc-600">
+        Payment: Pay online <span className="font-medium text-amber-700">(not paid yet)</span>
+      </p>
+      {!eventCancelled && amount != null && amount > 0 && (
+        <button
+          type="button"
+          onClick={handlePay}
+          disabled={isPending}
+          className="rounded-lg bg-amber-600 px-4 py-2 text-sm font-medium text-white hover:bg-amber-700 disabled:pointer-events-none disabled:opacity-50"
+        >
+          {isPending ? "Opening checkout..." : `Pay $${amount.toFixed(2)} now`}
+        </button>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
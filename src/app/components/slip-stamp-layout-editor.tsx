@@ -0,0 +1,178 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { saveStampLayoutAction } from "@/app/actions";
+import type { SlipStampField, SlipStampLayout } from "@/lib/db/types";
+
+interface SlipStampLayoutEditorProps {
+  eventId: string;
+  layout?: SlipStampLayout;
+  disabled?: boolean;
+}
+
+const FIELD_LABELS: Record<SlipStampField, string> = {
+  parentName: "Parent name",
+  studentName: "Student name",
+  signature: "Signature",
+  date: "Date signed",
+  payment: "Payment choice",
+};
+
+const FIELDS = Object.keys(FIELD_LABELS) as SlipStampField[];
+
+interface FieldRow {
+  enabled: boolean;
+  page: string;
+  x: string;
+  y: string;
+}
+
+function toRows(layout: SlipStampLayout | undefined): Record<SlipStampField, FieldRow> {
+  return Object.fromEntries(
+    FIELDS.map((field) => {
+      const position = layout?.[field];
+      return [
+        field,
+        position
+          ? { enabled: true, page: String(position.page), x: String(position.x), y: String(position.y) }
+          : { enabled: false, page: "1", x: "", y: "" },
+      ];
+    })
+  ) as Record<SlipStampField, FieldRow>;
+}
+
+/**
+ * Where parents' e-signature details are stamped on the teacher's form. Positions are a
+ * percentage across and down the page from its top-left corner.
+ */
+export function SlipStampLayoutEditor({ eventId, layout, disabled }: SlipStampLayoutEditorProps) {
+  const router = useRouter();
+  const [rows, setRows] = useState(() => toRows(layout));
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const isDisabled = disabled || isPending;
+
+  function updateRow(field: SlipStampField, changes: Partial<FieldRow>) {
+    setRows((prev) => ({ ...prev, [field]: { ...prev[field], ...changes } }));
+    setSaved(false);
+  }
+
+  function handleSave() {
+    const next: SlipStampLayout = {};
+    for (const field of FIELDS) {
+      const row = rows[field];
+      if (!row.enabled) continue;
+      const page = parseInt(row.page, 10);
+      const x = parseFloat(row.x);
+      const y = parseFloat(row.y);
+      if (Number.isNaN(page) || Number.isNaN(x) || Number.isNaN(y)) {
+        setError(`Enter a page and position for ${FIELD_LABELS[field].toLowerCase()}`);
+        return;
+      }
+      next[field] = { page, x, y };
+    }
+    setError(null);
+    startTransition(async () => {
+      const res = await saveStampLayoutAction(eventId, next);
+      if (res.success) {
+        setSaved(true);
+        router.refresh();
+      } else if (res.error) {
+        setError(res.error);
+      }
+    });
+  }
+
+  return (
+    <div className="mt-4 border-t border-zinc-200 pt-3">
+      <h4 className="text-sm font-medium text-zinc-800">Where signatures go on the form</h4>
+      <p className="mt-1 text-xs text-zinc-500">
+        Position is % across and % down from the page&apos;s top-left corner. Leave every item
+        off to add a signature page at the end instead.
+      </p>
+      <div className="mt-2 space-y-2">
+        {FIELDS.map((field) => {
+          const row = rows[field];
+          return (
+            <div key={field} className="flex flex-wrap items-center gap-2 text-sm">
+              <label className="flex w-36 cursor-pointer items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={row.enabled}
+                  onChange={(e) => updateRow(field, { enabled: e.target.checked })}
+                  disabled={isDisabled}
+                  className="h-4 w-4 rounded border-zinc-300 text-red-600 focus:ring-red-500"
+                />
+                <span className="text-zinc-700">{FIELD_LABELS[field]}</span>
+              </label>
+              {row.enabled && (
+                <>
+                  <label className="flex items-center gap-1 text-xs text-zinc-500">
+                    Page
+                    <input
+                      type="number"
+                      min={1}
+                      max={100}
+                      value={row.page}
+                      onChange={(e) => updateRow(field, { page: e.target.value })}
+                      disabled={isDisabled}
+                      className="h-8 w-14 rounded-lg border border-zinc-300 px-2 text-sm text-zinc-900"
+                    />
+                  </label>
+                  <label className="flex items-center gap-1 text-xs text-zinc-500">
+                    Across %
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      step="0.5"
+                      value={row.x}
+                      onChange={(e) => updateRow(field, { x: e.target.value })}
+                      disabled={isDisabled}
+                      className="h-8 w-16 rounded-lg border border-zinc-300 px-2 text-sm text-zinc-900"
+                    />
+                  </label>
+                  <label className="flex items-center gap-1 text-xs text-zinc-500">
+                    Down %
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      step="0.5"
+                      value={row.y}
+                      onChange={(e) => updateRow(field, { y: e.target.value })}
+                      disabled={isDisabled}
+                      className="h-8 w-16 rounded-lg border border-zinc-300 px-2 text-sm text-zinc-900"
+                    />
+                  </label>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      <div className="mt-3 flex items-center gap-3">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isDisabled}
+          className="rounded-lg border border-zinc-300 bg-white px-3 py-1.5 text-sm font-medium text-zinc-700 hover:bg-zinc-50 disabled:pointer-events-none disabled:opacity-50"
+        >
+          {isPending ? "Saving..." : "Save positions"}
+        </button>
+        <a
+          href={`/api/event/${eventId}/permission-form?stampPreview=1`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-sm font-medium text-zinc-600 hover:text-zinc-900"
+        >
+          Preview signed copy
+        </a>
+        {saved && <span className="text-xs text-emerald-600">Saved ✓</span>}
+      </div>
+    </div>
+  );
+}
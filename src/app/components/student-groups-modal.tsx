@@ -0,0 +1,214 @@
+"use client";
+
+import { useState, useTransition, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { deleteStudentGroupAction, saveStudentGroupAction } from "@/app/actions";
+import type { StudentGroup } from "@/lib/db/types";
+import type { TeacherClassSerialized } from "@/lib/teacher-dashboard";
+
+interface StudentGroupsModalProps {
+  classInfo: TeacherClassSerialized;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Teams, clubs and other groups within a class. Events can then be aimed at a group
+ * so only those students' parents get slips.
+ */
+export function StudentGroupsModal({ classInfo, isOpen, onClose }: StudentGroupsModalProps) {
+  const router = useRouter();
+  const [editing, setEditing] = useState<StudentGroup | "new" | null>(null);
+  const [name, setName] = useState("");
+  const [studentIds, setStudentIds] = useState<string[]>([]);
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      /* eslint-disable react-hooks/set-state-in-effect -- Reset form state when modal opens */
+      setEditing(null);
+      setError(null);
+      /* eslint-enable react-hooks/set-state-in-effect */
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  function startEditing(group: StudentGroup | "new") {
+    setEditing(group);
+    setName(group === "new" ? "" : group.name);
+    setStudentIds(group === "new" ? [] : group.studentIds);
+    setError(null);
+  }
+
+  function toggleStudent(studentId: string) {
+    setStudentIds((prev) =>
+      prev.includes(studentId) ? prev.filter((id) => id !== studentId) : [...prev, studentId]
+    );
+  }
+
+  function handleClose() {
+    if (!isPending) onClose();
+  }
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    startTransition(async () => {
+      const res = await saveStudentGroupAction(classInfo.id, {
+        groupId: editing && editing !== "new" ? editing.id : undefined,
+        name,
+        studentIds,
+      });
+      if (res.success) {
+        setEditing(null);
+        router.refresh();
+      } else if (res.error) {
+        setError(res.error);
+      }
+    });
+  }
+
+  function handleDelete(group: StudentGroup) {
+    if (!confirm(`Delete the group "${group.name}"? Events already aimed at it keep their students.`)) {
+      return;
+    }
+    setError(null);
+    startTransition(async () => {
+      const res = await deleteStudentGroupAction(classInfo.id, group.id);
+      if (res.success) {
+        router.refresh();
+      } else if (res.error) {
+        setError(res.error);
+      }
+    });
+  }
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 z-[60] bg-black/50"
+        aria-hidden="true"
+        onClick={handleClose}
+      />
+      <div className="fixed left-1/2 top-1/2 z-[70] max-h-[90vh] w-[calc(100%-2rem)] max-w-md -translate-x-1/2 -translate-y-1/2 overflow-y-auto rounded-xl border border-zinc-200 bg-white p-6 shadow-xl">
+        <h2 className="text-lg font-semibold text-zinc-900">Student groups</h2>
+        <p className="mt-1 text-sm text-zinc-600">
+          {classInfo.name}: teams, clubs and enrichment groups. Aim an event at a group so
+          only those families are asked.
+        </p>
+        {editing ? (
+          <form onSubmit={handleSubmit} className="mt-4 flex flex-col gap-4">
+            <div>
+              <label htmlFor="group-name" className="mb-1 block text-sm font-medium text-zinc-700">
+                Group name
+              </label>
+              <input
+                id="group-name"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Basketball team"
+                maxLength={100}
+                required
+                disabled={isPending}
+                className="h-10 w-full rounded-lg border border-zinc-300 bg-white px-3 text-zinc-900 placeholder:text-zinc-400 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+              />
+            </div>
+            <ul className="max-h-60 space-y-1 overflow-y-auto rounded-lg border border-zinc-200 p-2">
+              {classInfo.students.map((s) => (
+                <li key={s.id}>
+                  <label className="flex cursor-pointer items-center gap-2 text-sm text-zinc-700">
+                    <input
+                      type="checkbox"
+                      checked={studentIds.includes(s.id)}
+                      onChange={() => toggleStudent(s.id)}
+                      disabled={isPending}
+                      className="h-4 w-4 rounded border-zinc-300 text-red-600 focus:ring-red-500"
+                    />
+                    {s.name}
+                  </label>
+                </li>
+              ))}
+            </ul>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={() => setEditing(null)}
+                disabled={isPending}
+                className="flex-1 rounded-lg border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 disabled:opacity-50"
+              >
+                Back
+              </button>
+              <button
+                type="submit"
+                disabled={isPending || !name.trim() || studentIds.length === 0}
+                className="flex-1 rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white disabled:opacity-50"
+              >
+                {isPending ? "Saving..." : "Save group"}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <div className="mt-4 flex flex-col gap-4">
+            {classInfo.groups.length > 0 ? (
+              <ul className="divide-y divide-zinc-200 rounded-lg border border-zinc-200">
+                {classInfo.groups.map((g) => (
+                  <li key={g.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                    <span className="text-sm text-zinc-800">
+                      {g.name}{" "}
+                      <span className="text-zinc-500">
+                        ({g.studentIds.length} student{g.studentIds.length !== 1 ? "s" : ""})
+                      </span>
+                    </span>
+                    <span className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={() => startEditing(g)}
+                        disabled={isPending}
+                        className="text-xs font-medium text-zinc-700 hover:text-zinc-900 disabled:opacity-50"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(g)}
+                        disabled={isPending}
+                        className="text-xs font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+                      >
+                        Delete
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-zinc-500">No groups yet.</p>
+            )}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={handleClose}
+                disabled={isPending}
+                className="flex-1 rounded-lg border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 disabled:opacity-50"
+              >
+                Done
+              </button>
+              <button
+                type="button"
+                onClick={() => startEditing("new")}
+                disabled={isPending || classInfo.students.length === 0}
+                className="flex-1 rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white disabled:opacity-50"
+              >
+                New group
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -4,21 +4,44 @@ import Link from "next/link";
 import Image from "next/image";
 import { useState, useTransition, useEffect, useMemo } from "react";
 import { useRouter } from "next/navigation";
+import {
+  describeRecurrenceRule,
+  getEventOccurrenceDates,
+  getOccurrenceTimes,
+} from "@/lib/recurrence";
 import type {
   TeacherClassSerialized,
   CalendarEventSerialized,
   ClassStudentSerialized,
   TeacherInterviewClass,
   StudentWithGuardians,
+  SchoolClassOption,
 } from "@/lib/teacher-dashboard";
 import type { ReportCardSerialized } from "@/lib/report-cards";
+import type { EventRevisionSerialized } from "@/lib/event-revisions";
+import type { VolunteerRoleStatus } from "@/lib/event-volunteers";
+import type { EventTemplateSerialized } from "@/lib/event-templates";
+import type { SchoolClosureSerialized } from "@/lib/school-closures";
+import type { UrgentBroadcastSummarySerialized } from "@/lib/urgent-broadcasts";
 import type {
   EventPermissionStatus,
   EventPermissionStatusByStudent,
 } from "@/lib/event-permission-slips";
+import type { PermissionFormField } from "@/lib/db/types";
+import { formatFormResponse } from "@/lib/permission-form-fields";
 import { AddEventModal } from "./add-event-modal";
+import { ImportEventsModal } from "./import-events-modal";
+import { SchoolClosuresModal } from "./school-closures-modal";
+import { UrgentBroadcastList, UrgentBroadcastModal } from "./urgent-broadcasts";
 import { EditEventModal } from "./edit-event-modal";
+import { OverdueSlipsPanel } from "./overdue-slips-panel";
+import { ClassRosterExport } from "./class-roster-export";
+import { ClassBalancesPanel } from "./class-balances-panel";
+import { FeeWaiverQueue } from "./fee-waiver-queue";
+import type { FeeWaiverSerialized } from "@/lib/fee-waivers";
+import type { ClassBalanceReport } from "@/lib/family-ledger";
 import { AddStudentsModal } from "./add-students-modal";
+import { StudentGroupsModal } from "./student-groups-modal";
 import {
   linkGuardianAction,
   unlinkGuardianAction,
@@ -27,6 +50,7 @@ import {
   recordPaymentMethodForStudentAction,
   unsubmitSlipForTeacherAction,
   markCashReceivedAction,
+  markRefundIssuedAction,
   publishReportCardAction,
 } from "@/app/actions";
 import { AddReportCardModal } from "./add-report-card-modal";
@@ -38,6 +62,22 @@ import {
   unbookInterviewSlotAction,
 } from "@/app/actions";
 import { MessageThreadModal } from "./message-thread-modal";
+import { CalendarFeedPanel } from "./calendar-feed-panel";
+import { ApprovalBadge, EventStatusBadge } from "./event-status";
+import {
+  CalendarTimeView,
+  CalendarViewSwitcher,
+  closuresToCalendarItems,
+  eventsToCalendarItems,
+  getCalendarTitle,
+  handleCalendarKeyDown,
+  interviewSlotsToCalendarItems,
+  stepCalendarDate,
+  type CalendarInterviewSlot,
+  type CalendarViewMode,
+} from "./calendar-views";
+import { addDaysToDate, getZonedToday } from "@/lib/timezone";
+import { findClosureOn } from "@/lib/closure-dates";
 
 interface TeacherDashboardProps {
   userName: string | null;
@@ -57,18 +97,31 @@ interface TeacherDashboardProps {
       messageCount: number;
     }
   >;
+  calendarFeedUrl: string | null;
+  eventRevisions: Record<string, EventRevisionSerialized[]>;
+  volunteerStatus: Record<string, VolunteerRoleStatus[]>;
+  eventTemplates: EventTemplateSerialized[];
+  schoolClasses: SchoolClassOption[];
+  /** Other classes each linked event was published to */
+  linkedClasses: Record<string, string[]>;
+  schoolClosures: SchoolClosureSerialized[];
+  urgentBroadcasts: UrgentBroadcastSummarySerialized[];
+  /** Family accounts per class, for the outstanding balances report */
+  classBalances: ClassBalanceReport[];
+  /** Families' confidential requests for help with costs */
+  feeWaivers: FeeWaiverSerialized[];
+  /** School time zone: event times are on its clock and "today" is its date */
+  timeZone: string;
 }
 
-function formatEventDate(iso: string): string {
+function formatEventDate(iso: string, timeZone: string): string {
   const d = new Date(iso);
-  const today = new Date();
-  const tomorrow = new Date(today);
-  tomorrow.setDate(tomorrow.getDate() + 1);
+  const today = getZonedToday(timeZone);
 
-  if (d.toDateString() === today.toDateString()) {
+  if (iso.slice(0, 10) === today) {
     return `Today at ${d.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })}`;
   }
-  if (d.toDateString() === tomorrow.toDateString()) {
+  if (iso.slice(0, 10) === addDaysToDate(today, 1)) {
     return `Tomorrow at ${d.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })}`;
   }
   return d.toLocaleDateString("en-US", {
@@ -123,16 +176,25 @@ function formatOccurrenceDates(dates: string[]): string {
 function TeacherCalendarView({
   events,
   classes,
+  interviewSlots,
+  closures,
+  timeZone,
   onEventClick,
+  onInterviewClick,
+  onManageClosures,
 }: {
   events: CalendarEventSerialized[];
   classes: { id: string; name: string }[];
+  interviewSlots: CalendarInterviewSlot[];
+  closures: SchoolClosureSerialized[];
+  timeZone: string;
   onEventClick: (eventId: string) => void;
+  onInterviewClick: () => void;
+  onManageClosures: () => void;
 }) {
-  const [viewDate, setViewDate] = useState(() => {
-    const d = new Date();
-    return new Date(d.getFullYear(), d.getMonth(), 1);
-  });
+  const today = getZonedToday(timeZone);
+  const [view, setView] = useState<CalendarViewMode>("month");
+  const [anchor, setAnchor] = useState(today);
   const [classFilterOpen, setClassFilterOpen] = useState(false);
   const [selectedClassIds, setSelectedClassIds] = useState<Set<string> | null>(null);
 
@@ -144,6 +206,10 @@ function TeacherCalendarView({
         : events.filter(
             (e) => !e.classId || selectedClassIds.has(e.classId)
           );
+  const filteredInterviewSlots =
+    selectedClassIds === null
+      ? interviewSlots
+      : interviewSlots.filter((s) => selectedClassIds.has(s.slot.classId));
 
   const selectedCount =
     selectedClassIds === null
@@ -170,15 +236,23 @@ function TeacherCalendarView({
     setSelectedClassIds(new Set());
   }
 
-  const year = viewDate.getFullYear();
-  const month = viewDate.getMonth();
-  const monthName = viewDate.toLocaleDateString("en-US", {
-    month: "long",
-    year: "numeric",
-  });
+  function changeView(nextView: CalendarViewMode, nextAnchor: string) {
+    setView(nextView);
+    setAnchor(nextAnchor);
+  }
 
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  // Month grid: the month containing the anchor date
+  const year = Number(anchor.slice(0, 4));
+  const month = Number(anchor.slice(5, 7)) - 1;
+  const classNames = new Map(classes.map((c) => [c.id, c.name]));
+  const timeViewItems =
+    view === "month"
+      ? []
+      : [
+          ...eventsToCalendarItems(filteredEvents, classNames),
+          ...interviewSlotsToCalendarItems(filteredInterviewSlots),
+          ...closuresToCalendarItems(closures),
+        ];
 
   const firstDay = new Date(year, month, 1);
   const lastDay = new Date(year, month + 1, 0);
@@ -196,8 +270,9 @@ function TeacherCalendarView({
     `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
   const eventSortKey = (ev: CalendarEventSerialized, cellDateStr: string): number => {
     let timePart = "12:00:00";
-    if (ev.startAt.includes("T")) {
-      const afterT = ev.startAt.slice(11);
+    const { startAt } = getOccurrenceTimes(ev, cellDateStr);
+    if (startAt.includes("T")) {
+      const afterT = startAt.slice(11);
       const match = afterT.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?/);
       if (match) {
         const [, h = "12", m = "00", s] = match;
@@ -210,10 +285,7 @@ function TeacherCalendarView({
   };
   const eventsByDate = new Map<string, CalendarEventSerialized[]>();
   for (const event of filteredEvents) {
-    const dates: string[] =
-      event.occurrenceDates && event.occurrenceDates.length > 1
-        ? event.occurrenceDates
-        : [event.startAt.slice(0, 10)];
+    const dates = getEventOccurrenceDates(event);
     for (const d of dates) {
       if (!eventsByDate.has(d)) eventsByDate.set(d, []);
       eventsByDate.get(d)!.push(event);
@@ -230,18 +302,21 @@ function TeacherCalendarView({
         : `${selectedCount} class${selectedCount !== 1 ? "es" : ""}`;
 
   return (
-    <div className="space-y-4">
+    <div
+      className="space-y-4 focus:outline-none"
+      tabIndex={0}
+      aria-label="Calendar. Use the arrow keys to page, T for today, and M, W, D or A to switch views."
+      onKeyDown={(e) => handleCalendarKeyDown(e, view, anchor, today, changeView)}
+    >
       <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
         <div className="flex flex-wrap items-center gap-3">
-          <h2 className="text-lg font-medium text-zinc-900">{monthName}</h2>
+          <h2 className="text-lg font-medium text-zinc-900">{getCalendarTitle(view, anchor)}</h2>
           <div className="flex gap-1">
             <button
               type="button"
-              onClick={() =>
-                setViewDate(new Date(viewDate.getFullYear(), viewDate.getMonth() - 1))
-              }
+              onClick={() => setAnchor(stepCalendarDate(view, anchor, -1))}
               className="rounded-lg border border-zinc-300 bg-white p-2 text-zinc-600 hover:bg-zinc-50"
-              aria-label="Previous month"
+              aria-label={`Previous ${view === "agenda" ? "page" : view}`}
             >
               <svg
                 xmlns="http://www.w3.org/2000/svg"
@@ -259,10 +334,7 @@ function TeacherCalendarView({
             </button>
             <button
               type="button"
-              onClick={() => {
-                const now = new Date();
-                setViewDate(new Date(now.getFullYear(), now.getMonth(), 1));
-              }}
+              onClick={() => setAnchor(today)}
               className="rounded-lg border border-zinc-300 bg-white px-3 py-2 text-xs font-medium text-zinc-600 hover:bg-zinc-50"
               aria-label="Go to today"
             >
@@ -270,11 +342,9 @@ function TeacherCalendarView({
             </button>
             <button
               type="button"
-              onClick={() =>
-                setViewDate(new Date(viewDate.getFullYear(), viewDate.getMonth() + 1))
-              }
+              onClick={() => setAnchor(stepCalendarDate(view, anchor, 1))}
               className="rounded-lg border border-zinc-300 bg-white p-2 text-zinc-600 hover:bg-zinc-50"
-              aria-label="Next month"
+              aria-label={`Next ${view === "agenda" ? "page" : view}`}
             >
               <svg
                 xmlns="http://www.w3.org/2000/svg"
@@ -291,185 +361,218 @@ function TeacherCalendarView({
               </svg>
             </button>
           </div>
+          <CalendarViewSwitcher view={view} onChange={(v) => changeView(v, anchor)} />
         </div>
-        {classes.length > 0 && (
-          <div className="relative">
-            <button
-              type="button"
-              onClick={() => setClassFilterOpen((o) => !o)}
-              className="flex items-center gap-2 rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-700 hover:bg-zinc-50"
-            >
-              {filterLabel}
-              <svg
-                xmlns="http://www.w3.org/2000/svg"
-                width="14"
-                height="14"
-                viewBox="0 0 24 24"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                className={classFilterOpen ? "rotate-180" : ""}
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={onManageClosures}
+            className="rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-700 hover:bg-zinc-50"
+          >
+            School closures
+          </button>
+          {classes.length > 0 && (
+            <div className="relative">
+              <button
+                type="button"
+                onClick={() => setClassFilterOpen((o) => !o)}
+                className="flex items-center gap-2 rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-700 hover:bg-zinc-50"
               >
-                <path d="m6 9 6 6 6-6" />
-              </svg>
-            </button>
-            {classFilterOpen && (
-              <>
-                <div
-                  className="fixed inset-0 z-10"
-                  aria-hidden="true"
-                  onClick={() => setClassFilterOpen(false)}
-                />
-                <div className="absolute right-0 top-full z-20 mt-1 min-w-[200px] rounded-lg border border-zinc-200 bg-white py-2 shadow-lg">
-                  <button
-                    type="button"
-                    onClick={selectAllClasses}
-                    className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm text-zinc-700 hover:bg-zinc-50"
-                  >
-                    <span
-                      className={`inline-flex h-4 w-4 items-center justify-center rounded border ${
-                        selectedClassIds === null || selectedClassIds.size === classes.length
-                          ? "border-red-600 bg-red-600"
-                          : "border-zinc-300"
-                      }`}
+                {filterLabel}
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="14"
+                  height="14"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className={classFilterOpen ? "rotate-180" : ""}
+                >
+                  <path d="m6 9 6 6 6-6" />
+                </svg>
+              </button>
+              {classFilterOpen && (
+                <>
+                  <div
+                    className="fixed inset-0 z-10"
+                    aria-hidden="true"
+                    onClick={() => setClassFilterOpen(false)}
+                  />
+                  <div className="absolute right-0 top-full z-20 mt-1 min-w-[200px] rounded-lg border border-zinc-200 bg-white py-2 shadow-lg">
+                    <button
+                      type="button"
+                      onClick={selectAllClasses}
+                      className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm text-zinc-700 hover:bg-zinc-50"
                     >
-                      {(selectedClassIds === null || selectedClassIds.size === classes.length) && (
-                        <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="2">
-                          <path d="M20 6 9 17l-5-5" />
-                        </svg>
-                      )}
-                    </span>
-                    All classes
-                  </button>
-                  <button
-                    type="button"
-                    onClick={selectNoClasses}
-                    className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm text-zinc-700 hover:bg-zinc-50"
-                  >
-                    <span
-                      className={`inline-flex h-4 w-4 items-center justify-center rounded border ${
-                        selectedClassIds !== null && selectedClassIds.size === 0
-                          ? "border-red-600 bg-red-600"
-                          : "border-zinc-300"
-                      }`}
+                      <span
+                        className={`inline-flex h-4 w-4 items-center justify-center rounded border ${
+                          selectedClassIds === null || selectedClassIds.size === classes.length
+                            ? "border-red-600 bg-red-600"
+                            : "border-zinc-300"
+                        }`}
+                      >
+                        {(selectedClassIds === null || selectedClassIds.size === classes.length) && (
+                          <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="2">
+                            <path d="M20 6 9 17l-5-5" />
+                          </svg>
+                        )}
+                      </span>
+                      All classes
+                    </button>
+                    <button
+                      type="button"
+                      onClick={selectNoClasses}
+                      className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm text-zinc-700 hover:bg-zinc-50"
                     >
-                      {selectedClassIds !== null && selectedClassIds.size === 0 && (
-                        <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="2">
-                          <path d="M20 6 9 17l-5-5" />
-                        </svg>
-                      )}
-                    </span>
-                    No classes
-                  </button>
-                  <div className="my-1 border-t border-zinc-200" />
-                  {classes.map((cls) => {
-                    const isSelected =
-                      selectedClassIds === null ||
-                      selectedClassIds.has(cls.id);
-                    return (
-                      <button
-                        key={cls.id}
-                        type="button"
-                        onClick={() => toggleClass(cls.id)}
-                        className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm text-zinc-700 hover:bg-zinc-50"
+                      <span
+                        className={`inline-flex h-4 w-4 items-center justify-center rounded border ${
+                          selectedClassIds !== null && selectedClassIds.size === 0
+                            ? "border-red-600 bg-red-600"
+                            : "border-zinc-300"
+                        }`}
                       >
-                        <span
-                          className={`inline-flex h-4 w-4 items-center justify-center rounded border ${
-                            isSelected
-                              ? "border-red-600 bg-red-600"
-                              : "border-zinc-300"
-                          }`}
+                        {selectedClassIds !== null && selectedClassIds.size === 0 && (
+                          <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="2">
+                            <path d="M20 6 9 17l-5-5" />
+                          </svg>
+                        )}
+                      </span>
+                      No classes
+                    </button>
+                    <div className="my-1 border-t border-zinc-200" />
+                    {classes.map((cls) => {
+                      const isSelected =
+                        selectedClassIds === null ||
+                        selectedClassIds.has(cls.id);
+                      return (
+                        <button
+                          key={cls.id}
+                          type="button"
+                          onClick={() => toggleClass(cls.id)}
+                          className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm text-zinc-700 hover:bg-zinc-50"
                         >
-                          {isSelected && (
-                            <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="2">
-                              <path d="M20 6 9 17l-5-5" />
-                            </svg>
-                          )}
-                        </span>
-                        {cls.name}
-                      </button>
-                    );
-                  })}
-                </div>
-              </>
-            )}
-          </div>
-        )}
-      </div>
-      <div className="overflow-hidden rounded-xl border border-zinc-200 bg-white">
-        <div className="grid grid-cols-7 border-b border-zinc-200 bg-zinc-50">
-          {weekDays.map((day) => (
-            <div
-              key={day}
-              className="py-2 text-center text-xs font-medium text-zinc-500"
-            >
-              {day}
+                          <span
+                            className={`inline-flex h-4 w-4 items-center justify-center rounded border ${
+                              isSelected
+                                ? "border-red-600 bg-red-600"
+                                : "border-zinc-300"
+                            }`}
+                          >
+                            {isSelected && (
+                              <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="2">
+                                <path d="M20 6 9 17l-5-5" />
+                              </svg>
+                            )}
+                          </span>
+                          {cls.name}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </>
+              )}
             </div>
-          ))}
+          )}
         </div>
-        <div className="grid grid-cols-7">
-          {days.map((date, i) => {
-            if (!date) {
-              return <div key={`pad-${i}`} className="min-h-[80px] bg-zinc-50/50" />;
-            }
-            const key = dateKey(date);
-            const dayEventsRaw = eventsByDate.get(key) ?? [];
-            const dayEvents = [...dayEventsRaw].sort(
-              (a, b) => eventSortKey(a, key) - eventSortKey(b, key)
-            );
-            const isToday =
-              date.getDate() === today.getDate() &&
-              date.getMonth() === today.getMonth() &&
-              date.getFullYear() === today.getFullYear();
-
-            return (
+      </div>
+      {view === "month" ? (
+        <div className="overflow-hidden rounded-xl border border-zinc-200 bg-white">
+          <div className="grid grid-cols-7 border-b border-zinc-200 bg-zinc-50">
+            {weekDays.map((day) => (
               <div
-                key={key}
-                className={`min-h-[80px] border-b border-r border-zinc-100 p-2 last:border-r-0 ${
-                  isToday ? "bg-amber-50/80" : "bg-white"
-                }`}
+                key={day}
+                className="py-2 text-center text-xs font-medium text-zinc-500"
               >
-                <span
-                  className={`inline-flex h-7 w-7 items-center justify-center rounded-full text-sm ${
-                    isToday
-                      ? "bg-red-600 font-medium text-white"
-                      : "text-zinc-700"
+                {day}
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-7">
+            {days.map((date, i) => {
+              if (!date) {
+                return <div key={`pad-${i}`} className="min-h-[80px] bg-zinc-50/50" />;
+              }
+              const key = dateKey(date);
+              const dayEventsRaw = eventsByDate.get(key) ?? [];
+              const dayEvents = [...dayEventsRaw].sort(
+                (a, b) => eventSortKey(a, key) - eventSortKey(b, key)
+              );
+              const isToday = key === today;
+              const closure = findClosureOn(closures, key);
+
+              return (
+                <div
+                  key={key}
+                  className={`min-h-[80px] border-b border-r border-zinc-100 p-2 last:border-r-0 ${
+                    isToday ? "bg-amber-50/80" : closure ? "bg-zinc-50" : "bg-white"
                   }`}
                 >
-                  {date.getDate()}
-                </span>
-                <div className="mt-1 space-y-1">
-                  {dayEvents.slice(0, 3).map((ev) => (
-                    <button
-                      key={`${ev.id}-${key}`}
-                      type="button"
-                      onClick={() => onEventClick(ev.id)}
-                      className="w-full truncate rounded px-2 py-1 text-left text-xs font-medium text-zinc-800 transition-colors hover:bg-amber-100 hover:text-amber-900"
-                      title={ev.title}
-                    >
-                      {ev.title}
-                    </button>
-                  ))}
-                  {dayEvents.length > 3 && (
-                    <span className="block px-2 text-xs text-zinc-500">
-                      +{dayEvents.length - 3} more
+                  <span
+                    className={`inline-flex h-7 w-7 items-center justify-center rounded-full text-sm ${
+                      isToday
+                        ? "bg-red-600 font-medium text-white"
+                        : "text-zinc-700"
+                    }`}
+                  >
+                    {date.getDate()}
+                  </span>
+                  {closure && (
+                    <span className="block truncate px-2 text-xs text-zinc-500" title={closure.name}>
+                      No school · {closure.name}
                     </span>
                   )}
+                  <div className="mt-1 space-y-1">
+                    {dayEvents.slice(0, 3).map((ev) => (
+                      <button
+                        key={`${ev.id}-${key}`}
+                        type="button"
+                        onClick={() => onEventClick(ev.id)}
+                        className={`w-full truncate rounded px-2 py-1 text-left text-xs font-medium transition-colors hover:bg-amber-100 hover:text-amber-900 ${
+                          ev.status === "cancelled"
+                            ? "text-zinc-400 line-through"
+                            : "text-zinc-800"
+                        }`}
+                        title={
+                          ev.status === "scheduled"
+                            ? ev.title
+                            : `${ev.title} (${ev.status})`
+                        }
+                      >
+                        {ev.title}
+                      </button>
+                    ))}
+                    {dayEvents.length > 3 && (
+                      <span className="block px-2 text-xs text-zinc-500">
+                        +{dayEvents.length - 3} more
+                      </span>
+                    )}
+                  </div>
                 </div>
-              </div>
-            );
-          })}
-        </div>
-        {filteredEvents.length === 0 && (
-          <div className="border-t border-zinc-200 p-8 text-center">
-            <p className="text-zinc-600">
-              No upcoming events. Add events from the Events tab.
-            </p>
+              );
+            })}
           </div>
-        )}
-      </div>
+          {filteredEvents.length === 0 && (
+            <div className="border-t border-zinc-200 p-8 text-center">
+              <p className="text-zinc-600">
+                No upcoming events. Add events from the Events tab.
+              </p>
+            </div>
+          )}
+        </div>
+      ) : (
+        <CalendarTimeView
+          view={view}
+          anchor={anchor}
+          today={today}
+          items={timeViewItems}
+          onItemClick={(item) =>
+            item.kind === "event" ? onEventClick(item.id) : onInterviewClick()
+          }
+        />
+      )}
       {filteredEvents.length > 0 && (
         <p className="text-sm text-zinc-500">
           Click an event to view details and manage permission slips.
@@ -480,18 +583,32 @@ function TeacherCalendarView({
 }
 
 function StudentSubmissionsAndPaymentTable({
+  eventId,
   students,
   eventCost,
+  capacity,
+  formFields,
+  requiresPermissionSlip,
   onMarkCashReceived,
+  onMarkRefundIssued,
   onRowClick,
 }: {
+  eventId: string;
   students: EventPermissionStatusByStudent[];
   eventCost: number;
+  capacity?: number;
+  formFields?: PermissionFormField[];
+  /** Signed PDFs exist to download */
+  requiresPermissionSlip?: boolean;
   onMarkCashReceived: (slipId: string, received: boolean) => Promise<void>;
+  onMarkRefundIssued: (slipId: string, issued: boolean) => Promise<void>;
   onRowClick: (student: EventPermissionStatusByStudent) => void;
 }) {
   const [updatingSlipId, setUpdatingSlipId] = useState<string | null>(null);
   const signed = students.filter((s) => s.status === "signed");
+  const waitlisted = students.filter((s) => s.status === "waitlisted");
+  const spotsFilled = signed.length + students.filter((s) => s.resignRequired).length;
+  const hasRefunds = students.some((s) => s.refundOwed != null);
 
   async function handleToggle(
     e: React.MouseEvent,
@@ -518,6 +635,81 @@ function StudentSubmissionsAndPaymentTable({
           <span className="text-emerald-600 font-medium">{signed.length}</span>
           {" / "}
           <span className="text-zinc-700">{students.length}</span> submitted
+          {capacity != null && (
+            <>
+              {" · "}
+              {spotsFilled} / {capacity} spots filled
+              {waitlisted.length > 0 && `, ${waitlisted.length} on waitlist`}
+            </>
+          )}
+          {formFields && (
+            <>
+              {" · "}
+              <a
+                href={`/api/event/${eventId}/form-responses`}
+                className="font-medium text-zinc-700 underline hover:text-zinc-900"
+              >
+                Export answers (CSV)
+              </a>
+            </>
+          )}
+          {(eventCost > 0 || requiresPermissionSlip) && (
+            <>
+              {" · "}
+              Roster:{" "}
+              <a
+                href={`/api/event/${eventId}/roster?format=csv`}
+                className="font-medium text-zinc-700 underline hover:text-zinc-900"
+              >
+                CSV
+              </a>
+              {" or "}
+              <a
+                href={`/api/event/${eventId}/roster?format=pdf`}
+                className="font-medium text-zinc-700 underline hover:text-zinc-900"
+              >
+                PDF
+              </a>
+              {students.some((s) => s.feeAssistance) && (
+                <>
+                  {" · "}
+                  Confidential roster with fee assistance:{" "}
+                  <a
+                    href={`/api/event/${eventId}/roster?format=csv&confidential=1`}
+                    className="font-medium text-zinc-700 underline hover:text-zinc-900"
+                  >
+                    CSV
+                  </a>
+                  {" or "}
+                  <a
+                    href={`/api/event/${eventId}/roster?format=pdf&confidential=1`}
+                    className="font-medium text-zinc-700 underline hover:text-zinc-900"
+                  >
+                    PDF
+                  </a>
+                </>
+              )}
+            </>
+          )}
+          {requiresPermissionSlip && signed.length > 0 && (
+            <>
+              {" · "}
+              Download signed slips:{" "}
+              <a
+                href={`/api/event/${eventId}/signed-slips?format=pdf`}
+                className="font-medium text-zinc-700 underline hover:text-zinc-900"
+              >
+                PDF
+              </a>
+              {" or "}
+              <a
+                href={`/api/event/${eventId}/signed-slips?format=zip`}
+                className="font-medium text-zinc-700 underline hover:text-zinc-900"
+              >
+                ZIP
+              </a>
+            </>
+          )}
         </span>
       </div>
       <div className="h-2 overflow-hidden rounded-b-sm bg-zinc-100">
@@ -532,6 +724,7 @@ function StudentSubmissionsAndPaymentTable({
           }}
         />
       </div>
+      <div className="overflow-x-auto">
       <table className="w-full text-left">
         <thead>
           <tr className="border-b border-zinc-100 bg-zinc-50/50">
@@ -552,6 +745,16 @@ function StudentSubmissionsAndPaymentTable({
                 Amount
               </th>
             )}
+            {hasRefunds && (
+              <th className="px-3 py-2 text-xs font-medium text-zinc-600">
+                Refund
+              </th>
+            )}
+            {formFields?.map((field) => (
+              <th key={field.key} className="px-3 py-2 text-xs font-medium text-zinc-600">
+                {field.label}
+              </th>
+            ))}
           </tr>
         </thead>
         <tbody>
@@ -583,10 +786,15 @@ function StudentSubmissionsAndPaymentTable({
                     </svg>
                     Submitted{s.signedBy && ` (${s.signedBy})`}
                   </span>
+                ) : s.status === "waitlisted" ? (
+                  <span className="inline-flex items-center gap-1.5 text-sm text-zinc-600">
+                    <span className="h-2 w-2 rounded-full bg-zinc-400" />
+                    Waitlist #{s.waitlistPosition}
+                  </span>
                 ) : s.status === "pending" ? (
                   <span className="inline-flex items-center gap-1.5 text-sm text-red-600">
                     <span className="h-2 w-2 rounded-full bg-red-500" />
-                    Not submitted
+                    {s.resignRequired ? "Re-signing (spot held)" : "Not submitted"}
                   </span>
                 ) : (
                   <span className="inline-flex items-center gap-1.5 text-sm text-amber-600">
@@ -596,8 +804,26 @@ function StudentSubmissionsAndPaymentTable({
                 )}
               </td>
               <td className="px-3 py-2">
-                {s.paymentMethod === "online" ? (
-                  <span className="text-emerald-700">Pay online</span>
+                {s.paymentMethod === "online" && s.paidAt ? (
+                  <span className="text-emerald-700">
+                    Paid online
+                    {s.paymentIntentId && (
+                      <>
+                        {" · "}
+                        <a
+                          href={`/api/payments/${s.paymentIntentId}/receipt`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          onClick={(e) => e.stopPropagation()}
+                          className="underline hover:text-emerald-800"
+                        >
+                          Receipt
+                        </a>
+                      </>
+                    )}
+                  </span>
+                ) : s.paymentMethod === "online" ? (
+                  <span className="text-amber-700">Online (unpaid)</span>
                 ) : s.paymentMethod === "cash" ? (
                   <span className="text-amber-700">Cash</span>
                 ) : (
@@ -605,7 +831,7 @@ function StudentSubmissionsAndPaymentTable({
                 )}
               </td>
               <td className="px-3 py-2" onClick={(e) => e.stopPropagation()}>
-                {s.paymentMethod === "cash" && s.slipId ? (
+                {s.status === "signed" && s.paymentMethod === "cash" && s.slipId ? (
                   <button
                     type="button"
                     onClick={(e) =>
@@ -650,13 +876,72 @@ function StudentSubmissionsAndPaymentTable({
               </td>
               {eventCost > 0 && (
                 <td className="px-3 py-2 text-right font-medium text-zinc-800">
-                  {s.status === "signed" ? `$${eventCost.toFixed(2)}` : "—"}
+                  {s.status === "signed"
+                    ? `$${(s.amountDue ?? eventCost).toFixed(2)}`
+                    : "—"}
+                  {s.status === "signed" &&
+                    s.selectedOccurrenceDates &&
+                    (() => {
+                      const n = s.selectedOccurrenceDates.length;
+                      return (
+                        <span className="block text-xs font-normal text-zinc-500">
+                          {n} date{n !== 1 ? "s" : ""}
+                        </span>
+                      );
+                    })()}
+                  {s.feeAssistance && s.feeAssistance.status !== "denied" && (
+                    <span
+                      className="block text-xs font-normal text-amber-700"
+                      title="Confidential: don't share with other families"
+                    >
+                      {s.feeAssistance.status === "approved"
+                        ? `Assistance: $${(s.feeAssistance.approvedAmount ?? 0).toFixed(2)} off`
+                        : "Assistance requested"}
+                    </span>
+                  )}
                 </td>
               )}
+              {hasRefunds && (
+                <td className="px-3 py-2" onClick={(e) => e.stopPropagation()}>
+                  {s.refundOwed != null && s.slipId ? (
+                    <button
+                      type="button"
+                      onClick={async (e) => {
+                        e.stopPropagation();
+                        setUpdatingSlipId(s.slipId!);
+                        try {
+                          await onMarkRefundIssued(s.slipId!, !s.refundIssued);
+                        } finally {
+                          setUpdatingSlipId(null);
+                        }
+                      }}
+                      disabled={updatingSlipId === s.slipId}
+                      className={`text-sm disabled:opacity-50 ${
+                        s.refundIssued ? "text-emerald-600" : "text-red-600"
+                      }`}
+                      title={s.refundIssued ? "Unmark refund given" : "Mark refund given"}
+                    >
+                      {s.refundIssued
+                        ? "Given back"
+                        : `$${s.refundOwed.toFixed(2)} owed`}
+                    </button>
+                  ) : (
+                    <span className="text-zinc-400">—</span>
+                  )}
+                </td>
+              )}
+              {formFields?.map((field) => (
+                <td key={field.key} className="max-w-48 px-3 py-2 text-sm text-zinc-700">
+                  {(s.formResponses && formatFormResponse(field, s.formResponses[field.key])) || (
+                    <span className="text-zinc-400">—</span>
+                  )}
+                </td>
+              ))}
             </tr>
           ))}
         </tbody>
       </table>
+      </div>
     </div>
   );
 }
@@ -849,6 +1134,17 @@ export function TeacherDashboard({
   interviewSlotsByClass,
   studentsWithGuardians,
   conversationSummaries,
+  calendarFeedUrl,
+  eventRevisions,
+  volunteerStatus,
+  eventTemplates,
+  schoolClasses,
+  linkedClasses,
+  schoolClosures,
+  urgentBroadcasts,
+  classBalances,
+  feeWaivers,
+  timeZone,
 }: TeacherDashboardProps) {
   const router = useRouter();
   const [classesState, setClassesState] = useState(classes);
@@ -926,12 +1222,26 @@ export function TeacherDashboard({
     () => new Map(permissionSlipStatusState.map((s) => [s.eventId, s])),
     [permissionSlipStatusState]
   );
+  const overdueEvents = useMemo(
+    () =>
+      permissionSlipStatusState.filter(
+        (s) =>
+          s.pastDue &&
+          s.eventStatus !== "cancelled" &&
+          s.students.some((st) => st.status === "pending" || st.status === "no_parent")
+      ),
+    [permissionSlipStatusState]
+  );
   const firstName = userName?.split(/\s+/)[0] ?? "there";
   const [activeTab, setActiveTab] = useState<Tab>("classes");
   const [isAddEventOpen, setIsAddEventOpen] = useState(false);
+  const [isImportEventsOpen, setIsImportEventsOpen] = useState(false);
+  const [isClosuresOpen, setIsClosuresOpen] = useState(false);
+  const [isBroadcastOpen, setIsBroadcastOpen] = useState(false);
   const [addStudentsClass, setAddStudentsClass] =
     useState<TeacherClassSerialized | null>(null);
   const [viewAllStudentsClassId, setViewAllStudentsClassId] = useState<string | null>(null);
+  const [groupsClassId, setGroupsClassId] = useState<string | null>(null);
   const [uploadingFormEventId, setUploadingFormEventId] = useState<
     string | null
   >(null);
@@ -1176,6 +1486,16 @@ export function TeacherDashboard({
                       >
                         View all
                       </button>
+                      {" · "}
+                      <button
+                        type="button"
+                        onClick={() => setGroupsClassId(cls.id)}
+                        className="font-medium text-zinc-700 hover:text-zinc-900"
+                      >
+                        {cls.groups.length > 0
+                          ? `${cls.groups.length} group${cls.groups.length !== 1 ? "s" : ""}`
+                          : "Groups"}
+                      </button>
                     </p>
                   ) : (
                     <p className="text-xs text-zinc-500">
@@ -1196,17 +1516,26 @@ export function TeacherDashboard({
             <h2 className="text-lg font-medium text-zinc-900">
               Events
             </h2>
-            <button
-              type="button"
-              onClick={() => setIsAddEventOpen(true)}
-              className="flex items-center gap-2 rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700"
-            >
-              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                <path d="M5 12h14" />
-                <path d="M12 5v14" />
-              </svg>
-              Add event
-            </button>
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => setIsImportEventsOpen(true)}
+                className="rounded-lg border border-zinc-300 bg-white px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50"
+              >
+                Import
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsAddEventOpen(true)}
+                className="flex items-center gap-2 rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                  <path d="M5 12h14" />
+                  <path d="M12 5v14" />
+                </svg>
+                Add event
+              </button>
+            </div>
           </div>
           {permissionSlipEvents.length > 0 ? (
           <div className="space-y-6">
@@ -1214,6 +1543,10 @@ export function TeacherDashboard({
               Upcoming events by class. Click one to view details. Events that require
               permission slips show submission and payment status.
             </p>
+            <OverdueSlipsPanel
+              events={overdueEvents}
+              onOpenEvent={setSelectedPermissionSlipEventId}
+            />
             {classesState.map((cls) => {
               const classEvents = permissionSlipEvents.filter(
                 (e) => e.classId === cls.id
@@ -1224,9 +1557,10 @@ export function TeacherDashboard({
                   key={cls.id}
                   className="rounded-xl border border-zinc-200 bg-white overflow-hidden"
                 >
-                  <h3 className="border-b border-zinc-200 bg-zinc-50 px-4 py-3 font-medium text-zinc-900">
-                    {cls.name}
-                  </h3>
+                  <div className="border-b border-zinc-200 bg-zinc-50 px-4 py-3">
+                    <h3 className="font-medium text-zinc-900">{cls.name}</h3>
+                    <ClassRosterExport classId={cls.id} />
+                  </div>
                   <table className="w-full">
                     <thead>
                       <tr className="border-b border-zinc-200 bg-zinc-50/70">
@@ -1254,14 +1588,27 @@ export function TeacherDashboard({
                         const signed =
                           status?.students.filter((s) => s.status === "signed") ??
                           [];
+                        const waitlistedCount = status?.waitlistedCount ?? 0;
                         const pendingCount = pending.length + noParent.length;
                         const statusParts = [];
                         const hasPaymentOrSlip =
                           event.requiresPermissionSlip ||
                           (event.cost != null && event.cost > 0);
                         if (hasPaymentOrSlip) {
-                          if (pendingCount) statusParts.push(`${pendingCount} pending`);
+                          if (pendingCount) {
+                            statusParts.push(`${pendingCount} ${status?.pastDue ? "past due" : "pending"}`);
+                          }
                           if (signed.length) statusParts.push(`${signed.length} submitted`);
+                          if (waitlistedCount) statusParts.push(`${waitlistedCount} waitlisted`);
+                        }
+                        const roles = volunteerStatus[event.id] ?? [];
+                        if (roles.length > 0) {
+                          const filled = roles.reduce(
+                            (sum, r) => sum + Math.min(r.volunteers.length, r.needed),
+                            0
+                          );
+                          const needed = roles.reduce((sum, r) => sum + r.needed, 0);
+                          statusParts.push(`${filled}/${needed} volunteers`);
                         }
                         const statusText =
                           statusParts.length > 0
@@ -1286,6 +1633,8 @@ export function TeacherDashboard({
                               <span className="font-medium text-zinc-900">
                                 {event.title}
                               </span>
+                              <EventStatusBadge status={event.status} />
+                              <ApprovalBadge status={event.approvalStatus} />
                               {event.occurrenceDates &&
                                 event.occurrenceDates.length > 1 && (
                                   <span className="ml-2 text-xs text-zinc-500">
@@ -1302,7 +1651,7 @@ export function TeacherDashboard({
                               {event.occurrenceDates &&
                               event.occurrenceDates.length > 1
                                 ? formatOccurrenceDates(event.occurrenceDates)
-                                : formatEventDate(event.startAt)}
+                                : formatEventDate(event.startAt, timeZone)}
                             </td>
                             <td className="px-4 py-3 text-sm text-zinc-600">
                               {statusText}
@@ -1351,14 +1700,27 @@ export function TeacherDashboard({
                         const signed =
                           status?.students.filter((s) => s.status === "signed") ??
                           [];
+                        const waitlistedCount = status?.waitlistedCount ?? 0;
                         const pendingCount = pending.length + noParent.length;
                         const statusParts = [];
                         const hasPaymentOrSlip =
                           event.requiresPermissionSlip ||
                           (event.cost != null && event.cost > 0);
                         if (hasPaymentOrSlip) {
-                          if (pendingCount) statusParts.push(`${pendingCount} pending`);
+                          if (pendingCount) {
+                            statusParts.push(`${pendingCount} ${status?.pastDue ? "past due" : "pending"}`);
+                          }
                           if (signed.length) statusParts.push(`${signed.length} submitted`);
+                          if (waitlistedCount) statusParts.push(`${waitlistedCount} waitlisted`);
+                        }
+                        const roles = volunteerStatus[event.id] ?? [];
+                        if (roles.length > 0) {
+                          const filled = roles.reduce(
+                            (sum, r) => sum + Math.min(r.volunteers.length, r.needed),
+                            0
+                          );
+                          const needed = roles.reduce((sum, r) => sum + r.needed, 0);
+                          statusParts.push(`${filled}/${needed} volunteers`);
                         }
                         const statusText =
                           statusParts.length > 0
@@ -1383,6 +1745,8 @@ export function TeacherDashboard({
                               <span className="font-medium text-zinc-900">
                                 {event.title}
                               </span>
+                              <EventStatusBadge status={event.status} />
+                              <ApprovalBadge status={event.approvalStatus} />
                               {event.occurrenceDates &&
                                 event.occurrenceDates.length > 1 && (
                                   <span className="ml-2 text-xs text-zinc-500">
@@ -1399,7 +1763,7 @@ export function TeacherDashboard({
                               {event.occurrenceDates &&
                               event.occurrenceDates.length > 1
                                 ? formatOccurrenceDates(event.occurrenceDates)
-                                : formatEventDate(event.startAt)}
+                                : formatEventDate(event.startAt, timeZone)}
                             </td>
                             <td className="px-4 py-3 text-sm text-zinc-600">
                               {statusText}
@@ -1430,18 +1794,57 @@ export function TeacherDashboard({
               </button>
             </div>
           )}
+          {classBalances.length > 0 && (
+            <div className="mt-8">
+              <h2 className="mb-1 text-lg font-medium text-zinc-900">
+                Outstanding balances
+              </h2>
+              <p className="mb-4 text-sm text-zinc-600">
+                What each family owes for trips and other costs. Record partial payments,
+                credits and refunds here; online payments and cash marked received show up
+                on their own.
+              </p>
+              <div className="space-y-4">
+                <FeeWaiverQueue
+                  waivers={feeWaivers}
+                  showClass={classesState.length > 1}
+                  timeZone={timeZone}
+                />
+                {classBalances.map((report) => (
+                  <ClassBalancesPanel key={report.classId} report={report} />
+                ))}
+              </div>
+            </div>
+          )}
         </section>
         )}
 
         {/* Calendar tab */}
         {activeTab === "events" && (
         <section>
+          <CalendarFeedPanel feedUrl={calendarFeedUrl} />
           <TeacherCalendarView
             events={upcomingEvents}
             classes={classesState.map((c) => ({ id: c.id, name: c.name }))}
+            interviewSlots={slotsByClass.flatMap((c) =>
+              c.slots.map((slot) => ({
+                slot,
+                title: slot.isClaimed
+                  ? `Interview: ${slot.studentName ?? "Booked"}`
+                  : "Open interview slot",
+                subtitle: slot.guardianName
+                  ? `${slot.guardianName} · ${c.className}`
+                  : c.className,
+                timeZone: c.timeZone,
+              }))
+            )}
+            timeZone={timeZone}
             onEventClick={(eventId) => {
               setSelectedPermissionSlipEventId(eventId);
             }}
+            closures={schoolClosures}
+            onInterviewClick={() => setActiveTab("interviews")}
+            onManageClosures={() => setIsClosuresOpen(true)}
           />
         </section>
         )}
@@ -1449,9 +1852,18 @@ export function TeacherDashboard({
         {/* Messages tab */}
         {activeTab === "messages" && (
         <section>
-          <h2 className="mb-4 text-lg font-medium text-zinc-900">
-            Messages
-          </h2>
+          <div className="mb-4 flex items-center justify-between gap-2">
+            <h2 className="text-lg font-medium text-zinc-900">
+              Messages
+            </h2>
+            <button
+              type="button"
+              onClick={() => setIsBroadcastOpen(true)}
+              className="rounded-lg bg-red-600 px-3 py-2 text-sm font-medium text-white hover:bg-red-700"
+            >
+              Urgent broadcast
+            </button>
+          </div>
           {studentsWithGuardians.length === 0 ? (
             <div className="rounded-xl border border-dashed border-zinc-300 bg-zinc-50/50 p-8 text-center">
               <p className="text-zinc-600">
@@ -1640,6 +2052,12 @@ export function TeacherDashboard({
               }}
             />
           )}
+          {urgentBroadcasts.length > 0 && (
+            <div className="mt-8">
+              <h3 className="mb-3 font-medium text-zinc-900">Urgent broadcasts</h3>
+              <UrgentBroadcastList broadcasts={urgentBroadcasts} timeZone={timeZone} />
+            </div>
+          )}
         </section>
         )}
 
@@ -1886,7 +2304,7 @@ export function TeacherDashboard({
             </p>
           ) : (
             <div className="space-y-6">
-              {slotsByClass.map(({ classId, className, slots }) => (
+              {slotsByClass.map(({ classId, className, timeZone: slotTimeZone, slots }) => (
                 <div
                   key={classId}
                   className="rounded-xl border border-zinc-200 bg-white p-4 shadow-sm"
@@ -2029,11 +2447,13 @@ export function TeacherDashboard({
                           {slots.map((s) => {
                             const start = new Date(s.startAt);
                             const end = new Date(s.endAt);
-                            const timeStr = `${start.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })} – ${end.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })}`;
+                            const timeOptions = { hour: "numeric", minute: "2-digit", timeZone: slotTimeZone } as const;
+                            const timeStr = `${start.toLocaleTimeString("en-US", timeOptions)} – ${end.toLocaleTimeString("en-US", timeOptions)}`;
                             const dateStr = start.toLocaleDateString("en-US", {
                               weekday: "short",
                               month: "short",
                               day: "numeric",
+                              timeZone: slotTimeZone,
                             });
                             const cls = classes.find((c) => c.id === classId);
                             const students = cls?.students ?? [];
@@ -2280,6 +2700,12 @@ export function TeacherDashboard({
             <AddInterviewSlotsModal
               classId={addSlotsClass.classId}
               className={addSlotsClass.className}
+              closures={schoolClosures.filter(
+                (c) => c.schoolId === classes.find((cls) => cls.id === addSlotsClass.classId)?.schoolId
+              )}
+              timeZone={
+                classes.find((c) => c.id === addSlotsClass.classId)?.timeZone ?? timeZone
+              }
               isOpen={true}
               onClose={() => {
                 setAddSlotsClass(null);
@@ -2291,6 +2717,10 @@ export function TeacherDashboard({
             <BookSlotModal
               slot={bookSlotFor.slot}
               className={bookSlotFor.className}
+              timeZone={
+                slotsByClass.find((c) => c.classId === bookSlotFor.classId)?.timeZone ??
+                timeZone
+              }
               students={
                 classes.find((c) => c.id === bookSlotFor.classId)?.students ??
                 []
@@ -2399,6 +2829,8 @@ export function TeacherDashboard({
                     className="text-lg font-semibold text-zinc-900"
                   >
                     {event.title}
+                    <EventStatusBadge status={event.status} />
+                    <ApprovalBadge status={event.approvalStatus} />
                   </h2>
                   <div className="flex items-center gap-1">
                     <button
@@ -2447,6 +2879,11 @@ export function TeacherDashboard({
                           {formatEventTimeRange(event.startAt, event.endAt).split(" · ")[1]}{" "}
                           (each date)
                         </span>
+                        {event.recurrence && (
+                          <span className="mt-1 block text-zinc-700">
+                            {describeRecurrenceRule(event.recurrence)}
+                          </span>
+                        )}
                         <span className="mt-2 block font-medium text-zinc-700">
                           All {event.occurrenceDates.length} dates:
                         </span>
@@ -2467,6 +2904,19 @@ export function TeacherDashboard({
                             </span>
                           ))}
                         </div>
+                        {event.recurrenceExceptions && event.recurrenceExceptions.length > 0 && (
+                          <span className="mt-2 block text-xs text-zinc-500">
+                            No event on{" "}
+                            {event.recurrenceExceptions
+                              .map((d) =>
+                                new Date(d + "T12:00:00").toLocaleDateString("en-US", {
+                                  month: "short",
+                                  day: "numeric",
+                                })
+                              )
+                              .join(", ")}
+                          </span>
+                        )}
                       </>
                     ) : (
                       formatEventTimeRange(event.startAt, event.endAt)
@@ -2477,11 +2927,156 @@ export function TeacherDashboard({
                       {event.description}
                     </p>
                   )}
+                  {event.approvalStatus === "pending" && (
+                    <p className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                      Waiting for the principal to approve. Families won&apos;t see this event or
+                      get slips until then.
+                    </p>
+                  )}
+                  {event.approvalStatus === "rejected" && (
+                    <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+                      <p className="font-medium">The principal didn&apos;t approve this event.</p>
+                      {event.approvalComment && <p className="mt-1">{event.approvalComment}</p>}
+                      <p className="mt-1">Edit the event to resubmit it.</p>
+                    </div>
+                  )}
+                  {event.approvalStatus === "approved" && event.approvalComment && (
+                    <p className="text-xs text-zinc-500">
+                      Principal&apos;s note: {event.approvalComment}
+                    </p>
+                  )}
+                  {event.targetStudentIds && (() => {
+                    const group = classesState
+                      .find((c) => c.id === event.classId)
+                      ?.groups.find((g) => g.id === event.targetGroupId);
+                    const count = event.targetStudentIds.length;
+                    return (
+                      <p className="text-xs text-zinc-500">
+                        For {group ? group.name : "selected students"} only ({count} student
+                        {count !== 1 ? "s" : ""}).
+                      </p>
+                    );
+                  })()}
+                  {(linkedClasses[event.id] ?? []).length > 0 && (
+                    <p className="text-xs text-zinc-500">
+                      Also published to {linkedClasses[event.id].join(", ")}. Edits, cancelling
+                      and rescheduling apply to every class; slips, payments and spots here are
+                      for this class only.
+                    </p>
+                  )}
                   {(event.cost != null && event.cost > 0) && (
                     <p className="text-sm font-medium text-zinc-700">
                       Cost: ${event.cost.toFixed(2)}
                     </p>
                   )}
+                  {event.status !== "scheduled" && (
+                    <div
+                      className={`rounded-lg border p-3 text-sm ${
+                        event.status === "cancelled"
+                          ? "border-red-200 bg-red-50 text-red-800"
+                          : "border-amber-200 bg-amber-50 text-amber-800"
+                      }`}
+                    >
+                      <p className="font-medium">
+                        {event.status === "cancelled"
+                          ? "This event is cancelled."
+                          : "This event is postponed."}
+                      </p>
+                      {event.statusReason && (
+                        <p className="mt-1">{event.statusReason}</p>
+                      )}
+                      {event.status === "cancelled" &&
+                        (() => {
+                          const owed =
+                            status?.students.filter((s) => s.refundOwed != null) ?? [];
+                          const outstanding = owed.filter((s) => !s.refundIssued);
+                          return owed.length > 0 ? (
+                            <p className="mt-1">
+                              Refunds: {owed.length - outstanding.length} of {owed.length} given back
+                              {outstanding.length > 0 &&
+                                ` · $${outstanding
+                                  .reduce((sum, s) => sum + (s.refundOwed ?? 0), 0)
+                                  .toFixed(2)} still owed`}
+                            </p>
+                          ) : null;
+                        })()}
+                    </div>
+                  )}
+                  {(() => {
+                    // Edits and cancel/postpone/reschedule changes in one timeline, newest first
+                    const history = [
+                      ...(eventRevisions[event.id] ?? []).map((r) => ({
+                        at: r.changedAt,
+                        text: `${r.changedByName}: ${r.summary.join("; ")}${
+                          r.resignRequired ? " (parents asked to sign again)" : ""
+                        }`,
+                      })),
+                      ...(event.scheduleChanges ?? []).map((c) => ({
+                        at: c.changedAt,
+                        text: `${
+                          c.type === "rescheduled" && c.fromStartAt && c.toStartAt
+                            ? `Moved from ${formatEventDate(c.fromStartAt, timeZone)} to ${formatEventDate(c.toStartAt, timeZone)}`
+                            : c.type.charAt(0).toUpperCase() + c.type.slice(1)
+                        }${c.reason ? ` — ${c.reason}` : ""}`,
+                      })),
+                    ].sort((a, b) => b.at.localeCompare(a.at));
+                    if (history.length === 0) return null;
+                    return (
+                      <details className="text-sm text-zinc-600">
+                        <summary className="cursor-pointer font-medium text-zinc-700">
+                          Change history ({history.length})
+                        </summary>
+                        <ul className="mt-2 space-y-1">
+                          {history.map((h, i) => (
+                            <li key={i} className="text-xs">
+                              <span className="text-zinc-500">
+                                {new Date(h.at).toLocaleDateString("en-US", {
+                                  month: "short",
+                                  day: "numeric",
+                                  timeZone,
+                                })}
+                                :{" "}
+                              </span>
+                              {h.text}
+                            </li>
+                          ))}
+                        </ul>
+                      </details>
+                    );
+                  })()}
+
+                  {(volunteerStatus[event.id] ?? []).length > 0 && (
+                    <div className="rounded-lg border border-zinc-200 bg-zinc-50/50 p-4">
+                      <h3 className="text-sm font-semibold text-zinc-800">Volunteers</h3>
+                      <ul className="mt-2 space-y-2">
+                        {volunteerStatus[event.id].map((role) => (
+                          <li key={role.roleId} className="text-sm">
+                            <div className="flex items-center justify-between">
+                              <span className="font-medium text-zinc-800">{role.name}</span>
+                              <span
+                                className={
+                                  role.volunteers.length >= role.needed
+                                    ? "text-emerald-600"
+                                    : "text-amber-600"
+                                }
+                              >
+                                {role.volunteers.length} / {role.needed}
+                              </span>
+                            </div>
+                            {role.volunteers.length > 0 ? (
+                              <p className="mt-0.5 text-zinc-600">
+                                {role.volunteers
+                                  .map((v) => (v.email && v.email !== v.name ? `${v.name} (${v.email})` : v.name))
+                                  .join(", ")}
+                              </p>
+                            ) : (
+                              <p className="mt-0.5 text-zinc-500">No one yet</p>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
 
                   {(event.requiresPermissionSlip || (event.cost != null && event.cost > 0)) && (
                   <>
@@ -2527,7 +3122,13 @@ export function TeacherDashboard({
                     {event.cost != null && event.cost > 0 && (
                       <div className="mt-2 space-y-1 text-sm text-zinc-600">
                         <p>
-                          Cost per student: ${event.cost.toFixed(2)}
+                          {event.occurrenceDates &&
+                          event.occurrenceDates.length > 1 &&
+                          event.costPerOccurrence != null &&
+                          event.costPerOccurrence > 0
+                            ? "Cost per student (all dates)"
+                            : "Cost per student"}
+                          : ${event.cost.toFixed(2)}
                           {event.occurrenceDates &&
                             event.occurrenceDates.length > 1 &&
                             event.costPerOccurrence != null &&
@@ -2542,13 +3143,18 @@ export function TeacherDashboard({
                         {signed.length > 0 && (
                           <p className="font-medium text-zinc-800">
                             Expected total: $
-                            {(event.cost * signed.length).toFixed(2)}
+                            {signed
+                              .reduce((sum, s) => sum + (s.amountDue ?? event.cost!), 0)
+                              .toFixed(2)}
                           </p>
                         )}
                         {(() => {
                           const payOnline = signed.filter(
                             (s) => s.paymentMethod === "online"
                           ).length;
+                          const paidOnline = signed.filter(
+                            (s) => s.paymentMethod === "online" && s.paidAt
+                          ).length;
                           const payCash = signed.filter(
                             (s) => s.paymentMethod === "cash"
                           ).length;
@@ -2566,6 +3172,9 @@ export function TeacherDashboard({
                                 {payOnline > 0 && (
                                   <span className="text-emerald-700">
                                     {payOnline} online
+                                    {paidOnline > 0 && ` (${paidOnline} paid)`}
+                                    {payOnline - paidOnline > 0 &&
+                                      ` (${payOnline - paidOnline} unpaid)`}
                                   </span>
                                 )}
                                 {payOnline > 0 && payCash > 0 && " · "}
@@ -2595,11 +3204,83 @@ export function TeacherDashboard({
                         No cost for this event.
                       </p>
                     ) : null}
+                    {status?.occurrenceHeadcounts && status.occurrenceHeadcounts.length > 0 && (
+                      <div className="mt-4 rounded-lg border border-zinc-200 bg-white">
+                        <p className="border-b border-zinc-200 px-3 py-2 text-xs font-medium text-zinc-600">
+                          Orders by date
+                        </p>
+                        <table className="w-full text-left">
+                          <thead>
+                            <tr className="border-b border-zinc-100 bg-zinc-50/50">
+                              <th className="px-3 py-2 text-xs font-medium text-zinc-600">
+                                Date
+                              </th>
+                              <th className="px-3 py-2 text-xs font-medium text-zinc-600">
+                                Count
+                              </th>
+                              <th className="px-3 py-2 text-xs font-medium text-zinc-600">
+                                Students
+                              </th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {status.occurrenceHeadcounts.map((h) => (
+                              <tr
+                                key={h.date}
+                                className="border-b border-zinc-100 last:border-0 align-top"
+                              >
+                                <td className="whitespace-nowrap px-3 py-2 text-sm font-medium text-zinc-900">
+                                  {new Date(h.date + "T12:00:00").toLocaleDateString(
+                                    "en-US",
+                                    { weekday: "short", month: "short", day: "numeric" }
+                                  )}
+                                </td>
+                                <td className="px-3 py-2 text-sm text-zinc-800">
+                                  {h.count}
+                                </td>
+                                <td className="px-3 py-2 text-sm text-zinc-600">
+                                  {h.studentNames.length > 0
+                                    ? h.studentNames.join(", ")
+                                    : "—"}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
                     {status && status.students.length > 0 ? (
                       <div className="mt-4">
                         <StudentSubmissionsAndPaymentTable
+                          eventId={event.id}
                           students={status.students}
                           eventCost={event.cost ?? 0}
+                          capacity={status.capacity}
+                          formFields={status.formFields}
+                          requiresPermissionSlip={event.requiresPermissionSlip}
+                          onMarkRefundIssued={async (slipId, issued) => {
+                            const prev = permissionSlipStatusState;
+                            setPermissionSlipStatusState((arr) =>
+                              arr.map((ev) =>
+                                ev.eventId !== event.id
+                                  ? ev
+                                  : {
+                                      ...ev,
+                                      students: ev.students.map((stu) =>
+                                        stu.slipId !== slipId
+                                          ? stu
+                                          : { ...stu, refundIssued: issued }
+                                      ),
+                                    }
+                              )
+                            );
+                            const { success, error } =
+                              await markRefundIssuedAction(slipId, issued);
+                            if (!success && error) {
+                              setPermissionSlipStatusState(prev);
+                              alert(error);
+                            }
+                          }}
                           onMarkCashReceived={async (slipId, received) => {
                             const prev = permissionSlipStatusState;
                             setPermissionSlipStatusState((arr) =>
@@ -2677,6 +3358,10 @@ export function TeacherDashboard({
                                   <p className="mt-0.5 text-sm font-medium">
                                     {selectedSubmissionStudent.status === "signed" ? (
                                       <span className="text-emerald-600">Submitted</span>
+                                    ) : selectedSubmissionStudent.status === "waitlisted" ? (
+                                      <span className="text-zinc-700">
+                                        On the waitlist (#{selectedSubmissionStudent.waitlistPosition})
+                                      </span>
                                     ) : selectedSubmissionStudent.status === "pending" ? (
                                       <span className="text-red-600">Not submitted</span>
                                     ) : (
@@ -2690,11 +3375,56 @@ export function TeacherDashboard({
                                     <p className="mt-0.5 text-sm text-zinc-700">{selectedSubmissionStudent.signedBy}</p>
                                   </div>
                                 )}
+                                {selectedSubmissionStudent.selectedOccurrenceDates && (
+                                  <div>
+                                    <p className="text-xs font-medium text-zinc-500">Dates</p>
+                                    <p className="mt-0.5 text-sm text-zinc-700">
+                                      {selectedSubmissionStudent.selectedOccurrenceDates
+                                        .map((d) =>
+                                          new Date(d + "T12:00:00").toLocaleDateString("en-US", {
+                                            month: "short",
+                                            day: "numeric",
+                                          })
+                                        )
+                                        .join(", ")}
+                                    </p>
+                                  </div>
+                                )}
                                 {selectedSubmissionStudent.paymentMethod && (
                                   <div>
                                     <p className="text-xs font-medium text-zinc-500">Payment</p>
                                     <p className="mt-0.5 text-sm text-zinc-700">
-                                      {selectedSubmissionStudent.paymentMethod === "online" ? "Pay online" : "Sending cash with child"}
+                                      {selectedSubmissionStudent.paymentMethod === "online"
+                                        ? selectedSubmissionStudent.paidAt
+                                          ? `Paid online on ${new Date(selectedSubmissionStudent.paidAt).toLocaleDateString("en-US", { month: "short", day: "numeric" })}`
+                                          : "Pay online (not paid yet)"
+                                        : "Sending cash with child"}
+                                    </p>
+                                  </div>
+                                )}
+                                {selectedSubmissionStudent.eSignature && (
+                                  <div>
+                                    <p className="text-xs font-medium text-zinc-500">Signed electronically</p>
+                                    <p className="mt-0.5 text-sm text-zinc-700">
+                                      {selectedSubmissionStudent.eSignature.signerName} ·{" "}
+                                      {new Date(selectedSubmissionStudent.eSignature.signedAt).toLocaleString("en-US", {
+                                        month: "short",
+                                        day: "numeric",
+                                        hour: "numeric",
+                                        minute: "2-digit",
+                                        timeZone,
+                                      })}
+                                    </p>
+                                    {selectedSubmissionStudent.eSignature.signatureImageUrl && (
+                                      // eslint-disable-next-line @next/next/no-img-element -- data URL from the signature pad
+                                      <img
+                                        src={selectedSubmissionStudent.eSignature.signatureImageUrl}
+                                        alt={`Signature of ${selectedSubmissionStudent.eSignature.signerName}`}
+                                        className="mt-1 h-16 w-auto rounded border border-zinc-200 bg-white"
+                                      />
+                                    )}
+                                    <p className="mt-1 break-all font-mono text-[10px] text-zinc-400">
+                                      SHA-256 {selectedSubmissionStudent.eSignature.signatureHash}
                                     </p>
                                   </div>
                                 )}
@@ -2722,12 +3452,19 @@ export function TeacherDashboard({
                                     </a>
                                   </>
                                 )}
-                                {selectedSubmissionStudent.status === "signed" && selectedSubmissionStudent.slipId && (
+                                {(selectedSubmissionStudent.status === "signed" || selectedSubmissionStudent.status === "waitlisted") && selectedSubmissionStudent.slipId && (
                                   <div className="pt-3 border-t border-zinc-200">
                                     <button
                                       type="button"
                                       onClick={async () => {
-                                        if (!confirm("Unsubmit this so they can change their payment method or resubmit?")) return;
+                                        const wasSigned = selectedSubmissionStudent.status === "signed";
+                                        if (
+                                          !confirm(
+                                            wasSigned
+                                              ? "Unsubmit this so they can change their payment method or resubmit?"
+                                              : "Take this student off the waitlist? The parent can submit again later."
+                                          )
+                                        ) return;
                                         const slipId = selectedSubmissionStudent.slipId!;
                                         const studentId = selectedSubmissionStudent.studentId;
                                         setUnsubmittingSlipId(slipId);
@@ -2748,7 +3485,8 @@ export function TeacherDashboard({
                                                         }
                                                   ),
                                                   pendingCount: ev.pendingCount + 1,
-                                                  signedCount: ev.signedCount - 1,
+                                                  signedCount: wasSigned ? ev.signedCount - 1 : ev.signedCount,
+                                                  waitlistedCount: wasSigned ? ev.waitlistedCount : ev.waitlistedCount - 1,
                                                 }
                                           )
                                         );
@@ -2771,7 +3509,11 @@ export function TeacherDashboard({
                                       disabled={!!unsubmittingSlipId}
                                       className="inline-flex items-center gap-2 rounded-lg border border-amber-300 bg-amber-50 px-4 py-2 text-sm font-medium text-amber-800 hover:bg-amber-100 disabled:opacity-50"
                                     >
-                                      {unsubmittingSlipId === selectedSubmissionStudent.slipId ? "Unsubmitting..." : "Unsubmit"}
+                                      {unsubmittingSlipId === selectedSubmissionStudent.slipId
+                                        ? "Unsubmitting..."
+                                        : selectedSubmissionStudent.status === "waitlisted"
+                                          ? "Remove from waitlist"
+                                          : "Unsubmit"}
                                     </button>
                                   </div>
                                 )}
@@ -3014,8 +3756,39 @@ export function TeacherDashboard({
 
         <AddEventModal
           classes={classes}
+          templates={eventTemplates}
+          schoolClasses={schoolClasses}
+          closures={schoolClosures}
           isOpen={isAddEventOpen}
           onClose={() => setIsAddEventOpen(false)}
+          onImportClick={() => {
+            setIsAddEventOpen(false);
+            setIsImportEventsOpen(true);
+          }}
+        />
+
+        <ImportEventsModal
+          classes={classes}
+          isOpen={isImportEventsOpen}
+          onClose={() => setIsImportEventsOpen(false)}
+        />
+
+        <SchoolClosuresModal
+          schools={[...new Map(classes.map((c) => [c.schoolId, c.schoolName]))].map(
+            ([id, name]) => ({ id, name })
+          )}
+          closures={schoolClosures}
+          timeZone={timeZone}
+          isOpen={isClosuresOpen}
+          onClose={() => setIsClosuresOpen(false)}
+        />
+
+        <UrgentBroadcastModal
+          schools={[...new Map(classes.map((c) => [c.schoolId, c.schoolName]))].map(
+            ([id, name]) => ({ id, name })
+          )}
+          isOpen={isBroadcastOpen}
+          onClose={() => setIsBroadcastOpen(false)}
         />
 
         {addStudentsClass && (
@@ -3026,6 +3799,18 @@ export function TeacherDashboard({
           />
         )}
 
+        {groupsClassId && (() => {
+          const cls = classesState.find((c) => c.id === groupsClassId);
+          if (!cls) return null;
+          return (
+            <StudentGroupsModal
+              classInfo={cls}
+              isOpen
+              onClose={() => setGroupsClassId(null)}
+            />
+          );
+        })()}
+
         {viewAllStudentsClassId && (() => {
           const cls = classesState.find((c) => c.id === viewAllStudentsClassId);
           if (!cls) return null;
@@ -3081,6 +3866,11 @@ export function TeacherDashboard({
           className={
             editingEvent ? statusByEvent.get(editingEvent.id)?.className : undefined
           }
+          classInfo={
+            editingEvent && !linkedClasses[editingEvent.id]
+              ? classesState.find((c) => c.id === editingEvent.classId)
+              : undefined
+          }
           isOpen={!!editingEvent}
           onClose={() => setEditingEvent(null)}
           onDeleted={(eventId) => {
@@ -0,0 +1,391 @@
+"use client";
+
+import { useState, useTransition, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import {
+  acknowledgeUrgentBroadcastAction,
+  sendUrgentBroadcastAction,
+} from "@/app/actions";
+import type { UrgentBroadcastKind } from "@/lib/db/types";
+import type {
+  ParentUrgentBroadcastSerialized,
+  UrgentBroadcastSummarySerialized,
+} from "@/lib/urgent-broadcasts";
+import { formatClosureDates } from "@/lib/closure-dates";
+
+const KIND_LABELS: Record<UrgentBroadcastKind, string> = {
+  closure: "School closure",
+  lockdown: "Lockdown",
+  other: "Urgent notice",
+};
+
+function formatSentAt(iso: string, timeZone: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone,
+  });
+}
+
+interface UrgentBroadcastModalProps {
+  /** Schools the user can send to */
+  schools: { id: string; name: string }[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Compose an urgent message to every family at a school, e.g. a weather closure or lockdown.
+ */
+export function UrgentBroadcastModal({ schools, isOpen, onClose }: UrgentBroadcastModalProps) {
+  const router = useRouter();
+  const [schoolId, setSchoolId] = useState(schools[0]?.id ?? "");
+  const [kind, setKind] = useState<UrgentBroadcastKind>("closure");
+  const [title, setTitle] = useState("");
+  const [message, setMessage] = useState("");
+  const [cancelTodaysEvents, setCancelTodaysEvents] = useState(true);
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [sentNote, setSentNote] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      /* eslint-disable react-hooks/set-state-in-effect -- Reset form state when modal opens */
+      setKind("closure");
+      setTitle("");
+      setMessage("");
+      setCancelTodaysEvents(true);
+      setError(null);
+      setSentNote(null);
+      /* eslint-enable react-hooks/set-state-in-effect */
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  function handleClose() {
+    if (!isPending) onClose();
+  }
+
+  function handleKindChange(next: UrgentBroadcastKind) {
+    setKind(next);
+    // Closing the school is the usual reason to clear the day; other notices rarely are
+    setCancelTodaysEvents(next === "closure");
+  }
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    const schoolName = schools.find((s) => s.id === schoolId)?.name ?? "the school";
+    if (!confirm(`Send this to every family at ${schoolName} now?`)) return;
+    setError(null);
+    startTransition(async () => {
+      const res = await sendUrgentBroadcastAction({
+        schoolId,
+        kind,
+        title,
+        message,
+        cancelTodaysEvents,
+      });
+      if (res.success) {
+        const families = `${res.recipientCount} ${res.recipientCount === 1 ? "family" : "families"}`;
+        setSentNote(
+          cancelTodaysEvents && res.cancelledEventCount == null
+            ? `Sent to ${families}, but today's events couldn't be cancelled. Cancel them from the Events tab.`
+            : cancelTodaysEvents
+              ? `Sent to ${families}. ${res.cancelledEventCount} event${res.cancelledEventCount === 1 ? "" : "s"} today cancelled and repeating events skip today.`
+              : `Sent to ${families}.`
+        );
+        router.refresh();
+      } else if (res.error) {
+        setError(res.error);
+      }
+    });
+  }
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 z-[60] bg-black/50"
+        aria-hidden="true"
+        onClick={handleClose}
+      />
+      <div className="fixed left-1/2 top-1/2 z-[70] max-h-[90vh] w-[calc(100%-2rem)] max-w-md -translate-x-1/2 -translate-y-1/2 overflow-y-auto rounded-xl border border-zinc-200 bg-white p-6 shadow-xl">
+        <h2 className="text-lg font-semibold text-zinc-900">Urgent broadcast</h2>
+        <p className="mt-1 text-sm text-zinc-600">
+          Goes to every family in every class at the school and stays pinned on their
+          dashboard until they acknowledge it.
+        </p>
+
+        {sentNote ? (
+          <>
+            <p className="mt-4 rounded-lg bg-emerald-50 px-3 py-2 text-sm text-emerald-800">
+              {sentNote}
+            </p>
+            <button
+              type="button"
+              onClick={onClose}
+              className="mt-4 w-full rounded-lg border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700"
+            >
+              Done
+            </button>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit} className="mt-4 flex flex-col gap-4">
+            {schools.length > 1 && (
+              <div>
+                <label htmlFor="broadcast-school" className="mb-1 block text-sm font-medium text-zinc-700">
+                  School
+                </label>
+                <select
+                  id="broadcast-school"
+                  value={schoolId}
+                  onChange={(e) => setSchoolId(e.target.value)}
+                  disabled={isPending}
+                  className="h-10 w-full rounded-lg border border-zinc-300 bg-white px-3 text-zinc-900 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+                >
+                  {schools.map((s) => (
+                    <option key={s.id} value={s.id}>
+                      {s.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div>
+              <label htmlFor="broadcast-kind" className="mb-1 block text-sm font-medium text-zinc-700">
+                Type
+              </label>
+              <select
+                id="broadcast-kind"
+                value={kind}
+                onChange={(e) => handleKindChange(e.target.value as UrgentBroadcastKind)}
+                disabled={isPending}
+                className="h-10 w-full rounded-lg border border-zinc-300 bg-white px-3 text-zinc-900 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+              >
+                {(Object.keys(KIND_LABELS) as UrgentBroadcastKind[]).map((k) => (
+                  <option key={k} value={k}>
+                    {KIND_LABELS[k]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="broadcast-title" className="mb-1 block text-sm font-medium text-zinc-700">
+                Title
+              </label>
+              <input
+                id="broadcast-title"
+                type="text"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder={kind === "closure" ? "e.g. School closed today due to snow" : ""}
+                maxLength={120}
+                required
+                disabled={isPending}
+                className="h-10 w-full rounded-lg border border-zinc-300 bg-white px-3 text-zinc-900 placeholder:text-zinc-400 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+              />
+            </div>
+            <div>
+              <label htmlFor="broadcast-message" className="mb-1 block text-sm font-medium text-zinc-700">
+                Message
+              </label>
+              <textarea
+                id="broadcast-message"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                rows={4}
+                maxLength={2000}
+                required
+                disabled={isPending}
+                className="w-full rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-900 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+              />
+            </div>
+            <label className="flex items-start gap-2 text-sm text-zinc-700">
+              <input
+                type="checkbox"
+                checked={cancelTodaysEvents}
+                onChange={(e) => setCancelTodaysEvents(e.target.checked)}
+                disabled={isPending}
+                className="mt-0.5 h-4 w-4 rounded border-zinc-300"
+              />
+              <span>
+                Cancel today&apos;s events
+                <span className="block text-xs text-zinc-500">
+                  Cancels the school&apos;s one-off events today and adds today as a closure
+                  so repeating events skip it.
+                </span>
+              </span>
+            </label>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={handleClose}
+                disabled={isPending}
+                className="flex-1 rounded-lg border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isPending || !schoolId || !title.trim() || !message.trim()}
+                className="flex-1 rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white disabled:opacity-50"
+              >
+                {isPending ? "Sending..." : "Send to all families"}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </>
+  );
+}
+
+/**
+ * Sent broadcasts with how many families have seen each, and who hasn't.
+ */
+export function UrgentBroadcastList({
+  broadcasts,
+  timeZone,
+}: {
+  broadcasts: UrgentBroadcastSummarySerialized[];
+  timeZone: string;
+}) {
+  return (
+    <ul className="space-y-3">
+      {broadcasts.map((b) => {
+        const notSeen = b.recipients.filter((r) => !r.acknowledgedAt);
+        return (
+          <li key={b.id} className="rounded-xl border border-zinc-200 bg-white p-4 text-sm">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <span className="text-xs font-medium uppercase tracking-wide text-red-600">
+                  {KIND_LABELS[b.kind]}
+                </span>
+                <h3 className="font-medium text-zinc-900">{b.title}</h3>
+              </div>
+              <span className="shrink-0 text-xs text-zinc-500">
+                {formatSentAt(b.sentAt, timeZone)}
+              </span>
+            </div>
+            <p className="mt-1 whitespace-pre-wrap text-zinc-600">{b.message}</p>
+            <p className="mt-2 text-xs text-zinc-500">
+              Sent by {b.senderName}
+              {b.cancelledDate && (
+                <>
+                  {" · Events cancelled "}
+                  {formatClosureDates({ startDate: b.cancelledDate, endDate: b.cancelledDate })}
+                  {b.cancelledEventCount ? ` (${b.cancelledEventCount})` : ""}
+                </>
+              )}
+            </p>
+            <details className="mt-2">
+              <summary className="cursor-pointer text-xs font-medium text-zinc-700">
+                Seen by {b.acknowledgedCount} of {b.recipients.length}{" "}
+                {b.recipients.length === 1 ? "family" : "families"}
+              </summary>
+              <ul className="mt-2 grid gap-x-4 gap-y-0.5 text-xs sm:grid-cols-2">
+                {b.recipients.map((r, i) => (
+                  <li key={i} className={r.acknowledgedAt ? "text-zinc-500" : "text-zinc-800"}>
+                    {r.name}
+                    {r.acknowledgedAt
+                      ? ` · seen ${formatSentAt(r.acknowledgedAt, timeZone)}`
+                      : " · not seen"}
+                  </li>
+                ))}
+              </ul>
+              {notSeen.length > 0 && (
+                <p className="mt-2 text-xs text-zinc-500">
+                  {notSeen.length} {notSeen.length === 1 ? "family hasn't" : "families haven't"}{" "}
+                  seen it yet. Consider calling them.
+                </p>
+              )}
+            </details>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+function UrgentBroadcastBannerItem({
+  broadcast,
+  timeZone,
+}: {
+  broadcast: ParentUrgentBroadcastSerialized;
+  timeZone: string;
+}) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  function handleAcknowledge() {
+    setError(null);
+    startTransition(async () => {
+      const res = await acknowledgeUrgentBroadcastAction(broadcast.id);
+      if (res.success) {
+        router.refresh();
+      } else if (res.error) {
+        setError(res.error);
+      }
+    });
+  }
+
+  return (
+    <li role="alert" className="rounded-xl border-2 border-red-600 bg-red-50 p-4">
+      <span className="text-xs font-semibold uppercase tracking-wide text-red-700">
+        {KIND_LABELS[broadcast.kind]}
+        {broadcast.schoolName && ` · ${broadcast.schoolName}`}
+      </span>
+      <h2 className="mt-1 text-base font-semibold text-zinc-900">{broadcast.title}</h2>
+      <p className="mt-1 whitespace-pre-wrap text-sm text-zinc-800">{broadcast.message}</p>
+      {broadcast.cancelledDate && (
+        <p className="mt-2 text-sm font-medium text-zinc-800">
+          Events on{" "}
+          {formatClosureDates({
+            startDate: broadcast.cancelledDate,
+            endDate: broadcast.cancelledDate,
+          })}{" "}
+          are cancelled.
+        </p>
+      )}
+      <div className="mt-3 flex flex-wrap items-center justify-between gap-2">
+        <span className="text-xs text-zinc-600">
+          {broadcast.senderName} · {formatSentAt(broadcast.sentAt, timeZone)}
+        </span>
+        <button
+          type="button"
+          onClick={handleAcknowledge}
+          disabled={isPending}
+          className="rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50"
+        >
+          {isPending ? "Saving..." : "Got it"}
+        </button>
+      </div>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </li>
+  );
+}
+
+/**
+ * Urgent school messages pinned above everything until the parent acknowledges them.
+ */
+export function UrgentBroadcastBanner({
+  broadcasts,
+  timeZone,
+}: {
+  broadcasts: ParentUrgentBroadcastSerialized[];
+  timeZone: string;
+}) {
+  if (broadcasts.length === 0) return null;
+  return (
+    <ul className="mb-6 space-y-3">
+      {broadcasts.map((b) => (
+        <UrgentBroadcastBannerItem key={b.id} broadcast={b} timeZone={timeZone} />
+      ))}
+    </ul>
+  );
+}
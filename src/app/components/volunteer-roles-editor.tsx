@@ -0,0 +1,86 @@
+"use client";
+
+import type { VolunteerRoleInput } from "@/lib/event-volunteers";
+
+interface VolunteerRolesEditorProps {
+  value: VolunteerRoleInput[];
+  onChange: (value: VolunteerRoleInput[]) => void;
+  disabled?: boolean;
+}
+
+const inputClass =
+  "h-10 rounded-lg border border-zinc-300 bg-white px-3 text-zinc-900 placeholder:text-zinc-400 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50";
+
+/**
+ * List of parent volunteer roles for an event (e.g. "Chaperone" × 2). Existing roles keep
+ * their id so parents who already signed up stay attached after a rename.
+ */
+export function VolunteerRolesEditor({
+  value,
+  onChange,
+  disabled,
+}: VolunteerRolesEditorProps) {
+  function updateRole(index: number, patch: Partial<VolunteerRoleInput>) {
+    onChange(value.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  }
+
+  return (
+    <div>
+      <p className="mb-1 text-sm font-medium text-zinc-700">Volunteers needed</p>
+      {value.length > 0 && (
+        <ul className="mb-2 space-y-2">
+          {value.map((role, i) => (
+            <li key={role.id ?? `new-${i}`} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={role.name}
+                onChange={(e) => updateRole(i, { name: e.target.value })}
+                placeholder="e.g. Chaperone"
+                maxLength={60}
+                disabled={disabled}
+                aria-label="Role"
+                className={`${inputClass} flex-1`}
+              />
+              <input
+                type="number"
+                min="1"
+                max="50"
+                step="1"
+                value={role.needed}
+                onChange={(e) => updateRole(i, { needed: parseInt(e.target.value, 10) || 1 })}
+                disabled={disabled}
+                aria-label="Number needed"
+                className={`${inputClass} w-20`}
+              />
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((_, j) => j !== i))}
+                disabled={disabled}
+                className="rounded p-2 text-zinc-500 hover:bg-zinc-100 hover:text-zinc-700 disabled:opacity-50"
+                aria-label={`Remove ${role.name || "role"}`}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                  <path d="M18 6 6 18" />
+                  <path d="m6 6 12 12" />
+                </svg>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <button
+        type="button"
+        onClick={() => onChange([...value, { name: "", needed: 1 }])}
+        disabled={disabled || value.length >= 10}
+        className="rounded-lg border border-zinc-300 px-3 py-1.5 text-sm font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50"
+      >
+        Add volunteer role
+      </button>
+      {value.length > 0 && (
+        <p className="mt-1 text-xs text-zinc-500">
+          Parents can sign up from the event in their inbox.
+        </p>
+      )}
+    </div>
+  );
+}
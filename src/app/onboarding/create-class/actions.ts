@@ -7,7 +7,8 @@ import { createTeacherClass } from "@/lib/teacher-class";
 export async function createClass(
   schoolName: string,
   className: string,
-  term: string
+  term: string,
+  timeZone?: string
 ): Promise<{ success: boolean; code?: string; className?: string; error?: string }> {
   const session = await auth0.getSession();
   if (!session?.user?.sub) {
@@ -18,7 +19,8 @@ export async function createClass(
     session.user.sub,
     schoolName,
     className,
-    term
+    term,
+    timeZone
   );
 
   if (!result.success) {
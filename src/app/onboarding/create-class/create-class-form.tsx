@@ -1,18 +1,29 @@
 "use client";
 
-import { useState, useTransition } from "react";
+import { useEffect, useState, useTransition } from "react";
 import { useRouter } from "next/navigation";
+import { DEFAULT_SCHOOL_TIME_ZONE, SCHOOL_TIME_ZONE_OPTIONS } from "@/lib/timezone";
 import { createClass } from "./actions";
 
 export function CreateClassForm() {
   const [schoolName, setSchoolName] = useState("");
   const [className, setClassName] = useState("");
   const [term, setTerm] = useState("");
+  const [timeZone, setTimeZone] = useState<string>(DEFAULT_SCHOOL_TIME_ZONE);
   const [isPending, startTransition] = useTransition();
   const [error, setError] = useState<string | null>(null);
   const [created, setCreated] = useState<{ code: string; className: string } | null>(null);
   const router = useRouter();
 
+  // Preselect the browser's zone when it's one we offer
+  useEffect(() => {
+    const detected = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    if (SCHOOL_TIME_ZONE_OPTIONS.some((z) => z.value === detected)) {
+      // eslint-disable-next-line react-hooks/set-state-in-effect -- read browser zone after hydration
+      setTimeZone(detected);
+    }
+  }, []);
+
   function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     setError(null);
@@ -20,7 +31,8 @@ export function CreateClassForm() {
       const { success, code, className: createdClassName, error: err } = await createClass(
         schoolName,
         className,
-        term
+        term,
+        timeZone
       );
       if (success && code && createdClassName) {
         setCreated({ code, className: createdClassName });
@@ -105,6 +117,27 @@ export function CreateClassForm() {
           className="h-11 w-full rounded-lg border border-zinc-300 bg-white px-3 py-2 text-zinc-900 placeholder:text-zinc-500 focus:outline-none focus:ring-2 focus:ring-red-500/30 disabled:opacity-50 [color-scheme:light]"
         />
       </div>
+      <div>
+        <label htmlFor="timeZone" className="mb-1 block text-sm font-medium text-zinc-700">
+          School time zone
+        </label>
+        <select
+          id="timeZone"
+          value={timeZone}
+          onChange={(e) => setTimeZone(e.target.value)}
+          disabled={isPending}
+          className="h-11 w-full rounded-lg border border-zinc-300 bg-white px-3 py-2 text-zinc-900 focus:outline-none focus:ring-2 focus:ring-red-500/30 disabled:opacity-50 [color-scheme:light]"
+        >
+          {SCHOOL_TIME_ZONE_OPTIONS.map((z) => (
+            <option key={z.value} value={z.value}>
+              {z.label}
+            </option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-zinc-500">
+          Event times and due dates follow this zone.
+        </p>
+      </div>
       <button
         type="submit"
         disabled={isPending}
@@ -7,9 +7,11 @@ import { parentHasJoinedClass } from "@/lib/class-code";
 import { teacherHasClass } from "@/lib/teacher-class";
 import { getParentDashboardData } from "@/lib/parent-dashboard";
 import { getTeacherDashboardData } from "@/lib/teacher-dashboard";
+import { getAdminDashboardData } from "@/lib/event-approvals";
 import { isDbConfigured } from "@/lib/db";
 import { ParentDashboard } from "./components/parent-dashboard";
 import { TeacherDashboard } from "./components/teacher-dashboard";
+import { AdminDashboard } from "./components/admin-dashboard";
 
 export default async function Home() {
   const session = await auth0.getSession();
@@ -101,7 +103,8 @@ export default async function Home() {
         </div>
       );
     }
-    if (!dbUser?.roleSelectedAt) {
+    // Admins get their role from Auth0 and skip parent/teacher onboarding
+    if (!dbUser || (!dbUser.roleSelectedAt && dbUser.role !== "admin")) {
       redirect("/onboarding");
     }
     if (dbUser.role === "parent") {
@@ -134,6 +137,11 @@ export default async function Home() {
         reportCards={dashboardData.reportCards}
         interviewData={dashboardData.interviewData}
         conversations={dashboardData.conversations}
+        calendarFeedUrl={dashboardData.calendarFeedUrl}
+        schoolClosures={dashboardData.schoolClosures}
+        urgentBroadcasts={dashboardData.urgentBroadcasts}
+        familyLedger={dashboardData.familyLedger}
+        timeZone={dashboardData.timeZone}
       />
     );
   }
@@ -151,6 +159,35 @@ export default async function Home() {
         interviewSlotsByClass={dashboardData.interviewSlotsByClass}
         studentsWithGuardians={dashboardData.studentsWithGuardians}
         conversationSummaries={dashboardData.conversationSummaries}
+        calendarFeedUrl={dashboardData.calendarFeedUrl}
+        eventRevisions={dashboardData.eventRevisions}
+        volunteerStatus={dashboardData.volunteerStatus}
+        eventTemplates={dashboardData.eventTemplates}
+        schoolClasses={dashboardData.schoolClasses}
+        linkedClasses={dashboardData.linkedClasses}
+        schoolClosures={dashboardData.schoolClosures}
+        urgentBroadcasts={dashboardData.urgentBroadcasts}
+        classBalances={dashboardData.classBalances}
+        feeWaivers={dashboardData.feeWaivers}
+        timeZone={dashboardData.timeZone}
+      />
+    );
+  }
+
+  if (dbUser?.role === "admin" && isDbConfigured()) {
+    const dashboardData = await getAdminDashboardData(session.user.sub);
+    return (
+      <AdminDashboard
+        userName={dbUser.name ?? session.user.name ?? null}
+        schoolName={dashboardData.schoolName}
+        pending={dashboardData.pending}
+        recentlyDecided={dashboardData.recentlyDecided}
+        schoolId={dashboardData.schoolId}
+        closures={dashboardData.closures}
+        broadcasts={dashboardData.broadcasts}
+        overdueSlips={dashboardData.overdueSlips}
+        feeWaivers={dashboardData.feeWaivers}
+        timeZone={dashboardData.timeZone}
       />
     );
   }
@@ -0,0 +1,19 @@
+"use server";
+
+import { redirect } from "next/navigation";
+import { auth0 } from "@/lib/auth0";
+import { completeFakeCheckout } from "@/lib/payments";
+
+export async function completeFakeCheckoutAction(formData: FormData): Promise<void> {
+  const session = await auth0.getSession();
+  if (!session?.user?.sub) redirect("/auth/login");
+
+  const providerPaymentId = String(formData.get("providerPaymentId") ?? "");
+  const outcome = formData.get("outcome") === "succeeded" ? "succeeded" : "cancelled";
+
+  const result = await completeFakeCheckout(session.user.sub, providerPaymentId, outcome);
+  if (!result.success) {
+    console.error("[completeFakeCheckoutAction] Failed:", result.error);
+  }
+  redirect("/");
+}
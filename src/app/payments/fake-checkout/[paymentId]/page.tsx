@@ -0,0 +1,73 @@
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { auth0 } from "@/lib/auth0";
+import { getFakeCheckout } from "@/lib/payments";
+import { completeFakeCheckoutAction } from "./actions";
+
+/**
+ * Stands in for a real provider's hosted checkout during development. Nothing is charged:
+ * paying sends the same signed webhook a real provider would.
+ */
+export default async function FakeCheckoutPage({
+  params,
+}: {
+  params: Promise<{ paymentId: string }>;
+}) {
+  const session = await auth0.getSession();
+  if (!session) {
+    redirect("/auth/login");
+  }
+
+  const { paymentId } = await params;
+  const checkout = await getFakeCheckout(session.user.sub, paymentId);
+  if (!checkout) notFound();
+
+  return (
+    <div className="min-h-screen bg-zinc-50 font-sans">
+      <div className="mx-auto flex min-h-screen max-w-4xl flex-col items-center justify-center px-4 py-16 sm:px-6">
+        <div className="w-full max-w-sm overflow-hidden rounded-xl border border-zinc-200 bg-white p-8 shadow-sm">
+          <p className="rounded-lg bg-amber-50 px-3 py-2 text-xs font-medium text-amber-800">
+            Test checkout. No real payment is taken.
+          </p>
+          <h1 className="mt-6 text-xl font-semibold tracking-tight text-zinc-900">
+            {checkout.description}
+          </h1>
+          <p className="mt-2 text-3xl font-semibold text-zinc-900">
+            ${checkout.amount.toFixed(2)}{" "}
+            <span className="text-base font-normal text-zinc-500">
+              {checkout.currency.toUpperCase()}
+            </span>
+          </p>
+          {checkout.status === "pending" ? (
+            <form action={completeFakeCheckoutAction} className="mt-8 flex flex-col gap-3">
+              <input type="hidden" name="providerPaymentId" value={checkout.providerPaymentId} />
+              <button
+                type="submit"
+                name="outcome"
+                value="succeeded"
+                className="rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700"
+              >
+                Pay ${checkout.amount.toFixed(2)}
+              </button>
+              <button
+                type="submit"
+                name="outcome"
+                value="cancelled"
+                className="rounded-lg border border-zinc-300 bg-white px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50"
+              >
+                Cancel
+              </button>
+            </form>
+          ) : (
+            <p className="mt-8 text-sm text-zinc-600">
+              This checkout is {checkout.status === "succeeded" ? "already paid" : "closed"}.{" "}
+              <Link href="/" className="font-medium text-red-600 hover:text-red-700">
+                Back to School Connect
+              </Link>
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,26 +1,108 @@
 import { ObjectId } from "mongodb";
-import type { CalendarEventVisibility } from "./db/types";
-import type { CalendarEvent } from "./db/types";
+import type {
+  CalendarEventVisibility,
+  EventScheduleChange,
+  RecurrenceOverride,
+  RecurrenceRule,
+  SlipEscalation,
+  SlipStampField,
+  SlipStampLayout,
+} from "./db/types";
+import type { CalendarEvent, Class } from "./db/types";
 import {
   calendarEventsCollection,
   classesCollection,
   eventPermissionSlipsCollection,
+  eventRevisionsCollection,
+  feeWaiversCollection,
+  ledgerEntriesCollection,
+  paymentIntentsCollection,
+  permissionFormsCollection,
   studentsCollection,
 } from "./db/collections";
 import { isDbConfigured } from "./db";
+import {
+  getClosedRuleDates,
+  getEventOccurrenceDates,
+  validateRecurrenceChanges,
+  validateRecurrenceRule,
+} from "./recurrence";
+import { diffEventFields, recordEventRevision } from "./event-revisions";
+import {
+  deleteVolunteerSignups,
+  resolveVolunteerRoles,
+  type VolunteerRoleInput,
+} from "./event-volunteers";
+import { getTemplatePermissionForm } from "./event-templates";
+import { schoolRequiresApproval } from "./schools";
+import { getSchoolClosureDates } from "./school-closures";
+import {
+  resolvePermissionFormFields,
+  restampSignedSlips,
+  type PermissionFormFieldInput,
+} from "./permission-forms";
+import { resetSlipEscalation, resolveSlipEscalation } from "./slip-escalations";
 
-/** Effective cost for payment/permission: recurring uses costPerOccurrence × dates, else cost */
+type EventCostSource = Pick<
+  CalendarEvent,
+  | "startAt"
+  | "cost"
+  | "occurrenceDates"
+  | "costPerOccurrence"
+  | "recurrence"
+  | "recurrenceExceptions"
+  | "recurrenceOverrides"
+>;
+
+/** True when the event is recurring and charged per date, so parents can opt into individual dates */
+export function isPerOccurrenceEvent(event: EventCostSource): boolean {
+  const perOcc = event.costPerOccurrence;
+  return getEventOccurrenceDates(event).length > 1 && perOcc != null && perOcc > 0;
+}
+
+/**
+ * Effective cost for payment/permission: recurring uses costPerOccurrence × dates, else cost.
+ * When selectedDates is given (a parent's opt-in), only those dates are charged.
+ */
 export function getEventEffectiveCost(
-  event: Pick<CalendarEvent, "cost" | "occurrenceDates" | "costPerOccurrence">
+  event: EventCostSource,
+  selectedDates?: string[] | null
 ): number | undefined {
-  const dates = event.occurrenceDates;
+  const dates = getEventOccurrenceDates(event);
   const perOcc = event.costPerOccurrence;
-  if (dates && dates.length > 1 && perOcc != null && perOcc > 0) {
-    return perOcc * dates.length;
+  if (dates.length > 1 && perOcc != null && perOcc > 0) {
+    const count = selectedDates
+      ? dates.filter((d) => selectedDates.includes(d)).length
+      : dates.length;
+    return perOcc * count;
   }
   return event.cost != null && event.cost > 0 ? event.cost : undefined;
 }
 
+/** Field trips (permission slips) and paid events need admin approval at schools with an admin */
+export function eventNeedsApproval(
+  event: Pick<CalendarEvent, "requiresPermissionSlip" | "cost" | "costPerOccurrence">
+): boolean {
+  return (
+    Boolean(event.requiresPermissionSlip) ||
+    (event.cost ?? 0) > 0 ||
+    (event.costPerOccurrence ?? 0) > 0
+  );
+}
+
+/** Parents only see events that were approved or never needed approval */
+export function isEventApproved(event: Pick<CalendarEvent, "approvalStatus">): boolean {
+  return !event.approvalStatus || event.approvalStatus === "approved";
+}
+
+/** Whether a student is included in an event (targeted events only include some students) */
+export function isEventForStudent(
+  event: Pick<CalendarEvent, "targetStudentIds">,
+  studentId: string
+): boolean {
+  return !event.targetStudentIds || event.targetStudentIds.includes(studentId);
+}
+
 export interface CreateEventInput {
   schoolId: string;
   classId: string | null;
@@ -38,38 +120,304 @@ export interface CreateEventInput {
   occurrenceDates?: string[];
   /** Due date for form and payment (YYYY-MM-DD). Parents must submit by this date. */
   permissionSlipDueDate?: string;
+  /** Maximum number of students. Later submissions go on the waitlist. */
+  capacity?: number;
+  /** Parent helpers needed (e.g. 2 chaperones) */
+  volunteerRoles?: VolunteerRoleInput[];
+  /** Questions parents answer on the permission slip */
+  permissionFormFields?: PermissionFormFieldInput[];
+  /** Reminders before/on the due date and flagging overdue slips to the admin */
+  slipEscalation?: SlipEscalation;
+  /** Recurring: repeat rule. When set, occurrenceDates is generated from it. */
+  recurrence?: RecurrenceRule;
+  /** Recurring: rule dates to skip */
+  recurrenceExceptions?: string[];
+  /** Recurring: one-off moves or time changes */
+  recurrenceOverrides?: RecurrenceOverride[];
+  /** Copies this template's permission form onto the event (when it requires a slip) */
+  permissionFormTemplateId?: string;
+  /** Other classes at the school to publish a linked copy to */
+  linkedClassIds?: string[];
+  /** Also publish to every class at the school with students in this grade */
+  linkedGrade?: string;
+  /** Only these students of the class. Omit for the whole class */
+  targetStudentIds?: string[];
+  /** Group the students were picked from, for display */
+  targetGroupId?: string;
 }
 
 /**
- * Creates a calendar event. Verifies the teacher owns the class/school.
+ * Validates a recurrence rule with its exceptions/overrides and expands it to dates, skipping
+ * days the school is closed. Dates are what gets stored in occurrenceDates so date queries
+ * keep working.
  */
-export async function createCalendarEvent(
-  auth0Id: string,
+function resolveRecurrence(
+  rule: RecurrenceRule,
+  exceptions: string[] = [],
+  overrides: RecurrenceOverride[] = [],
+  closedDates: Set<string> = new Set()
+):
+  | { success: true; dates: string[]; closureDates: string[] }
+  | { success: false; error: string } {
+  const error =
+    validateRecurrenceRule(rule) ?? validateRecurrenceChanges(rule, exceptions, overrides);
+  if (error) return { success: false, error };
+  const closureDates = getClosedRuleDates(rule, exceptions, overrides, closedDates);
+  const dates = getEventOccurrenceDates({
+    startAt: `${rule.startDate}T00:00:00`,
+    recurrence: rule,
+    recurrenceExceptions: exceptions,
+    recurrenceOverrides: overrides,
+    closureDates,
+  });
+  if (dates.length === 0) {
+    return {
+      success: false,
+      error: closureDates.length
+        ? "Every date in the repeat schedule falls on a school closure"
+        : "The repeat schedule has no dates",
+    };
+  }
+  return { success: true, dates, closureDates };
+}
+
+/**
+ * Event times are wall-clock times at the school (YYYY-MM-DDTHH:mm[:ss]) with no UTC offset,
+ * so they read the same for every family and compare against the school's own clock.
+ */
+function isLocalDateTime(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/.test(value);
+}
+
+/** Keeps the time of a stored local date-time but moves it to another date */
+function withDate(dateTime: string, date: string): string {
+  return `${date}${dateTime.slice(10)}`;
+}
+
+const MAX_LINKED_CLASSES = 30;
+
+/**
+ * Classes a multi-class event is published to: the teacher's own class first, then the
+ * chosen classes and grade at the same school. Other teachers' classes are allowed.
+ */
+async function resolveLinkedClassIds(
   input: CreateEventInput
-): Promise<{ success: true; eventId: string } | { success: false; error: string }> {
-  if (!isDbConfigured()) {
-    return { success: false, error: "Database not configured" };
+): Promise<{ success: true; classIds: string[] } | { success: false; error: string }> {
+  const primaryClassId = input.classId;
+  const requested = (input.linkedClassIds ?? []).filter((id) => id !== primaryClassId);
+  const grade = input.linkedGrade?.trim();
+  if (!primaryClassId || (requested.length === 0 && !grade)) {
+    return { success: true, classIds: primaryClassId ? [primaryClassId] : [] };
+  }
+  if (requested.some((id) => !/^[a-f0-9]{24}$/i.test(id))) {
+    return { success: false, error: "Class not found" };
   }
 
+  const classes = await classesCollection();
+  const requestedDocs = requested.length
+    ? await classes
+        .find({
+          _id: { $in: requested.map((id) => new ObjectId(id)) },
+          schoolId: input.schoolId,
+        })
+        .toArray()
+    : [];
+  if (requestedDocs.length !== new Set(requested).size) {
+    return { success: false, error: "Classes must be at the same school as the event" };
+  }
+
+  const gradeClassIds: string[] = [];
+  if (grade) {
+    const students = await studentsCollection();
+    const gradeStudents = await students
+      .find({ schoolId: input.schoolId, grade })
+      .toArray();
+    gradeClassIds.push(...gradeStudents.flatMap((s) => s.classIds ?? []));
+    if (gradeClassIds.length === 0) {
+      return { success: false, error: `No classes at this school have grade ${grade} students` };
+    }
+  }
+
+  const gradeClassDocs = gradeClassIds.length
+    ? await classes
+        .find({
+          _id: {
+            $in: [...new Set(gradeClassIds)]
+              .filter((id) => /^[a-f0-9]{24}$/i.test(id))
+              .map((id) => new ObjectId(id)),
+          },
+          schoolId: input.schoolId,
+        })
+        .toArray()
+    : [];
+
+  const classIds = [
+    ...new Set([
+      primaryClassId,
+      ...requestedDocs.map((c) => c._id?.toString() ?? ""),
+      ...gradeClassDocs.map((c) => c._id?.toString() ?? ""),
+    ]),
+  ].filter(Boolean);
+  if (classIds.length > MAX_LINKED_CLASSES) {
+    return {
+      success: false,
+      error: `An event can be published to at most ${MAX_LINKED_CLASSES} classes`,
+    };
+  }
+  return { success: true, classIds };
+}
+
+/**
+ * Checks a student list against the class roster. Returns null for the whole class.
+ */
+function resolveTargetStudents(
+  cls: Class,
+  targetStudentIds: string[] | null | undefined,
+  targetGroupId: string | null | undefined
+):
+  | { success: true; studentIds: string[] | null; groupId: string | null }
+  | { success: false; error: string } {
+  if (!targetStudentIds) return { success: true, studentIds: null, groupId: null };
+  const studentIds = [...new Set(targetStudentIds)];
+  if (studentIds.length === 0) {
+    return { success: false, error: "Pick at least one student" };
+  }
+  const classStudentIds = new Set(cls.studentIds ?? []);
+  if (studentIds.some((id) => !classStudentIds.has(id))) {
+    return { success: false, error: "All students must be in this class" };
+  }
+  const groupId =
+    targetGroupId && cls.groups?.some((g) => g.id === targetGroupId) ? targetGroupId : null;
+  return { success: true, studentIds, groupId };
+}
+
+/**
+ * Creates a pending slip for each guardian of each student in the class, or only of the
+ * targeted students. Students who already have a slip are skipped.
+ */
+export async function createPendingSlips(
+  eventId: string,
+  classId: string,
+  targetStudentIds?: string[]
+): Promise<void> {
+  const classes = await classesCollection();
+  const cls = await classes.findOne({
+    _id: new ObjectId(classId),
+  });
+  const studentIds = (cls?.studentIds ?? []).filter(
+    (id) => !targetStudentIds || targetStudentIds.includes(id)
+  );
+  if (studentIds.length === 0) return;
+
+  const slips = await eventPermissionSlipsCollection();
+  const existingSlips = await slips.find({ eventId }).toArray();
+  const existing = new Set(existingSlips.map((s) => `${s.studentId}:${s.guardianId}`));
+
+  const students = await studentsCollection();
+  const studentDocs = await students
+    .find({
+      _id: {
+        $in: studentIds
+          .filter((id) => /^[a-f0-9]{24}$/i.test(id))
+          .map((id) => new ObjectId(id)),
+      },
+    })
+    .toArray();
+
+  const slipsToInsert: Array<{
+    eventId: string;
+    classId: string;
+    studentId: string;
+    guardianId: string;
+    status: "pending";
+    createdAt: Date;
+  }> = [];
+
+  for (const student of studentDocs) {
+    const guardianIds = student.guardianIds ?? [];
+    for (const guardianId of guardianIds) {
+      if (existing.has(`${student._id?.toString()}:${guardianId}`)) continue;
+      slipsToInsert.push({
+        eventId,
+        classId,
+        studentId: student._id?.toString() ?? "",
+        guardianId,
+        status: "pending",
+        createdAt: new Date(),
+      });
+    }
+  }
+
+  if (slipsToInsert.length > 0) {
+    await slips.insertMany(slipsToInsert);
+  }
+}
+
+function isValidCapacity(capacity: number): boolean {
+  return Number.isInteger(capacity) && capacity >= 1 && capacity <= 10_000;
+}
+
+/**
+ * Validates the basic fields of a new event. Returns an error message, or null if valid.
+ * Also used by the import preview so imported rows are checked the same way.
+ */
+export function validateCreateEventInput(
+  input: Pick<CreateEventInput, "title" | "startAt" | "endAt" | "visibility">
+): string | null {
   const title = input.title.trim();
-  if (!title) return { success: false, error: "Title is required" };
-  if (title.length > 200) return { success: false, error: "Title is too long" };
+  if (!title) return "Title is required";
+  if (title.length > 200) return "Title is too long";
 
-  if (!input.startAt) return { success: false, error: "Start date is required" };
-  if (!input.endAt) return { success: false, error: "End date is required" };
+  if (!input.startAt) return "Start date is required";
+  if (!input.endAt) return "End date is required";
 
   const start = new Date(input.startAt);
   const end = new Date(input.endAt);
-  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
-    return { success: false, error: "Invalid date format" };
+  if (
+    !isLocalDateTime(input.startAt) ||
+    !isLocalDateTime(input.endAt) ||
+    isNaN(start.getTime()) ||
+    isNaN(end.getTime())
+  ) {
+    return "Invalid date format";
   }
   if (end <= start) {
-    return { success: false, error: "End time must be after start time" };
+    return "End time must be after start time";
   }
 
   if (!["class", "school", "private"].includes(input.visibility)) {
-    return { success: false, error: "Invalid visibility" };
+    return "Invalid visibility";
   }
+  return null;
+}
+
+/**
+ * Creates a calendar event. Verifies the teacher owns the class/school.
+ * With linked classes or a grade, one copy is created per class, sharing a linkGroupId,
+ * so each class keeps its own slips, payments and status.
+ */
+export async function createCalendarEvent(
+  auth0Id: string,
+  input: CreateEventInput
+): Promise<{ success: true; eventId: string } | { success: false; error: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+
+  const validationError = validateCreateEventInput(input);
+  if (validationError) return { success: false, error: validationError };
+  if (input.capacity != null && !isValidCapacity(input.capacity)) {
+    return { success: false, error: "Spots must be a whole number of at least 1" };
+  }
+  const volunteerRoles = resolveVolunteerRoles(input.volunteerRoles ?? []);
+  if (!volunteerRoles.success) return volunteerRoles;
+  const formFields = resolvePermissionFormFields(
+    input.requiresPermissionSlip ? input.permissionFormFields ?? [] : []
+  );
+  if (!formFields.success) return formFields;
+  const escalation = resolveSlipEscalation(input.slipEscalation ?? null);
+  if (!escalation.success) return escalation;
+  const title = input.title.trim();
 
   try {
     const classes = await classesCollection();
@@ -99,10 +447,50 @@ export async function createCalendarEvent(
       }
     }
 
+    const targetClasses = await resolveLinkedClassIds(input);
+    if (!targetClasses.success) return targetClasses;
+
+    let targetStudentIds: string[] | undefined;
+    let targetGroupId: string | undefined;
+    if (input.targetStudentIds) {
+      if (!input.classId) {
+        return { success: false, error: "Only class events can be for some students" };
+      }
+      if (targetClasses.classIds.length > 1) {
+        return {
+          success: false,
+          error: "Choose either some students or other classes, not both",
+        };
+      }
+      const cls = teacherClasses.find((c) => c._id?.toString() === input.classId);
+      if (!cls) return { success: false, error: "You don't have access to this class" };
+      const targets = resolveTargetStudents(cls, input.targetStudentIds, input.targetGroupId);
+      if (!targets.success) return targets;
+      targetStudentIds = targets.studentIds ?? undefined;
+      targetGroupId = targets.groupId ?? undefined;
+    }
+
     const events = await calendarEventsCollection();
-    const occurrenceDates =
+    let occurrenceDates =
       input.occurrenceDates?.filter((d) => /^\d{4}-\d{2}-\d{2}$/.test(d)) ?? [];
+    let startAt = input.startAt;
+    let endAt = input.endAt;
+    let closureDates: string[] = [];
+    if (input.recurrence) {
+      const resolved = resolveRecurrence(
+        input.recurrence,
+        input.recurrenceExceptions,
+        input.recurrenceOverrides,
+        new Set(await getSchoolClosureDates(input.schoolId))
+      );
+      if (!resolved.success) return resolved;
+      occurrenceDates = resolved.dates;
+      closureDates = resolved.closureDates;
+      startAt = withDate(input.startAt, occurrenceDates[0]);
+      endAt = withDate(input.endAt, occurrenceDates[0]);
+    }
     const isRecurring = occurrenceDates.length > 1;
+    const hasRule = isRecurring && Boolean(input.recurrence);
 
     const cost = isRecurring
       ? undefined
@@ -120,72 +508,73 @@ export async function createCalendarEvent(
     const permissionSlipDueDate = input.permissionSlipDueDate?.match(/^\d{4}-\d{2}-\d{2}$/)
       ? input.permissionSlipDueDate
       : undefined;
+    const permissionFormPdfBase64 =
+      input.requiresPermissionSlip && input.permissionFormTemplateId
+        ? (await getTemplatePermissionForm(auth0Id, input.permissionFormTemplateId)) ??
+          undefined
+        : undefined;
 
-    const result = await events.insertOne({
+    const linkGroupId =
+      targetClasses.classIds.length > 1 ? new ObjectId().toString() : undefined;
+    // Held back from parents (no slips yet) until the principal approves
+    const awaitingApproval =
+      eventNeedsApproval({ requiresPermissionSlip: input.requiresPermissionSlip, cost, costPerOccurrence }) &&
+      (await schoolRequiresApproval(input.schoolId));
+    const eventDoc = {
       schoolId: input.schoolId,
-      classId: input.classId ?? null,
       title,
       description: input.description?.trim() || undefined,
-      startAt: input.startAt,
-      endAt: input.endAt,
+      startAt,
+      endAt,
       visibility: input.visibility,
       requiresPermissionSlip: input.requiresPermissionSlip ?? false,
       cost,
       occurrenceDates: storedOccurrenceDates,
+      recurrence: hasRule ? input.recurrence : undefined,
+      recurrenceExceptions:
+        hasRule && input.recurrenceExceptions?.length ? input.recurrenceExceptions : undefined,
+      recurrenceOverrides:
+        hasRule && input.recurrenceOverrides?.length ? input.recurrenceOverrides : undefined,
+      closureDates: hasRule && closureDates.length ? closureDates : undefined,
       costPerOccurrence,
       permissionSlipDueDate,
-      createdAt: new Date(),
-    });
+      capacity: input.capacity,
+      volunteerRoles: volunteerRoles.roles.length > 0 ? volunteerRoles.roles : undefined,
+      permissionFormPdfBase64,
+      permissionFormFields: formFields.fields.length > 0 ? formFields.fields : undefined,
+      slipEscalation: escalation.escalation ?? undefined,
+      linkGroupId,
+      targetStudentIds,
+      targetGroupId,
+      approvalStatus: awaitingApproval ? ("pending" as const) : undefined,
+      submittedForApprovalAt: awaitingApproval ? new Date() : undefined,
+    };
 
-    const eventId = result.insertedId?.toString();
-    if (input.classId && eventId) {
-      const cls = await classes.findOne({
-        _id: new ObjectId(input.classId),
+    if (!input.classId) {
+      const result = await events.insertOne({
+        ...eventDoc,
+        classId: null,
+        createdAt: new Date(),
       });
-      const studentIds = cls?.studentIds ?? [];
-      if (studentIds.length > 0) {
-        const students = await studentsCollection();
-        const studentDocs = await students
-          .find({
-            _id: {
-              $in: studentIds
-                .filter((id) => /^[a-f0-9]{24}$/i.test(id))
-                .map((id) => new ObjectId(id)),
-            },
-          })
-          .toArray();
-
-        const slipsToInsert: Array<{
-          eventId: string;
-          classId: string;
-          studentId: string;
-          guardianId: string;
-          status: "pending";
-          createdAt: Date;
-        }> = [];
-
-        for (const student of studentDocs) {
-          const guardianIds = student.guardianIds ?? [];
-          for (const guardianId of guardianIds) {
-            slipsToInsert.push({
-              eventId,
-              classId: input.classId!,
-              studentId: student._id?.toString() ?? "",
-              guardianId,
-              status: "pending",
-              createdAt: new Date(),
-            });
-          }
-        }
+      return { success: true, eventId: result.insertedId?.toString() ?? "" };
+    }
 
-        if (slipsToInsert.length > 0) {
-          const slips = await eventPermissionSlipsCollection();
-          await slips.insertMany(slipsToInsert);
-        }
+    // The teacher's own class comes first, so its copy is the one returned
+    let eventId = "";
+    for (const classId of targetClasses.classIds) {
+      const result = await events.insertOne({
+        ...eventDoc,
+        classId,
+        createdAt: new Date(),
+      });
+      const insertedId = result.insertedId?.toString() ?? "";
+      if (!eventId) eventId = insertedId;
+      if (insertedId && !awaitingApproval) {
+        await createPendingSlips(insertedId, classId, targetStudentIds);
       }
     }
 
-    return { success: true, eventId: eventId ?? "" };
+    return { success: true, eventId };
   } catch (error) {
     console.error("[createCalendarEvent] Failed:", error);
     return { success: false, error: "Failed to create event. Please try again." };
@@ -202,10 +591,94 @@ export interface UpdateEventInput {
   costPerOccurrence?: number | null;
   occurrenceDates?: string[] | null;
   permissionSlipDueDate?: string | null;
+  /** Set a limit or null to remove it. Raising or removing it promotes waitlisted students */
+  capacity?: number | null;
+  /** Replaces the volunteer roles. Signups for removed roles are deleted */
+  volunteerRoles?: VolunteerRoleInput[];
+  /** Replaces the form questions. Answers already given keep their field key */
+  permissionFormFields?: PermissionFormFieldInput[];
+  /** Set the reminder/escalation settings or null to turn them off */
+  slipEscalation?: SlipEscalation | null;
+  /** Set a repeat rule (occurrenceDates is regenerated) or null to remove it */
+  recurrence?: RecurrenceRule | null;
+  recurrenceExceptions?: string[];
+  recurrenceOverrides?: RecurrenceOverride[];
+  /** Only these students, or null for the whole class. Slips are added/removed to match */
+  targetStudentIds?: string[] | null;
+  targetGroupId?: string | null;
+}
+
+/**
+ * Fields every copy of a linked event shares. Class-specific settings (spots, volunteers,
+ * reminders, which students) stay with each copy.
+ */
+const LINKED_EVENT_FIELDS = new Set([
+  "title",
+  "description",
+  "startAt",
+  "endAt",
+  "requiresPermissionSlip",
+  "cost",
+  "costPerOccurrence",
+  "occurrenceDates",
+  "recurrence",
+  "recurrenceExceptions",
+  "recurrenceOverrides",
+  "closureDates",
+  "permissionSlipDueDate",
+  "permissionFormFields",
+  "approvalStatus",
+  "submittedForApprovalAt",
+  "approvalComment",
+  "approvalDecidedBy",
+  "approvalDecidedAt",
+]);
+
+/**
+ * Writes an edit to one event (null fields are removed), logs it so parents see what changed,
+ * and restarts reminders when the due date moved.
+ */
+async function saveEventUpdate(
+  event: CalendarEvent,
+  update: Record<string, unknown>,
+  changedBy: string
+): Promise<void> {
+  const eventId = event._id?.toString();
+  if (!eventId) return;
+
+  const updateDoc: Record<string, unknown> = {};
+  const unsetDoc: Record<string, string> = {};
+  for (const [key, value] of Object.entries(update)) {
+    if (value === null || value === undefined) {
+      unsetDoc[key] = "";
+    } else {
+      updateDoc[key] = value;
+    }
+  }
+  const mongoUpdate: Record<string, unknown> = {};
+  if (Object.keys(updateDoc).length > 0) mongoUpdate.$set = updateDoc;
+  if (Object.keys(unsetDoc).length > 0) mongoUpdate.$unset = unsetDoc;
+
+  const changes = diffEventFields(event, update);
+
+  const events = await calendarEventsCollection();
+  await events.updateOne({ _id: new ObjectId(eventId) }, mongoUpdate);
+
+  await recordEventRevision(event, changedBy, changes);
+
+  const dueDateAfter =
+    ("permissionSlipDueDate" in update
+      ? (update.permissionSlipDueDate as string | null)
+      : event.permissionSlipDueDate) ??
+    ((update.startAt as string | undefined) ?? event.startAt).slice(0, 10);
+  if (dueDateAfter !== (event.permissionSlipDueDate ?? event.startAt.slice(0, 10))) {
+    await resetSlipEscalation(eventId);
+  }
 }
 
 /**
- * Updates a calendar event. Verifies the teacher owns the class/school.
+ * Updates a calendar event. Verifies the teacher owns the class/school. Shared details of a
+ * linked event (title, dates, cost, due date, form questions) change on every class's copy.
  */
 export async function updateCalendarEvent(
   auth0Id: string,
@@ -256,13 +729,17 @@ export async function updateCalendarEvent(
     if (input.startAt !== undefined) {
       if (!input.startAt) return { success: false, error: "Start date is required" };
       const start = new Date(input.startAt);
-      if (isNaN(start.getTime())) return { success: false, error: "Invalid start date" };
+      if (!isLocalDateTime(input.startAt) || isNaN(start.getTime())) {
+        return { success: false, error: "Invalid start date" };
+      }
       update.startAt = input.startAt;
     }
     if (input.endAt !== undefined) {
       if (!input.endAt) return { success: false, error: "End date is required" };
       const end = new Date(input.endAt);
-      if (isNaN(end.getTime())) return { success: false, error: "Invalid end date" };
+      if (!isLocalDateTime(input.endAt) || isNaN(end.getTime())) {
+        return { success: false, error: "Invalid end date" };
+      }
       const start = new Date((update.startAt as string) ?? event.startAt);
       if (end <= start) {
         return { success: false, error: "End time must be after start time" };
@@ -298,32 +775,155 @@ export async function updateCalendarEvent(
         update.occurrenceDates = null;
       }
     }
+    if (input.recurrence !== undefined) {
+      if (input.recurrence) {
+        const resolved = resolveRecurrence(
+          input.recurrence,
+          input.recurrenceExceptions,
+          input.recurrenceOverrides,
+          new Set(await getSchoolClosureDates(event.schoolId))
+        );
+        if (!resolved.success) return resolved;
+        const hasRule = resolved.dates.length > 1;
+        update.recurrence = hasRule ? input.recurrence : null;
+        update.recurrenceExceptions =
+          hasRule && input.recurrenceExceptions?.length ? input.recurrenceExceptions : null;
+        update.recurrenceOverrides =
+          hasRule && input.recurrenceOverrides?.length ? input.recurrenceOverrides : null;
+        update.closureDates = hasRule && resolved.closureDates.length ? resolved.closureDates : null;
+        update.occurrenceDates = hasRule ? resolved.dates : null;
+        // Series starts on its first occurrence
+        const startAt = (update.startAt as string | undefined) ?? event.startAt;
+        const endAt = (update.endAt as string | undefined) ?? event.endAt;
+        update.startAt = withDate(startAt, resolved.dates[0]);
+        update.endAt = withDate(endAt, resolved.dates[0]);
+      } else {
+        update.recurrence = null;
+        update.recurrenceExceptions = null;
+        update.recurrenceOverrides = null;
+        update.closureDates = null;
+      }
+    }
     if (input.permissionSlipDueDate !== undefined) {
       update.permissionSlipDueDate =
-        input.permissionSlipDueDate?.match(/^\d{4}-\d{2}-\d{2}$/) ?? null;
+        input.permissionSlipDueDate && /^\d{4}-\d{2}-\d{2}$/.test(input.permissionSlipDueDate)
+          ? input.permissionSlipDueDate
+          : null;
+    }
+    if (input.capacity !== undefined) {
+      if (input.capacity != null && !isValidCapacity(input.capacity)) {
+        return { success: false, error: "Spots must be a whole number of at least 1" };
+      }
+      update.capacity = input.capacity;
+    }
+    if (input.targetStudentIds !== undefined) {
+      const cls = teacherClasses.find((c) => c._id?.toString() === event.classId);
+      if (!cls) {
+        return { success: false, error: "Only class events can be for some students" };
+      }
+      if (input.targetStudentIds && event.linkGroupId) {
+        return {
+          success: false,
+          error: "This event is shared with other classes, so it's for the whole class",
+        };
+      }
+      const targets = resolveTargetStudents(cls, input.targetStudentIds, input.targetGroupId);
+      if (!targets.success) return targets;
+      update.targetStudentIds = targets.studentIds;
+      update.targetGroupId = targets.groupId;
+    }
+    let volunteerRoleIds: string[] | undefined;
+    if (input.volunteerRoles !== undefined) {
+      const resolved = resolveVolunteerRoles(input.volunteerRoles);
+      if (!resolved.success) return resolved;
+      update.volunteerRoles = resolved.roles.length > 0 ? resolved.roles : null;
+      volunteerRoleIds = resolved.roles.map((r) => r.id);
+    }
+    if (input.permissionFormFields !== undefined) {
+      const resolved = resolvePermissionFormFields(input.permissionFormFields);
+      if (!resolved.success) return resolved;
+      update.permissionFormFields = resolved.fields.length > 0 ? resolved.fields : null;
+    }
+    if (input.slipEscalation !== undefined) {
+      const resolved = resolveSlipEscalation(input.slipEscalation);
+      if (!resolved.success) return resolved;
+      update.slipEscalation = resolved.escalation;
     }
 
     if (Object.keys(update).length === 0) {
       return { success: true };
     }
 
-    const updateDoc: Record<string, unknown> = {};
-    const unsetDoc: Record<string, string> = {};
-    for (const [key, value] of Object.entries(update)) {
-      if (value === null || value === undefined) {
-        unsetDoc[key] = "";
-      } else {
-        updateDoc[key] = value;
-      }
+    // Editing a rejected event resubmits it; a free event that gains a cost or slip needs
+    // approval too. Dropping the cost and slip means no approval is needed any more.
+    const valueAfter = <K extends "requiresPermissionSlip" | "cost" | "costPerOccurrence">(
+      key: K
+    ) => (key in update ? ((update[key] as CalendarEvent[K] | null) ?? undefined) : event[key]);
+    const needsApprovalAfter = eventNeedsApproval({
+      requiresPermissionSlip: valueAfter("requiresPermissionSlip"),
+      cost: valueAfter("cost"),
+      costPerOccurrence: valueAfter("costPerOccurrence"),
+    });
+    let releasedFromApproval = false;
+    if (!needsApprovalAfter && !isEventApproved(event)) {
+      update.approvalStatus = null;
+      releasedFromApproval = true;
+    } else if (
+      needsApprovalAfter &&
+      (event.approvalStatus === "rejected" ||
+        (!event.approvalStatus && !eventNeedsApproval(event))) &&
+      (await schoolRequiresApproval(event.schoolId))
+    ) {
+      update.approvalStatus = "pending";
+      update.submittedForApprovalAt = new Date();
+      update.approvalComment = null;
+      update.approvalDecidedBy = null;
+      update.approvalDecidedAt = null;
     }
-    const mongoUpdate: Record<string, unknown> = {};
-    if (Object.keys(updateDoc).length > 0) mongoUpdate.$set = updateDoc;
-    if (Object.keys(unsetDoc).length > 0) mongoUpdate.$unset = unsetDoc;
 
-    await events.updateOne(
-      { _id: new ObjectId(eventId) },
-      mongoUpdate
+    await saveEventUpdate(event, update, auth0Id);
+
+    // Copies in other classes are the same event: families there see the same change
+    const linkedUpdate = Object.fromEntries(
+      Object.entries(update).filter(([key]) => LINKED_EVENT_FIELDS.has(key))
     );
+    const linkedCopies =
+      event.linkGroupId && Object.keys(linkedUpdate).length > 0
+        ? await events.find({ linkGroupId: event.linkGroupId, _id: { $ne: event._id } }).toArray()
+        : [];
+    for (const copy of linkedCopies) {
+      await saveEventUpdate(copy, linkedUpdate, auth0Id);
+    }
+
+    if (volunteerRoleIds) {
+      await deleteVolunteerSignups(eventId, volunteerRoleIds);
+    }
+
+    const approvedAfter =
+      "approvalStatus" in update ? update.approvalStatus !== "pending" : isEventApproved(event);
+    if (releasedFromApproval && event.classId && !("targetStudentIds" in update)) {
+      await createPendingSlips(eventId, event.classId, event.targetStudentIds);
+      for (const copy of linkedCopies) {
+        if (copy._id && copy.classId) {
+          await createPendingSlips(copy._id.toString(), copy.classId, copy.targetStudentIds);
+        }
+      }
+    }
+
+    if ("targetStudentIds" in update && event.classId && approvedAfter) {
+      const targets = update.targetStudentIds as string[] | null;
+      if (targets) {
+        // Students no longer included lose their slips; their families aren't involved now
+        const slips = await eventPermissionSlipsCollection();
+        await slips.deleteMany({ eventId, studentId: { $nin: targets } });
+      }
+      await createPendingSlips(eventId, event.classId, targets ?? undefined);
+    }
+
+    if ("capacity" in update || "targetStudentIds" in update) {
+      const { promoteFromWaitlist } = await import("./event-permission-slips");
+      await promoteFromWaitlist(eventId);
+    }
 
     return { success: true };
   } catch (error) {
@@ -332,8 +932,93 @@ export async function updateCalendarEvent(
   }
 }
 
+/**
+ * Re-applies a school's closures to its repeating events after a closure is added or removed:
+ * dates on closed days are skipped and dates that reopen come back. A series whose every date
+ * would be closed is left as it was.
+ */
+export async function applySchoolClosures(schoolId: string): Promise<void> {
+  const events = await calendarEventsCollection();
+  const closedDates = new Set(await getSchoolClosureDates(schoolId));
+  const series = await events
+    .find({ schoolId, recurrence: { $exists: true } })
+    .toArray();
+
+  for (const event of series) {
+    if (!event.recurrence || !event._id) continue;
+    const closureDates = getClosedRuleDates(
+      event.recurrence,
+      event.recurrenceExceptions ?? [],
+      event.recurrenceOverrides ?? [],
+      closedDates
+    );
+    if (closureDates.join() === (event.closureDates ?? []).join()) continue;
+    const dates = getEventOccurrenceDates({ ...event, closureDates });
+    if (dates.length === 0) continue;
+
+    const set = {
+      occurrenceDates: dates,
+      startAt: withDate(event.startAt, dates[0]),
+      endAt: withDate(event.endAt, dates[0]),
+    };
+    await events.updateOne(
+      { _id: event._id },
+      closureDates.length
+        ? { $set: { ...set, closureDates } }
+        : { $set: set, $unset: { closureDates: "" } }
+    );
+  }
+}
+
+/**
+ * Cancels a school's one-off events on a date, e.g. when an urgent broadcast closes the
+ * school. Repeating events skip the day through the closure instead. Returns how many
+ * events were cancelled.
+ */
+export async function cancelSchoolEventsOn(
+  schoolId: string,
+  date: string,
+  changedBy: string,
+  reason: string
+): Promise<number> {
+  const events = await calendarEventsCollection();
+  const sameDay = await events
+    .find({
+      schoolId,
+      status: { $nin: ["cancelled", "postponed"] },
+      recurrence: { $exists: false },
+      startAt: { $lte: `${date}T23:59:59` },
+      endAt: { $gte: `${date}T00:00:00` },
+    })
+    .toArray();
+  const oneOff = sameDay.filter((e) => e._id && getEventOccurrenceDates(e).length === 1);
+  if (oneOff.length === 0) return 0;
+
+  const change: EventScheduleChange = {
+    type: "cancelled",
+    changedAt: new Date(),
+    changedBy,
+    reason,
+  };
+  await events.updateMany(
+    { _id: { $in: oneOff.map((e) => e._id!) } },
+    { $set: { status: "cancelled", statusReason: reason }, $push: { scheduleChanges: change } }
+  );
+
+  // Put the cancellation back in front of families
+  const slips = await eventPermissionSlipsCollection();
+  await slips.updateMany(
+    { eventId: { $in: oneOff.map((e) => e._id!.toString()) } },
+    { $unset: { readAt: "" } }
+  );
+
+  return oneOff.length;
+}
+
 /**
  * Deletes a calendar event and its permission slips. Verifies the teacher owns the class/school.
+ * Refused once any family has signed or paid; those events are cancelled with
+ * changeEventSchedule instead.
  */
 export async function deleteCalendarEvent(
   auth0Id: string,
@@ -374,8 +1059,45 @@ export async function deleteCalendarEvent(
       return { success: false, error: "You don't have access to this event" };
     }
 
-    const slips = await eventPermissionSlipsCollection();
-    await slips.deleteMany({ eventId });
+    // Once families have signed or money has changed hands the event has to be kept (and
+    // cancelled instead), so their slips and payment history still add up
+    const [slips, paymentIntents, ledgerEntries, revisions, feeWaivers, permissionForms] =
+      await Promise.all([
+        eventPermissionSlipsCollection(),
+        paymentIntentsCollection(),
+        ledgerEntriesCollection(),
+        eventRevisionsCollection(),
+        feeWaiversCollection(),
+        permissionFormsCollection(),
+      ]);
+    const [submittedSlip, paymentIntent, ledgerEntry] = await Promise.all([
+      slips.findOne({
+        eventId,
+        $or: [
+          { status: { $in: ["signed", "waitlisted"] } },
+          { resignRequestedAt: { $exists: true } },
+          { paidAt: { $exists: true } },
+          { cashReceivedAt: { $exists: true } },
+        ],
+      }),
+      paymentIntents.findOne({ eventId }),
+      ledgerEntries.findOne({ eventId }),
+    ]);
+    if (submittedSlip || paymentIntent || ledgerEntry) {
+      return {
+        success: false,
+        error:
+          "Families have already signed or paid for this event, so it can't be deleted. Cancel it instead to let them know it's off.",
+      };
+    }
+
+    await Promise.all([
+      slips.deleteMany({ eventId }),
+      deleteVolunteerSignups(eventId),
+      revisions.deleteMany({ eventId }),
+      feeWaivers.deleteMany({ eventId }),
+      permissionForms.deleteMany({ eventId }),
+    ]);
 
     await events.deleteOne({ _id: new ObjectId(eventId) });
 
@@ -386,13 +1108,164 @@ export async function deleteCalendarEvent(
   }
 }
 
+export type EventScheduleChangeInput =
+  | { action: "cancel" | "postpone" | "reinstate"; reason?: string }
+  | { action: "reschedule"; startAt: string; endAt: string; reason?: string };
+
+/**
+ * Cancels, postpones, reinstates or moves an event to a new date. Unlike delete, the event,
+ * its slips and any recorded payments are kept; the change is logged on the event and each
+ * parent's inbox item goes back to unread so they see the update. Linked copies in other
+ * classes change with it.
+ */
+export async function changeEventSchedule(
+  auth0Id: string,
+  eventId: string,
+  input: EventScheduleChangeInput
+): Promise<{ success: true } | { success: false; error: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+
+  if (!eventId || !/^[a-f0-9]{24}$/i.test(eventId)) {
+    return { success: false, error: "Invalid event" };
+  }
+
+  const reason = input.reason?.trim() || undefined;
+  if (reason && reason.length > 500) {
+    return { success: false, error: "Reason is too long" };
+  }
+
+  try {
+    const events = await calendarEventsCollection();
+    const classes = await classesCollection();
+
+    const event = await events.findOne({ _id: new ObjectId(eventId) });
+    if (!event) return { success: false, error: "Event not found" };
+
+    const teacherClasses = await classes
+      .find({ teacherIds: auth0Id })
+      .toArray();
+    const teacherSchoolIds = new Set(teacherClasses.map((c) => c.schoolId));
+    const teacherClassIds = new Set(
+      teacherClasses
+        .map((c) => c._id?.toString())
+        .filter((id): id is string => Boolean(id))
+    );
+    if (
+      !teacherSchoolIds.has(event.schoolId) ||
+      (event.classId && !teacherClassIds.has(event.classId))
+    ) {
+      return { success: false, error: "You don't have access to this event" };
+    }
+
+    const status = event.status ?? "scheduled";
+    const change: EventScheduleChange = {
+      type: "cancelled",
+      changedAt: new Date(),
+      changedBy: auth0Id,
+      ...(reason && { reason }),
+    };
+    const set: Record<string, unknown> = {};
+
+    if (input.action === "cancel") {
+      if (status === "cancelled") {
+        return { success: false, error: "Event is already cancelled" };
+      }
+      set.status = "cancelled";
+    } else if (input.action === "postpone") {
+      if (status !== "scheduled") {
+        return { success: false, error: "Only scheduled events can be postponed" };
+      }
+      change.type = "postponed";
+      set.status = "postponed";
+    } else if (input.action === "reinstate") {
+      if (status === "scheduled") {
+        return { success: false, error: "Event is not cancelled or postponed" };
+      }
+      change.type = "reinstated";
+      set.status = "scheduled";
+    } else if (input.action === "reschedule") {
+      if (event.recurrence || getEventOccurrenceDates(event).length > 1) {
+        return {
+          success: false,
+          error: "Repeating events are rescheduled by editing their dates",
+        };
+      }
+      const start = new Date(input.startAt);
+      const end = new Date(input.endAt);
+      if (!isLocalDateTime(input.startAt) || isNaN(start.getTime())) {
+        return { success: false, error: "Invalid start date" };
+      }
+      if (!isLocalDateTime(input.endAt) || isNaN(end.getTime())) {
+        return { success: false, error: "Invalid end date" };
+      }
+      if (end <= start) {
+        return { success: false, error: "End time must be after start time" };
+      }
+      if (input.startAt === event.startAt && input.endAt === event.endAt) {
+        return { success: false, error: "Choose a different date or time" };
+      }
+      Object.assign(change, {
+        type: "rescheduled",
+        fromStartAt: event.startAt,
+        fromEndAt: event.endAt,
+        toStartAt: input.startAt,
+        toEndAt: input.endAt,
+      });
+      set.status = "scheduled";
+      set.startAt = input.startAt;
+      set.endAt = input.endAt;
+      // Keep the due date from landing after the new event date
+      const newDate = input.startAt.slice(0, 10);
+      if (event.permissionSlipDueDate && event.permissionSlipDueDate > newDate) {
+        set.permissionSlipDueDate = newDate;
+      }
+    } else {
+      return { success: false, error: "Invalid action" };
+    }
+    set.statusReason = reason ?? null;
+
+    // A linked event is cancelled or moved for every class it was published to
+    const eventIds = event.linkGroupId
+      ? (
+          await events
+            .find({ linkGroupId: event.linkGroupId }, { projection: { _id: 1 } })
+            .toArray()
+        ).map((e) => e._id.toString())
+      : [eventId];
+
+    await events.updateMany(
+      { _id: { $in: eventIds.map((id) => new ObjectId(id)) } },
+      { $set: set, $push: { scheduleChanges: change } }
+    );
+
+    const slips = await eventPermissionSlipsCollection();
+    await slips.updateMany({ eventId: { $in: eventIds } }, { $unset: { readAt: "" } });
+    if (input.action === "reschedule") {
+      for (const id of eventIds) {
+        await resetSlipEscalation(id);
+      }
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("[changeEventSchedule] Failed:", error);
+    return { success: false, error: "Failed to update event. Please try again." };
+  }
+}
+
 /**
  * Uploads a custom permission form PDF for an event. Verifies the teacher owns the class.
+ * Replacing an existing form is logged and parents are notified; with requireResign, slips
+ * parents already signed go back to pending so they sign the new version. Those students keep
+ * their spot on limited events while they re-sign.
  */
 export async function uploadEventPermissionForm(
   auth0Id: string,
   eventId: string,
-  pdfBase64: string
+  pdfBase64: string,
+  requireResign = false
 ): Promise<{ success: true } | { success: false; error: string }> {
   if (!isDbConfigured()) {
     return { success: false, error: "Database not configured" };
@@ -427,6 +1300,42 @@ export async function uploadEventPermissionForm(
       { _id: new ObjectId(eventId) },
       { $set: { permissionFormPdfBase64: pdfBase64 } }
     );
+    if (event.linkGroupId) {
+      // Linked copies in other classes get the form too, unless they already have one
+      await events.updateMany(
+        {
+          linkGroupId: event.linkGroupId,
+          _id: { $ne: event._id },
+          requiresPermissionSlip: true,
+          permissionFormPdfBase64: { $exists: false },
+        },
+        { $set: { permissionFormPdfBase64: pdfBase64 } }
+      );
+    }
+
+    if (event.permissionFormPdfBase64) {
+      if (requireResign) {
+        const slips = await eventPermissionSlipsCollection();
+        // Slips the teacher uploaded for students with no parent aren't reset
+        await slips.updateMany(
+          {
+            eventId,
+            status: "signed",
+            guardianId: { $nin: cls.teacherIds ?? [] },
+          },
+          {
+            $set: { status: "pending", resignRequestedAt: new Date() },
+            $unset: { signedAt: "", signedPdfBase64: "", signatureId: "" },
+          }
+        );
+      }
+      await recordEventRevision(
+        event,
+        auth0Id,
+        [{ field: "permissionForm", from: null, to: null }],
+        { resignRequired: requireResign }
+      );
+    }
 
     return { success: true };
   } catch (error) {
@@ -434,3 +1343,81 @@ export async function uploadEventPermissionForm(
     return { success: false, error: "Failed to upload. Please try again." };
   }
 }
+
+const STAMP_FIELDS: SlipStampField[] = ["parentName", "studentName", "signature", "date", "payment"];
+
+/**
+ * Sets where e-signatures are stamped on an event's permission form, for it and any linked
+ * copies sharing the same form. Slips already signed on this form are re-stamped.
+ */
+export async function updatePermissionFormStampLayout(
+  auth0Id: string,
+  eventId: string,
+  layout: SlipStampLayout
+): Promise<{ success: true } | { success: false; error: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+
+  if (!eventId || !/^[a-f0-9]{24}$/i.test(eventId)) {
+    return { success: false, error: "Invalid event" };
+  }
+  const cleaned: SlipStampLayout = {};
+  for (const field of STAMP_FIELDS) {
+    const position = layout[field];
+    if (!position) continue;
+    const { page, x, y } = position;
+    if (!Number.isInteger(page) || page < 1 || page > 100) {
+      return { success: false, error: "Choose a page number for each field" };
+    }
+    if (![x, y].every((n) => typeof n === "number" && n >= 0 && n <= 100)) {
+      return { success: false, error: "Positions must be between 0% and 100% of the page" };
+    }
+    cleaned[field] = { page, x, y };
+  }
+
+  try {
+    const events = await calendarEventsCollection();
+    const classes = await classesCollection();
+
+    const event = await events.findOne({ _id: new ObjectId(eventId) });
+    if (!event) return { success: false, error: "Event not found" };
+    if (!event.permissionFormPdfBase64) {
+      return { success: false, error: "Upload a permission form first" };
+    }
+    const cls = event.classId
+      ? await classes.findOne({ _id: new ObjectId(event.classId) })
+      : null;
+    if (!cls?.teacherIds?.includes(auth0Id)) {
+      return { success: false, error: "You don't have access to this event" };
+    }
+
+    const update =
+      Object.keys(cleaned).length > 0
+        ? { $set: { permissionFormStampLayout: cleaned } }
+        : { $unset: { permissionFormStampLayout: "" as const } };
+    const sameForm = await events
+      .find(
+        event.linkGroupId
+          ? {
+              linkGroupId: event.linkGroupId,
+              permissionFormPdfBase64: event.permissionFormPdfBase64,
+            }
+          : { _id: event._id }
+      )
+      .toArray();
+    await events.updateMany({ _id: { $in: sameForm.map((e) => e._id!) } }, update);
+
+    for (const copy of sameForm) {
+      await restampSignedSlips({
+        ...copy,
+        permissionFormStampLayout: Object.keys(cleaned).length > 0 ? cleaned : undefined,
+      });
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("[updatePermissionFormStampLayout] Failed:", error);
+    return { success: false, error: "Failed to save. Please try again." };
+  }
+}
@@ -0,0 +1,345 @@
+import { randomBytes } from "crypto";
+import type { CalendarEvent } from "./db/types";
+import { usersCollection } from "./db/collections";
+import { isDbConfigured } from "./db";
+import { getInterviewDataForGuardian, getInterviewSlotsForTeacher } from "./interview-slots";
+import { getEventOccurrenceDates, getOccurrenceTimes } from "./recurrence";
+import { getSchoolTimeZones } from "./schools";
+import { resolveTimeZone, zonedLocalToDate } from "./timezone";
+
+const PRODID = "-//School Connect//Calendar Feed//EN";
+const UID_DOMAIN = "school-connect";
+
+function generateFeedToken(): string {
+  return randomBytes(24).toString("hex");
+}
+
+/**
+ * Builds the public subscription URL for a feed token.
+ * Uses APP_BASE_URL so the link works from external calendar apps.
+ */
+export function getCalendarFeedUrl(token: string): string {
+  const base = (process.env.APP_BASE_URL ?? "http://localhost:3000").replace(/\/$/, "");
+  return `${base}/api/calendar-feed/${token}`;
+}
+
+/**
+ * Returns the user's current feed token, or null if the feed is turned off.
+ */
+export async function getCalendarFeedToken(auth0Id: string): Promise<string | null> {
+  if (!isDbConfigured()) return null;
+
+  try {
+    const users = await usersCollection();
+    const user = await users.findOne({ auth0Id });
+    return user?.calendarFeedToken ?? null;
+  } catch (error) {
+    console.error("[getCalendarFeedToken] Failed:", error);
+    return null;
+  }
+}
+
+/**
+ * Turns the calendar feed on (or issues a new token, invalidating the old URL).
+ */
+export async function regenerateCalendarFeedToken(
+  auth0Id: string
+): Promise<{ success: true; token: string } | { success: false; error: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+
+  try {
+    const users = await usersCollection();
+    const token = generateFeedToken();
+    const result = await users.updateOne(
+      { auth0Id },
+      { $set: { calendarFeedToken: token, updatedAt: new Date() } }
+    );
+    if (result.matchedCount === 0) {
+      return { success: false, error: "User not found" };
+    }
+    return { success: true, token };
+  } catch (error) {
+    console.error("[regenerateCalendarFeedToken] Failed:", error);
+    return { success: false, error: "Failed to create calendar link" };
+  }
+}
+
+/**
+ * Turns the calendar feed off. Existing subscriptions stop updating.
+ */
+export async function revokeCalendarFeedToken(
+  auth0Id: string
+): Promise<{ success: boolean; error?: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+
+  try {
+    const users = await usersCollection();
+    await users.updateOne(
+      { auth0Id },
+      { $unset: { calendarFeedToken: "" }, $set: { updatedAt: new Date() } }
+    );
+    return { success: true };
+  } catch (error) {
+    console.error("[revokeCalendarFeedToken] Failed:", error);
+    return { success: false, error: "Failed to turn off calendar link" };
+  }
+}
+
+// --- iCalendar (RFC 5545) formatting ---
+
+interface FeedEntry {
+  uid: string;
+  summary: string;
+  description?: string;
+  /** All-day: start/end dates (YYYY-MM-DD, end inclusive) */
+  allDay?: { startDate: string; endDate: string };
+  /** Timed: local wall-clock (YYYY-MM-DDTHH:mm:ss) or UTC ISO string */
+  start?: string;
+  end?: string;
+  /** Cancelled events stay in the feed so subscribed calendars update instead of silently dropping them */
+  cancelled?: boolean;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/** Folds content lines longer than 75 octets (RFC 5545 section 3.1). */
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentLen = 0;
+  for (const char of line) {
+    const charLen = Buffer.byteLength(char, "utf8");
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentLen + charLen > limit) {
+      parts.push(current);
+      current = "";
+      currentLen = 0;
+    }
+    current += char;
+    currentLen += charLen;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function formatDate(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Formats a stored date-time. Strings with a Z or offset are converted to UTC;
+ * bare local strings (how calendar events are stored) stay floating.
+ */
+function formatDateTime(value: string): string {
+  if (/[zZ]$|[+-]\d{2}:?\d{2}$/.test(value)) {
+    return new Date(value).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+  }
+  const [date, time = "00:00:00"] = value.split("T");
+  const [h = "00", m = "00", s = "00"] = time.split(":");
+  return `${formatDate(date)}T${h}${m}${s.slice(0, 2)}`;
+}
+
+function isAllDayEvent(event: CalendarEvent): boolean {
+  return (
+    event.startAt.endsWith("T00:00:00") && event.endAt.endsWith("T23:59:59")
+  );
+}
+
+/**
+ * Expands a calendar event into feed entries, one per occurrence date for recurring events.
+ * Timed entries are pinned to UTC using the school's zone so they show at the right hour
+ * for subscribers anywhere.
+ */
+function eventToEntries(event: CalendarEvent, timeZone: string): FeedEntry[] {
+  const eventId = event._id?.toString() ?? "";
+  const toUtc = (local: string) => zonedLocalToDate(local, timeZone).toISOString();
+  const allDay = isAllDayEvent(event);
+  const base = {
+    summary:
+      event.status === "cancelled"
+        ? `Cancelled: ${event.title}`
+        : event.status === "postponed"
+          ? `Postponed: ${event.title}`
+          : event.title,
+    description: event.description,
+    cancelled: event.status === "cancelled",
+  };
+
+  const dates = getEventOccurrenceDates(event);
+  if (dates.length > 1) {
+    return dates.map((date) => {
+      const times = getOccurrenceTimes(event, date);
+      return {
+        ...base,
+        uid: `${eventId}-${date}@${UID_DOMAIN}`,
+        ...(allDay && times.startAt === `${date}T00:00:00`
+          ? { allDay: { startDate: date, endDate: date } }
+          : { start: toUtc(times.startAt), end: toUtc(times.endAt) }),
+      };
+    });
+  }
+
+  return [
+    {
+      ...base,
+      uid: `${eventId}@${UID_DOMAIN}`,
+      ...(allDay
+        ? {
+            allDay: {
+              startDate: event.startAt.slice(0, 10),
+              endDate: event.endAt.slice(0, 10),
+            },
+          }
+        : { start: toUtc(event.startAt), end: toUtc(event.endAt) }),
+    },
+  ];
+}
+
+function renderCalendar(name: string, entries: FeedEntry[]): string {
+  const stamp = formatDateTime(new Date().toISOString());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  for (const entry of entries) {
+    lines.push("BEGIN:VEVENT", `UID:${entry.uid}`, `DTSTAMP:${stamp}`);
+    if (entry.allDay) {
+      lines.push(
+        `DTSTART;VALUE=DATE:${formatDate(entry.allDay.startDate)}`,
+        // DTEND is exclusive for all-day events
+        `DTEND;VALUE=DATE:${formatDate(addDays(entry.allDay.endDate, 1))}`
+      );
+    } else if (entry.start && entry.end) {
+      lines.push(
+        `DTSTART:${formatDateTime(entry.start)}`,
+        `DTEND:${formatDateTime(entry.end)}`
+      );
+    }
+    lines.push(`SUMMARY:${escapeText(entry.summary)}`);
+    if (entry.cancelled) lines.push("STATUS:CANCELLED");
+    if (entry.description) {
+      lines.push(`DESCRIPTION:${escapeText(entry.description)}`);
+    }
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+async function getParentInterviewEntries(auth0Id: string): Promise<FeedEntry[]> {
+  const interviewData = await getInterviewDataForGuardian(auth0Id);
+  const entries: FeedEntry[] = [];
+  for (const cls of interviewData) {
+    for (const child of cls.children) {
+      if (!child.claimedSlotId) continue;
+      const slot = cls.slots.find((s) => s.id === child.claimedSlotId);
+      if (!slot) continue;
+      const teacher = cls.teacherName ? ` with ${cls.teacherName}` : "";
+      entries.push({
+        uid: `interview-${slot.id}@${UID_DOMAIN}`,
+        summary: `Interview: ${child.name}${teacher}`,
+        description: `${cls.className} - ${cls.schoolName}`,
+        start: slot.startAt,
+        end: slot.endAt,
+      });
+    }
+  }
+  return entries;
+}
+
+async function getTeacherInterviewEntries(auth0Id: string): Promise<FeedEntry[]> {
+  const slotsByClass = await getInterviewSlotsForTeacher(auth0Id);
+  return slotsByClass.flatMap((cls) =>
+    cls.slots
+      .filter((slot) => slot.isClaimed)
+      .map((slot) => ({
+        uid: `interview-${slot.id}@${UID_DOMAIN}`,
+        summary: `Interview: ${slot.studentName ?? "Student"}${
+          slot.guardianName ? ` (${slot.guardianName})` : ""
+        }`,
+        description: cls.className,
+        start: slot.startAt,
+        end: slot.endAt,
+      }))
+  );
+}
+
+/**
+ * Builds the iCalendar feed for the user that owns the token.
+ * Parents get their classes' events and their booked interviews;
+ * teachers get their classes' events and all booked interview slots.
+ */
+export async function buildCalendarFeed(
+  token: string
+): Promise<{ success: true; ics: string } | { success: false; error: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+  if (!/^[a-f0-9]{48}$/i.test(token)) {
+    return { success: false, error: "Calendar not found" };
+  }
+
+  // Dashboards import this module for the feed URL; load them lazily to avoid a cycle
+  const { getParentUpcomingEvents } = await import("./parent-dashboard");
+  const { getTeacherUpcomingEvents } = await import("./teacher-dashboard");
+
+  try {
+    const users = await usersCollection();
+    const user = await users.findOne({ calendarFeedToken: token });
+    if (!user) return { success: false, error: "Calendar not found" };
+
+    let events: CalendarEvent[];
+    let interviews: FeedEntry[];
+    if (user.role === "teacher") {
+      [events, interviews] = await Promise.all([
+        getTeacherUpcomingEvents(user.auth0Id),
+        getTeacherInterviewEntries(user.auth0Id),
+      ]);
+    } else if (user.role === "parent") {
+      [events, interviews] = await Promise.all([
+        getParentUpcomingEvents(user.auth0Id),
+        getParentInterviewEntries(user.auth0Id),
+      ]);
+    } else {
+      events = [];
+      interviews = [];
+    }
+
+    const timeZones = await getSchoolTimeZones(events.map((e) => e.schoolId));
+    const entries = [
+      ...events.flatMap((e) =>
+        eventToEntries(e, timeZones.get(e.schoolId) ?? resolveTimeZone(null))
+      ),
+      ...interviews,
+    ];
+    return { success: true, ics: renderCalendar("School Connect", entries) };
+  } catch (error) {
+    console.error("[buildCalendarFeed] Failed:", error);
+    return { success: false, error: "Failed to build calendar" };
+  }
+}
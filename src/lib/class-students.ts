@@ -7,6 +7,8 @@ import {
   eventPermissionSlipsCollection,
 } from "./db/collections";
 import { isDbConfigured } from "./db";
+import { getSchoolTimeZone, upcomingEventsFilter } from "./schools";
+import { isEventForStudent } from "./calendar-events";
 
 export interface ClassStudentWithGuardian {
   id: string;
@@ -148,25 +150,20 @@ export async function linkGuardianToStudent(
     );
 
     // Create permission slips for existing events that require them
-    const now = new Date().toISOString();
-    const today = now.slice(0, 10); // YYYY-MM-DD for occurrenceDates comparison
+    const timeZone = await getSchoolTimeZone(cls.schoolId);
     const events = await calendarEventsCollection();
     const slips = await eventPermissionSlipsCollection();
 
     const relevantEvents = await events
       .find({
         classId,
-        $or: [
-          { startAt: { $gte: now } },
-          { startAt: { $lt: now }, endAt: { $gte: now } },
-          { occurrenceDates: { $elemMatch: { $gte: today } } },
-        ],
+        ...upcomingEventsFilter(new Map([[cls.schoolId, timeZone]])),
       })
       .toArray();
 
     for (const event of relevantEvents) {
       const eventId = event._id?.toString();
-      if (!eventId) continue;
+      if (!eventId || !isEventForStudent(event, studentId)) continue;
 
       const existing = await slips.findOne({
         eventId,
@@ -0,0 +1,45 @@
+import type { SchoolClosure, SchoolClosureKind } from "./db/types";
+import { addDaysToDate } from "./timezone";
+
+/** Longest closure that can be entered in one go (e.g. winter break) */
+export const MAX_CLOSURE_DAYS = 60;
+
+export const CLOSURE_KIND_LABELS: Record<SchoolClosureKind, string> = {
+  holiday: "Holiday",
+  pd_day: "PD day",
+  snow_day: "Snow day",
+  other: "School closed",
+};
+
+type ClosureRange = Pick<SchoolClosure, "startDate" | "endDate">;
+
+/** Every date (YYYY-MM-DD) the closures cover */
+export function expandClosureDates(closures: ClosureRange[]): string[] {
+  const dates = new Set<string>();
+  for (const closure of closures) {
+    let date = closure.startDate;
+    for (let i = 0; i < MAX_CLOSURE_DAYS && date <= closure.endDate; i++) {
+      dates.add(date);
+      date = addDaysToDate(date, 1);
+    }
+  }
+  return [...dates].sort();
+}
+
+/** The closure covering a date, if the school is closed that day */
+export function findClosureOn<T extends ClosureRange>(closures: T[], date: string): T | undefined {
+  return closures.find((c) => c.startDate <= date && date <= c.endDate);
+}
+
+/** e.g. "Mon, Oct 12" or "Mon, Dec 21 – Fri, Jan 1" */
+export function formatClosureDates(closure: ClosureRange): string {
+  const format = (date: string) =>
+    new Date(`${date}T12:00:00`).toLocaleDateString("en-US", {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+    });
+  return closure.startDate === closure.endDate
+    ? format(closure.startDate)
+    : `${format(closure.startDate)} – ${format(closure.endDate)}`;
+}
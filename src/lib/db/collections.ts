@@ -2,15 +2,23 @@ import type { Collection } from "mongodb";
 import {
   type User,
   type School,
+  type SchoolClosure,
+  type UrgentBroadcast,
   type Student,
   type Class,
   type Conversation,
   type Message,
   type CalendarEvent,
   type EventPermissionSlip,
+  type EventRevision,
+  type VolunteerSignup,
+  type EventTemplate,
   type ReportCard,
   type PermissionForm,
   type Signature,
+  type PaymentIntent,
+  type LedgerEntry,
+  type FeeWaiver,
   type InterviewSlot,
 } from "./types";
 import { getDb } from "../db";
@@ -25,6 +33,18 @@ export function schoolsCollection(): Promise<Collection<School>> {
   return getDb(DB_NAME).then((db) => db.collection<School>("schools"));
 }
 
+export function schoolClosuresCollection(): Promise<Collection<SchoolClosure>> {
+  return getDb(DB_NAME).then((db) =>
+    db.collection<SchoolClosure>("school_closures")
+  );
+}
+
+export function urgentBroadcastsCollection(): Promise<Collection<UrgentBroadcast>> {
+  return getDb(DB_NAME).then((db) =>
+    db.collection<UrgentBroadcast>("urgent_broadcasts")
+  );
+}
+
 export function studentsCollection(): Promise<Collection<Student>> {
   return getDb(DB_NAME).then((db) => db.collection<Student>("students"));
 }
@@ -59,6 +79,28 @@ export function eventPermissionSlipsCollection(): Promise<
   );
 }
 
+export function eventRevisionsCollection(): Promise<
+  Collection<EventRevision>
+> {
+  return getDb(DB_NAME).then((db) =>
+    db.collection<EventRevision>("event_revisions")
+  );
+}
+
+export function volunteerSignupsCollection(): Promise<
+  Collection<VolunteerSignup>
+> {
+  return getDb(DB_NAME).then((db) =>
+    db.collection<VolunteerSignup>("volunteer_signups")
+  );
+}
+
+export function eventTemplatesCollection(): Promise<Collection<EventTemplate>> {
+  return getDb(DB_NAME).then((db) =>
+    db.collection<EventTemplate>("event_templates")
+  );
+}
+
 export function reportCardsCollection(): Promise<Collection<ReportCard>> {
   return getDb(DB_NAME).then((db) =>
     db.collection<ReportCard>("report_cards")
@@ -79,6 +121,24 @@ export function signaturesCollection(): Promise<Collection<Signature>> {
   );
 }
 
+export function paymentIntentsCollection(): Promise<Collection<PaymentIntent>> {
+  return getDb(DB_NAME).then((db) =>
+    db.collection<PaymentIntent>("payment_intents")
+  );
+}
+
+export function ledgerEntriesCollection(): Promise<Collection<LedgerEntry>> {
+  return getDb(DB_NAME).then((db) =>
+    db.collection<LedgerEntry>("ledger_entries")
+  );
+}
+
+export function feeWaiversCollection(): Promise<Collection<FeeWaiver>> {
+  return getDb(DB_NAME).then((db) =>
+    db.collection<FeeWaiver>("fee_waivers")
+  );
+}
+
 export function interviewSlotsCollection(): Promise<
   Collection<InterviewSlot>
 > {
@@ -23,6 +23,83 @@ export async function ensureIndexes(): Promise<void> {
     { eventId: 1 },
     { name: "event_slips" }
   );
+  // Overdue slips passed on to school admins
+  await db.collection("event_permission_slips").createIndex(
+    { overdueFlaggedAt: 1 },
+    { name: "overdue_flagged_slips", sparse: true }
+  );
+
+  // Payment intents: webhook lookup by the provider's ID, and a slip's checkout attempts
+  await db.collection("payment_intents").createIndex(
+    { provider: 1, providerPaymentId: 1 },
+    { unique: true, name: "payment_intents_provider_id" }
+  );
+  await db.collection("payment_intents").createIndex(
+    { slipId: 1, createdAt: -1 },
+    { name: "payment_intents_by_slip" }
+  );
+
+  // Ledger entries: a family's account per student, and a class's outstanding balances
+  await db.collection("ledger_entries").createIndex(
+    { studentId: 1, createdAt: 1 },
+    { name: "ledger_entries_student" }
+  );
+  await db.collection("ledger_entries").createIndex(
+    { classId: 1 },
+    { name: "ledger_entries_class" }
+  );
+
+  // Fee waivers: a student's requests per event, and each class's and school's queue
+  await db.collection("fee_waivers").createIndex(
+    { studentId: 1, eventId: 1 },
+    { name: "fee_waivers_student_event" }
+  );
+  await db.collection("fee_waivers").createIndex(
+    { classId: 1, status: 1 },
+    { name: "fee_waivers_class" }
+  );
+  await db.collection("fee_waivers").createIndex(
+    { schoolId: 1, status: 1 },
+    { name: "fee_waivers_school" }
+  );
+
+  // Event revisions: edit history per event, newest first
+  await db.collection("event_revisions").createIndex(
+    { eventId: 1, changedAt: -1 },
+    { name: "event_revisions" }
+  );
+
+  // Volunteer signups: one per guardian per role
+  await db.collection("volunteer_signups").createIndex(
+    { eventId: 1, roleId: 1, guardianId: 1 },
+    { unique: true, name: "volunteer_signups_unique" }
+  );
+
+  // Event templates: a teacher's own, and those shared with their school
+  await db.collection("event_templates").createIndex(
+    { ownerId: 1, name: 1 },
+    { name: "event_templates_owner" }
+  );
+  await db.collection("event_templates").createIndex(
+    { schoolId: 1, scope: 1 },
+    { name: "event_templates_school" }
+  );
+
+  // School closures: a school's non-school days in date order
+  await db.collection("school_closures").createIndex(
+    { schoolId: 1, startDate: 1 },
+    { name: "school_closures_by_date" }
+  );
+
+  // Urgent broadcasts: a school's sent list, and each family's pinned ones
+  await db.collection("urgent_broadcasts").createIndex(
+    { schoolId: 1, sentAt: -1 },
+    { name: "urgent_broadcasts_by_school" }
+  );
+  await db.collection("urgent_broadcasts").createIndex(
+    { recipientIds: 1, sentAt: -1 },
+    { name: "urgent_broadcasts_by_recipient" }
+  );
 
   // Calendar events: classId + startAt, schoolId + startAt
   await db.collection("calendar_events").createIndex(
@@ -33,6 +110,16 @@ export async function ensureIndexes(): Promise<void> {
     { schoolId: 1, startAt: 1 },
     { name: "school_start" }
   );
+  // Calendar events: admin approval queue per school
+  await db.collection("calendar_events").createIndex(
+    { schoolId: 1, approvalStatus: 1 },
+    { name: "event_approval_queue", sparse: true }
+  );
+  // Calendar events: copies published together to several classes
+  await db.collection("calendar_events").createIndex(
+    { linkGroupId: 1 },
+    { name: "event_link_group", sparse: true }
+  );
 
   // Users: auth0Id unique index (already used for upsert)
   await db.collection("users").createIndex(
@@ -43,6 +130,11 @@ export async function ensureIndexes(): Promise<void> {
     { schoolId: 1 },
     { name: "school_users", sparse: true }
   );
+  // Users: calendar feed token lookup (sparse - most users never enable the feed)
+  await db.collection("users").createIndex(
+    { calendarFeedToken: 1 },
+    { unique: true, sparse: true, name: "calendar_feed_token_unique" }
+  );
 
   // Students: schoolId for listing students by school
   await db.collection("students").createIndex(
@@ -90,6 +182,10 @@ export async function ensureIndexes(): Promise<void> {
     { dueAt: 1, status: 1 },
     { name: "due_status" }
   );
+  await db.collection("permission_forms").createIndex(
+    { eventId: 1, studentId: 1 },
+    { name: "event_student_forms", sparse: true }
+  );
 
   // Signatures: formId, studentId (one signature per form per student)
   await db.collection("signatures").createIndex(
@@ -17,6 +17,8 @@ export interface User {
   email: string | null;
   picture?: string | null;
   schoolId?: string | null;
+  /** Secret token for the private iCalendar feed URL. Null/absent when the feed is turned off. */
+  calendarFeedToken?: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -25,9 +27,55 @@ export interface User {
 export interface School {
   _id?: ObjectId;
   name: string;
+  /** IANA time zone (e.g. America/Toronto). Event times and due dates are local to it */
+  timezone?: string;
   createdAt: Date;
 }
 
+/** Why the school is closed. Recurring events skip these days */
+export type SchoolClosureKind = "holiday" | "pd_day" | "snow_day" | "other";
+
+/** Days with no school (e.g. Thanksgiving, a PD day, a snow day). Dates are the school's local calendar */
+export interface SchoolClosure {
+  _id?: ObjectId;
+  schoolId: string;
+  name: string;
+  kind: SchoolClosureKind;
+  /** First day closed (YYYY-MM-DD) */
+  startDate: string;
+  /** Last day closed (YYYY-MM-DD), inclusive; same as startDate for a single day */
+  endDate: string;
+  /** auth0Id of the teacher or admin who added it */
+  createdBy: string;
+  createdAt: Date;
+}
+
+export type UrgentBroadcastKind = "closure" | "lockdown" | "other";
+
+export interface BroadcastAcknowledgement {
+  guardianId: string;
+  acknowledgedAt: Date;
+}
+
+/** School-wide urgent message; pinned on each family's dashboard until they acknowledge it */
+export interface UrgentBroadcast {
+  _id?: ObjectId;
+  schoolId: string;
+  kind: UrgentBroadcastKind;
+  title: string;
+  message: string;
+  /** auth0Id of the teacher or admin who sent it */
+  sentBy: string;
+  sentAt: Date;
+  /** Every guardian in the school's classes when it was sent */
+  recipientIds: string[];
+  acknowledgements: BroadcastAcknowledgement[];
+  /** School-local date (YYYY-MM-DD) whose events were cancelled with it */
+  cancelledDate?: string;
+  /** One-off events cancelled that day (repeating ones skip it as a closure) */
+  cancelledEventCount?: number;
+}
+
 // --- Students ---
 export interface Student {
   _id?: ObjectId;
@@ -51,9 +99,18 @@ export interface Class {
   /** Auth0 user ids of parents who joined via the class code */
   guardianIds?: string[];
   term: string;
+  /** Teams, clubs and other groups of students within the class */
+  groups?: StudentGroup[];
   createdAt?: Date;
 }
 
+/** A named subset of a class's students that events can be aimed at */
+export interface StudentGroup {
+  id: string;
+  name: string;
+  studentIds: string[];
+}
+
 // --- Conversations (one thread per parent↔teacher, optionally per student) ---
 export interface Conversation {
   _id?: ObjectId;
@@ -83,6 +140,73 @@ export interface Message {
 // --- Calendar events ---
 export type CalendarEventVisibility = "class" | "school" | "private";
 
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly";
+
+/** RRULE-style repeat rule. Dates are YYYY-MM-DD in the school's local calendar. */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  /** Repeat every N days/weeks/months (1 = every) */
+  interval: number;
+  /** Weekly: days of the week (0 = Sunday … 6 = Saturday). Defaults to startDate's weekday. */
+  byWeekday?: number[];
+  /** First date of the series */
+  startDate: string;
+  /** Last date (inclusive). One of until or count is required. */
+  until?: string;
+  /** Number of occurrences generated by the rule (before exceptions) */
+  count?: number;
+}
+
+/** One-off change to a single occurrence of a recurring event */
+export interface RecurrenceOverride {
+  /** Occurrence date produced by the rule */
+  date: string;
+  /** Move this occurrence to another date */
+  newDate?: string;
+  /** Different times for this occurrence only (HH:mm) */
+  startTime?: string;
+  endTime?: string;
+}
+
+/** Unset means scheduled. Cancelled/postponed events keep their slips and payments. */
+export type CalendarEventStatus = "scheduled" | "cancelled" | "postponed";
+
+export type EventScheduleChangeType =
+  | "cancelled"
+  | "postponed"
+  | "rescheduled"
+  | "reinstated";
+
+/** One entry in an event's change log (cancel, postpone, move to a new date, reinstate) */
+export interface EventScheduleChange {
+  type: EventScheduleChangeType;
+  changedAt: Date;
+  /** Teacher auth0Id */
+  changedBy: string;
+  reason?: string;
+  /** rescheduled: previous and new start/end */
+  fromStartAt?: string;
+  fromEndAt?: string;
+  toStartAt?: string;
+  toEndAt?: string;
+}
+
+/** Principal sign-off for trips and paid events at schools that have an admin */
+export type EventApprovalStatus = "pending" | "approved" | "rejected";
+
+export type SlipStampField = "parentName" | "studentName" | "signature" | "date" | "payment";
+
+/** Top-left corner of a stamped item, as percentages of the page from its top-left */
+export interface SlipStampPosition {
+  /** 1-based page number */
+  page: number;
+  x: number;
+  y: number;
+}
+
+/** Items without a position aren't stamped */
+export type SlipStampLayout = Partial<Record<SlipStampField, SlipStampPosition>>;
+
 export interface CalendarEvent {
   _id?: ObjectId;
   schoolId: string;
@@ -96,19 +220,59 @@ export interface CalendarEvent {
   requiresPermissionSlip?: boolean;
   /** Cost in dollars (e.g. 10.50). When set with requiresPermissionSlip, parents must choose payment method. */
   cost?: number;
-  /** Recurring: multiple occurrence dates. Each date uses the same start/end time. */
+  /** Recurring: multiple occurrence dates. Each date uses the same start/end time.
+   * When recurrence is set, this is the expanded list (rule minus exceptions, plus overrides) so date queries keep working. */
   occurrenceDates?: string[];
+  /** Recurring: repeat rule (e.g. weekly on Thursdays until June). occurrenceDates is generated from it. */
+  recurrence?: RecurrenceRule;
+  /** Recurring: occurrence dates (YYYY-MM-DD) skipped from the rule */
+  recurrenceExceptions?: string[];
+  /** Recurring: one-off changes to single occurrences (moved date or different times) */
+  recurrenceOverrides?: RecurrenceOverride[];
+  /** Recurring: rule dates skipped because the school is closed. Kept in sync with school closures */
+  closureDates?: string[];
   /** Recurring: cost per occurrence (e.g. $5 per pizza day). Total = costPerOccurrence × occurrenceDates.length */
   costPerOccurrence?: number;
   /** Teacher-uploaded permission form PDF (base64). Required for parents to download and sign. */
   permissionFormPdfBase64?: string;
+  /** Where e-signatures are stamped onto the form. Unset = a signature page is added at the end */
+  permissionFormStampLayout?: SlipStampLayout;
+  /** Questions parents answer when completing the slip (emergency phone, allergies, ...) */
+  permissionFormFields?: PermissionFormField[];
   /** Due date for form and payment (YYYY-MM-DD). When set, parents must submit by this date. */
   permissionSlipDueDate?: string;
+  /** Maximum number of students. Submissions past this go on the waitlist. Unset = unlimited */
+  capacity?: number;
+  /** Bumped each time a family takes a spot, so two claims on the last spot can't both stand */
+  spotClaims?: number;
+  /** Parent helpers the teacher is asking for (e.g. 2 chaperones, 1 driver) */
+  volunteerRoles?: EventVolunteerRole[];
+  /** Reminders to families who haven't signed or paid, and whether the admin is told when it's overdue */
+  slipEscalation?: SlipEscalation;
+  status?: CalendarEventStatus;
+  /** Reason shown to parents for the latest cancellation/postponement/reschedule */
+  statusReason?: string;
+  /** Change log, oldest first */
+  scheduleChanges?: EventScheduleChange[];
+  /** Shared by copies of one event published to several classes. Each copy has its own slips */
+  linkGroupId?: string;
+  /** Only these students (and their parents) are included. Unset = the whole class */
+  targetStudentIds?: string[];
+  /** Group the targeted students were picked from, for display */
+  targetGroupId?: string;
+  /** Unset = no approval needed. Pending/rejected events are hidden from parents and have no slips */
+  approvalStatus?: EventApprovalStatus;
+  submittedForApprovalAt?: Date;
+  /** Admin's note to the teacher (required when rejecting) */
+  approvalComment?: string;
+  approvalDecidedBy?: string;
+  approvalDecidedAt?: Date;
   createdAt?: Date;
 }
 
 // --- Event permission slips (simple sign-off per parent per event per student) ---
-export type EventPermissionSlipStatus = "pending" | "signed";
+/** waitlisted = parent submitted but the event was full; promoted to signed when a spot opens */
+export type EventPermissionSlipStatus = "pending" | "signed" | "waitlisted";
 
 export type PaymentMethod = "online" | "cash";
 
@@ -125,10 +289,150 @@ export interface EventPermissionSlip {
   readAt?: Date;
   /** Base64-encoded signed PDF uploaded by parent */
   signedPdfBase64?: string;
+  /** Signature record when the parent signed in the browser instead of uploading a PDF */
+  signatureId?: string;
+  /** Parent's answers to the event's permission form fields */
+  formResponses?: PermissionFormResponses;
   /** How parent will pay when event has a cost */
   paymentMethod?: PaymentMethod;
   /** When teacher marks cash as received (for paymentMethod=cash) */
   cashReceivedAt?: Date;
+  /** paymentMethod=online: when the payment provider confirmed the payment */
+  paidAt?: Date;
+  /** Dollars confirmed by the provider */
+  amountPaid?: number;
+  /** The payment intent that paid for this slip */
+  paymentIntentId?: string;
+  /** Recurring events with costPerOccurrence: dates the parent opted into (YYYY-MM-DD). Unset = all dates */
+  selectedOccurrenceDates?: string[];
+  /** Cancelled event: when the teacher marked the refund as given back */
+  refundIssuedAt?: Date;
+  /** When the slip joined the waitlist. The waitlist is ordered by this */
+  waitlistedAt?: Date;
+  /** When a spot opened up and the slip moved off the waitlist */
+  promotedFromWaitlistAt?: Date;
+  /** Form replaced after this slip was signed: pending again, but the student keeps their spot */
+  resignRequestedAt?: Date;
+  /** Set when the teacher changes the date, cost, due date or form after this slip was created */
+  changeNotice?: EventChangeNotice;
+  /** Reminders sent while the slip was outstanding, oldest first */
+  reminders?: SlipReminder[];
+  /** Still outstanding after the due date and passed on to the school admin */
+  overdueFlaggedAt?: Date;
+  createdAt: Date;
+}
+
+export interface SlipEscalation {
+  /** Remind families this many days before the due date */
+  remindDaysBefore?: number;
+  /** Remind families on the due date itself */
+  remindOnDueDate?: boolean;
+  /** Once the due date has passed, list outstanding slips for the school admin */
+  flagToAdmin?: boolean;
+}
+
+/** "manual" is the teacher pressing "Send reminder"; the others are sent by the daily job */
+export type SlipReminderKind = "before_due" | "due_date" | "manual";
+
+export interface SlipReminder {
+  kind: SlipReminderKind;
+  sentAt: Date;
+  /** When the parent opened the inbox item after the reminder */
+  readAt?: Date;
+}
+
+/** What changed on an event, shown to the parent until they open the inbox item */
+export interface EventChangeNotice {
+  revisionId: string;
+  /** Human-readable lines, e.g. "Cost: $10.00 → $12.00" */
+  summary: string[];
+  changedAt: Date;
+  /** The form PDF was replaced and the parent must sign again */
+  resignRequired?: boolean;
+  /** When the parent opened the item after the change */
+  readAt?: Date;
+}
+
+// --- Event revisions (edit history) ---
+export type EventRevisionField =
+  | "title"
+  | "description"
+  | "startAt"
+  | "endAt"
+  | "occurrenceDates"
+  | "cost"
+  | "costPerOccurrence"
+  | "permissionSlipDueDate"
+  | "requiresPermissionSlip"
+  | "capacity"
+  | "permissionForm";
+
+export interface EventFieldChange {
+  field: EventRevisionField;
+  /** Display values (already formatted) */
+  from: string | null;
+  to: string | null;
+}
+
+export interface EventRevision {
+  _id?: ObjectId;
+  eventId: string;
+  /** Teacher auth0Id */
+  changedBy: string;
+  changedAt: Date;
+  changes: EventFieldChange[];
+  /** True when any change affects parents (date, cost, due date, form) */
+  material: boolean;
+  /** Form PDF replaced and signed slips were reset for re-signature */
+  resignRequired?: boolean;
+}
+
+// --- Event volunteers (one doc per guardian per role) ---
+export interface EventVolunteerRole {
+  /** Stable id so signups survive renaming the role */
+  id: string;
+  name: string;
+  /** How many volunteers the teacher needs */
+  needed: number;
+}
+
+export interface VolunteerSignup {
+  _id?: ObjectId;
+  eventId: string;
+  roleId: string;
+  guardianId: string;
+  createdAt: Date;
+}
+
+// --- Event templates ---
+/** Who can use a template: only the teacher who saved it, or every teacher at the school */
+export type EventTemplateScope = "teacher" | "school";
+
+/** A saved event setup reused with new dates (e.g. Pizza Day every year) */
+export interface EventTemplate {
+  _id?: ObjectId;
+  name: string;
+  scope: EventTemplateScope;
+  /** auth0Id of the teacher who saved it */
+  ownerId: string;
+  schoolId: string;
+  title: string;
+  description?: string;
+  /** Time of day (HH:mm); unset for all-day events */
+  startTime?: string;
+  endTime?: string;
+  /** Days from the first to the last day (0 = one-day event) */
+  durationDays: number;
+  requiresPermissionSlip?: boolean;
+  cost?: number;
+  /** Days before the event that form and payment are due (unset = due on the event day) */
+  dueDateOffsetDays?: number;
+  capacity?: number;
+  /** Role names and counts; ids are issued when an event is made from the template */
+  volunteerRoles?: { name: string; needed: number }[];
+  permissionFormPdfBase64?: string;
+  /** Form questions; keys are issued when an event is made from the template */
+  permissionFormFields?: Omit<PermissionFormField, "key">[];
   createdAt: Date;
 }
 
@@ -148,19 +452,29 @@ export interface ReportCard {
 }
 
 // --- Permission forms ---
+export type PermissionFormFieldType = "text" | "checkbox" | "choice";
+
 export interface PermissionFormField {
+  /** Stable across edits so answers stay attached when a label is reworded */
   key: string;
   label: string;
-  type: string;
+  type: PermissionFormFieldType;
   required?: boolean;
+  /** Choice fields: the options parents pick from */
+  options?: string[];
 }
 
+/** Answers by field key: text and choice fields hold a string, checkboxes a boolean */
+export type PermissionFormResponses = Record<string, string | boolean>;
+
 export type PermissionFormStatus = "sent" | "signed" | "overdue";
 
 export interface PermissionForm {
   _id?: ObjectId;
   schoolId: string;
   classId: string;
+  /** Event whose permission slip this form is; a new form is opened each time the slip is re-signed */
+  eventId?: string;
   studentId: string;
   title: string;
   bodyText: string;
@@ -177,6 +491,8 @@ export interface FormSnapshot {
   bodyText: string;
   fields?: PermissionFormField[];
   values?: Record<string, unknown>;
+  /** SHA-256 of the teacher's PDF form the parent reviewed */
+  formPdfSha256?: string;
 }
 
 export interface Signature {
@@ -191,6 +507,88 @@ export interface Signature {
   formSnapshot: FormSnapshot;
 }
 
+// --- Online payments (one intent per checkout attempt) ---
+export type PaymentIntentStatus = "pending" | "succeeded" | "failed" | "cancelled";
+
+export interface PaymentIntent {
+  _id?: ObjectId;
+  slipId: string;
+  eventId: string;
+  guardianId: string;
+  /** Which payment provider handled the checkout, e.g. "fake" */
+  provider: string;
+  /** The provider's own ID for the checkout; webhooks refer to it */
+  providerPaymentId: string;
+  /** Charged amount in cents, to avoid rounding in the provider's API */
+  amountCents: number;
+  currency: string;
+  status: PaymentIntentStatus;
+  checkoutUrl: string;
+  createdAt: Date;
+  updatedAt: Date;
+  paidAt?: Date;
+  /** Shown on the receipt, e.g. "R-2026-4F1A9C" */
+  receiptNumber?: string;
+  /** Provider's reason when the payment failed */
+  failureReason?: string;
+}
+
+// --- Family ledger (money a teacher records by hand; event charges come from signed slips) ---
+/** charge and refund add to what the family owes; payment and credit take it off */
+export type LedgerEntryKind = "charge" | "payment" | "credit" | "refund";
+
+export type LedgerPaymentMethod = "cash" | "cheque" | "online" | "other";
+
+export interface LedgerEntry {
+  _id?: ObjectId;
+  classId: string;
+  studentId: string;
+  /** The event this is for. Unset = the family's account as a whole */
+  eventId?: string;
+  kind: LedgerEntryKind;
+  /** Dollars, always positive; kind decides which way it moves the balance */
+  amount: number;
+  /** payment/refund: how the money changed hands */
+  method?: LedgerPaymentMethod;
+  note?: string;
+  /** Teacher auth0Id */
+  recordedBy: string;
+  createdAt: Date;
+  /** Entered by mistake: kept for the record but no longer counted */
+  voidedAt?: Date;
+  voidedBy?: string;
+}
+
+// --- Fee waivers (private requests for help with an event's cost) ---
+export type FeeWaiverStatus = "pending" | "approved" | "denied";
+
+/**
+ * Only the requesting parent, the class's teachers and the school admin may see these.
+ * Keep them out of anything other families or non-confidential exports can reach.
+ */
+export interface FeeWaiver {
+  _id?: ObjectId;
+  eventId: string;
+  classId: string;
+  schoolId: string;
+  studentId: string;
+  /** Parent who asked */
+  guardianId: string;
+  /** Dollars the family asked to have taken off */
+  requestedAmount: number;
+  /** Parent's private note to whoever decides */
+  message?: string;
+  status: FeeWaiverStatus;
+  /** Dollars taken off what the family owes, once approved */
+  approvedAmount?: number;
+  /** Teacher or admin auth0Id */
+  decidedBy?: string;
+  decidedAt?: Date;
+  /** Shown to the parent with the decision */
+  decisionNote?: string;
+  createdAt: Date;
+}
+
 // --- Interview slots ---
 export interface InterviewSlot {
   _id?: ObjectId;
@@ -0,0 +1,279 @@
+import { ObjectId } from "mongodb";
+import {
+  calendarEventsCollection,
+  classesCollection,
+  schoolsCollection,
+  usersCollection,
+} from "./db/collections";
+import type { CalendarEvent, EventApprovalStatus } from "./db/types";
+import { isDbConfigured } from "./db";
+import { createPendingSlips, getEventEffectiveCost } from "./calendar-events";
+import { getEventOccurrenceDates } from "./recurrence";
+import { resolveTimeZone } from "./timezone";
+import { getSchoolClosures, type SchoolClosureSerialized } from "./school-closures";
+import { getSchoolBroadcasts, type UrgentBroadcastSummarySerialized } from "./urgent-broadcasts";
+import { getOverdueSlipsForSchool, type OverdueSlipSerialized } from "./slip-escalations";
+import { getFeeWaiversForSchool, type FeeWaiverSerialized } from "./fee-waivers";
+
+/** One event (or one set of linked copies) in the principal's approval queue */
+export interface ApprovalEventSerialized {
+  id: string;
+  title: string;
+  description?: string;
+  startAt: string;
+  endAt: string;
+  occurrenceCount: number;
+  cost?: number;
+  requiresPermissionSlip: boolean;
+  hasPermissionForm: boolean;
+  permissionSlipDueDate?: string;
+  capacity?: number;
+  /** The class, plus any other classes the event was published to */
+  classNames: string[];
+  teacherNames: string[];
+  /** Students included across all classes */
+  studentCount: number;
+  approvalStatus: EventApprovalStatus;
+  approvalComment?: string;
+  submittedAt?: string;
+  decidedAt?: string;
+}
+
+export interface AdminDashboardData {
+  schoolId: string | null;
+  schoolName: string | null;
+  timeZone: string;
+  pending: ApprovalEventSerialized[];
+  recentlyDecided: ApprovalEventSerialized[];
+  closures: SchoolClosureSerialized[];
+  broadcasts: UrgentBroadcastSummarySerialized[];
+  /** Slips teachers asked to flag once they were overdue */
+  overdueSlips: OverdueSlipSerialized[];
+  /** Families' private requests for help with costs, pending first */
+  feeWaivers: FeeWaiverSerialized[];
+}
+
+const RECENT_DECISIONS_LIMIT = 20;
+
+/** School the admin approves events for, or null if the user isn't an admin of one */
+async function getAdminSchoolId(auth0Id: string): Promise<string | null> {
+  const users = await usersCollection();
+  const user = await users.findOne({ auth0Id });
+  return user?.role === "admin" && user.schoolId ? user.schoolId : null;
+}
+
+/**
+ * Serializes events for the queue. Linked copies are shown once, with every class listed.
+ */
+async function serializeForQueue(
+  events: CalendarEvent[],
+  schoolId: string
+): Promise<ApprovalEventSerialized[]> {
+  const calendarEvents = await calendarEventsCollection();
+  const linkGroupIds = [
+    ...new Set(events.flatMap((e) => (e.linkGroupId ? [e.linkGroupId] : []))),
+  ];
+  const linkedCopies = linkGroupIds.length
+    ? await calendarEvents
+        .find(
+          { linkGroupId: { $in: linkGroupIds } },
+          { projection: { linkGroupId: 1, classId: 1, targetStudentIds: 1 } }
+        )
+        .toArray()
+    : [];
+
+  const classes = await classesCollection();
+  const classDocs = await classes.find({ schoolId }).toArray();
+  const classMap = new Map(classDocs.map((c) => [c._id?.toString(), c]));
+  const users = await usersCollection();
+  const teacherIds = [...new Set(classDocs.flatMap((c) => c.teacherIds ?? []))];
+  const teacherDocs = teacherIds.length
+    ? await users.find({ auth0Id: { $in: teacherIds } }).toArray()
+    : [];
+  const teacherNames = new Map(
+    teacherDocs.map((u) => [u.auth0Id, u.name ?? u.email ?? "Unknown"])
+  );
+
+  const seenGroups = new Set<string>();
+  const result: ApprovalEventSerialized[] = [];
+  for (const event of events) {
+    if (event.linkGroupId) {
+      if (seenGroups.has(event.linkGroupId)) continue;
+      seenGroups.add(event.linkGroupId);
+    }
+    const copies = event.linkGroupId
+      ? linkedCopies.filter((c) => c.linkGroupId === event.linkGroupId)
+      : [event];
+    const copyClasses = copies.flatMap((c) => {
+      const cls = c.classId ? classMap.get(c.classId) : undefined;
+      return cls ? [{ cls, targetStudentIds: c.targetStudentIds }] : [];
+    });
+
+    result.push({
+      id: event._id?.toString() ?? "",
+      title: event.title,
+      description: event.description,
+      startAt: event.startAt,
+      endAt: event.endAt,
+      occurrenceCount: Math.max(1, getEventOccurrenceDates(event).length),
+      cost: getEventEffectiveCost(event),
+      requiresPermissionSlip: event.requiresPermissionSlip ?? false,
+      hasPermissionForm: Boolean(event.permissionFormPdfBase64),
+      permissionSlipDueDate: event.permissionSlipDueDate,
+      capacity: event.capacity,
+      classNames: copyClasses.length ? copyClasses.map((c) => c.cls.name) : ["Whole school"],
+      teacherNames: [
+        ...new Set(
+          copyClasses.flatMap((c) =>
+            (c.cls.teacherIds ?? []).map((id) => teacherNames.get(id) ?? "Unknown")
+          )
+        ),
+      ],
+      studentCount: copyClasses.reduce(
+        (sum, c) => sum + (c.targetStudentIds?.length ?? c.cls.studentIds?.length ?? 0),
+        0
+      ),
+      approvalStatus: event.approvalStatus ?? "approved",
+      approvalComment: event.approvalComment,
+      submittedAt: event.submittedForApprovalAt?.toISOString(),
+      decidedAt: event.approvalDecidedAt?.toISOString(),
+    });
+  }
+  return result;
+}
+
+/**
+ * Approval queue for a school admin: events waiting on them, and their recent decisions.
+ */
+export async function getAdminDashboardData(auth0Id: string): Promise<AdminDashboardData> {
+  const empty: AdminDashboardData = {
+    schoolId: null,
+    schoolName: null,
+    timeZone: resolveTimeZone(null),
+    pending: [],
+    recentlyDecided: [],
+    closures: [],
+    broadcasts: [],
+    overdueSlips: [],
+    feeWaivers: [],
+  };
+  if (!isDbConfigured()) return empty;
+
+  try {
+    const schoolId = await getAdminSchoolId(auth0Id);
+    if (!schoolId || !/^[a-f0-9]{24}$/i.test(schoolId)) return empty;
+
+    const schools = await schoolsCollection();
+    const school = await schools.findOne({ _id: new ObjectId(schoolId) });
+    const events = await calendarEventsCollection();
+    const [pendingDocs, decidedDocs, closures, broadcasts, overdueSlips, feeWaivers] =
+      await Promise.all([
+        events
+          .find({ schoolId, approvalStatus: "pending" })
+          .sort({ startAt: 1 })
+          .toArray(),
+        events
+          .find({
+            schoolId,
+            approvalStatus: { $in: ["approved", "rejected"] },
+            approvalDecidedAt: { $exists: true },
+          })
+          .sort({ approvalDecidedAt: -1 })
+          .limit(RECENT_DECISIONS_LIMIT)
+          .toArray(),
+        getSchoolClosures([schoolId]),
+        getSchoolBroadcasts([schoolId]),
+        getOverdueSlipsForSchool(schoolId),
+        getFeeWaiversForSchool(schoolId),
+      ]);
+
+    return {
+      schoolId,
+      schoolName: school?.name ?? null,
+      timeZone: resolveTimeZone(school?.timezone),
+      pending: await serializeForQueue(pendingDocs, schoolId),
+      recentlyDecided: await serializeForQueue(decidedDocs, schoolId),
+      closures,
+      broadcasts,
+      overdueSlips,
+      feeWaivers,
+    };
+  } catch (error) {
+    console.error("[getAdminDashboardData] Failed:", error);
+    return empty;
+  }
+}
+
+/**
+ * Approves or rejects an event waiting for approval, along with its linked copies.
+ * Approval creates the slips so families see it; rejection needs a comment for the teacher.
+ */
+export async function decideEventApproval(
+  auth0Id: string,
+  eventId: string,
+  decision: "approved" | "rejected",
+  comment: string
+): Promise<{ success: true } | { success: false; error: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+  if (!/^[a-f0-9]{24}$/i.test(eventId)) {
+    return { success: false, error: "Event not found" };
+  }
+  if (decision !== "approved" && decision !== "rejected") {
+    return { success: false, error: "Invalid decision" };
+  }
+  const trimmedComment = comment.trim();
+  if (decision === "rejected" && !trimmedComment) {
+    return { success: false, error: "Add a comment so the teacher knows what to change" };
+  }
+  if (trimmedComment.length > 1000) {
+    return { success: false, error: "Comment is too long" };
+  }
+
+  try {
+    const schoolId = await getAdminSchoolId(auth0Id);
+    if (!schoolId) {
+      return { success: false, error: "Only school admins can approve events" };
+    }
+
+    const events = await calendarEventsCollection();
+    const event = await events.findOne({ _id: new ObjectId(eventId) });
+    if (!event || event.schoolId !== schoolId) {
+      return { success: false, error: "Event not found" };
+    }
+    if (event.approvalStatus !== "pending") {
+      return { success: false, error: "This event isn't waiting for approval" };
+    }
+
+    const copies = event.linkGroupId
+      ? await events.find({ linkGroupId: event.linkGroupId, approvalStatus: "pending" }).toArray()
+      : [event];
+    await events.updateMany(
+      { _id: { $in: copies.flatMap((c) => (c._id ? [c._id] : [])) } },
+      {
+        $set: {
+          approvalStatus: decision,
+          approvalDecidedBy: auth0Id,
+          approvalDecidedAt: new Date(),
+          ...(trimmedComment ? { approvalComment: trimmedComment } : {}),
+        },
+        ...(trimmedComment ? {} : { $unset: { approvalComment: "" } }),
+      }
+    );
+
+    if (decision === "approved") {
+      for (const copy of copies) {
+        const copyId = copy._id?.toString();
+        if (copyId && copy.classId) {
+          await createPendingSlips(copyId, copy.classId, copy.targetStudentIds);
+        }
+      }
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("[decideEventApproval] Failed:", error);
+    return { success: false, error: "Failed to save decision. Please try again." };
+  }
+}
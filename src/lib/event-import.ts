@@ -0,0 +1,452 @@
+import { ObjectId } from "mongodb";
+import { calendarEventsCollection, classesCollection } from "./db/collections";
+import { isDbConfigured } from "./db";
+import { createCalendarEvent, validateCreateEventInput } from "./calendar-events";
+import { parseCsv } from "./csv";
+import { getSchoolTimeZone } from "./schools";
+import { isValidTimeZone, toZonedLocal, zonedLocalToDate } from "./timezone";
+
+/** Maximum rows accepted in one import, to keep previews readable */
+const MAX_IMPORT_ROWS = 200;
+
+/** One event parsed from an imported file, in the same shape createCalendarEvent stores */
+export interface ImportedEventRow {
+  title: string;
+  description?: string;
+  /** Local wall-clock time (YYYY-MM-DDTHH:mm:ss), like events created in the app */
+  startAt: string;
+  endAt: string;
+  cost?: number;
+  requiresPermissionSlip?: boolean;
+}
+
+export interface ImportPreviewRow extends ImportedEventRow {
+  /** Row in the source file (CSV line or VEVENT index), 1-based */
+  rowNumber: number;
+  /** Validation error - row cannot be imported */
+  error?: string;
+  /** Non-blocking note, e.g. a repeating .ics event imported as its first date only */
+  warning?: string;
+  isDuplicate: boolean;
+  duplicateReason?: string;
+}
+
+interface ParsedImportRow {
+  rowNumber: number;
+  row?: ImportedEventRow;
+  error?: string;
+  warning?: string;
+}
+
+// --- Date helpers ---
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function addMinutesLocal(local: string, minutes: number): string {
+  const [date, time] = local.split("T");
+  const [h, m, s] = time.split(":").map(Number);
+  const total = h * 60 + m + minutes;
+  const dayOffset = Math.floor(total / (24 * 60));
+  const mins = total % (24 * 60);
+  return `${addDays(date, dayOffset)}T${pad(Math.floor(mins / 60))}:${pad(mins % 60)}:${pad(s)}`;
+}
+
+/** Accepts YYYY-MM-DD, YYYY/MM/DD or M/D/YYYY. Returns YYYY-MM-DD or null. */
+function parseDateCell(value: string): string | null {
+  const v = value.trim();
+  let m = v.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/);
+  if (m) return `${m[1]}-${pad(Number(m[2]))}-${pad(Number(m[3]))}`;
+  m = v.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (m) return `${m[3]}-${pad(Number(m[1]))}-${pad(Number(m[2]))}`;
+  return null;
+}
+
+/** Accepts 24-hour (13:30) or 12-hour (1:30 PM) times. Returns HH:mm or null. */
+function parseTimeCell(value: string): string | null {
+  const m = value.trim().match(/^(\d{1,2}):(\d{2})\s*([ap]\.?m\.?)?$/i);
+  if (!m) return null;
+  let h = Number(m[1]);
+  const min = Number(m[2]);
+  const meridiem = m[3]?.toLowerCase().replace(/\./g, "");
+  if (meridiem === "pm" && h < 12) h += 12;
+  if (meridiem === "am" && h === 12) h = 0;
+  if (h > 23 || min > 59) return null;
+  return `${pad(h)}:${pad(min)}`;
+}
+
+/** Rejects dates like 2025-02-30 that Date would silently roll over */
+function isValidDate(date: string): boolean {
+  const d = new Date(`${date}T00:00:00Z`);
+  return !isNaN(d.getTime()) && d.toISOString().slice(0, 10) === date;
+}
+
+// --- iCalendar parsing ---
+
+function unescapeIcsText(value: string): string {
+  return value
+    .replace(/\\n/gi, "\n")
+    .replace(/\\([,;\\])/g, "$1");
+}
+
+/**
+ * Parses an iCalendar date or date-time property into a local wall-clock string.
+ * UTC values (trailing Z) and TZID values are converted to the school's time zone.
+ * A TZID we don't recognise keeps its wall-clock time and is returned as unknownZone.
+ */
+function parseIcsDateTime(
+  prop: { params: string; value: string },
+  timeZone: string
+): { local: string; allDay: boolean; unknownZone?: string } | null {
+  const m = prop.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!m) return null;
+  const date = `${m[1]}-${m[2]}-${m[3]}`;
+  if (/VALUE=DATE(;|$)/i.test(prop.params) || !m[4]) {
+    return { local: `${date}T00:00:00`, allDay: true };
+  }
+  const wallClock = `${date}T${m[4]}:${m[5]}:${m[6]}`;
+  if (m[7]) {
+    return { local: toZonedLocal(new Date(`${wallClock}Z`), timeZone), allDay: false };
+  }
+  const tzid = prop.params.match(/(?:^|;)TZID="?([^;"]+)"?/i)?.[1];
+  if (!tzid || tzid === timeZone) return { local: wallClock, allDay: false };
+  if (!isValidTimeZone(tzid)) return { local: wallClock, allDay: false, unknownZone: tzid };
+  return {
+    local: toZonedLocal(zonedLocalToDate(wallClock, tzid), timeZone),
+    allDay: false,
+  };
+}
+
+/**
+ * Parses VEVENTs from an .ics file. Repeating events (RRULE) are imported
+ * as their first occurrence with a warning.
+ */
+function parseIcsEvents(text: string, timeZone: string): ParsedImportRow[] {
+  // Unfold continuation lines (RFC 5545 section 3.1)
+  const lines = text.replace(/\r\n[ \t]/g, "").replace(/\n[ \t]/g, "").split(/\r?\n/);
+
+  const results: ParsedImportRow[] = [];
+  let current: Map<string, { params: string; value: string }> | null = null;
+
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") {
+      current = new Map();
+      continue;
+    }
+    if (line === "END:VEVENT" && current) {
+      const rowNumber = results.length + 1;
+      const summary = current.get("SUMMARY");
+      const dtStart = current.get("DTSTART");
+      const dtEnd = current.get("DTEND");
+      const description = current.get("DESCRIPTION");
+
+      const start = dtStart ? parseIcsDateTime(dtStart, timeZone) : null;
+      if (!start) {
+        results.push({ rowNumber, error: "Missing or invalid start date" });
+        current = null;
+        continue;
+      }
+      const end = dtEnd ? parseIcsDateTime(dtEnd, timeZone) : null;
+
+      let startAt = start.local;
+      let endAt: string;
+      if (start.allDay) {
+        // DTEND is exclusive for all-day events
+        const lastDate = end
+          ? addDays(end.local.slice(0, 10), -1)
+          : start.local.slice(0, 10);
+        startAt = `${start.local.slice(0, 10)}T00:00:00`;
+        endAt = `${lastDate < startAt.slice(0, 10) ? startAt.slice(0, 10) : lastDate}T23:59:59`;
+      } else {
+        endAt = end?.local ?? addMinutesLocal(start.local, 60);
+      }
+
+      results.push({
+        rowNumber,
+        row: {
+          title: unescapeIcsText(summary?.value ?? "").trim(),
+          description: description ? unescapeIcsText(description.value).trim() || undefined : undefined,
+          startAt,
+          endAt,
+        },
+        warning:
+          [
+            current.has("RRULE") && "Repeating event - only the first date is imported",
+            start.unknownZone &&
+              `Unknown time zone "${start.unknownZone}" - times imported as written`,
+          ]
+            .filter(Boolean)
+            .join("; ") || undefined,
+      });
+      current = null;
+      continue;
+    }
+    if (!current) continue;
+
+    const colon = line.indexOf(":");
+    if (colon === -1) continue;
+    const [name, ...params] = line.slice(0, colon).split(";");
+    current.set(name.toUpperCase(), {
+      params: params.join(";"),
+      value: line.slice(colon + 1),
+    });
+  }
+
+  return results;
+}
+
+// --- CSV parsing ---
+
+const CSV_COLUMNS: Record<string, string[]> = {
+  title: ["title", "name", "event", "subject", "eventname"],
+  description: ["description", "details", "notes"],
+  startDate: ["date", "startdate", "start"],
+  endDate: ["enddate", "end"],
+  startTime: ["starttime", "time"],
+  endTime: ["endtime"],
+  cost: ["cost", "price", "amount"],
+  permissionSlip: ["permissionslip", "requirespermissionslip", "permission"],
+};
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z]/g, "");
+}
+
+/**
+ * Parses events from a CSV with a header row. Recognized columns: title, description,
+ * date (or start date), end date, start time, end time, cost, permission slip.
+ * Rows without times become all-day events.
+ */
+function parseCsvEvents(text: string): ParsedImportRow[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const normalized = header.map(normalizeHeader);
+  const columnIndex = (key: string) =>
+    normalized.findIndex((h) => CSV_COLUMNS[key].includes(h));
+  const cols = Object.fromEntries(
+    Object.keys(CSV_COLUMNS).map((key) => [key, columnIndex(key)])
+  ) as Record<keyof typeof CSV_COLUMNS, number>;
+
+  if (cols.title === -1 || cols.startDate === -1) {
+    return [{ rowNumber: 1, error: "CSV needs a header row with at least Title and Date columns" }];
+  }
+
+  return rows.map((cells, i): ParsedImportRow => {
+    // Header is line 1, so data starts at line 2
+    const rowNumber = i + 2;
+    const cell = (key: keyof typeof CSV_COLUMNS) =>
+      cols[key] >= 0 ? (cells[cols[key]] ?? "").trim() : "";
+
+    const startDate = parseDateCell(cell("startDate"));
+    if (!startDate || !isValidDate(startDate)) {
+      return { rowNumber, error: `Invalid date "${cell("startDate")}"` };
+    }
+    const endDateRaw = cell("endDate");
+    const endDate = endDateRaw ? parseDateCell(endDateRaw) : startDate;
+    if (!endDate || !isValidDate(endDate)) {
+      return { rowNumber, error: `Invalid end date "${endDateRaw}"` };
+    }
+
+    const startTimeRaw = cell("startTime");
+    const endTimeRaw = cell("endTime");
+    const startTime = startTimeRaw ? parseTimeCell(startTimeRaw) : null;
+    const endTime = endTimeRaw ? parseTimeCell(endTimeRaw) : null;
+    if (startTimeRaw && !startTime) {
+      return { rowNumber, error: `Invalid start time "${startTimeRaw}"` };
+    }
+    if (endTimeRaw && !endTime) {
+      return { rowNumber, error: `Invalid end time "${endTimeRaw}"` };
+    }
+
+    let startAt: string;
+    let endAt: string;
+    if (startTime) {
+      startAt = `${startDate}T${startTime}:00`;
+      endAt = endTime
+        ? `${endDate}T${endTime}:00`
+        : addMinutesLocal(startAt, 60);
+    } else {
+      startAt = `${startDate}T00:00:00`;
+      endAt = `${endDate}T23:59:59`;
+    }
+
+    const costRaw = cell("cost").replace(/[$,\s]/g, "");
+    const cost = costRaw ? parseFloat(costRaw) : undefined;
+    if (costRaw && (cost == null || Number.isNaN(cost) || cost < 0)) {
+      return { rowNumber, error: `Invalid cost "${cell("cost")}"` };
+    }
+
+    return {
+      rowNumber,
+      row: {
+        title: cell("title"),
+        description: cell("description") || undefined,
+        startAt,
+        endAt,
+        cost: cost != null && cost > 0 ? cost : undefined,
+        requiresPermissionSlip: /^(y|yes|true|1|x)$/i.test(cell("permissionSlip")),
+      },
+    };
+  });
+}
+
+function duplicateKey(title: string, startAt: string): string {
+  return `${title.trim().toLowerCase()}|${startAt.slice(0, 10)}`;
+}
+
+/**
+ * Parses an imported file and previews the rows for a class. Each row is validated
+ * like createCalendarEvent and flagged if an event with the same title already
+ * exists on the same date (in the class calendar or earlier in the file).
+ */
+export async function previewEventImport(
+  auth0Id: string,
+  classId: string,
+  fileName: string,
+  text: string
+): Promise<{ success: true; rows: ImportPreviewRow[] } | { success: false; error: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+  if (!/^[a-f0-9]{24}$/i.test(classId)) {
+    return { success: false, error: "Invalid class" };
+  }
+
+  const isIcs = /\.(ics|ical|ifb|icalendar)$/i.test(fileName) || text.includes("BEGIN:VCALENDAR");
+
+  try {
+    const classes = await classesCollection();
+    const cls = await classes.findOne({ _id: new ObjectId(classId) });
+    if (!cls) return { success: false, error: "Class not found" };
+    if (!cls.teacherIds?.includes(auth0Id)) {
+      return { success: false, error: "You don't have access to this class" };
+    }
+
+    const parsed = isIcs
+      ? parseIcsEvents(text, await getSchoolTimeZone(cls.schoolId))
+      : parseCsvEvents(text);
+    if (parsed.length === 0) {
+      return { success: false, error: "No events found in this file" };
+    }
+    if (parsed.length > MAX_IMPORT_ROWS) {
+      return { success: false, error: `Maximum ${MAX_IMPORT_ROWS} events per import` };
+    }
+
+    const validRows = parsed.filter((p) => p.row);
+    const existingKeys = new Set<string>();
+    if (validRows.length > 0) {
+      const dates = validRows.map((p) => p.row!.startAt.slice(0, 10)).sort();
+      const events = await calendarEventsCollection();
+      const existing = await events
+        .find(
+          {
+            $or: [{ classId }, { schoolId: cls.schoolId, classId: null }],
+            startAt: { $gte: dates[0], $lte: `${dates[dates.length - 1]}T23:59:59` },
+          },
+          { projection: { title: 1, startAt: 1 } }
+        )
+        .toArray();
+      for (const e of existing) existingKeys.add(duplicateKey(e.title, e.startAt));
+    }
+
+    const seenInFile = new Set<string>();
+    const rows: ImportPreviewRow[] = parsed.map((p) => {
+      if (!p.row) {
+        return {
+          rowNumber: p.rowNumber,
+          title: "",
+          startAt: "",
+          endAt: "",
+          error: p.error ?? "Could not read this row",
+          isDuplicate: false,
+        };
+      }
+      const error = validateCreateEventInput({ ...p.row, visibility: "class" }) ?? undefined;
+      const key = duplicateKey(p.row.title, p.row.startAt);
+      let duplicateReason: string | undefined;
+      if (existingKeys.has(key)) duplicateReason = "Already on the calendar";
+      else if (seenInFile.has(key)) duplicateReason = "Repeated in this file";
+      seenInFile.add(key);
+
+      return {
+        ...p.row,
+        rowNumber: p.rowNumber,
+        error,
+        warning: p.warning,
+        isDuplicate: Boolean(duplicateReason),
+        duplicateReason,
+      };
+    });
+
+    return { success: true, rows };
+  } catch (error) {
+    console.error("[previewEventImport] Failed:", error);
+    return { success: false, error: "Failed to read events" };
+  }
+}
+
+/**
+ * Creates the selected imported events in a class through createCalendarEvent,
+ * so they get the same validation and permission slips as hand-made events.
+ */
+export async function importEvents(
+  auth0Id: string,
+  classId: string,
+  rows: ImportedEventRow[]
+): Promise<
+  | { success: true; created: number; failed: { title: string; error: string }[] }
+  | { success: false; error: string }
+> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+  if (rows.length === 0) {
+    return { success: false, error: "Select at least one event to import" };
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return { success: false, error: `Maximum ${MAX_IMPORT_ROWS} events per import` };
+  }
+  if (!/^[a-f0-9]{24}$/i.test(classId)) {
+    return { success: false, error: "Invalid class" };
+  }
+
+  try {
+    const classes = await classesCollection();
+    const cls = await classes.findOne({ _id: new ObjectId(classId) });
+    if (!cls) return { success: false, error: "Class not found" };
+    if (!cls.teacherIds?.includes(auth0Id)) {
+      return { success: false, error: "You don't have access to this class" };
+    }
+
+    let created = 0;
+    const failed: { title: string; error: string }[] = [];
+    for (const row of rows) {
+      const result = await createCalendarEvent(auth0Id, {
+        schoolId: cls.schoolId,
+        classId,
+        title: row.title,
+        description: row.description,
+        startAt: row.startAt,
+        endAt: row.endAt,
+        visibility: "class",
+        requiresPermissionSlip: row.requiresPermissionSlip,
+        cost: row.cost,
+      });
+      if (result.success) created++;
+      else failed.push({ title: row.title || "Untitled", error: result.error });
+    }
+
+    return { success: true, created, failed };
+  } catch (error) {
+    console.error("[importEvents] Failed:", error);
+    return { success: false, error: "Failed to import events" };
+  }
+}
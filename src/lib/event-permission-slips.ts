@@ -3,24 +3,99 @@ import {
   eventPermissionSlipsCollection,
   calendarEventsCollection,
   classesCollection,
+  feeWaiversCollection,
   studentsCollection,
   usersCollection,
 } from "./db/collections";
-import type { Class } from "./db/types";
+import type {
+  CalendarEvent,
+  CalendarEventStatus,
+  Class,
+  EventPermissionSlip,
+  FeeWaiverStatus,
+  PermissionFormField,
+  PermissionFormResponses,
+  SlipEscalation,
+  SlipReminderKind,
+} from "./db/types";
 import { isDbConfigured } from "./db";
-import { getEventEffectiveCost } from "./calendar-events";
+import {
+  getEventEffectiveCost,
+  isEventApproved,
+  isEventForStudent,
+  isPerOccurrenceEvent,
+} from "./calendar-events";
+import { getEventOccurrenceDates } from "./recurrence";
+import { serializeFeeWaiverSummary, type FeeWaiverSummary } from "./fee-waivers";
+import { getSlipRefundAmount } from "./family-ledger";
+import { getSchoolTimeZones } from "./schools";
+import { isPastDueDate } from "./timezone";
+import {
+  getVolunteerRoleSummaries,
+  type VolunteerRoleSummary,
+} from "./event-volunteers";
+import {
+  discardSlipSignature,
+  getSignatureSummaries,
+  recordSlipSignature,
+  validateFormResponses,
+  validateSignatureInput,
+  type SignatureInput,
+  type SignatureSummary,
+} from "./permission-forms";
 
 export interface EventPermissionStatusByStudent {
   studentId: string;
   studentName: string;
-  status: "pending" | "signed" | "no_parent";
+  status: "pending" | "signed" | "waitlisted" | "no_parent";
   signedBy?: string;
+  /** Parents with a slip for this student */
+  guardianNames?: string[];
+  signedAt?: string;
   /** Slip ID when signed; used by teachers to view the submitted PDF */
   slipId?: string;
   /** How parent will pay (when event has cost) */
   paymentMethod?: "online" | "cash";
   /** Teacher has marked cash as received (when paymentMethod=cash) */
   cashReceived?: boolean;
+  cashReceivedAt?: string;
+  /** paymentMethod=online: when the payment provider confirmed it */
+  paidAt?: string;
+  /** Payment intent behind the receipt, when paid online */
+  paymentIntentId?: string;
+  /** Per-date events: dates this student is signed up for */
+  selectedOccurrenceDates?: string[];
+  /** What this student owes, based on their selected dates */
+  amountDue?: number;
+  /** Cancelled event: amount already paid that should be given back */
+  refundOwed?: number;
+  /** Teacher has marked the refund as given back */
+  refundIssued?: boolean;
+  /** Waitlisted: place in line, starting at 1 */
+  waitlistPosition?: number;
+  /** Pending: sent back to sign a replaced form, still holding a spot */
+  resignRequired?: boolean;
+  /** Signed in the browser rather than by uploading a PDF */
+  eSignature?: SignatureSummary;
+  /** Parent's answers to the form questions */
+  formResponses?: PermissionFormResponses;
+  /** Latest reminder sent to the family while the slip was outstanding */
+  lastRemindedAt?: string;
+  /** Overdue and passed on to the school admin */
+  overdueFlagged?: boolean;
+  /** Latest fee waiver request. Confidential: only for the teacher and admin */
+  feeAssistance?: {
+    status: FeeWaiverStatus;
+    requestedAmount: number;
+    approvedAmount?: number;
+  };
+}
+
+/** Per-date events: who is coming on one occurrence date */
+export interface OccurrenceHeadcount {
+  date: string;
+  count: number;
+  studentNames: string[];
 }
 
 export interface EventPermissionStatus {
@@ -32,6 +107,21 @@ export interface EventPermissionStatus {
   students: EventPermissionStatusByStudent[];
   pendingCount: number;
   signedCount: number;
+  /** Maximum number of students, when the event is limited */
+  capacity?: number;
+  /** Full price for one student (every date of a per-date event) */
+  cost?: number;
+  waitlistedCount: number;
+  eventStatus: CalendarEventStatus;
+  /** Last day to sign and pay (YYYY-MM-DD): the teacher's due date or the event day */
+  dueDate: string;
+  /** The due date (or event day) is over at the school */
+  pastDue: boolean;
+  slipEscalation?: SlipEscalation;
+  /** Per-date events: headcount/order list for each occurrence date */
+  occurrenceHeadcounts?: OccurrenceHeadcount[];
+  /** Questions parents answer on the slip, in the teacher's order */
+  formFields?: PermissionFormField[];
 }
 
 export interface PermissionSlipTask {
@@ -47,12 +137,18 @@ export interface PermissionSlipTask {
   cost?: number;
   /** Recurring: all occurrence dates (YYYY-MM-DD) */
   occurrenceDates?: string[];
+  /** Recurring: price per date. When set, parent picks which dates to sign up for */
+  costPerOccurrence?: number;
+  /** Dates the parent opted into (unset = all dates) */
+  selectedOccurrenceDates?: string[];
   /** When true, parent must upload signed PDF; when false, only payment method is needed */
   requiresPermissionSlip?: boolean;
   /** When true, teacher has uploaded a permission form PDF for parents to sign */
   hasPermissionForm?: boolean;
   /** Due date for form and payment (YYYY-MM-DD) */
   permissionSlipDueDate?: string | null;
+  /** Still needs action and the due date (or event day) is over at the school */
+  pastDue?: boolean;
 }
 
 export interface InboxItem {
@@ -70,18 +166,253 @@ export interface InboxItem {
   cost?: number;
   /** How parent will pay (when event has cost) */
   paymentMethod?: "online" | "cash";
+  /** Paid online: when the payment was confirmed */
+  paidAt?: string;
+  /** Paid online: payment intent for the receipt */
+  paymentIntentId?: string;
+  /** This parent's latest request for help with the cost */
+  feeAssistance?: FeeWaiverSummary;
+  eventStatus: CalendarEventStatus;
+  /** Teacher's reason for the latest cancellation/postponement/reschedule */
+  statusReason?: string;
+  /** Set when the event was moved: its previous start (YYYY-MM-DDTHH:mm:ss) */
+  rescheduledFrom?: string;
+  /** Cancelled event: amount already paid that will be given back */
+  refundOwed?: number;
+  /** Teacher has marked the refund as given back */
+  refundIssued?: boolean;
+  /** Limited events: spots not yet taken (0 = new submissions join the waitlist) */
+  spotsLeft?: number;
+  /** Submitted while the event was full: place in line, starting at 1 */
+  waitlistPosition?: number;
+  /** A spot opened up and this student moved off the waitlist */
+  promotedFromWaitlist?: {
+    at: string;
+    /** Parent hasn't opened the item since the promotion */
+    unread: boolean;
+  };
+  /** Parent helpers the teacher is asking for, with open spots */
+  volunteerRoles?: VolunteerRoleSummary[];
+  /** What the teacher changed since this item was sent (date, cost, due date, form) */
+  changeNotice?: {
+    summary: string[];
+    changedAt: string;
+    resignRequired: boolean;
+    /** Parent hasn't opened the item since the change */
+    unread: boolean;
+  };
   /** Recurring: all occurrence dates (YYYY-MM-DD) */
   occurrenceDates?: string[];
+  /** Recurring: price per date. When set, parent picks which dates to sign up for */
+  costPerOccurrence?: number;
+  /** Dates the parent opted into (unset = all dates) */
+  selectedOccurrenceDates?: string[];
   /** When true, parent must upload signed PDF; when false, only payment method is needed */
   requiresPermissionSlip?: boolean;
   /** When true, teacher has uploaded a permission form PDF for parents to sign */
   hasPermissionForm?: boolean;
   /** Due date for form and payment (YYYY-MM-DD) */
   permissionSlipDueDate?: string | null;
+  /** Still needs action and the due date (or event day) is over at the school */
+  pastDue?: boolean;
+  /** Signed in the browser rather than by uploading a PDF */
+  eSignature?: SignatureSummary;
+  /** Questions to answer when completing the slip */
+  formFields?: PermissionFormField[];
+  /** What the parent answered */
+  formResponses?: PermissionFormResponses;
+  /** Latest reminder about this outstanding item */
+  reminder?: {
+    kind: SlipReminderKind;
+    sentAt: string;
+    /** Parent hasn't opened the item since the reminder */
+    unread: boolean;
+  };
+}
+
+/**
+ * Amount a family paid for an event that has since been cancelled, after fee waivers and
+ * refunds already recorded. Undefined when nothing is owed (event not cancelled, slip not
+ * signed, or no payment made yet).
+ */
+async function getRefundOwed(
+  event: CalendarEvent,
+  slip: EventPermissionSlip
+): Promise<number | undefined> {
+  if (event.status !== "cancelled" || slip.status !== "signed") return undefined;
+  const amount = await getSlipRefundAmount(slip, event);
+  return amount > 0 ? amount : undefined;
+}
+
+/** Last day to sign and pay: the teacher's due date, or the day of the event */
+function getEffectiveDueDate(event: CalendarEvent): string {
+  return event.permissionSlipDueDate ?? event.startAt.slice(0, 10);
+}
+
+/** Who a slip holds a spot for. Legacy slips without a student count as their own spot */
+function getSpotKey(slip: EventPermissionSlip): string {
+  return slip.studentId ?? slip._id?.toString() ?? "";
+}
+
+/** Slips holding a spot: signed, or sent back to sign a replaced form */
+const HOLDS_SPOT_FILTER = [
+  { status: "signed" as const },
+  { status: "pending" as const, resignRequestedAt: { $exists: true } },
+];
+
+function holdsSpot(slip: EventPermissionSlip): boolean {
+  return slip.status === "signed" || (slip.status === "pending" && Boolean(slip.resignRequestedAt));
+}
+
+/** Spots taken on an event: one per student with a slip holding a spot */
+async function getTakenSpots(eventId: string): Promise<Set<string>> {
+  const slips = await eventPermissionSlipsCollection();
+  const spotSlips = await slips.find({ eventId, $or: HOLDS_SPOT_FILTER }).toArray();
+  return new Set(spotSlips.map(getSpotKey));
+}
+
+/**
+ * Whether a submission for this student gets a spot. A student whose other guardian already
+ * signed keeps that spot; events without a capacity never fill up.
+ */
+function hasOpenSpot(
+  event: Pick<CalendarEvent, "capacity">,
+  takenSpots: Set<string>,
+  spotKey: string
+): boolean {
+  if (event.capacity == null) return true;
+  if (takenSpots.has(spotKey)) return true;
+  return takenSpots.size < event.capacity;
+}
+
+const MAX_SPOT_CLAIM_ATTEMPTS = 5;
+
+/**
+ * Makes a slip that was just signed into a new spot stick. Two families can both see the last
+ * spot open, so each claim bumps event.spotClaims from the value read before the spots were
+ * counted. If another claim landed in between, the spots are counted again with this slip in:
+ * it keeps the spot while the event is within capacity, otherwise it goes (back) on the
+ * waitlist. Returns whether the slip kept its spot.
+ */
+async function confirmSpotClaim(
+  eventId: string,
+  slip: EventPermissionSlip,
+  spotClaims: number,
+  waitlistedAt: Date
+): Promise<boolean> {
+  const events = await calendarEventsCollection();
+  let claims = spotClaims;
+  for (let attempt = 0; attempt < MAX_SPOT_CLAIM_ATTEMPTS; attempt++) {
+    const bumped = await events.updateOne(
+      {
+        _id: new ObjectId(eventId),
+        spotClaims: claims > 0 ? claims : { $exists: false },
+      },
+      { $inc: { spotClaims: 1 } }
+    );
+    if (bumped.modifiedCount > 0) return true;
+
+    const event = await events.findOne(
+      { _id: new ObjectId(eventId) },
+      { projection: { capacity: 1, spotClaims: 1 } }
+    );
+    if (!event || event.capacity == null) return true;
+    claims = event.spotClaims ?? 0;
+    const takenSpots = await getTakenSpots(eventId);
+    if (takenSpots.size > event.capacity) break;
+  }
+
+  const slips = await eventPermissionSlipsCollection();
+  await slips.updateOne(
+    { _id: slip._id, status: "signed" },
+    {
+      $set: { status: "waitlisted", waitlistedAt },
+      $unset: { signedAt: "", promotedFromWaitlistAt: "" },
+    }
+  );
+  return false;
+}
+
+/**
+ * Writes a parent's submission as signed when the student gets a spot, or waitlisted when the
+ * event is full. `write` applies the update and returns false when the slip was no longer
+ * pending. A lost race for the last spot moves the slip to the waitlist.
+ */
+async function submitIntoSpot(
+  event: CalendarEvent | null,
+  slip: EventPermissionSlip,
+  write: (waitlisted: boolean, now: Date) => Promise<boolean>
+): Promise<{ found: boolean; waitlisted: boolean }> {
+  const spotKey = getSpotKey(slip);
+  const takenSpots = await getTakenSpots(slip.eventId);
+  const waitlisted = event ? !hasOpenSpot(event, takenSpots, spotKey) : false;
+  const now = new Date();
+  if (!(await write(waitlisted, now))) return { found: false, waitlisted };
+
+  const isNewSpot = !waitlisted && event?.capacity != null && !takenSpots.has(spotKey);
+  if (isNewSpot && !(await confirmSpotClaim(slip.eventId, slip, event?.spotClaims ?? 0, now))) {
+    await promoteFromWaitlist(slip.eventId);
+    return { found: true, waitlisted: true };
+  }
+  return { found: true, waitlisted };
+}
+
+/**
+ * Moves waitlisted slips into open spots, earliest first. Promoted slips go back to unread so
+ * the parent sees they're in. Called when a spot frees up or the capacity changes.
+ */
+export async function promoteFromWaitlist(eventId: string): Promise<void> {
+  if (!isDbConfigured() || !/^[a-f0-9]{24}$/i.test(eventId)) return;
+
+  try {
+    const events = await calendarEventsCollection();
+    const event = await events.findOne({ _id: new ObjectId(eventId) });
+    if (!event || event.status === "cancelled") return;
+
+    const slips = await eventPermissionSlipsCollection();
+    const waitlisted = await slips
+      .find({ eventId, status: "waitlisted" })
+      .sort({ waitlistedAt: 1 })
+      .toArray();
+    if (waitlisted.length === 0) return;
+
+    for (const slip of waitlisted) {
+      // Counted afresh for each slip, as parents may be taking spots at the same time
+      const current = await events.findOne(
+        { _id: new ObjectId(eventId) },
+        { projection: { capacity: 1, spotClaims: 1 } }
+      );
+      if (!current) return;
+      const spotKey = getSpotKey(slip);
+      const takenSpots = await getTakenSpots(eventId);
+      if (!hasOpenSpot(current, takenSpots, spotKey)) continue;
+      const now = new Date();
+      const result = await slips.updateOne(
+        { _id: slip._id, status: "waitlisted" },
+        {
+          $set: { status: "signed", signedAt: now, promotedFromWaitlistAt: now },
+          $unset: { waitlistedAt: "", readAt: "" },
+        }
+      );
+      if (result.modifiedCount === 0 || current.capacity == null || takenSpots.has(spotKey)) {
+        continue;
+      }
+      const kept = await confirmSpotClaim(
+        eventId,
+        slip,
+        current.spotClaims ?? 0,
+        slip.waitlistedAt ?? now
+      );
+      // Someone else took the spot
+      if (!kept) return;
+    }
+  } catch (error) {
+    console.error("[promoteFromWaitlist] Failed:", error);
+  }
 }
 
 /**
- * Fetches pending permission slip tasks for a parent.
+ * Fetches pending permission slip tasks for a parent. Cancelled events have nothing left to do.
  */
 export async function getParentPermissionSlipTasks(
   auth0Id: string
@@ -111,6 +442,7 @@ export async function getParentPermissionSlipTasks(
     const eventMap = new Map(
       eventDocs.map((e) => [e._id?.toString(), e])
     );
+    const timeZones = await getSchoolTimeZones(eventDocs.map((e) => e.schoolId));
 
     const classIds = [...new Set(pendingSlips.map((s) => s.classId))];
     const classes = await classesCollection();
@@ -156,7 +488,13 @@ export async function getParentPermissionSlipTasks(
         : undefined;
       const effectiveCost = event ? getEventEffectiveCost(event) : undefined;
       const hasCost = effectiveCost != null && effectiveCost > 0;
-      if (event && cls && (event.requiresPermissionSlip || hasCost)) {
+      if (
+        event &&
+        cls &&
+        event.status !== "cancelled" &&
+        isEventApproved(event) &&
+        (event.requiresPermissionSlip || hasCost)
+      ) {
         tasks.push({
           id: slip._id?.toString() ?? slip.eventId,
           eventId: slip.eventId,
@@ -168,9 +506,17 @@ export async function getParentPermissionSlipTasks(
           studentName: student?.name,
           cost: effectiveCost,
           occurrenceDates: event.occurrenceDates,
+          costPerOccurrence: isPerOccurrenceEvent(event)
+            ? event.costPerOccurrence
+            : undefined,
+          selectedOccurrenceDates: slip.selectedOccurrenceDates,
           requiresPermissionSlip: event.requiresPermissionSlip ?? false,
           hasPermissionForm: Boolean(event.permissionFormPdfBase64),
           permissionSlipDueDate: event.permissionSlipDueDate ?? null,
+          pastDue: isPastDueDate(
+            getEffectiveDueDate(event),
+            timeZones.get(event.schoolId)!
+          ),
         });
       }
     }
@@ -215,6 +561,34 @@ export async function getParentInboxItems(
     const eventMap = new Map(
       eventDocs.map((e) => [e._id?.toString(), e])
     );
+    const timeZones = await getSchoolTimeZones(eventDocs.map((e) => e.schoolId));
+
+    // Limited events: taken spots and waitlist order, across all families
+    const limitedEventIds = eventDocs
+      .filter((e) => e.capacity != null)
+      .map((e) => e._id?.toString() ?? "");
+    const spotSlips =
+      limitedEventIds.length > 0
+        ? await slips
+            .find({
+              eventId: { $in: limitedEventIds },
+              $or: [...HOLDS_SPOT_FILTER, { status: "waitlisted" as const }],
+            })
+            .sort({ waitlistedAt: 1 })
+            .toArray()
+        : [];
+    const volunteerRolesByEvent = await getVolunteerRoleSummaries(auth0Id, eventDocs);
+    const takenSpotsByEvent = new Map<string, Set<string>>();
+    const waitlistByEvent = new Map<string, string[]>();
+    for (const s of spotSlips) {
+      if (holdsSpot(s)) {
+        const taken = takenSpotsByEvent.get(s.eventId) ?? new Set<string>();
+        takenSpotsByEvent.set(s.eventId, taken.add(getSpotKey(s)));
+      } else {
+        const line = waitlistByEvent.get(s.eventId) ?? [];
+        waitlistByEvent.set(s.eventId, [...line, s._id?.toString() ?? ""]);
+      }
+    }
 
     const classIds = [...new Set(allSlips.map((s) => s.classId))];
     const classDocs = await classes
@@ -248,6 +622,16 @@ export async function getParentInboxItems(
     const studentMap = new Map(
       studentDocs.map((s) => [s._id?.toString(), s])
     );
+    const signatureMap = await getSignatureSummaries(
+      allSlips.flatMap((s) => (s.signatureId && s.status !== "pending" ? [s.signatureId] : []))
+    );
+    // Only requests this parent made, even when another parent of the child has a slip
+    const waivers = await feeWaiversCollection();
+    const waiverDocs = await waivers
+      .find({ guardianId: auth0Id, eventId: { $in: eventIds } })
+      .sort({ createdAt: 1 })
+      .toArray();
+    const waiverMap = new Map(waiverDocs.map((w) => [`${w.eventId}:${w.studentId}`, w]));
 
     const items: InboxItem[] = [];
     for (const slip of allSlips) {
@@ -256,9 +640,16 @@ export async function getParentInboxItems(
       const student = slip.studentId
         ? studentMap.get(slip.studentId)
         : undefined;
-      const effectiveCost = event ? getEventEffectiveCost(event) : undefined;
-      const hasCost = effectiveCost != null && effectiveCost > 0;
-      if (event && cls) {
+      const effectiveCost = event
+        ? getEventEffectiveCost(event, slip.selectedOccurrenceDates)
+        : undefined;
+      const lastChange = event?.scheduleChanges?.at(-1);
+      const lastReminder = slip.reminders?.at(-1);
+      const waiver = waiverMap.get(`${slip.eventId}:${slip.studentId}`);
+      const waitlistIndex = waitlistByEvent
+        .get(slip.eventId)
+        ?.indexOf(slip._id?.toString() ?? "");
+      if (event && cls && isEventApproved(event)) {
         items.push({
           id: slip._id?.toString() ?? slip.eventId,
           eventId: slip.eventId,
@@ -270,21 +661,76 @@ export async function getParentInboxItems(
           studentId: slip.studentId,
           studentName: student?.name,
           status:
-            slip.status === "signed"
+            slip.status !== "pending"
               ? "completed"
               : slip.readAt
                 ? "read"
                 : "unread",
           cost: effectiveCost,
           paymentMethod: slip.paymentMethod,
+          paidAt: slip.paidAt?.toISOString(),
+          paymentIntentId: slip.paymentIntentId,
+          feeAssistance: waiver ? serializeFeeWaiverSummary(waiver) : undefined,
+          eventStatus: event.status ?? "scheduled",
+          statusReason: event.statusReason,
+          rescheduledFrom: lastChange?.type === "rescheduled"
+            ? lastChange.fromStartAt
+            : undefined,
+          refundOwed: await getRefundOwed(event, slip),
+          refundIssued: Boolean(slip.refundIssuedAt),
+          spotsLeft:
+            event.capacity != null
+              ? Math.max(
+                  0,
+                  event.capacity - (takenSpotsByEvent.get(slip.eventId)?.size ?? 0)
+                )
+              : undefined,
+          waitlistPosition:
+            waitlistIndex != null && waitlistIndex >= 0 ? waitlistIndex + 1 : undefined,
+          volunteerRoles: volunteerRolesByEvent[slip.eventId],
+          promotedFromWaitlist: slip.promotedFromWaitlistAt
+            ? {
+                at: slip.promotedFromWaitlistAt.toISOString(),
+                unread: !slip.readAt,
+              }
+            : undefined,
+          changeNotice: slip.changeNotice
+            ? {
+                summary: slip.changeNotice.summary,
+                changedAt: slip.changeNotice.changedAt.toISOString(),
+                resignRequired: slip.changeNotice.resignRequired ?? false,
+                unread: !slip.changeNotice.readAt,
+              }
+            : undefined,
           occurrenceDates: event.occurrenceDates,
+          costPerOccurrence: isPerOccurrenceEvent(event)
+            ? event.costPerOccurrence
+            : undefined,
+          selectedOccurrenceDates: slip.selectedOccurrenceDates,
           requiresPermissionSlip: event.requiresPermissionSlip ?? false,
           hasPermissionForm: Boolean(event.permissionFormPdfBase64),
           permissionSlipDueDate: event.permissionSlipDueDate ?? null,
+          pastDue:
+            slip.status === "pending" &&
+            isPastDueDate(getEffectiveDueDate(event), timeZones.get(event.schoolId)!),
+          eSignature: slip.signatureId ? signatureMap.get(slip.signatureId) : undefined,
+          formFields: getSlipFormFields(event).length > 0 ? getSlipFormFields(event) : undefined,
+          formResponses: slip.formResponses,
+          reminder:
+            slip.status === "pending" && lastReminder
+              ? {
+                  kind: lastReminder.kind,
+                  sentAt: lastReminder.sentAt.toISOString(),
+                  unread: !lastReminder.readAt,
+                }
+              : undefined,
         });
       }
     }
-    return items;
+    // Overdue items go first so they can't get buried under newer ones
+    const isOverdue = (item: InboxItem) =>
+      item.status !== "completed" && Boolean(item.pastDue) && item.eventStatus !== "cancelled";
+    return items.sort((a, b) => Number(isOverdue(b)) - Number(isOverdue(a)));
   } catch (error) {
     console.error("[getParentInboxItems] Failed:", error);
     return [];
@@ -314,7 +760,26 @@ export async function markInboxItemAsRead(
     if (!slip) {
       return { success: false, error: "Item not found" };
     }
-    if (slip.status === "signed") {
+    if (slip.changeNotice && !slip.changeNotice.readAt) {
+      await slips.updateOne(
+        { _id: new ObjectId(slipId), guardianId: auth0Id },
+        { $set: { "changeNotice.readAt": new Date() } }
+      );
+    }
+    if (slip.reminders?.some((r) => !r.readAt)) {
+      await slips.updateOne(
+        { _id: new ObjectId(slipId), guardianId: auth0Id },
+        { $set: { "reminders.$[unread].readAt": new Date() } },
+        { arrayFilters: [{ "unread.readAt": { $exists: false } }] }
+      );
+    }
+    if (slip.status !== "pending") {
+      if (slip.promotedFromWaitlistAt && !slip.readAt) {
+        await slips.updateOne(
+          { _id: new ObjectId(slipId), guardianId: auth0Id },
+          { $set: { readAt: new Date() } }
+        );
+      }
       return { success: true };
     }
     if (slip.readAt) {
@@ -351,15 +816,44 @@ export async function markInboxItemAsRead(
   }
 }
 
+/** Form questions only apply when the event asks for a permission slip */
+function getSlipFormFields(event: CalendarEvent | null): PermissionFormField[] {
+  return event?.requiresPermissionSlip ? event.permissionFormFields ?? [] : [];
+}
+
+/**
+ * Validates a parent's date selection for a per-date event. Returns the dates to store
+ * (undefined = all dates, for events that aren't charged per date).
+ */
+function resolveSelectedOccurrenceDates(
+  event: CalendarEvent,
+  selectedDates: string[] | undefined
+): { success: true; dates?: string[] } | { success: false; error: string } {
+  if (!isPerOccurrenceEvent(event) || selectedDates == null) {
+    return { success: true };
+  }
+  const eventDates = getEventOccurrenceDates(event);
+  const dates = [...new Set(selectedDates)].sort();
+  if (dates.some((d) => !eventDates.includes(d))) {
+    return { success: false, error: "One of the selected dates is not part of this event" };
+  }
+  if (dates.length === 0) {
+    return { success: false, error: "Please choose at least one date" };
+  }
+  return { success: true, dates };
+}
+
 /**
  * For payment-only events (no permission slip required): parent confirms payment method
- * without uploading a PDF. Marks slip as signed with the selected payment method.
+ * without uploading a PDF. Marks slip as signed with the selected payment method, or
+ * waitlisted when the event is full.
  */
 export async function submitPaymentMethodOnly(
   auth0Id: string,
   slipId: string,
-  paymentMethod: "online" | "cash"
-): Promise<{ success: true } | { success: false; error: string }> {
+  paymentMethod: "online" | "cash",
+  selectedDates?: string[]
+): Promise<{ success: true; waitlisted: boolean } | { success: false; error: string }> {
   if (!isDbConfigured()) {
     return { success: false, error: "Database not configured" };
   }
@@ -384,6 +878,10 @@ export async function submitPaymentMethodOnly(
       return { success: false, error: "Event not found" };
     }
 
+    if (event.status === "cancelled") {
+      return { success: false, error: "This event has been cancelled" };
+    }
+
     const effectiveCost = getEventEffectiveCost(event);
     if (!effectiveCost || effectiveCost <= 0) {
       return {
@@ -392,24 +890,35 @@ export async function submitPaymentMethodOnly(
       };
     }
 
-    const updateResult = await slips.updateOne(
-      { _id: new ObjectId(slipId), guardianId: auth0Id, status: "pending" },
-      {
-        $set: {
-          status: "signed",
-          signedAt: new Date(),
-          paymentMethod,
-        },
-      }
-    );
-    if (updateResult.matchedCount === 0) {
+    const selection = resolveSelectedOccurrenceDates(event, selectedDates);
+    if (!selection.success) {
+      return { success: false, error: selection.error };
+    }
+
+    const { found, waitlisted } = await submitIntoSpot(event, slip, async (waitlisted, now) => {
+      const updateResult = await slips.updateOne(
+        { _id: new ObjectId(slipId), guardianId: auth0Id, status: "pending" },
+        {
+          $set: {
+            ...(waitlisted
+              ? { status: "waitlisted" as const, waitlistedAt: now }
+              : { status: "signed" as const, signedAt: now }),
+            paymentMethod,
+            ...(selection.dates && { selectedOccurrenceDates: selection.dates }),
+          },
+          $unset: { resignRequestedAt: "" },
+        }
+      );
+      return updateResult.matchedCount > 0;
+    });
+    if (!found) {
       return {
         success: false,
         error: "Item not found or already completed",
       };
     }
 
-    return { success: true };
+    return { success: true, waitlisted };
   } catch (error) {
     console.error("[submitPaymentMethodOnly] Failed:", error);
     return { success: false, error: "Something went wrong. Please try again." };
@@ -417,14 +926,17 @@ export async function submitPaymentMethodOnly(
 }
 
 /**
- * Uploads a signed PDF and marks the permission slip as signed.
+ * Uploads a signed PDF and marks the permission slip as signed, or waitlisted when the
+ * event is full.
  */
 export async function uploadSignedPermissionSlip(
   auth0Id: string,
   slipId: string,
   pdfBase64: string,
-  paymentMethod?: "online" | "cash"
-): Promise<{ success: true } | { success: false; error: string }> {
+  paymentMethod?: "online" | "cash",
+  selectedDates?: string[],
+  responses?: PermissionFormResponses
+): Promise<{ success: true; waitlisted: boolean } | { success: false; error: string }> {
   if (!isDbConfigured()) {
     return { success: false, error: "Database not configured" };
   }
@@ -445,36 +957,162 @@ export async function uploadSignedPermissionSlip(
     }
     const events = await calendarEventsCollection();
     const event = await events.findOne({ _id: new ObjectId(slip.eventId) });
+    if (event?.status === "cancelled") {
+      return { success: false, error: "This event has been cancelled" };
+    }
     const effectiveCost = event ? getEventEffectiveCost(event) : undefined;
     const hasCost = effectiveCost != null && effectiveCost > 0;
     if (hasCost && !paymentMethod) {
       return { success: false, error: "Please select how you will pay (online or cash)" };
     }
+    const selection = event
+      ? resolveSelectedOccurrenceDates(event, selectedDates)
+      : { success: true as const };
+    if (!selection.success) {
+      return { success: false, error: selection.error };
+    }
+    const answers = validateFormResponses(getSlipFormFields(event), responses);
+    if (!answers.success) return { success: false, error: answers.error };
+
+    const hasAnswers = Object.keys(answers.responses).length > 0;
+    const { found, waitlisted } = await submitIntoSpot(event, slip, async (waitlisted, now) => {
+      const update: Record<string, unknown> = waitlisted
+        ? { status: "waitlisted", waitlistedAt: now, signedPdfBase64: pdfBase64 }
+        : { status: "signed", signedAt: now, signedPdfBase64: pdfBase64 };
+      if (paymentMethod) update.paymentMethod = paymentMethod;
+      if (selection.dates) update.selectedOccurrenceDates = selection.dates;
+      if (hasAnswers) update.formResponses = answers.responses;
+
+      const updateResult = await slips.updateOne(
+        { _id: new ObjectId(slipId), guardianId: auth0Id, status: "pending" },
+        {
+          $set: update,
+          $unset: hasAnswers
+            ? { resignRequestedAt: "" }
+            : { resignRequestedAt: "", formResponses: "" },
+        }
+      );
+      return updateResult.matchedCount > 0;
+    });
+    if (!found) {
+      return { success: false, error: "Permission slip not found or already signed" };
+    }
 
-    const update: Record<string, unknown> = {
-      status: "signed",
-      signedAt: new Date(),
-      signedPdfBase64: pdfBase64,
-    };
-    if (paymentMethod) update.paymentMethod = paymentMethod;
+    return { success: true, waitlisted };
+  } catch (error) {
+    console.error("[uploadSignedPermissionSlip] Failed:", error);
+    return { success: false, error: "Failed to upload. Please try again." };
+  }
+}
 
-    const updateResult = await slips.updateOne(
-      { _id: new ObjectId(slipId), guardianId: auth0Id, status: "pending" },
-      { $set: update }
+/**
+ * Signs a permission slip in the browser with a typed name and optional drawn signature.
+ * The form as the parent saw it is frozen into a hashed signature record. Marks the slip
+ * signed, or waitlisted when the event is full.
+ */
+export async function signPermissionSlip(
+  auth0Id: string,
+  slipId: string,
+  signature: SignatureInput,
+  paymentMethod?: "online" | "cash",
+  selectedDates?: string[],
+  responses?: PermissionFormResponses
+): Promise<{ success: true; waitlisted: boolean } | { success: false; error: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+
+  if (!/^[a-f0-9]{24}$/i.test(slipId)) {
+    return { success: false, error: "Permission slip not found or already signed" };
+  }
+  const signer = validateSignatureInput(signature);
+  if (!signer.success) return { success: false, error: signer.error };
+
+  try {
+    const slips = await eventPermissionSlipsCollection();
+    const slip = await slips.findOne({
+      _id: new ObjectId(slipId),
+      guardianId: auth0Id,
+      status: "pending",
+    });
+    if (!slip?.studentId) {
+      return { success: false, error: "Permission slip not found or already signed" };
+    }
+    const events = await calendarEventsCollection();
+    const event = await events.findOne({ _id: new ObjectId(slip.eventId) });
+    if (!event) return { success: false, error: "Event not found" };
+    if (event.status === "cancelled") {
+      return { success: false, error: "This event has been cancelled" };
+    }
+    if (!event.requiresPermissionSlip || !event.permissionFormPdfBase64) {
+      return { success: false, error: "There is no permission form to sign yet" };
+    }
+    const effectiveCost = getEventEffectiveCost(event);
+    if (effectiveCost != null && effectiveCost > 0 && !paymentMethod) {
+      return { success: false, error: "Please select how you will pay (online or cash)" };
+    }
+    const selection = resolveSelectedOccurrenceDates(event, selectedDates);
+    if (!selection.success) {
+      return { success: false, error: selection.error };
+    }
+    const answers = validateFormResponses(getSlipFormFields(event), responses);
+    if (!answers.success) return { success: false, error: answers.error };
+    const hasAnswers = Object.keys(answers.responses).length > 0;
+
+    const students = await studentsCollection();
+    const student = /^[a-f0-9]{24}$/i.test(slip.studentId)
+      ? await students.findOne({ _id: new ObjectId(slip.studentId) })
+      : null;
+    const { signatureId, signedPdfBase64 } = await recordSlipSignature(
+      event,
+      { ...slip, studentId: slip.studentId },
+      student?.name ?? "my child",
+      {
+        signerName: signer.signerName,
+        ...(signature.signatureImage && { signatureImage: signature.signatureImage }),
+      },
+      {
+        ...(paymentMethod && { paymentMethod }),
+        ...(selection.dates && { selectedOccurrenceDates: selection.dates }),
+        ...(hasAnswers && { responses: answers.responses }),
+      }
     );
-    if (updateResult.matchedCount === 0) {
+
+    const { found, waitlisted } = await submitIntoSpot(event, slip, async (waitlisted, now) => {
+      const update: Record<string, unknown> = waitlisted
+        ? { status: "waitlisted", waitlistedAt: now, signatureId }
+        : { status: "signed", signedAt: now, signatureId };
+      if (paymentMethod) update.paymentMethod = paymentMethod;
+      if (selection.dates) update.selectedOccurrenceDates = selection.dates;
+      if (hasAnswers) update.formResponses = answers.responses;
+      if (signedPdfBase64) update.signedPdfBase64 = signedPdfBase64;
+
+      // A slip sent back for re-signing still carries the previous copy and answers
+      const unset: Record<string, ""> = { resignRequestedAt: "" };
+      if (!hasAnswers) unset.formResponses = "";
+      if (!signedPdfBase64) unset.signedPdfBase64 = "";
+
+      const updateResult = await slips.updateOne(
+        { _id: new ObjectId(slipId), guardianId: auth0Id, status: "pending" },
+        { $set: update, $unset: unset }
+      );
+      return updateResult.matchedCount > 0;
+    });
+    if (!found) {
+      await discardSlipSignature(signatureId);
       return { success: false, error: "Permission slip not found or already signed" };
     }
 
-    return { success: true };
+    return { success: true, waitlisted };
   } catch (error) {
-    console.error("[uploadSignedPermissionSlip] Failed:", error);
-    return { success: false, error: "Failed to upload. Please try again." };
+    console.error("[signPermissionSlip] Failed:", error);
+    return { success: false, error: "Failed to sign. Please try again." };
   }
 }
 
 /**
- * Revokes a signed permission slip so the parent can re-upload a different PDF.
+ * Revokes a signed permission slip so the parent can re-upload a different PDF. Also takes a
+ * waitlisted slip off the waitlist. A freed spot goes to the next family on the waitlist.
  */
 export async function unsubmitPermissionSlip(
   auth0Id: string,
@@ -486,25 +1124,46 @@ export async function unsubmitPermissionSlip(
 
   try {
     const slips = await eventPermissionSlipsCollection();
-    const result = await slips.updateOne(
+    const slip = await slips.findOneAndUpdate(
       {
         _id: new ObjectId(slipId),
         guardianId: auth0Id,
-        status: "signed",
+        status: { $in: ["signed", "waitlisted"] },
+        paidAt: { $exists: false },
       },
       {
         $set: { status: "pending" },
         $unset: {
           signedAt: "",
           signedPdfBase64: "",
+          signatureId: "",
+          formResponses: "",
           paymentMethod: "",
           cashReceivedAt: "",
+          selectedOccurrenceDates: "",
+          refundIssuedAt: "",
+          waitlistedAt: "",
+          promotedFromWaitlistAt: "",
         },
       }
     );
 
-    if (result.matchedCount === 0) {
-      return { success: false, error: "Permission slip not found or not yet signed" };
+    if (!slip) {
+      const paid = await slips.countDocuments({
+        _id: new ObjectId(slipId),
+        guardianId: auth0Id,
+        paidAt: { $exists: true },
+      });
+      return {
+        success: false,
+        error: paid
+          ? "This has been paid online, so it can't be unsubmitted. Ask the teacher if something needs to change."
+          : "Permission slip not found or not yet signed",
+      };
+    }
+
+    if (slip.status === "signed") {
+      await promoteFromWaitlist(slip.eventId);
     }
 
     return { success: true };
@@ -515,7 +1174,8 @@ export async function unsubmitPermissionSlip(
 }
 
 /**
- * Teacher revokes a signed permission slip so the parent can resubmit.
+ * Teacher revokes a signed permission slip so the parent can resubmit, or removes a slip from
+ * the waitlist. A freed spot goes to the next family on the waitlist.
  */
 export async function unsubmitPermissionSlipForTeacher(
   teacherAuth0Id: string,
@@ -531,7 +1191,7 @@ export async function unsubmitPermissionSlipForTeacher(
     const classes = await classesCollection();
 
     const slip = await slips.findOne({ _id: new ObjectId(slipId) });
-    if (!slip || slip.status !== "signed") {
+    if (!slip || slip.status === "pending") {
       return { success: false, error: "Permission slip not found or not yet signed" };
     }
 
@@ -563,13 +1223,23 @@ export async function unsubmitPermissionSlipForTeacher(
           $unset: {
             signedAt: "",
             signedPdfBase64: "",
+            signatureId: "",
+            formResponses: "",
             paymentMethod: "",
             cashReceivedAt: "",
+            selectedOccurrenceDates: "",
+            refundIssuedAt: "",
+            waitlistedAt: "",
+            promotedFromWaitlistAt: "",
           },
         }
       );
     }
 
+    if (slip.status === "signed") {
+      await promoteFromWaitlist(slip.eventId);
+    }
+
     return { success: true };
   } catch (error) {
     console.error("[unsubmitPermissionSlipForTeacher] Failed:", error);
@@ -609,6 +1279,7 @@ export async function getEventPermissionSlipStatus(
     const eventMap = new Map(
       eventDocs.map((e) => [e._id?.toString(), e])
     );
+    const timeZones = await getSchoolTimeZones(eventDocs.map((e) => e.schoolId));
     const classIds = [
       ...new Set(
         eventDocs.flatMap((e) => {
@@ -651,11 +1322,19 @@ export async function getEventPermissionSlipStatus(
     const guardianMap = new Map(
       guardianDocs.map((u) => [u.auth0Id, u.name ?? u.email ?? "Unknown"])
     );
+    const signatureMap = await getSignatureSummaries(
+      allSlips.flatMap((s) => (s.signatureId ? [s.signatureId] : []))
+    );
+    const waiverDocs = await feeWaiversCollection().then((c) =>
+      c.find({ eventId: { $in: validIds } }).sort({ createdAt: 1 }).toArray()
+    );
+    const waiverMap = new Map(waiverDocs.map((w) => [`${w.eventId}:${w.studentId}`, w]));
 
-    const STATUS_ORDER: Record<"signed" | "pending" | "no_parent", number> = {
+    const STATUS_ORDER: Record<EventPermissionStatusByStudent["status"], number> = {
       signed: 0,
-      pending: 1,
-      no_parent: 2,
+      waitlisted: 1,
+      pending: 2,
+      no_parent: 3,
     };
 
     const result: EventPermissionStatus[] = [];
@@ -668,14 +1347,22 @@ export async function getEventPermissionSlipStatus(
       if (!event || !cls) continue;
 
       const eventSlips = allSlips.filter((s) => s.eventId === eventId);
-      const classStudentIds = cls.studentIds ?? [];
+      const classStudentIds = (cls.studentIds ?? []).filter((id) =>
+        isEventForStudent(event, id)
+      );
+      const perOccurrence = isPerOccurrenceEvent(event);
+      const eventDates = perOccurrence ? getEventOccurrenceDates(event) : [];
       const studentStatuses: EventPermissionStatusByStudent[] = [];
       let pendingCount = 0;
       let signedCount = 0;
+      const waitlist = eventSlips
+        .filter((s) => s.status === "waitlisted")
+        .sort((a, b) => (a.waitlistedAt?.getTime() ?? 0) - (b.waitlistedAt?.getTime() ?? 0));
 
       for (const studentId of classStudentIds) {
         const student = studentMap.get(studentId);
         const studentSlips = eventSlips.filter((s) => s.studentId === studentId);
+        const waiver = waiverMap.get(`${eventId}:${studentId}`);
 
         if (studentSlips.length === 0) {
           studentStatuses.push({
@@ -688,9 +1375,14 @@ export async function getEventPermissionSlipStatus(
         }
 
         const signedSlip = studentSlips.find((s) => s.status === "signed");
-        const status: "pending" | "signed" = signedSlip ? "signed" : "pending";
+        const waitlistedSlip = signedSlip
+          ? undefined
+          : studentSlips.find((s) => s.status === "waitlisted");
+        const status = signedSlip ? "signed" : waitlistedSlip ? "waitlisted" : "pending";
+        const pendingSlip =
+          status === "pending" ? studentSlips.find((s) => s.status === "pending") : undefined;
         if (status === "signed") signedCount++;
-        else pendingCount++;
+        else if (status === "pending") pendingCount++;
 
         const signedBy = signedSlip
           ? cls.teacherIds?.includes(signedSlip.guardianId)
@@ -705,22 +1397,87 @@ export async function getEventPermissionSlipStatus(
           signedSlip?.paymentMethod ??
           (isTeacherUploaded ? "cash" : undefined);
         const cashReceived = Boolean(signedSlip?.cashReceivedAt);
+        const guardianNames = [
+          ...new Set(
+            studentSlips
+              .filter((s) => !cls.teacherIds?.includes(s.guardianId))
+              .flatMap((s) => guardianMap.get(s.guardianId) ?? [])
+          ),
+        ];
+        const selectedOccurrenceDates =
+          perOccurrence && signedSlip
+            ? signedSlip.selectedOccurrenceDates ?? eventDates
+            : undefined;
+
+        if (waitlistedSlip) {
+          studentStatuses.push({
+            studentId,
+            studentName: student?.name ?? "Unknown",
+            status,
+            signedBy: guardianMap.get(waitlistedSlip.guardianId),
+            guardianNames,
+            signedAt: waitlistedSlip.signedAt?.toISOString(),
+            slipId: waitlistedSlip._id?.toString(),
+            paymentMethod: waitlistedSlip.paymentMethod,
+            waitlistPosition: waitlist.indexOf(waitlistedSlip) + 1,
+            eSignature: waitlistedSlip.signatureId
+              ? signatureMap.get(waitlistedSlip.signatureId)
+              : undefined,
+            formResponses: waitlistedSlip.formResponses,
+          });
+          continue;
+        }
 
         studentStatuses.push({
           studentId,
           studentName: student?.name ?? "Unknown",
           status,
           signedBy,
+          guardianNames,
+          signedAt: signedSlip?.signedAt?.toISOString(),
           slipId,
           paymentMethod,
           cashReceived,
+          cashReceivedAt: signedSlip?.cashReceivedAt?.toISOString(),
+          paidAt: signedSlip?.paidAt?.toISOString(),
+          paymentIntentId: signedSlip?.paymentIntentId,
+          selectedOccurrenceDates,
+          amountDue: signedSlip
+            ? getEventEffectiveCost(event, selectedOccurrenceDates)
+            : undefined,
+          refundOwed: signedSlip ? await getRefundOwed(event, signedSlip) : undefined,
+          refundIssued: Boolean(signedSlip?.refundIssuedAt),
+          eSignature: signedSlip?.signatureId
+            ? signatureMap.get(signedSlip.signatureId)
+            : undefined,
+          formResponses: signedSlip?.formResponses,
+          lastRemindedAt: pendingSlip?.reminders?.at(-1)?.sentAt.toISOString(),
+          overdueFlagged: pendingSlip ? Boolean(pendingSlip.overdueFlaggedAt) : undefined,
+          resignRequired: status === "pending" ? studentSlips.some(holdsSpot) : undefined,
+          feeAssistance: waiver && {
+            status: waiver.status,
+            requestedAmount: waiver.requestedAmount,
+            approvedAmount: waiver.approvedAmount,
+          },
         });
       }
 
       const sortedStudents = [...studentStatuses].sort(
-        (a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status]
+        (a, b) =>
+          STATUS_ORDER[a.status] - STATUS_ORDER[b.status] ||
+          (a.waitlistPosition ?? 0) - (b.waitlistPosition ?? 0)
       );
 
+      const occurrenceHeadcounts = perOccurrence
+        ? eventDates.map((date) => {
+            const studentNames = studentStatuses
+              .filter((s) => s.selectedOccurrenceDates?.includes(date))
+              .map((s) => s.studentName)
+              .sort((a, b) => a.localeCompare(b));
+            return { date, count: studentNames.length, studentNames };
+          })
+        : undefined;
+
       result.push({
         eventId,
         eventTitle: event.title,
@@ -730,6 +1487,15 @@ export async function getEventPermissionSlipStatus(
         students: sortedStudents,
         pendingCount,
         signedCount,
+        capacity: event.capacity,
+        cost: getEventEffectiveCost(event),
+        waitlistedCount: studentStatuses.filter((s) => s.status === "waitlisted").length,
+        eventStatus: event.status ?? "scheduled",
+        dueDate: getEffectiveDueDate(event),
+        pastDue: isPastDueDate(getEffectiveDueDate(event), timeZones.get(event.schoolId)!),
+        slipEscalation: event.slipEscalation,
+        occurrenceHeadcounts,
+        formFields: event.permissionFormFields?.length ? event.permissionFormFields : undefined,
       });
     }
 
@@ -782,6 +1548,9 @@ export async function uploadPermissionSlipForStudent(
     if (eventClassId && eventClassId !== classId) {
       return { success: false, error: "Event class mismatch" };
     }
+    if (!isEventForStudent(event, studentId)) {
+      return { success: false, error: "This event isn't for this student" };
+    }
     const effectiveCost = getEventEffectiveCost(event);
     const hasCost = effectiveCost != null && effectiveCost > 0;
     const resolvedPaymentMethod =
@@ -804,9 +1573,10 @@ export async function uploadPermissionSlipForStudent(
     if (resolvedPaymentMethod) slipData.paymentMethod = resolvedPaymentMethod;
 
     if (existingSlip) {
+      // Teachers can add a student past capacity, which also takes them off the waitlist
       await slips.updateOne(
         { _id: existingSlip._id },
-        { $set: slipData }
+        { $set: slipData, $unset: { waitlistedAt: "" } }
       );
     } else {
       await slips.insertOne({
@@ -867,6 +1637,9 @@ export async function recordPaymentMethodForStudent(
     if (eventClassId && eventClassId !== classId) {
       return { success: false, error: "Event class mismatch" };
     }
+    if (!isEventForStudent(event, studentId)) {
+      return { success: false, error: "This event isn't for this student" };
+    }
     const effectiveCost = getEventEffectiveCost(event);
     if (!effectiveCost || effectiveCost <= 0) {
       return { success: false, error: "Event has no cost" };
@@ -889,9 +1662,10 @@ export async function recordPaymentMethodForStudent(
     };
 
     if (existingSlip) {
+      // Teachers can add a student past capacity, which also takes them off the waitlist
       await slips.updateOne(
         { _id: existingSlip._id },
-        { $set: slipData }
+        { $set: slipData, $unset: { waitlistedAt: "" } }
       );
     } else {
       await slips.insertOne({
@@ -969,3 +1743,55 @@ export async function markCashReceived(
     return { success: false, error: "Failed to update. Please try again." };
   }
 }
+
+/**
+ * Teacher marks a refund as given back (or toggles off) for a paid slip on a cancelled event.
+ */
+export async function markRefundIssued(
+  teacherAuth0Id: string,
+  slipId: string,
+  issued: boolean
+): Promise<{ success: true } | { success: false; error: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+
+  try {
+    const slips = await eventPermissionSlipsCollection();
+    const slip = await slips.findOne({ _id: new ObjectId(slipId) });
+    if (!slip) {
+      return { success: false, error: "Permission slip not found" };
+    }
+
+    const classes = await classesCollection();
+    const cls = await classes.findOne({
+      _id: new ObjectId(slip.classId),
+    });
+    if (!cls || !cls.teacherIds?.includes(teacherAuth0Id)) {
+      return { success: false, error: "Class not found or access denied" };
+    }
+
+    const events = await calendarEventsCollection();
+    const event = await events.findOne({ _id: new ObjectId(slip.eventId) });
+    if (!event || (await getRefundOwed(event, slip)) == null) {
+      return { success: false, error: "No refund is owed for this slip" };
+    }
+
+    if (issued) {
+      await slips.updateOne(
+        { _id: new ObjectId(slipId) },
+        { $set: { refundIssuedAt: new Date() } }
+      );
+    } else {
+      await slips.updateOne(
+        { _id: new ObjectId(slipId) },
+        { $unset: { refundIssuedAt: "" } }
+      );
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("[markRefundIssued] Failed:", error);
+    return { success: false, error: "Failed to update. Please try again." };
+  }
+}
@@ -0,0 +1,259 @@
+import type { AnyBulkWriteOperation } from "mongodb";
+import {
+  eventPermissionSlipsCollection,
+  eventRevisionsCollection,
+  usersCollection,
+} from "./db/collections";
+import type {
+  CalendarEvent,
+  EventFieldChange,
+  EventPermissionSlip,
+  EventRevisionField,
+} from "./db/types";
+import { isDbConfigured } from "./db";
+
+/** Serialized for passing to Client Components */
+export interface EventRevisionSerialized {
+  id: string;
+  changedAt: string;
+  changedByName: string;
+  summary: string[];
+  material: boolean;
+  resignRequired: boolean;
+}
+
+const FIELD_LABELS: Record<EventRevisionField, string> = {
+  title: "Title",
+  description: "Description",
+  startAt: "Starts",
+  endAt: "Ends",
+  occurrenceDates: "Dates",
+  cost: "Cost",
+  costPerOccurrence: "Cost per date",
+  permissionSlipDueDate: "Due date",
+  requiresPermissionSlip: "Permission slip",
+  capacity: "Spots",
+  permissionForm: "Permission form",
+};
+
+/** Changes parents need to hear about: when, how much, by when, and what they're signing */
+const MATERIAL_FIELDS = new Set<EventRevisionField>([
+  "startAt",
+  "endAt",
+  "occurrenceDates",
+  "cost",
+  "costPerOccurrence",
+  "permissionSlipDueDate",
+  "permissionForm",
+]);
+
+function formatDateTime(value: string): string {
+  const d = new Date(value);
+  if (isNaN(d.getTime())) return value;
+  const date = d.toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+  if (value.endsWith("T00:00:00") || value.endsWith("T23:59:59")) return date;
+  return `${date}, ${d.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })}`;
+}
+
+function formatDay(date: string): string {
+  return new Date(date + "T12:00:00").toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  });
+}
+
+function formatValue(field: EventRevisionField, value: unknown): string | null {
+  if (value == null || value === "") return null;
+  switch (field) {
+    case "startAt":
+    case "endAt":
+      return formatDateTime(String(value));
+    case "cost":
+    case "costPerOccurrence":
+      return `$${Number(value).toFixed(2)}`;
+    case "permissionSlipDueDate":
+      return formatDay(String(value));
+    case "requiresPermissionSlip":
+      return value ? "Required" : "Not required";
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Compares an event with a pending update (null = field cleared) and returns what changed.
+ * For occurrenceDates, `from` lists removed dates and `to` lists added dates.
+ */
+export function diffEventFields(
+  before: CalendarEvent,
+  update: Record<string, unknown>
+): EventFieldChange[] {
+  const changes: EventFieldChange[] = [];
+  const fields: EventRevisionField[] = [
+    "title",
+    "description",
+    "startAt",
+    "endAt",
+    "occurrenceDates",
+    "cost",
+    "costPerOccurrence",
+    "permissionSlipDueDate",
+    "requiresPermissionSlip",
+    "capacity",
+  ];
+
+  for (const field of fields) {
+    if (!(field in update)) continue;
+    const prev = before[field as keyof CalendarEvent];
+    const next = update[field];
+
+    if (field === "occurrenceDates") {
+      const prevDates = (prev as string[] | undefined) ?? [];
+      const nextDates = (next as string[] | null) ?? [];
+      const removed = prevDates.filter((d) => !nextDates.includes(d));
+      const added = nextDates.filter((d) => !prevDates.includes(d));
+      if (removed.length > 0 || added.length > 0) {
+        changes.push({
+          field,
+          from: removed.length > 0 ? removed.map(formatDay).join(", ") : null,
+          to: added.length > 0 ? added.map(formatDay).join(", ") : null,
+        });
+      }
+      continue;
+    }
+
+    const from = formatValue(field, prev);
+    const to = formatValue(field, next);
+    if (from !== to) changes.push({ field, from, to });
+  }
+  return changes;
+}
+
+/** One line per change, e.g. "Cost: $10.00 → $12.00" */
+export function describeEventChange(change: EventFieldChange): string {
+  const label = FIELD_LABELS[change.field];
+  if (change.field === "occurrenceDates") {
+    const parts = [
+      change.to && `added ${change.to}`,
+      change.from && `removed ${change.from}`,
+    ].filter(Boolean);
+    return `${label}: ${parts.join("; ")}`;
+  }
+  if (change.field === "permissionForm") {
+    return `${label}: a new version was uploaded`;
+  }
+  if (change.field === "description") {
+    return `${label} updated`;
+  }
+  return `${label}: ${change.from ?? "none"} → ${change.to ?? "none"}`;
+}
+
+/**
+ * Saves a revision for an event edit. When a material field changed, every slip for the event
+ * gets a change notice and goes back to unread so parents see what changed.
+ */
+export async function recordEventRevision(
+  event: CalendarEvent,
+  changedBy: string,
+  changes: EventFieldChange[],
+  options: { resignRequired?: boolean } = {}
+): Promise<void> {
+  if (!isDbConfigured() || changes.length === 0) return;
+
+  const eventId = event._id?.toString();
+  if (!eventId) return;
+
+  try {
+    const changedAt = new Date();
+    const material = changes.some((c) => MATERIAL_FIELDS.has(c.field));
+    const revisions = await eventRevisionsCollection();
+    const { insertedId } = await revisions.insertOne({
+      eventId,
+      changedBy,
+      changedAt,
+      changes,
+      material,
+      ...(options.resignRequired && { resignRequired: true }),
+    });
+
+    if (!material) return;
+
+    const summary = changes
+      .filter((c) => MATERIAL_FIELDS.has(c.field))
+      .map(describeEventChange);
+    const slips = await eventPermissionSlipsCollection();
+    const eventSlips = await slips.find({ eventId }).toArray();
+    const ops: AnyBulkWriteOperation<EventPermissionSlip>[] = eventSlips.map((slip) => {
+      // Parent hasn't seen the previous notice yet - keep its lines too
+      const pending =
+        slip.changeNotice && !slip.changeNotice.readAt ? slip.changeNotice : undefined;
+      return {
+        updateOne: {
+          filter: { _id: slip._id },
+          update: {
+            $set: {
+              changeNotice: {
+                revisionId: insertedId.toString(),
+                summary: [...(pending?.summary ?? []), ...summary],
+                changedAt,
+                ...((options.resignRequired || pending?.resignRequired) && {
+                  resignRequired: true,
+                }),
+              },
+            },
+            $unset: { readAt: "" },
+          },
+        },
+      };
+    });
+    if (ops.length > 0) await slips.bulkWrite(ops);
+  } catch (error) {
+    // The edit itself already succeeded; a missing history entry shouldn't fail it
+    console.error("[recordEventRevision] Failed:", error);
+  }
+}
+
+/**
+ * Fetches edit history for events, newest first, keyed by eventId. Used by teacher dashboard.
+ */
+export async function getEventRevisions(
+  eventIds: string[]
+): Promise<Record<string, EventRevisionSerialized[]>> {
+  if (!isDbConfigured() || eventIds.length === 0) return {};
+
+  try {
+    const revisions = await eventRevisionsCollection();
+    const docs = await revisions
+      .find({ eventId: { $in: eventIds } })
+      .sort({ changedAt: -1 })
+      .toArray();
+    if (docs.length === 0) return {};
+
+    const users = await usersCollection();
+    const authorIds = [...new Set(docs.map((r) => r.changedBy))];
+    const authorDocs = await users.find({ auth0Id: { $in: authorIds } }).toArray();
+    const authorNames = new Map(
+      authorDocs.map((u) => [u.auth0Id, u.name ?? u.email ?? "Teacher"])
+    );
+
+    const result: Record<string, EventRevisionSerialized[]> = {};
+    for (const rev of docs) {
+      (result[rev.eventId] ??= []).push({
+        id: rev._id?.toString() ?? "",
+        changedAt: rev.changedAt.toISOString(),
+        changedByName: authorNames.get(rev.changedBy) ?? "Teacher",
+        summary: rev.changes.map(describeEventChange),
+        material: rev.material,
+        resignRequired: rev.resignRequired ?? false,
+      });
+    }
+    return result;
+  } catch (error) {
+    console.error("[getEventRevisions] Failed:", error);
+    return {};
+  }
+}
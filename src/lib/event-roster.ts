@@ -0,0 +1,394 @@
+import { ObjectId } from "mongodb";
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "pdf-lib";
+import { calendarEventsCollection, classesCollection } from "./db/collections";
+import { isDbConfigured } from "./db";
+import { getEventPermissionSlipStatus, type EventPermissionStatus } from "./event-permission-slips";
+import { encodable } from "./pdf-stamp";
+import { getSchoolTimeZone } from "./schools";
+import { getZonedToday, toZonedLocal } from "./timezone";
+import { toCsv } from "./csv";
+
+/** One event, or every paid or permission-slip event for a class (optionally within a term) */
+export type RosterScope =
+  | { eventId: string }
+  | { classId: string; from?: string; to?: string };
+
+export interface RosterExport {
+  /** e.g. "Zoo trip" or "Grade 3 - Sep 2 to Dec 19, 2026" */
+  title: string;
+  /** Prefix for download file names */
+  fileName: string;
+  timeZone: string;
+  events: EventPermissionStatus[];
+}
+
+const STATUS_LABELS = {
+  signed: "Submitted",
+  waitlisted: "Waitlisted",
+  pending: "Not submitted",
+  no_parent: "No parent linked",
+} as const;
+
+const COLUMNS = [
+  "Event",
+  "Event date",
+  "Class",
+  "Student",
+  "Parent/guardian",
+  "Slip status",
+  "Signed at",
+  "Payment method",
+  "Cash received",
+  "Amount owed",
+] as const;
+/** Only in confidential exports: fee waivers are private to the family, teacher and admin */
+const FEE_ASSISTANCE_COLUMN = "Fee assistance";
+type Column = (typeof COLUMNS)[number] | typeof FEE_ASSISTANCE_COLUMN;
+
+function getColumns(confidential: boolean): Column[] {
+  return confidential ? [...COLUMNS, FEE_ASSISTANCE_COLUMN] : [...COLUMNS];
+}
+
+function isDateString(value: string | undefined): value is string {
+  return value != null && /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+function formatDay(date: string): string {
+  return new Date(`${date}T12:00:00`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function toFileName(text: string): string {
+  return text.replace(/[^a-z0-9]+/gi, "-").replace(/^-|-$/g, "").toLowerCase() || "roster";
+}
+
+/**
+ * Loads what an export covers after checking the user teaches the class. Cancelled events
+ * stay in so refunds can be reconciled; events the admin rejected are left out.
+ */
+export async function getRosterExport(
+  auth0Id: string,
+  scope: RosterScope
+): Promise<{ success: true; roster: RosterExport } | { success: false; error: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+  const id = "eventId" in scope ? scope.eventId : scope.classId;
+  if (!/^[a-f0-9]{24}$/i.test(id)) {
+    return { success: false, error: "eventId" in scope ? "Event not found" : "Class not found" };
+  }
+  if (!("eventId" in scope) && [scope.from, scope.to].some((d) => d && !isDateString(d))) {
+    return { success: false, error: "Dates must be YYYY-MM-DD" };
+  }
+
+  try {
+    const events = await calendarEventsCollection();
+    const classes = await classesCollection();
+
+    if ("eventId" in scope) {
+      const event = await events.findOne({ _id: new ObjectId(scope.eventId) });
+      if (!event?.classId) return { success: false, error: "Event not found" };
+      const cls = await classes.findOne({ _id: new ObjectId(event.classId) });
+      if (!cls?.teacherIds?.includes(auth0Id)) {
+        return { success: false, error: "You don't have access to this event" };
+      }
+      return {
+        success: true,
+        roster: {
+          title: event.title,
+          fileName: toFileName(event.title),
+          timeZone: await getSchoolTimeZone(event.schoolId),
+          events: await getEventPermissionSlipStatus([scope.eventId]),
+        },
+      };
+    }
+
+    const cls = await classes.findOne({ _id: new ObjectId(scope.classId) });
+    if (!cls) return { success: false, error: "Class not found" };
+    if (!cls.teacherIds?.includes(auth0Id)) {
+      return { success: false, error: "You don't have access to this class" };
+    }
+    const startAt: Record<string, string> = {};
+    if (scope.from) startAt.$gte = scope.from;
+    if (scope.to) startAt.$lte = `${scope.to}T23:59:59`;
+    const eventDocs = await events
+      .find({
+        classId: scope.classId,
+        approvalStatus: { $ne: "rejected" },
+        $or: [
+          { requiresPermissionSlip: true },
+          { cost: { $gt: 0 } },
+          { costPerOccurrence: { $gt: 0 } },
+        ],
+        ...(Object.keys(startAt).length > 0 && { startAt }),
+      })
+      .sort({ startAt: 1 })
+      .toArray();
+    const statuses = await getEventPermissionSlipStatus(
+      eventDocs.flatMap((e) => (e._id ? [e._id.toString()] : []))
+    );
+
+    const range =
+      scope.from && scope.to
+        ? ` - ${formatDay(scope.from)} to ${formatDay(scope.to)}`
+        : scope.from
+          ? ` - from ${formatDay(scope.from)}`
+          : scope.to
+            ? ` - to ${formatDay(scope.to)}`
+            : "";
+    return {
+      success: true,
+      roster: {
+        title: `${cls.name}${range}`,
+        fileName: toFileName(`${cls.name} ${scope.from ?? ""} ${scope.to ?? ""}`),
+        timeZone: await getSchoolTimeZone(cls.schoolId),
+        events: statuses,
+      },
+    };
+  } catch (error) {
+    console.error("[getRosterExport] Failed:", error);
+    return { success: false, error: "Failed to load the roster" };
+  }
+}
+
+/**
+ * What a student owes for an event; nothing once it's cancelled (refunds are tracked apart).
+ * Approved fee waivers only come off in confidential exports, so the others don't give
+ * them away.
+ */
+function getAmountOwed(
+  event: EventPermissionStatus,
+  student: EventPermissionStatus["students"][number],
+  confidential: boolean
+): number | undefined {
+  if (event.eventStatus === "cancelled") return undefined;
+  const amount = student.status === "signed" ? student.amountDue : event.cost;
+  const waived =
+    confidential && student.feeAssistance?.status === "approved"
+      ? student.feeAssistance.approvedAmount ?? 0
+      : 0;
+  return amount != null ? Math.max(Math.round((amount - waived) * 100) / 100, 0) : undefined;
+}
+
+function describeFeeAssistance(student: EventPermissionStatus["students"][number]): string {
+  const request = student.feeAssistance;
+  if (!request) return "";
+  if (request.status === "approved") return `Approved $${(request.approvedAmount ?? 0).toFixed(2)}`;
+  if (request.status === "denied") return "Declined";
+  return `Requested $${request.requestedAmount.toFixed(2)}`;
+}
+
+function formatTimestamp(iso: string | undefined, timeZone: string): string {
+  return iso ? toZonedLocal(new Date(iso), timeZone).slice(0, 16).replace("T", " ") : "";
+}
+
+function toRows(roster: RosterExport, confidential: boolean): string[][] {
+  return roster.events.flatMap((event) =>
+    event.students.map((student) => {
+      const owed = getAmountOwed(event, student, confidential);
+      return [
+        event.eventTitle + (event.eventStatus === "cancelled" ? " (cancelled)" : ""),
+        event.eventStartAt.slice(0, 10),
+        event.className,
+        student.studentName,
+        (student.guardianNames ?? []).join("; "),
+        STATUS_LABELS[student.status],
+        formatTimestamp(student.signedAt, roster.timeZone),
+        student.paymentMethod === "online"
+          ? student.paidAt
+            ? "Online (paid)"
+            : "Online (unpaid)"
+          : student.paymentMethod === "cash"
+            ? "Cash"
+            : "",
+        formatTimestamp(student.cashReceivedAt, roster.timeZone).slice(0, 10),
+        owed != null ? owed.toFixed(2) : "",
+        ...(confidential ? [describeFeeAssistance(student)] : []),
+      ];
+    })
+  );
+}
+
+/** Spreadsheet version: one row per student per event */
+function renderRosterCsv(roster: RosterExport, confidential: boolean): string {
+  return toCsv([getColumns(confidential), ...toRows(roster, confidential)]);
+}
+
+const PAGE_SIZE: [number, number] = [792, 612];
+const MARGIN = 36;
+const TEXT_SIZE = 8;
+const ROW_HEIGHT = 13;
+/** Column widths in points for the PDF table; event details go in each section's heading */
+const PDF_COLUMNS: [Column, number][] = [
+  ["Student", 130],
+  ["Parent/guardian", 160],
+  ["Slip status", 80],
+  ["Signed at", 85],
+  ["Payment method", 70],
+  ["Cash received", 70],
+  ["Amount owed", 60],
+];
+const CONFIDENTIAL_PDF_COLUMNS: [Column, number][] = [
+  ...PDF_COLUMNS,
+  [FEE_ASSISTANCE_COLUMN, 65],
+];
+const TEXT_COLOR = rgb(0.09, 0.09, 0.11);
+const MUTED_COLOR = rgb(0.45, 0.45, 0.48);
+const RULE_COLOR = rgb(0.85, 0.85, 0.87);
+
+/** Cuts text down to fit a column, ending in "..." when it had to be shortened */
+function fitText(font: PDFFont, text: string, width: number, size = TEXT_SIZE): string {
+  const safe = encodable(font, text);
+  if (font.widthOfTextAtSize(safe, size) <= width) return safe;
+  let cut = safe;
+  while (cut.length > 0 && font.widthOfTextAtSize(`${cut}...`, size) > width) {
+    cut = cut.slice(0, -1);
+  }
+  return `${cut}...`;
+}
+
+/**
+ * Printable version: a section per event with its headcount and money totals, then a table
+ * of students. Long rosters carry on over as many landscape pages as needed.
+ */
+async function renderRosterPdf(roster: RosterExport, confidential: boolean): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const rows = toRows(roster, confidential);
+  const pdfColumns = confidential ? CONFIDENTIAL_PDF_COLUMNS : PDF_COLUMNS;
+  let page: PDFPage = pdf.addPage(PAGE_SIZE);
+  let top = PAGE_SIZE[1] - MARGIN;
+
+  function ensureSpace(height: number) {
+    if (top - height < MARGIN) {
+      page = pdf.addPage(PAGE_SIZE);
+      top = PAGE_SIZE[1] - MARGIN;
+    }
+  }
+
+  function drawRow(cells: string[], rowFont: PDFFont, color = TEXT_COLOR) {
+    ensureSpace(ROW_HEIGHT);
+    let x = MARGIN;
+    pdfColumns.forEach(([, width], i) => {
+      page.drawText(fitText(rowFont, cells[i], width - 6), {
+        x,
+        y: top - TEXT_SIZE - 2,
+        size: TEXT_SIZE,
+        font: rowFont,
+        color,
+      });
+      x += width;
+    });
+    top -= ROW_HEIGHT;
+    page.drawLine({
+      start: { x: MARGIN, y: top + 1 },
+      end: { x: PAGE_SIZE[0] - MARGIN, y: top + 1 },
+      thickness: 0.5,
+      color: RULE_COLOR,
+    });
+  }
+
+  page.drawText(encodable(bold, `Roster and payments: ${roster.title}`), {
+    x: MARGIN,
+    y: top - 14,
+    size: 14,
+    font: bold,
+    color: TEXT_COLOR,
+  });
+  top -= 20;
+  const printed = `Printed ${formatDay(getZonedToday(roster.timeZone))}`;
+  page.drawText(
+    encodable(
+      font,
+      confidential ? `${printed} · CONFIDENTIAL: includes fee assistance, do not share` : printed
+    ),
+    { x: MARGIN, y: top - TEXT_SIZE, size: TEXT_SIZE, font, color: MUTED_COLOR }
+  );
+  top -= 22;
+
+  if (roster.events.length === 0) {
+    page.drawText("No events with permission slips or payments.", {
+      x: MARGIN,
+      y: top - 10,
+      size: 10,
+      font,
+      color: MUTED_COLOR,
+    });
+  }
+
+  const columns = getColumns(confidential);
+  const columnIndexes = pdfColumns.map(([name]) => columns.indexOf(name));
+  let rowIndex = 0;
+  for (const event of roster.events) {
+    const eventRows = rows.slice(rowIndex, rowIndex + event.students.length);
+    rowIndex += event.students.length;
+
+    const owed = event.students.reduce(
+      (sum, s) => sum + (getAmountOwed(event, s, confidential) ?? 0),
+      0
+    );
+    const cashIn = event.students.reduce(
+      (sum, s) => sum + (s.cashReceived ? getAmountOwed(event, s, confidential) ?? 0 : 0),
+      0
+    );
+    const summary = [
+      `${event.signedCount} of ${event.students.length} submitted`,
+      event.waitlistedCount > 0 && `${event.waitlistedCount} waitlisted`,
+      owed > 0 && `$${owed.toFixed(2)} owed`,
+      cashIn > 0 && `$${cashIn.toFixed(2)} cash received`,
+    ].filter(Boolean);
+
+    // Keep a heading with at least its column names and first row
+    ensureSpace(ROW_HEIGHT * 4);
+    const heading = event.eventTitle + (event.eventStatus === "cancelled" ? " (cancelled)" : "");
+    page.drawText(fitText(bold, heading, PAGE_SIZE[0] - MARGIN * 2, 11), {
+      x: MARGIN,
+      y: top - 11,
+      size: 11,
+      font: bold,
+      color: TEXT_COLOR,
+    });
+    top -= 15;
+    page.drawText(
+      encodable(font, `${event.className} · ${formatDay(event.eventStartAt.slice(0, 10))} · ${summary.join(" · ")}`),
+      { x: MARGIN, y: top - TEXT_SIZE, size: TEXT_SIZE, font, color: MUTED_COLOR }
+    );
+    top -= 16;
+    drawRow(pdfColumns.map(([name]) => name), bold, MUTED_COLOR);
+    for (const row of eventRows) {
+      drawRow(columnIndexes.map((i) => row[i]), font);
+    }
+    top -= 14;
+  }
+
+  return Buffer.from(await pdf.save());
+}
+
+/**
+ * The export as a download: CSV for spreadsheets, PDF for printing. Confidential exports add
+ * fee assistance and take approved waivers off what's owed; only offer them to teachers.
+ */
+export async function renderRosterFile(
+  roster: RosterExport,
+  format: "csv" | "pdf",
+  confidential = false
+): Promise<{ filename: string; contentType: string; body: string | Uint8Array }> {
+  const filename = `roster-${roster.fileName}${confidential ? "-confidential" : ""}.${format}`;
+  if (format === "csv") {
+    // The byte-order mark makes Excel read the file as UTF-8
+    return {
+      filename,
+      contentType: "text/csv; charset=utf-8",
+      body: `\uFEFF${renderRosterCsv(roster, confidential)}`,
+    };
+  }
+  return {
+    filename,
+    contentType: "application/pdf",
+    body: new Uint8Array(await renderRosterPdf(roster, confidential)),
+  };
+}
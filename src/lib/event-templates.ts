@@ -0,0 +1,253 @@
+import { ObjectId } from "mongodb";
+import {
+  calendarEventsCollection,
+  classesCollection,
+  eventTemplatesCollection,
+} from "./db/collections";
+import type { EventTemplate, EventTemplateScope, PermissionFormField } from "./db/types";
+import { isDbConfigured } from "./db";
+
+const MAX_TEMPLATES_PER_TEACHER = 50;
+
+/** Serialized for Client Components. The permission form PDF stays on the server. */
+export interface EventTemplateSerialized {
+  id: string;
+  name: string;
+  scope: EventTemplateScope;
+  /** The current teacher saved it (and can delete it) */
+  isOwner: boolean;
+  schoolId: string;
+  title: string;
+  description?: string;
+  startTime?: string;
+  endTime?: string;
+  durationDays: number;
+  requiresPermissionSlip: boolean;
+  cost?: number;
+  dueDateOffsetDays?: number;
+  capacity?: number;
+  volunteerRoles: { name: string; needed: number }[];
+  permissionFormFields: Omit<PermissionFormField, "key">[];
+  hasPermissionForm: boolean;
+}
+
+function daysBetween(from: string, to: string): number {
+  const ms = Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`);
+  return Math.round(ms / 86_400_000);
+}
+
+async function getTeacherSchoolIds(auth0Id: string): Promise<string[]> {
+  const classes = await classesCollection();
+  const teacherClasses = await classes.find({ teacherIds: auth0Id }).toArray();
+  return [...new Set(teacherClasses.map((c) => c.schoolId))];
+}
+
+/**
+ * Saves an event's setup as a template: title, description, times, cost, due-date offset,
+ * spots, volunteer roles and the uploaded permission form with its questions. Dates are stored relative to the
+ * start so the template can be reused in any year.
+ */
+export async function saveEventAsTemplate(
+  auth0Id: string,
+  eventId: string,
+  name: string,
+  scope: EventTemplateScope
+): Promise<{ success: true; templateId: string } | { success: false; error: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+  const trimmedName = name.trim();
+  if (!trimmedName) return { success: false, error: "Template name is required" };
+  if (trimmedName.length > 100) return { success: false, error: "Template name is too long" };
+  if (scope !== "teacher" && scope !== "school") {
+    return { success: false, error: "Invalid template sharing" };
+  }
+  if (!/^[a-f0-9]{24}$/i.test(eventId)) {
+    return { success: false, error: "Event not found" };
+  }
+
+  try {
+    const events = await calendarEventsCollection();
+    const classes = await classesCollection();
+    const event = await events.findOne({ _id: new ObjectId(eventId) });
+    if (!event) return { success: false, error: "Event not found" };
+
+    const teacherClasses = await classes.find({ teacherIds: auth0Id }).toArray();
+    const teacherSchoolIds = new Set(teacherClasses.map((c) => c.schoolId));
+    const teacherClassIds = new Set(
+      teacherClasses
+        .map((c) => c._id?.toString())
+        .filter((id): id is string => Boolean(id))
+    );
+    if (
+      !teacherSchoolIds.has(event.schoolId) ||
+      (event.classId && !teacherClassIds.has(event.classId))
+    ) {
+      return { success: false, error: "You don't have access to this event" };
+    }
+
+    const templates = await eventTemplatesCollection();
+    const ownedCount = await templates.countDocuments({ ownerId: auth0Id });
+    if (ownedCount >= MAX_TEMPLATES_PER_TEACHER) {
+      return {
+        success: false,
+        error: `You can save up to ${MAX_TEMPLATES_PER_TEACHER} templates. Delete one first.`,
+      };
+    }
+
+    const startDate = event.startAt.slice(0, 10);
+    const isAllDay =
+      event.startAt.endsWith("T00:00:00") && event.endAt.endsWith("T23:59:59");
+    const isRecurring = (event.occurrenceDates?.length ?? 0) > 1;
+    const dueDateOffsetDays = event.permissionSlipDueDate
+      ? daysBetween(event.permissionSlipDueDate, startDate)
+      : undefined;
+
+    const result = await templates.insertOne({
+      name: trimmedName,
+      scope,
+      ownerId: auth0Id,
+      schoolId: event.schoolId,
+      title: event.title,
+      description: event.description,
+      startTime: isAllDay ? undefined : event.startAt.slice(11, 16),
+      endTime: isAllDay ? undefined : event.endAt.slice(11, 16),
+      // Repeating events are saved as one day; the teacher picks dates when using it
+      durationDays: isRecurring
+        ? 0
+        : Math.max(0, daysBetween(startDate, event.endAt.slice(0, 10))),
+      requiresPermissionSlip: event.requiresPermissionSlip ?? false,
+      cost: isRecurring ? event.costPerOccurrence : event.cost,
+      dueDateOffsetDays:
+        dueDateOffsetDays != null && dueDateOffsetDays > 0 ? dueDateOffsetDays : undefined,
+      capacity: event.capacity,
+      volunteerRoles: event.volunteerRoles?.map((r) => ({ name: r.name, needed: r.needed })),
+      permissionFormPdfBase64: event.permissionFormPdfBase64,
+      permissionFormFields: event.permissionFormFields?.map((f) => ({
+        label: f.label,
+        type: f.type,
+        required: f.required,
+        options: f.options,
+      })),
+      createdAt: new Date(),
+    });
+    return { success: true, templateId: result.insertedId.toString() };
+  } catch (error) {
+    console.error("[saveEventAsTemplate] Failed:", error);
+    return { success: false, error: "Failed to save template. Please try again." };
+  }
+}
+
+/**
+ * Fetches templates a teacher can use: their own plus those shared with their schools.
+ */
+export async function getEventTemplatesForTeacher(
+  auth0Id: string
+): Promise<EventTemplateSerialized[]> {
+  if (!isDbConfigured()) return [];
+
+  try {
+    const schoolIds = await getTeacherSchoolIds(auth0Id);
+    const templates = await eventTemplatesCollection();
+    const docs = await templates
+      .aggregate<Omit<EventTemplate, "permissionFormPdfBase64"> & { hasPermissionForm: boolean }>([
+        {
+          $match: {
+            $or: [
+              { ownerId: auth0Id },
+              { scope: "school", schoolId: { $in: schoolIds } },
+            ],
+          },
+        },
+        { $sort: { name: 1 } },
+        {
+          $addFields: {
+            hasPermissionForm: { $gt: ["$permissionFormPdfBase64", null] },
+          },
+        },
+        // Forms can be several MB; the dashboard only needs to know one exists
+        { $project: { permissionFormPdfBase64: 0 } },
+      ])
+      .toArray();
+
+    return docs.map((t) => ({
+      id: t._id?.toString() ?? "",
+      name: t.name,
+      scope: t.scope,
+      isOwner: t.ownerId === auth0Id,
+      schoolId: t.schoolId,
+      title: t.title,
+      description: t.description,
+      startTime: t.startTime,
+      endTime: t.endTime,
+      durationDays: t.durationDays,
+      requiresPermissionSlip: t.requiresPermissionSlip ?? false,
+      cost: t.cost,
+      dueDateOffsetDays: t.dueDateOffsetDays,
+      capacity: t.capacity,
+      volunteerRoles: t.volunteerRoles ?? [],
+      permissionFormFields: t.permissionFormFields ?? [],
+      hasPermissionForm: t.hasPermissionForm,
+    }));
+  } catch (error) {
+    console.error("[getEventTemplatesForTeacher] Failed:", error);
+    return [];
+  }
+}
+
+/**
+ * Permission form saved on a template, if the teacher can use the template.
+ * Used by createCalendarEvent to copy the form onto a new event.
+ */
+export async function getTemplatePermissionForm(
+  auth0Id: string,
+  templateId: string
+): Promise<string | null> {
+  if (!isDbConfigured() || !/^[a-f0-9]{24}$/i.test(templateId)) return null;
+
+  try {
+    const templates = await eventTemplatesCollection();
+    const template = await templates.findOne({ _id: new ObjectId(templateId) });
+    if (!template?.permissionFormPdfBase64) return null;
+    if (template.ownerId !== auth0Id) {
+      const schoolIds = await getTeacherSchoolIds(auth0Id);
+      if (template.scope !== "school" || !schoolIds.includes(template.schoolId)) {
+        return null;
+      }
+    }
+    return template.permissionFormPdfBase64;
+  } catch (error) {
+    console.error("[getTemplatePermissionForm] Failed:", error);
+    return null;
+  }
+}
+
+/**
+ * Deletes a template. Only the teacher who saved it can delete it.
+ */
+export async function deleteEventTemplate(
+  auth0Id: string,
+  templateId: string
+): Promise<{ success: true } | { success: false; error: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+  if (!/^[a-f0-9]{24}$/i.test(templateId)) {
+    return { success: false, error: "Template not found" };
+  }
+
+  try {
+    const templates = await eventTemplatesCollection();
+    const result = await templates.deleteOne({
+      _id: new ObjectId(templateId),
+      ownerId: auth0Id,
+    });
+    if (result.deletedCount === 0) {
+      return { success: false, error: "Template not found" };
+    }
+    return { success: true };
+  } catch (error) {
+    console.error("[deleteEventTemplate] Failed:", error);
+    return { success: false, error: "Failed to delete template. Please try again." };
+  }
+}
@@ -0,0 +1,247 @@
+import { ObjectId } from "mongodb";
+import {
+  calendarEventsCollection,
+  eventPermissionSlipsCollection,
+  usersCollection,
+  volunteerSignupsCollection,
+} from "./db/collections";
+import type { CalendarEvent, EventVolunteerRole } from "./db/types";
+import { isDbConfigured } from "./db";
+
+const MAX_ROLES = 10;
+const MAX_NEEDED = 50;
+
+export interface VolunteerRoleInput {
+  /** Existing role id; omit for a new role */
+  id?: string;
+  name: string;
+  needed: number;
+}
+
+/** Teacher view: who signed up for each role */
+export interface VolunteerRoleStatus {
+  roleId: string;
+  name: string;
+  needed: number;
+  volunteers: { guardianId: string; name: string; email?: string }[];
+}
+
+/** Parent view of one role on an inbox item */
+export interface VolunteerRoleSummary {
+  roleId: string;
+  name: string;
+  needed: number;
+  filled: number;
+  /** This parent has signed up for the role */
+  signedUp: boolean;
+}
+
+/**
+ * Validates volunteer roles from the event form. New roles get an id; existing ids are kept
+ * so signups stay attached when a role is renamed.
+ */
+export function resolveVolunteerRoles(
+  input: VolunteerRoleInput[]
+): { success: true; roles: EventVolunteerRole[] } | { success: false; error: string } {
+  if (input.length > MAX_ROLES) {
+    return { success: false, error: `Add at most ${MAX_ROLES} volunteer roles` };
+  }
+  const roles: EventVolunteerRole[] = [];
+  for (const role of input) {
+    const name = role.name.trim();
+    if (!name) return { success: false, error: "Each volunteer role needs a name" };
+    if (name.length > 60) return { success: false, error: "Volunteer role name is too long" };
+    if (!Number.isInteger(role.needed) || role.needed < 1 || role.needed > MAX_NEEDED) {
+      return {
+        success: false,
+        error: `Volunteers needed must be a whole number from 1 to ${MAX_NEEDED}`,
+      };
+    }
+    const id =
+      role.id && /^[a-f0-9]{24}$/i.test(role.id) ? role.id : new ObjectId().toString();
+    if (roles.some((r) => r.id === id)) {
+      return { success: false, error: "Duplicate volunteer role" };
+    }
+    roles.push({ id, name, needed: role.needed });
+  }
+  return { success: true, roles };
+}
+
+/**
+ * Removes signups for roles that no longer exist on the event (all signups when keepRoleIds is empty).
+ */
+export async function deleteVolunteerSignups(
+  eventId: string,
+  keepRoleIds: string[] = []
+): Promise<void> {
+  const signups = await volunteerSignupsCollection();
+  await signups.deleteMany({ eventId, roleId: { $nin: keepRoleIds } });
+}
+
+/**
+ * Fetches volunteer lists per role, keyed by eventId. Used by teacher dashboard.
+ */
+export async function getVolunteerRoleStatus(
+  events: CalendarEvent[]
+): Promise<Record<string, VolunteerRoleStatus[]>> {
+  const withRoles = events.filter((e) => e.volunteerRoles?.length && e._id);
+  if (!isDbConfigured() || withRoles.length === 0) return {};
+
+  try {
+    const signups = await volunteerSignupsCollection();
+    const docs = await signups
+      .find({ eventId: { $in: withRoles.map((e) => e._id!.toString()) } })
+      .sort({ createdAt: 1 })
+      .toArray();
+
+    const users = await usersCollection();
+    const guardianIds = [...new Set(docs.map((s) => s.guardianId))];
+    const guardianDocs =
+      guardianIds.length > 0
+        ? await users.find({ auth0Id: { $in: guardianIds } }).toArray()
+        : [];
+    const guardianMap = new Map(guardianDocs.map((u) => [u.auth0Id, u]));
+
+    const result: Record<string, VolunteerRoleStatus[]> = {};
+    for (const event of withRoles) {
+      const eventId = event._id!.toString();
+      result[eventId] = event.volunteerRoles!.map((role) => ({
+        roleId: role.id,
+        name: role.name,
+        needed: role.needed,
+        volunteers: docs
+          .filter((s) => s.eventId === eventId && s.roleId === role.id)
+          .map((s) => {
+            const guardian = guardianMap.get(s.guardianId);
+            return {
+              guardianId: s.guardianId,
+              name: guardian?.name ?? guardian?.email ?? "Unknown",
+              email: guardian?.email ?? undefined,
+            };
+          }),
+      }));
+    }
+    return result;
+  } catch (error) {
+    console.error("[getVolunteerRoleStatus] Failed:", error);
+    return {};
+  }
+}
+
+/**
+ * Fetches fill status for each role and whether this parent signed up, keyed by eventId.
+ */
+export async function getVolunteerRoleSummaries(
+  auth0Id: string,
+  events: CalendarEvent[]
+): Promise<Record<string, VolunteerRoleSummary[]>> {
+  const withRoles = events.filter((e) => e.volunteerRoles?.length && e._id);
+  if (!isDbConfigured() || withRoles.length === 0) return {};
+
+  try {
+    const signups = await volunteerSignupsCollection();
+    const docs = await signups
+      .find({ eventId: { $in: withRoles.map((e) => e._id!.toString()) } })
+      .toArray();
+
+    const result: Record<string, VolunteerRoleSummary[]> = {};
+    for (const event of withRoles) {
+      const eventId = event._id!.toString();
+      result[eventId] = event.volunteerRoles!.map((role) => {
+        const roleSignups = docs.filter(
+          (s) => s.eventId === eventId && s.roleId === role.id
+        );
+        return {
+          roleId: role.id,
+          name: role.name,
+          needed: role.needed,
+          filled: roleSignups.length,
+          signedUp: roleSignups.some((s) => s.guardianId === auth0Id),
+        };
+      });
+    }
+    return result;
+  } catch (error) {
+    console.error("[getVolunteerRoleSummaries] Failed:", error);
+    return {};
+  }
+}
+
+/**
+ * Parent signs up for a volunteer role. Only guardians with an inbox item for the event can
+ * sign up, and only while the role still has open spots.
+ */
+export async function signUpToVolunteer(
+  auth0Id: string,
+  eventId: string,
+  roleId: string
+): Promise<{ success: true } | { success: false; error: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+  if (!/^[a-f0-9]{24}$/i.test(eventId)) {
+    return { success: false, error: "Event not found" };
+  }
+
+  try {
+    const events = await calendarEventsCollection();
+    const event = await events.findOne({ _id: new ObjectId(eventId) });
+    if (!event) return { success: false, error: "Event not found" };
+    if (event.status === "cancelled") {
+      return { success: false, error: "This event has been cancelled" };
+    }
+    const role = event.volunteerRoles?.find((r) => r.id === roleId);
+    if (!role) return { success: false, error: "Volunteer role not found" };
+
+    const slips = await eventPermissionSlipsCollection();
+    const hasSlip = await slips.findOne({ eventId, guardianId: auth0Id });
+    if (!hasSlip) {
+      return { success: false, error: "You don't have access to this event" };
+    }
+
+    const signups = await volunteerSignupsCollection();
+    const existing = await signups.findOne({ eventId, roleId, guardianId: auth0Id });
+    if (existing) return { success: true };
+
+    const filled = await signups.countDocuments({ eventId, roleId });
+    if (filled >= role.needed) {
+      return { success: false, error: "All spots for this role are filled" };
+    }
+
+    await signups.insertOne({
+      eventId,
+      roleId,
+      guardianId: auth0Id,
+      createdAt: new Date(),
+    });
+    return { success: true };
+  } catch (error) {
+    console.error("[signUpToVolunteer] Failed:", error);
+    return { success: false, error: "Failed to sign up. Please try again." };
+  }
+}
+
+/**
+ * Parent withdraws from a volunteer role.
+ */
+export async function withdrawVolunteerSignup(
+  auth0Id: string,
+  eventId: string,
+  roleId: string
+): Promise<{ success: true } | { success: false; error: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+
+  try {
+    const signups = await volunteerSignupsCollection();
+    const result = await signups.deleteOne({ eventId, roleId, guardianId: auth0Id });
+    if (result.deletedCount === 0) {
+      return { success: false, error: "You're not signed up for this role" };
+    }
+    return { success: true };
+  } catch (error) {
+    console.error("[withdrawVolunteerSignup] Failed:", error);
+    return { success: false, error: "Failed to withdraw. Please try again." };
+  }
+}
@@ -0,0 +1,655 @@
+import { ObjectId } from "mongodb";
+import type {
+  CalendarEvent,
+  EventPermissionSlip,
+  FeeWaiver,
+  LedgerEntry,
+  LedgerEntryKind,
+  LedgerPaymentMethod,
+} from "./db/types";
+import {
+  calendarEventsCollection,
+  classesCollection,
+  eventPermissionSlipsCollection,
+  feeWaiversCollection,
+  ledgerEntriesCollection,
+  studentsCollection,
+} from "./db/collections";
+import { isDbConfigured } from "./db";
+import { getEventEffectiveCost } from "./calendar-events";
+import { getSchoolTimeZone } from "./schools";
+
+/** One line on a family's statement */
+export interface LedgerLine {
+  /** Ledger entry ID, or "<slipId>:<what>" for lines that come from a permission slip */
+  id: string;
+  date: string;
+  kind: LedgerEntryKind;
+  /** Event title, or "Account" for entries not tied to an event */
+  description: string;
+  eventId?: string;
+  /** Dollars, always positive */
+  amount: number;
+  method?: LedgerPaymentMethod;
+  note?: string;
+  /** Entered by a teacher (and so can be voided); other lines follow the slip or a fee waiver */
+  recorded: boolean;
+  /** Paid online: payment intent behind the receipt */
+  paymentIntentId?: string;
+  /** What the family owed after this line */
+  balance: number;
+}
+
+export interface LedgerEventBalance {
+  eventId: string;
+  eventTitle: string;
+  /** Positive = still owed, negative = the family is owed money back */
+  balance: number;
+}
+
+export interface StudentLedger {
+  studentId: string;
+  studentName: string;
+  /** Oldest first */
+  lines: LedgerLine[];
+  events: LedgerEventBalance[];
+  totalCharged: number;
+  totalPaid: number;
+  totalCredited: number;
+  totalRefunded: number;
+  /** Positive = the family owes this much, negative = they are in credit */
+  balance: number;
+}
+
+/** A class's accounts, for the teacher's outstanding balances report */
+export interface ClassBalanceReport {
+  classId: string;
+  className: string;
+  timeZone: string;
+  /** Every student in the class, including those with nothing on their account */
+  students: StudentLedger[];
+  /** The class's paid events, to record payments against */
+  events: { id: string; title: string; startAt: string }[];
+  totalOutstanding: number;
+  totalCredit: number;
+}
+
+export interface RecordLedgerEntryInput {
+  classId: string;
+  studentId: string;
+  eventId?: string;
+  kind: LedgerEntryKind;
+  amount: number;
+  method?: LedgerPaymentMethod;
+  note?: string;
+}
+
+const LEDGER_KINDS: LedgerEntryKind[] = ["charge", "payment", "credit", "refund"];
+/** Online payments only come from the payment provider */
+const RECORDABLE_METHODS: LedgerPaymentMethod[] = ["cash", "cheque", "other"];
+const MAX_AMOUNT = 10000;
+const MAX_NOTE_LENGTH = 200;
+
+/** How each kind moves the balance: charges and refunds add to what's owed */
+const SIGN: Record<LedgerEntryKind, 1 | -1> = {
+  charge: 1,
+  refund: 1,
+  payment: -1,
+  credit: -1,
+};
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function sumEntries(entries: LedgerEntry[], kind: LedgerEntryKind): number {
+  return entries.filter((e) => e.kind === kind).reduce((sum, e) => sum + e.amount, 0);
+}
+
+type UnsortedLine = Omit<LedgerLine, "balance">;
+
+/**
+ * What the slip itself records as paid: the online payment, and "cash received" as whatever
+ * was still owed after the teacher's entries and fee waivers.
+ */
+function getSlipPayments(
+  slip: EventPermissionSlip,
+  charge: number,
+  recorded: LedgerEntry[]
+): { online: number; cash: number } {
+  const online = slip.paidAt ? slip.amountPaid ?? charge : 0;
+  const cash = slip.cashReceivedAt
+    ? Math.max(
+        0,
+        roundCents(
+          charge +
+            sumEntries(recorded, "charge") -
+            sumEntries(recorded, "payment") -
+            sumEntries(recorded, "credit") -
+            online
+        )
+      )
+    : 0;
+  return { online, cash };
+}
+
+/** Cancelled event: everything paid towards it, less refunds the teacher already recorded */
+function getRefundAmount(
+  slip: EventPermissionSlip,
+  charge: number,
+  recorded: LedgerEntry[]
+): number {
+  const { online, cash } = getSlipPayments(slip, charge, recorded);
+  return roundCents(
+    online + cash + sumEntries(recorded, "payment") - sumEntries(recorded, "refund")
+  );
+}
+
+/**
+ * Lines that follow from a signed slip: the event's cost, the online or cash payment the
+ * slip records, and the credit and refund when the event is cancelled. Amounts the teacher
+ * recorded against the same event are taken into account so nothing is counted twice.
+ */
+function getSlipLines(
+  slip: EventPermissionSlip,
+  event: CalendarEvent,
+  recorded: LedgerEntry[]
+): UnsortedLine[] {
+  const slipId = slip._id?.toString() ?? "";
+  const eventId = slip.eventId;
+  const charge = getEventEffectiveCost(event, slip.selectedOccurrenceDates);
+  if (!charge) return [];
+
+  const lines: UnsortedLine[] = [
+    {
+      id: `${slipId}:charge`,
+      date: (slip.signedAt ?? slip.createdAt).toISOString(),
+      kind: "charge",
+      description: event.title,
+      eventId,
+      amount: charge,
+      recorded: false,
+    },
+  ];
+
+  const payments = getSlipPayments(slip, charge, recorded);
+  if (slip.paidAt) {
+    const amount = payments.online;
+    lines.push({
+      id: `${slipId}:online`,
+      date: slip.paidAt.toISOString(),
+      kind: "payment",
+      description: event.title,
+      eventId,
+      amount,
+      method: "online",
+      recorded: false,
+      paymentIntentId: slip.paymentIntentId,
+    });
+  }
+  if (slip.cashReceivedAt) {
+    // "Cash received" means whatever was left has come in
+    const amount = payments.cash;
+    if (amount > 0) {
+      lines.push({
+        id: `${slipId}:cash`,
+        date: slip.cashReceivedAt.toISOString(),
+        kind: "payment",
+        description: event.title,
+        eventId,
+        amount,
+        method: "cash",
+        recorded: false,
+      });
+    }
+  }
+
+  if (event.status === "cancelled") {
+    const cancelledAt = event.scheduleChanges?.findLast((c) => c.type === "cancelled")?.changedAt;
+    // Wipes out whatever was still charged; anything paid is then owed back
+    const amount = roundCents(
+      charge + sumEntries(recorded, "charge") - sumEntries(recorded, "credit")
+    );
+    if (amount > 0) {
+      lines.push({
+        id: `${slipId}:cancelled`,
+        date: (cancelledAt ?? slip.signedAt ?? slip.createdAt).toISOString(),
+        kind: "credit",
+        description: event.title,
+        eventId,
+        amount,
+        note: "Event cancelled",
+        recorded: false,
+      });
+    }
+    if (slip.refundIssuedAt) {
+      const amount = getRefundAmount(slip, charge, recorded);
+      if (amount > 0) {
+        lines.push({
+          id: `${slipId}:refund`,
+          date: slip.refundIssuedAt.toISOString(),
+          kind: "refund",
+          description: event.title,
+          eventId,
+          amount,
+          recorded: false,
+        });
+      }
+    }
+  }
+
+  return lines;
+}
+
+/** An approved fee waiver counts as a credit for the event */
+function waiverAsEntry(waiver: FeeWaiver): LedgerEntry {
+  return {
+    classId: waiver.classId,
+    studentId: waiver.studentId,
+    eventId: waiver.eventId,
+    kind: "credit",
+    amount: waiver.approvedAmount ?? 0,
+    recordedBy: waiver.decidedBy ?? "",
+    createdAt: waiver.decidedAt ?? waiver.createdAt,
+  };
+}
+
+/**
+ * Puts together one student's account from their signed slips, the teacher's entries and
+ * approved fee waivers. Slips for events still waiting on (or refused) approval don't
+ * charge anything.
+ */
+function buildStudentLedger(
+  student: { id: string; name: string },
+  slips: EventPermissionSlip[],
+  events: Map<string, CalendarEvent>,
+  recordedEntries: LedgerEntry[],
+  waivers: FeeWaiver[]
+): StudentLedger {
+  const entries = [...recordedEntries, ...waivers.map(waiverAsEntry)];
+  const unsorted: UnsortedLine[] = [];
+  const chargedEventIds = new Set<string>();
+  for (const slip of slips) {
+    // Two parents may both have signed; the student is only charged once
+    if (slip.studentId !== student.id || chargedEventIds.has(slip.eventId)) continue;
+    const event = events.get(slip.eventId);
+    if (!event || event.approvalStatus === "pending" || event.approvalStatus === "rejected") {
+      continue;
+    }
+    chargedEventIds.add(slip.eventId);
+    unsorted.push(
+      ...getSlipLines(slip, event, entries.filter((e) => e.eventId === slip.eventId))
+    );
+  }
+  for (const entry of recordedEntries) {
+    unsorted.push({
+      id: entry._id?.toString() ?? "",
+      date: entry.createdAt.toISOString(),
+      kind: entry.kind,
+      description: (entry.eventId && events.get(entry.eventId)?.title) || "Account",
+      eventId: entry.eventId,
+      amount: entry.amount,
+      method: entry.method,
+      note: entry.note,
+      recorded: true,
+    });
+  }
+  for (const waiver of waivers) {
+    unsorted.push({
+      id: `waiver:${waiver._id?.toString() ?? ""}`,
+      date: (waiver.decidedAt ?? waiver.createdAt).toISOString(),
+      kind: "credit",
+      description: events.get(waiver.eventId)?.title ?? "Account",
+      eventId: waiver.eventId,
+      amount: waiver.approvedAmount ?? 0,
+      note: "Fee assistance",
+      recorded: false,
+    });
+  }
+  unsorted.sort((a, b) => a.date.localeCompare(b.date));
+
+  let balance = 0;
+  const lines = unsorted.map((line) => {
+    balance = roundCents(balance + SIGN[line.kind] * line.amount);
+    return { ...line, balance };
+  });
+
+  const eventBalances = new Map<string, LedgerEventBalance>();
+  for (const line of lines) {
+    if (!line.eventId) continue;
+    const current = eventBalances.get(line.eventId) ?? {
+      eventId: line.eventId,
+      eventTitle: line.description,
+      balance: 0,
+    };
+    current.balance = roundCents(current.balance + SIGN[line.kind] * line.amount);
+    eventBalances.set(line.eventId, current);
+  }
+
+  const total = (kind: LedgerEntryKind) =>
+    roundCents(lines.filter((l) => l.kind === kind).reduce((sum, l) => sum + l.amount, 0));
+  return {
+    studentId: student.id,
+    studentName: student.name,
+    lines,
+    events: [...eventBalances.values()],
+    totalCharged: total("charge"),
+    totalPaid: total("payment"),
+    totalCredited: total("credit"),
+    totalRefunded: total("refund"),
+    balance,
+  };
+}
+
+async function loadEvents(eventIds: string[]): Promise<Map<string, CalendarEvent>> {
+  const ids = [...new Set(eventIds)].filter((id) => /^[a-f0-9]{24}$/i.test(id));
+  if (ids.length === 0) return new Map();
+  const events = await calendarEventsCollection();
+  const docs = await events.find({ _id: { $in: ids.map((id) => new ObjectId(id)) } }).toArray();
+  return new Map(docs.map((e) => [e._id?.toString() ?? "", e]));
+}
+
+/**
+ * A parent's statement: every charge, payment, credit and refund for each of their
+ * children, across all classes. Children with nothing on their account are left out.
+ */
+export async function getFamilyLedger(auth0Id: string): Promise<StudentLedger[]> {
+  if (!isDbConfigured()) return [];
+
+  try {
+    const students = await studentsCollection();
+    const children = await students.find({ guardianIds: auth0Id }).sort({ name: 1 }).toArray();
+    const childIds = children.map((s) => s._id?.toString() ?? "");
+    if (childIds.length === 0) return [];
+
+    const [slipsCol, entriesCol, waiversCol] = await Promise.all([
+      eventPermissionSlipsCollection(),
+      ledgerEntriesCollection(),
+      feeWaiversCollection(),
+    ]);
+    const [slips, entries, waivers] = await Promise.all([
+      slipsCol
+        .find({ studentId: { $in: childIds }, status: "signed" })
+        .sort({ signedAt: 1 })
+        .toArray(),
+      entriesCol
+        .find({ studentId: { $in: childIds }, voidedAt: { $exists: false } })
+        .toArray(),
+      waiversCol.find({ studentId: { $in: childIds }, status: "approved" }).toArray(),
+    ]);
+    const events = await loadEvents([
+      ...slips.map((s) => s.eventId),
+      ...entries.flatMap((e) => (e.eventId ? [e.eventId] : [])),
+      ...waivers.map((w) => w.eventId),
+    ]);
+
+    return children
+      .map((child) =>
+        buildStudentLedger(
+          { id: child._id?.toString() ?? "", name: child.name ?? "Student" },
+          slips,
+          events,
+          entries.filter((e) => e.studentId === child._id?.toString()),
+          waivers.filter((w) => w.studentId === child._id?.toString())
+        )
+      )
+      .filter((ledger) => ledger.lines.length > 0);
+  } catch (error) {
+    console.error("[getFamilyLedger] Failed:", error);
+    return [];
+  }
+}
+
+/**
+ * Accounts for each class the teacher teaches. Only this class's events and entries count,
+ * so a student in two classes shows a separate balance in each.
+ */
+export async function getClassBalances(auth0Id: string): Promise<ClassBalanceReport[]> {
+  if (!isDbConfigured()) return [];
+
+  try {
+    const [classesCol, studentsCol, slipsCol, entriesCol, waiversCol, eventsCol] =
+      await Promise.all([
+        classesCollection(),
+        studentsCollection(),
+        eventPermissionSlipsCollection(),
+        ledgerEntriesCollection(),
+        feeWaiversCollection(),
+        calendarEventsCollection(),
+      ]);
+    const classes = await classesCol.find({ teacherIds: auth0Id }).sort({ name: 1 }).toArray();
+
+    return await Promise.all(
+      classes.map(async (cls) => {
+        const classId = cls._id?.toString() ?? "";
+        const studentIds = (cls.studentIds ?? []).filter((id) => /^[a-f0-9]{24}$/i.test(id));
+        const [studentDocs, slips, entries, waivers, paidEvents, timeZone] = await Promise.all([
+          studentsCol
+            .find({ _id: { $in: studentIds.map((id) => new ObjectId(id)) } })
+            .sort({ name: 1 })
+            .toArray(),
+          slipsCol
+            .find({ classId, status: "signed", studentId: { $in: studentIds } })
+            .sort({ signedAt: 1 })
+            .toArray(),
+          entriesCol.find({ classId, voidedAt: { $exists: false } }).toArray(),
+          waiversCol.find({ classId, status: "approved" }).toArray(),
+          eventsCol
+            .find(
+              {
+                classId,
+                approvalStatus: { $nin: ["pending", "rejected"] },
+                $or: [{ cost: { $gt: 0 } }, { costPerOccurrence: { $gt: 0 } }],
+              },
+              { projection: { title: 1, startAt: 1 } }
+            )
+            .sort({ startAt: -1 })
+            .toArray(),
+          getSchoolTimeZone(cls.schoolId),
+        ]);
+        const events = await loadEvents([
+          ...slips.map((s) => s.eventId),
+          ...entries.flatMap((e) => (e.eventId ? [e.eventId] : [])),
+          ...waivers.map((w) => w.eventId),
+        ]);
+
+        const ledgers = studentDocs.map((student) =>
+          buildStudentLedger(
+            { id: student._id?.toString() ?? "", name: student.name ?? "Student" },
+            slips,
+            events,
+            entries.filter((e) => e.studentId === student._id?.toString()),
+            waivers.filter((w) => w.studentId === student._id?.toString())
+          )
+        );
+        return {
+          classId,
+          className: cls.name,
+          timeZone,
+          students: ledgers,
+          events: paidEvents.map((e) => ({
+            id: e._id?.toString() ?? "",
+            title: e.title,
+            startAt: e.startAt,
+          })),
+          totalOutstanding: roundCents(
+            ledgers.reduce((sum, l) => sum + Math.max(l.balance, 0), 0)
+          ),
+          totalCredit: roundCents(
+            ledgers.reduce((sum, l) => sum + Math.max(-l.balance, 0), 0)
+          ),
+        };
+      })
+    );
+  } catch (error) {
+    console.error("[getClassBalances] Failed:", error);
+    return [];
+  }
+}
+
+/**
+ * How the teacher's own entries and any approved fee waiver for an event change what a
+ * student owes for it, e.g. -5 after a $5 partial payment. Online checkout only asks for
+ * what's left.
+ */
+export async function getRecordedEventAdjustment(
+  studentId: string,
+  eventId: string
+): Promise<number> {
+  const [entriesCol, waiversCol] = await Promise.all([
+    ledgerEntriesCollection(),
+    feeWaiversCollection(),
+  ]);
+  const [recorded, waivers] = await Promise.all([
+    entriesCol.find({ studentId, eventId, voidedAt: { $exists: false } }).toArray(),
+    waiversCol.find({ studentId, eventId, status: "approved" }).toArray(),
+  ]);
+  return roundCents(
+    [...recorded, ...waivers.map(waiverAsEntry)].reduce(
+      (sum, e) => sum + SIGN[e.kind] * e.amount,
+      0
+    )
+  );
+}
+
+/**
+ * What a family gets back for a signed slip on a cancelled event: what they actually paid,
+ * online, in cash or recorded by the teacher, less refunds already recorded. Matches the
+ * refund line on the family's ledger.
+ */
+export async function getSlipRefundAmount(
+  slip: EventPermissionSlip,
+  event: CalendarEvent
+): Promise<number> {
+  const charge = getEventEffectiveCost(event, slip.selectedOccurrenceDates) ?? 0;
+  let recorded: LedgerEntry[] = [];
+  if (slip.studentId) {
+    const [entriesCol, waiversCol] = await Promise.all([
+      ledgerEntriesCollection(),
+      feeWaiversCollection(),
+    ]);
+    const [entries, waivers] = await Promise.all([
+      entriesCol
+        .find({ studentId: slip.studentId, eventId: slip.eventId, voidedAt: { $exists: false } })
+        .toArray(),
+      waiversCol
+        .find({ studentId: slip.studentId, eventId: slip.eventId, status: "approved" })
+        .toArray(),
+    ]);
+    recorded = [...entries, ...waivers.map(waiverAsEntry)];
+  }
+  return getRefundAmount(slip, charge, recorded);
+}
+
+/**
+ * Teacher records a payment, credit, refund or extra charge on a student's account, e.g.
+ * $5 of a $20 trip handed in at the office.
+ */
+export async function recordLedgerEntry(
+  teacherAuth0Id: string,
+  input: RecordLedgerEntryInput
+): Promise<{ success: true } | { success: false; error: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+  if (![input.classId, input.studentId].every((id) => /^[a-f0-9]{24}$/i.test(id))) {
+    return { success: false, error: "Student not found" };
+  }
+  if (input.eventId && !/^[a-f0-9]{24}$/i.test(input.eventId)) {
+    return { success: false, error: "Event not found" };
+  }
+  if (!LEDGER_KINDS.includes(input.kind)) {
+    return { success: false, error: "Choose what to record" };
+  }
+  const amount = roundCents(Number(input.amount));
+  if (!Number.isFinite(amount) || amount <= 0 || amount > MAX_AMOUNT) {
+    return { success: false, error: `Amount must be between $0.01 and $${MAX_AMOUNT}` };
+  }
+  const takesMethod = input.kind === "payment" || input.kind === "refund";
+  const method = input.method ?? "cash";
+  if (takesMethod && !RECORDABLE_METHODS.includes(method)) {
+    return { success: false, error: "Online payments are recorded by the payment provider" };
+  }
+  const note = input.note?.trim() || undefined;
+  if (note && note.length > MAX_NOTE_LENGTH) {
+    return { success: false, error: `Note must be ${MAX_NOTE_LENGTH} characters or fewer` };
+  }
+  if (!input.eventId && (input.kind === "charge" || input.kind === "credit") && !note) {
+    return { success: false, error: "Add a note saying what this is for" };
+  }
+
+  try {
+    const classes = await classesCollection();
+    const cls = await classes.findOne({ _id: new ObjectId(input.classId) });
+    if (!cls || !cls.teacherIds?.includes(teacherAuth0Id)) {
+      return { success: false, error: "Class not found or access denied" };
+    }
+    if (!cls.studentIds?.includes(input.studentId)) {
+      return { success: false, error: "Student is not in this class" };
+    }
+    if (input.eventId) {
+      const events = await calendarEventsCollection();
+      const event = await events.findOne({ _id: new ObjectId(input.eventId) });
+      if (!event || event.classId !== input.classId) {
+        return { success: false, error: "Event not found" };
+      }
+    }
+
+    const entries = await ledgerEntriesCollection();
+    await entries.insertOne({
+      classId: input.classId,
+      studentId: input.studentId,
+      ...(input.eventId && { eventId: input.eventId }),
+      kind: input.kind,
+      amount,
+      ...(takesMethod && { method }),
+      ...(note && { note }),
+      recordedBy: teacherAuth0Id,
+      createdAt: new Date(),
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("[recordLedgerEntry] Failed:", error);
+    return { success: false, error: "Failed to record. Please try again." };
+  }
+}
+
+/**
+ * Teacher takes back an entry made by mistake. It stays in the database but no longer counts.
+ */
+export async function voidLedgerEntry(
+  teacherAuth0Id: string,
+  entryId: string
+): Promise<{ success: true } | { success: false; error: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+  if (!/^[a-f0-9]{24}$/i.test(entryId)) {
+    return { success: false, error: "Entry not found" };
+  }
+
+  try {
+    const entries = await ledgerEntriesCollection();
+    const entry = await entries.findOne({ _id: new ObjectId(entryId) });
+    if (!entry || entry.voidedAt) {
+      return { success: false, error: "Entry not found" };
+    }
+
+    const classes = await classesCollection();
+    const cls = await classes.findOne({ _id: new ObjectId(entry.classId) });
+    if (!cls || !cls.teacherIds?.includes(teacherAuth0Id)) {
+      return { success: false, error: "Class not found or access denied" };
+    }
+
+    await entries.updateOne(
+      { _id: entry._id, voidedAt: { $exists: false } },
+      { $set: { voidedAt: new Date(), voidedBy: teacherAuth0Id } }
+    );
+
+    return { success: true };
+  } catch (error) {
+    console.error("[voidLedgerEntry] Failed:", error);
+    return { success: false, error: "Failed to void the entry. Please try again." };
+  }
+}
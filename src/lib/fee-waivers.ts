@@ -0,0 +1,388 @@
+import { ObjectId } from "mongodb";
+import type { CalendarEvent, FeeWaiver, FeeWaiverStatus } from "./db/types";
+import {
+  calendarEventsCollection,
+  classesCollection,
+  eventPermissionSlipsCollection,
+  feeWaiversCollection,
+  studentsCollection,
+  usersCollection,
+} from "./db/collections";
+import { isDbConfigured } from "./db";
+import { getEventEffectiveCost } from "./calendar-events";
+import { getRecordedEventAdjustment } from "./family-ledger";
+
+/** A request as the teacher or admin deciding it sees it */
+export interface FeeWaiverSerialized {
+  id: string;
+  eventId: string;
+  eventTitle: string;
+  eventStartAt: string;
+  classId: string;
+  className: string;
+  studentId: string;
+  studentName: string;
+  guardianName: string;
+  /** What the student would owe for the event without help, for the dates they signed up to */
+  eventCost: number;
+  /** Pending: the most that can be taken off, after anything already paid or credited */
+  maxAmount?: number;
+  requestedAmount: number;
+  message?: string;
+  status: FeeWaiverStatus;
+  approvedAmount?: number;
+  decisionNote?: string;
+  decidedByName?: string;
+  createdAt: string;
+  decidedAt?: string;
+}
+
+/** The requesting parent's view of their own request */
+export interface FeeWaiverSummary {
+  id: string;
+  status: FeeWaiverStatus;
+  requestedAmount: number;
+  approvedAmount?: number;
+  decisionNote?: string;
+  createdAt: string;
+}
+
+const MAX_MESSAGE_LENGTH = 1000;
+const RECENT_DECISIONS_LIMIT = 20;
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function serializeFeeWaiverSummary(waiver: FeeWaiver): FeeWaiverSummary {
+  return {
+    id: waiver._id?.toString() ?? "",
+    status: waiver.status,
+    requestedAmount: waiver.requestedAmount,
+    approvedAmount: waiver.approvedAmount,
+    decisionNote: waiver.decisionNote,
+    createdAt: waiver.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Most an approval can take off: the cost of the dates the student is signed up for, less
+ * anything already paid or credited for the event. Nothing until the slip is signed, since
+ * only signed slips are charged.
+ */
+async function getWaivableAmount(waiver: FeeWaiver, event: CalendarEvent): Promise<number> {
+  const slips = await eventPermissionSlipsCollection();
+  const slip =
+    (await slips.findOne({
+      eventId: waiver.eventId,
+      studentId: waiver.studentId,
+      guardianId: waiver.guardianId,
+      status: "signed",
+    })) ??
+    (await slips.findOne({
+      eventId: waiver.eventId,
+      studentId: waiver.studentId,
+      status: "signed",
+    }));
+  if (!slip || slip.paidAt || slip.cashReceivedAt) return 0;
+  const cost = getEventEffectiveCost(event, slip.selectedOccurrenceDates) ?? 0;
+  const adjustment = await getRecordedEventAdjustment(waiver.studentId, waiver.eventId);
+  return Math.max(0, roundCents(cost + adjustment));
+}
+
+/** Teachers of the class, or the admin of its school */
+async function canDecide(auth0Id: string, waiver: FeeWaiver): Promise<boolean> {
+  const classes = await classesCollection();
+  const cls = await classes.findOne({ _id: new ObjectId(waiver.classId) });
+  if (cls?.teacherIds?.includes(auth0Id)) return true;
+  const users = await usersCollection();
+  const user = await users.findOne({ auth0Id });
+  return user?.role === "admin" && user.schoolId === waiver.schoolId;
+}
+
+/**
+ * Parent privately asks for help with an event's cost. Goes to the class's teachers and the
+ * school admin; nobody else is told.
+ */
+export async function requestFeeWaiver(
+  auth0Id: string,
+  slipId: string,
+  input: { amount?: number; message?: string }
+): Promise<{ success: true } | { success: false; error: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+  if (!/^[a-f0-9]{24}$/i.test(slipId)) {
+    return { success: false, error: "Permission slip not found" };
+  }
+  const message = input.message?.trim() || undefined;
+  if (message && message.length > MAX_MESSAGE_LENGTH) {
+    return { success: false, error: `Message must be ${MAX_MESSAGE_LENGTH} characters or fewer` };
+  }
+
+  try {
+    const slips = await eventPermissionSlipsCollection();
+    const slip = await slips.findOne({ _id: new ObjectId(slipId), guardianId: auth0Id });
+    if (!slip?.studentId) return { success: false, error: "Permission slip not found" };
+    if (slip.status !== "signed") {
+      return {
+        success: false,
+        error: "Sign the permission slip before asking for help with the cost",
+      };
+    }
+    if (slip.paidAt || slip.cashReceivedAt) {
+      return {
+        success: false,
+        error: "This has already been paid. Message the teacher if you need help.",
+      };
+    }
+
+    const events = await calendarEventsCollection();
+    const event = await events.findOne({ _id: new ObjectId(slip.eventId) });
+    if (!event) return { success: false, error: "Event not found" };
+    if (event.status === "cancelled") {
+      return { success: false, error: "This event has been cancelled" };
+    }
+    const cost = getEventEffectiveCost(event, slip.selectedOccurrenceDates);
+    if (!cost) return { success: false, error: "There is no cost for this event" };
+
+    const amount = roundCents(input.amount ?? cost);
+    if (!Number.isFinite(amount) || amount <= 0 || amount > cost) {
+      return { success: false, error: `Amount must be between $0.01 and $${cost.toFixed(2)}` };
+    }
+
+    const waivers = await feeWaiversCollection();
+    const open = await waivers.findOne({
+      studentId: slip.studentId,
+      eventId: slip.eventId,
+      status: { $in: ["pending", "approved"] },
+    });
+    if (open) {
+      return {
+        success: false,
+        error:
+          open.status === "pending"
+            ? "You've already asked for help with this event"
+            : "Help with this event has already been approved",
+      };
+    }
+
+    await waivers.insertOne({
+      eventId: slip.eventId,
+      classId: slip.classId,
+      schoolId: event.schoolId,
+      studentId: slip.studentId,
+      guardianId: auth0Id,
+      requestedAmount: amount,
+      ...(message && { message }),
+      status: "pending",
+      createdAt: new Date(),
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("[requestFeeWaiver] Failed:", error);
+    return { success: false, error: "Failed to send your request. Please try again." };
+  }
+}
+
+/**
+ * Teacher or admin approves a request (taking some or all of the cost off) or declines it.
+ * An approval shows on the family's account as a credit.
+ */
+export async function decideFeeWaiver(
+  auth0Id: string,
+  waiverId: string,
+  decision: "approved" | "denied",
+  input: { amount?: number; note?: string }
+): Promise<{ success: true } | { success: false; error: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+  if (!/^[a-f0-9]{24}$/i.test(waiverId)) {
+    return { success: false, error: "Request not found" };
+  }
+  if (decision !== "approved" && decision !== "denied") {
+    return { success: false, error: "Invalid decision" };
+  }
+  const note = input.note?.trim() || undefined;
+  if (note && note.length > MAX_MESSAGE_LENGTH) {
+    return { success: false, error: `Note must be ${MAX_MESSAGE_LENGTH} characters or fewer` };
+  }
+
+  try {
+    const waivers = await feeWaiversCollection();
+    const waiver = await waivers.findOne({ _id: new ObjectId(waiverId) });
+    if (!waiver || !(await canDecide(auth0Id, waiver))) {
+      return { success: false, error: "Request not found" };
+    }
+    if (waiver.status !== "pending") {
+      return { success: false, error: "This request has already been decided" };
+    }
+
+    let approvedAmount: number | undefined;
+    if (decision === "approved") {
+      const events = await calendarEventsCollection();
+      const event = await events.findOne({ _id: new ObjectId(waiver.eventId) });
+      if (!event) return { success: false, error: "Event not found" };
+      const maxAmount = await getWaivableAmount(waiver, event);
+      if (maxAmount <= 0) {
+        return { success: false, error: "Nothing is left to pay for this event" };
+      }
+      approvedAmount = roundCents(input.amount ?? Math.min(waiver.requestedAmount, maxAmount));
+      if (!Number.isFinite(approvedAmount) || approvedAmount <= 0 || approvedAmount > maxAmount) {
+        return {
+          success: false,
+          error: `Amount must be between $0.01 and $${maxAmount.toFixed(2)}`,
+        };
+      }
+    }
+
+    const result = await waivers.updateOne(
+      { _id: waiver._id, status: "pending" },
+      {
+        $set: {
+          status: decision,
+          decidedBy: auth0Id,
+          decidedAt: new Date(),
+          ...(approvedAmount != null && { approvedAmount }),
+          ...(note && { decisionNote: note }),
+        },
+      }
+    );
+    if (result.modifiedCount === 0) {
+      return { success: false, error: "This request has already been decided" };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("[decideFeeWaiver] Failed:", error);
+    return { success: false, error: "Failed to save decision. Please try again." };
+  }
+}
+
+/** Pending requests first (oldest first), then recent decisions */
+async function serializeForDecider(filter: Record<string, unknown>): Promise<FeeWaiverSerialized[]> {
+  const waivers = await feeWaiversCollection();
+  const [pending, decided] = await Promise.all([
+    waivers.find({ ...filter, status: "pending" }).sort({ createdAt: 1 }).toArray(),
+    waivers
+      .find({ ...filter, status: { $in: ["approved", "denied"] } })
+      .sort({ decidedAt: -1 })
+      .limit(RECENT_DECISIONS_LIMIT)
+      .toArray(),
+  ]);
+  const docs = [...pending, ...decided];
+  if (docs.length === 0) return [];
+
+  const toObjectIds = (ids: string[]) =>
+    [...new Set(ids)].filter((id) => /^[a-f0-9]{24}$/i.test(id)).map((id) => new ObjectId(id));
+  const [events, classes, students, users] = await Promise.all([
+    calendarEventsCollection(),
+    classesCollection(),
+    studentsCollection(),
+    usersCollection(),
+  ]);
+  const [eventDocs, classDocs, studentDocs, userDocs] = await Promise.all([
+    events.find({ _id: { $in: toObjectIds(docs.map((w) => w.eventId)) } }).toArray(),
+    classes.find({ _id: { $in: toObjectIds(docs.map((w) => w.classId)) } }).toArray(),
+    students.find({ _id: { $in: toObjectIds(docs.map((w) => w.studentId)) } }).toArray(),
+    users
+      .find({
+        auth0Id: {
+          $in: [
+            ...new Set(docs.flatMap((w) => (w.decidedBy ? [w.guardianId, w.decidedBy] : [w.guardianId]))),
+          ],
+        },
+      })
+      .toArray(),
+  ]);
+  const eventMap = new Map(eventDocs.map((e) => [e._id?.toString(), e]));
+  const classNames = new Map(classDocs.map((c) => [c._id?.toString(), c.name]));
+  const studentNames = new Map(studentDocs.map((s) => [s._id?.toString(), s.name]));
+  const userNames = new Map(userDocs.map((u) => [u.auth0Id, u.name ?? u.email ?? "Unknown"]));
+
+  // Costs follow the dates each student signed up for
+  const slipDocs = await eventPermissionSlipsCollection().then((c) =>
+    c
+      .find({
+        eventId: { $in: [...new Set(docs.map((w) => w.eventId))] },
+        studentId: { $in: [...new Set(docs.map((w) => w.studentId))] },
+      })
+      .toArray()
+  );
+  const maxAmounts = new Map(
+    await Promise.all(
+      pending.flatMap((waiver) => {
+        const event = eventMap.get(waiver.eventId);
+        return event
+          ? [getWaivableAmount(waiver, event).then((max) => [waiver._id?.toString(), max] as const)]
+          : [];
+      })
+    )
+  );
+
+  return docs.map((waiver) => {
+    const event = eventMap.get(waiver.eventId);
+    const slip =
+      slipDocs.find(
+        (s) =>
+          s.eventId === waiver.eventId &&
+          s.studentId === waiver.studentId &&
+          s.guardianId === waiver.guardianId
+      ) ??
+      slipDocs.find((s) => s.eventId === waiver.eventId && s.studentId === waiver.studentId);
+    return {
+      id: waiver._id?.toString() ?? "",
+      eventId: waiver.eventId,
+      eventTitle: event?.title ?? "Deleted event",
+      eventStartAt: event?.startAt ?? "",
+      classId: waiver.classId,
+      className: classNames.get(waiver.classId) ?? "Unknown class",
+      studentId: waiver.studentId,
+      studentName: studentNames.get(waiver.studentId) ?? "Unknown",
+      guardianName: userNames.get(waiver.guardianId) ?? "Unknown",
+      eventCost:
+        (event && getEventEffectiveCost(event, slip?.selectedOccurrenceDates)) ??
+        waiver.requestedAmount,
+      maxAmount: maxAmounts.get(waiver._id?.toString()),
+      requestedAmount: waiver.requestedAmount,
+      message: waiver.message,
+      status: waiver.status,
+      approvedAmount: waiver.approvedAmount,
+      decisionNote: waiver.decisionNote,
+      decidedByName: waiver.decidedBy ? userNames.get(waiver.decidedBy) : undefined,
+      createdAt: waiver.createdAt.toISOString(),
+      decidedAt: waiver.decidedAt?.toISOString(),
+    };
+  });
+}
+
+/** Requests from families in the teacher's classes */
+export async function getFeeWaiversForTeacher(auth0Id: string): Promise<FeeWaiverSerialized[]> {
+  if (!isDbConfigured()) return [];
+
+  try {
+    const classes = await classesCollection();
+    const classIds = (
+      await classes.find({ teacherIds: auth0Id }, { projection: { _id: 1 } }).toArray()
+    ).map((c) => c._id.toString());
+    if (classIds.length === 0) return [];
+    return await serializeForDecider({ classId: { $in: classIds } });
+  } catch (error) {
+    console.error("[getFeeWaiversForTeacher] Failed:", error);
+    return [];
+  }
+}
+
+/** Requests from every class at the admin's school */
+export async function getFeeWaiversForSchool(schoolId: string): Promise<FeeWaiverSerialized[]> {
+  if (!isDbConfigured()) return [];
+
+  try {
+    return await serializeForDecider({ schoolId });
+  } catch (error) {
+    console.error("[getFeeWaiversForSchool] Failed:", error);
+    return [];
+  }
+}
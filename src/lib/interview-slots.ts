@@ -8,6 +8,8 @@ import {
 } from "./db/collections";
 import type { InterviewSlot } from "./db/types";
 import { isDbConfigured } from "./db";
+import { getSchoolTimeZone, getSchoolTimeZones } from "./schools";
+import { resolveTimeZone, zonedLocalToDate } from "./timezone";
 
 export interface InterviewSlotSerialized {
   id: string;
@@ -47,7 +49,8 @@ function serializeSlot(
 }
 
 /**
- * Creates interview slots for a class. Teacher must teach the class.
+ * Creates interview slots for a class. Teacher must teach the class. Slot times are
+ * wall-clock times at the school (YYYY-MM-DDTHH:mm:ss) and are stored as UTC instants.
  */
 export async function createInterviewSlots(
   auth0Id: string,
@@ -64,6 +67,13 @@ export async function createInterviewSlots(
   if (slots.length > 100) {
     return { success: false, error: "Maximum 100 slots at a time" };
   }
+  const localPattern = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/;
+  if (slots.some((s) => !localPattern.test(s.startAt) || !localPattern.test(s.endAt))) {
+    return { success: false, error: "Invalid slot time" };
+  }
+  if (slots.some((s) => s.endAt <= s.startAt)) {
+    return { success: false, error: "Each slot must end after it starts" };
+  }
 
   try {
     const classes = await classesCollection();
@@ -73,11 +83,12 @@ export async function createInterviewSlots(
       return { success: false, error: "You don't have access to this class" };
     }
 
+    const timeZone = await getSchoolTimeZone(cls.schoolId);
     const interviewSlots = await interviewSlotsCollection();
     const toInsert = slots.map((s) => ({
       classId,
-      startAt: s.startAt,
-      endAt: s.endAt,
+      startAt: zonedLocalToDate(s.startAt, timeZone).toISOString(),
+      endAt: zonedLocalToDate(s.endAt, timeZone).toISOString(),
       createdAt: new Date(),
     }));
 
@@ -173,7 +184,9 @@ export async function getInterviewSlotsForClass(
  */
 export async function getInterviewSlotsForTeacher(
   auth0Id: string
-): Promise<{ classId: string; className: string; slots: InterviewSlotSerialized[] }[]> {
+): Promise<
+  { classId: string; className: string; timeZone: string; slots: InterviewSlotSerialized[] }[]
+> {
   if (!isDbConfigured()) return [];
 
   try {
@@ -181,14 +194,21 @@ export async function getInterviewSlotsForTeacher(
     const teacherClasses = await classes
       .find({ teacherIds: auth0Id })
       .toArray();
-
-    const result: { classId: string; className: string; slots: InterviewSlotSerialized[] }[] = [];
+    const timeZones = await getSchoolTimeZones(teacherClasses.map((c) => c.schoolId));
+
+    const result: {
+      classId: string;
+      className: string;
+      timeZone: string;
+      slots: InterviewSlotSerialized[];
+    }[] = [];
     for (const cls of teacherClasses) {
       const classId = cls._id?.toString() ?? "";
       const slots = await getInterviewSlotsForClass(auth0Id, classId);
       result.push({
         classId,
         className: cls.name ?? "Class",
+        timeZone: timeZones.get(cls.schoolId) ?? resolveTimeZone(null),
         slots,
       });
     }
@@ -499,6 +519,8 @@ export interface ParentInterviewClass {
   classId: string;
   className: string;
   schoolName: string;
+  /** School time zone; slot times are shown on the school's clock */
+  timeZone: string;
   teacherName: string;
   children: { id: string; name: string; claimedSlotId?: string; claimedSlotStartAt?: string }[];
   slots: InterviewSlotSerialized[];
@@ -590,9 +612,11 @@ export async function getInterviewDataForGuardian(
       });
 
       let schoolName = "School";
+      let timeZone = resolveTimeZone(null);
       try {
         const school = await schools.findOne({ _id: new ObjectId(cls.schoolId) });
         if (school?.name) schoolName = school.name;
+        timeZone = resolveTimeZone(school?.timezone);
       } catch {
         // ignore
       }
@@ -615,6 +639,7 @@ export async function getInterviewDataForGuardian(
         classId,
         className: cls.name ?? "Class",
         schoolName,
+        timeZone,
         teacherName,
         children,
         slots: slotSerialized,
@@ -1,5 +1,11 @@
 import { ObjectId } from "mongodb";
-import type { Class, CalendarEvent } from "./db/types";
+import type {
+  Class,
+  CalendarEvent,
+  CalendarEventStatus,
+  RecurrenceOverride,
+  RecurrenceRule,
+} from "./db/types";
 import type { PermissionSlipTask } from "./event-permission-slips";
 import { getParentPermissionSlipTasks } from "./event-permission-slips";
 import {
@@ -16,9 +22,20 @@ import type { ParentInterviewClass } from "./interview-slots";
 import { getConversationsForParent } from "./messaging";
 import type { ParentConversationSummary } from "./messaging";
 import { isDbConfigured } from "./db";
+import { getCalendarFeedToken, getCalendarFeedUrl } from "./calendar-feed";
+import { upcomingEventsFilter } from "./schools";
+import { getSchoolClosures, type SchoolClosureSerialized } from "./school-closures";
+import {
+  getUnacknowledgedBroadcasts,
+  type ParentUrgentBroadcastSerialized,
+} from "./urgent-broadcasts";
+import { resolveTimeZone } from "./timezone";
+import { getFamilyLedger, type StudentLedger } from "./family-ledger";
 
 export interface ParentClassWithSchool extends Class {
   schoolName: string;
+  /** School's IANA time zone */
+  schoolTimeZone: string;
 }
 
 /** Serialized for passing to Client Components (no ObjectId, Date) */
@@ -29,6 +46,8 @@ export interface ParentClassSerialized {
   code?: string;
   term: string;
   schoolName: string;
+  /** School's IANA time zone */
+  timeZone: string;
   /** This parent's children in this class (linked to their account) */
   children: { id: string; name: string }[];
 }
@@ -43,6 +62,17 @@ export interface CalendarEventSerialized {
   endAt: string;
   /** Recurring: occurrence dates (YYYY-MM-DD) */
   occurrenceDates?: string[];
+  /** Recurring: repeat rule, exceptions and one-off changes (occurrenceDates already reflects them) */
+  recurrence?: RecurrenceRule;
+  recurrenceExceptions?: string[];
+  recurrenceOverrides?: RecurrenceOverride[];
+  /** Recurring: rule dates skipped because the school is closed */
+  closureDates?: string[];
+  status: CalendarEventStatus;
+  /** Teacher's reason for the latest cancellation/postponement/reschedule */
+  statusReason?: string;
+  /** Set when the event was moved: its previous start */
+  rescheduledFrom?: string;
 }
 
 export interface ParentDashboardData {
@@ -53,6 +83,16 @@ export interface ParentDashboardData {
   reportCards: ReportCardSerialized[];
   interviewData: ParentInterviewClass[];
   conversations: ParentConversationSummary[];
+  /** Private iCalendar subscription URL, or null when the feed is turned off */
+  calendarFeedUrl: string | null;
+  /** Holidays, PD days and other closures at the children's schools */
+  schoolClosures: SchoolClosureSerialized[];
+  /** Urgent school messages pinned until the parent acknowledges them */
+  urgentBroadcasts: ParentUrgentBroadcastSerialized[];
+  /** Charges, payments, credits and refunds per child */
+  familyLedger: StudentLedger[];
+  /** School time zone used to show dates and times (first class's school) */
+  timeZone: string;
 }
 
 /**
@@ -73,12 +113,14 @@ export async function getParentClasses(
 
     const schoolIds = [...new Set(parentClasses.map((c) => c.schoolId))];
     const schoolMap = new Map<string, string>();
+    const timeZoneMap = new Map<string, string>();
     for (const id of schoolIds) {
       try {
         const school = await schools.findOne({
           _id: new ObjectId(id),
         });
         if (school?.name) schoolMap.set(id, school.name);
+        timeZoneMap.set(id, resolveTimeZone(school?.timezone));
       } catch {
         schoolMap.set(id, "Unknown School");
       }
@@ -87,6 +129,7 @@ export async function getParentClasses(
     return parentClasses.map((cls) => ({
       ...cls,
       schoolName: schoolMap.get(cls.schoolId) ?? "Unknown School",
+      schoolTimeZone: timeZoneMap.get(cls.schoolId) ?? resolveTimeZone(null),
     }));
   } catch (error) {
     console.error("[getParentClasses] Failed:", error);
@@ -108,27 +151,36 @@ export async function getParentUpcomingEvents(
       .map((c) => c._id?.toString())
       .filter((id): id is string => Boolean(id));
     const schoolIds = [...new Set(parentClasses.map((c) => c.schoolId))];
+    const timeZones = new Map(parentClasses.map((c) => [c.schoolId, c.schoolTimeZone]));
 
     const orConditions = [
       ...(classIds.length > 0 ? [{ classId: { $in: classIds } }] : []),
-      ...(schoolIds.length > 0 ? [{ schoolId: { $in: schoolIds } }] : []),
+      // Other classes' events only when shared school-wide (not their linked copies)
+      ...(schoolIds.length > 0
+        ? [{ schoolId: { $in: schoolIds }, $or: [{ classId: null }, { visibility: "school" as const }] }]
+        : []),
     ];
     if (orConditions.length === 0) return [];
 
-    const events = await calendarEventsCollection();
-    const now = new Date().toISOString();
-    const today = now.slice(0, 10); // YYYY-MM-DD for occurrenceDates comparison
+    // Events for some students only show to those students' parents
+    const students = await studentsCollection();
+    const children = await students
+      .find({ guardianIds: auth0Id }, { projection: { _id: 1 } })
+      .toArray();
+    const childIds = children.map((s) => s._id.toString());
 
+    const events = await calendarEventsCollection();
     const upcoming = await events
       .find({
         $and: [
           { $or: orConditions },
+          upcomingEventsFilter(timeZones),
+          // Trips and paid events waiting on (or refused) principal approval stay hidden
+          { approvalStatus: { $nin: ["pending", "rejected"] } },
           {
             $or: [
-              { startAt: { $gte: now } },
-              { startAt: { $lt: now }, endAt: { $gte: now } },
-              // Recurring: include if any occurrence date is today or in the future
-              { occurrenceDates: { $elemMatch: { $gte: today } } },
+              { targetStudentIds: { $exists: false } },
+              { targetStudentIds: { $in: childIds } },
             ],
           },
         ],
@@ -154,11 +206,13 @@ function serializeClass(
     code: cls.code,
     term: cls.term,
     schoolName: cls.schoolName,
+    timeZone: cls.schoolTimeZone,
     children,
   };
 }
 
 function serializeEvent(event: CalendarEvent): CalendarEventSerialized {
+  const lastChange = event.scheduleChanges?.at(-1);
   return {
     id: event._id?.toString() ?? "",
     schoolId: event.schoolId,
@@ -168,6 +222,13 @@ function serializeEvent(event: CalendarEvent): CalendarEventSerialized {
     startAt: event.startAt,
     endAt: event.endAt,
     occurrenceDates: event.occurrenceDates,
+    recurrence: event.recurrence,
+    recurrenceExceptions: event.recurrenceExceptions,
+    recurrenceOverrides: event.recurrenceOverrides,
+    closureDates: event.closureDates,
+    status: event.status ?? "scheduled",
+    statusReason: event.statusReason,
+    rescheduledFrom: lastChange?.type === "rescheduled" ? lastChange.fromStartAt : undefined,
   };
 }
 
@@ -187,6 +248,8 @@ export async function getParentDashboardData(
     reportCards,
     interviewData,
     conversations,
+    calendarFeedToken,
+    familyLedger,
   ] = await Promise.all([
     getParentClasses(auth0Id),
     getParentUpcomingEvents(auth0Id),
@@ -195,6 +258,13 @@ export async function getParentDashboardData(
     getPublishedReportCardsForGuardian(auth0Id),
     getInterviewDataForGuardian(auth0Id),
     getConversationsForParent(auth0Id),
+    getCalendarFeedToken(auth0Id),
+    getFamilyLedger(auth0Id),
+  ]);
+
+  const [schoolClosures, urgentBroadcasts] = await Promise.all([
+    getSchoolClosures(classes.map((c) => c.schoolId)),
+    getUnacknowledgedBroadcasts(auth0Id),
   ]);
 
   const students = await studentsCollection();
@@ -235,5 +305,12 @@ export async function getParentDashboardData(
     reportCards,
     interviewData,
     conversations,
+    schoolClosures,
+    urgentBroadcasts,
+    familyLedger,
+    timeZone: resolveTimeZone(classes[0]?.schoolTimeZone),
+    calendarFeedUrl: calendarFeedToken
+      ? getCalendarFeedUrl(calendarFeedToken)
+      : null,
   };
 }
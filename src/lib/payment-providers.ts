@@ -0,0 +1,121 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+export interface CheckoutRequest {
+  /** Our payment intent ID; providers echo it back for support lookups */
+  reference: string;
+  amountCents: number;
+  currency: string;
+  /** Shown to the parent on the provider's page, e.g. "Zoo trip - Ava Chen" */
+  description: string;
+  /** Where the provider sends the parent when they finish or give up */
+  returnUrl: string;
+}
+
+export interface CheckoutSession {
+  providerPaymentId: string;
+  checkoutUrl: string;
+}
+
+/** Outcome of a checkout, as reported by the provider's webhook */
+export interface PaymentWebhookEvent {
+  providerPaymentId: string;
+  status: "succeeded" | "failed" | "cancelled";
+  failureReason?: string;
+}
+
+/**
+ * What the app needs from a payment provider. A real one (e.g. Stripe) wraps its API here;
+ * everything else about payments is provider-agnostic.
+ */
+export interface PaymentProvider {
+  id: string;
+  createCheckout(request: CheckoutRequest): Promise<CheckoutSession>;
+  /** Checks the provider's signature on a webhook. Null when it doesn't verify */
+  parseWebhook(rawBody: string, headers: Headers): PaymentWebhookEvent | null;
+}
+
+const FAKE_SIGNATURE_HEADER = "x-fake-signature";
+
+function getBaseUrl(): string {
+  return (process.env.APP_BASE_URL ?? "http://localhost:3000").replace(/\/$/, "");
+}
+
+/** No default: a known secret would let anyone forge a "succeeded" webhook */
+function getFakeWebhookSecret(): string {
+  const secret = process.env.PAYMENT_WEBHOOK_SECRET;
+  if (!secret) throw new Error("PAYMENT_WEBHOOK_SECRET is not set");
+  return secret;
+}
+
+function signFakeWebhook(rawBody: string): string {
+  return createHmac("sha256", getFakeWebhookSecret()).update(rawBody).digest("hex");
+}
+
+/**
+ * Local stand-in for a real provider: its checkout page lives in this app and "paying" sends
+ * a signed webhook like a real provider would. No money moves.
+ */
+const fakeProvider: PaymentProvider = {
+  id: "fake",
+
+  async createCheckout() {
+    const providerPaymentId = `fake_${randomBytes(12).toString("hex")}`;
+    return {
+      providerPaymentId,
+      checkoutUrl: `${getBaseUrl()}/payments/fake-checkout/${providerPaymentId}`,
+    };
+  },
+
+  parseWebhook(rawBody, headers) {
+    const signature = headers.get(FAKE_SIGNATURE_HEADER) ?? "";
+    const expected = signFakeWebhook(rawBody);
+    if (
+      signature.length !== expected.length ||
+      !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      return null;
+    }
+    try {
+      const body = JSON.parse(rawBody) as Partial<PaymentWebhookEvent>;
+      if (
+        typeof body.providerPaymentId !== "string" ||
+        !["succeeded", "failed", "cancelled"].includes(body.status ?? "")
+      ) {
+        return null;
+      }
+      return body as PaymentWebhookEvent;
+    } catch {
+      return null;
+    }
+  },
+};
+
+/** What the fake provider's servers would POST to our webhook once the parent decides */
+export function buildFakeWebhook(event: PaymentWebhookEvent): { rawBody: string; headers: Headers } {
+  const rawBody = JSON.stringify(event);
+  return {
+    rawBody,
+    headers: new Headers({
+      "content-type": "application/json",
+      [FAKE_SIGNATURE_HEADER]: signFakeWebhook(rawBody),
+    }),
+  };
+}
+
+const PROVIDERS: Record<string, PaymentProvider> = {
+  [fakeProvider.id]: fakeProvider,
+};
+
+/**
+ * The provider chosen with PAYMENT_PROVIDER. Outside production the fake provider is used
+ * when nothing is set; in production online payments stay off until a real one is configured,
+ * and the fake provider is never used. With `id` (e.g. a webhook's provider), null unless that
+ * is the configured provider.
+ */
+export function getPaymentProvider(id?: string): PaymentProvider | null {
+  const isProduction = process.env.NODE_ENV === "production";
+  const configured = process.env.PAYMENT_PROVIDER || (isProduction ? undefined : fakeProvider.id);
+  if (!configured || (id != null && id !== configured)) return null;
+  if (configured === fakeProvider.id && isProduction) return null;
+  return PROVIDERS[configured] ?? null;
+}
@@ -0,0 +1,386 @@
+import { ObjectId } from "mongodb";
+import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
+import {
+  calendarEventsCollection,
+  classesCollection,
+  eventPermissionSlipsCollection,
+  paymentIntentsCollection,
+  studentsCollection,
+  usersCollection,
+} from "./db/collections";
+import { isDbConfigured } from "./db";
+import { getEventEffectiveCost } from "./calendar-events";
+import { getRecordedEventAdjustment } from "./family-ledger";
+import { encodable } from "./pdf-stamp";
+import { getSchoolTimeZone } from "./schools";
+import { toZonedLocal } from "./timezone";
+import { buildFakeWebhook, getPaymentProvider } from "./payment-providers";
+
+const CURRENCY = "cad";
+/** A parent who comes back to an unfinished checkout within this window reuses it */
+const CHECKOUT_REUSE_MS = 60 * 60 * 1000;
+
+export interface PaymentReceipt {
+  receiptNumber: string;
+  paidAt: string;
+  amount: number;
+  currency: string;
+  eventTitle: string;
+  eventStartAt: string;
+  className: string;
+  studentName: string;
+  payerName: string;
+  /** School time zone, for printing the payment time */
+  timeZone: string;
+}
+
+/** Checkout page details the fake provider shows in place of a real payment form */
+export interface FakeCheckoutSerialized {
+  providerPaymentId: string;
+  amount: number;
+  currency: string;
+  description: string;
+  status: "pending" | "succeeded" | "failed" | "cancelled";
+}
+
+function toReceiptNumber(intentId: ObjectId, paidAt: Date): string {
+  return `R-${paidAt.getUTCFullYear()}-${intentId.toString().slice(-6).toUpperCase()}`;
+}
+
+/**
+ * Starts an online payment for a signed slip whose parent chose to pay online. The amount is
+ * the event's effective cost for the dates they picked, less anything the teacher already
+ * recorded against it. Returns where to send the parent.
+ */
+export async function startSlipCheckout(
+  auth0Id: string,
+  slipId: string
+): Promise<{ success: true; checkoutUrl: string } | { success: false; error: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+  if (!/^[a-f0-9]{24}$/i.test(slipId)) {
+    return { success: false, error: "Permission slip not found" };
+  }
+  const provider = getPaymentProvider();
+  if (!provider) {
+    return {
+      success: false,
+      error: "Online payments aren't set up yet. Please send cash with your child instead.",
+    };
+  }
+
+  try {
+    const slips = await eventPermissionSlipsCollection();
+    const slip = await slips.findOne({ _id: new ObjectId(slipId), guardianId: auth0Id });
+    if (!slip) return { success: false, error: "Permission slip not found" };
+    if (slip.paidAt) return { success: false, error: "This has already been paid" };
+    if (slip.status !== "signed" || slip.paymentMethod !== "online") {
+      return { success: false, error: "Choose to pay online when you submit the slip first" };
+    }
+
+    const events = await calendarEventsCollection();
+    const event = await events.findOne({ _id: new ObjectId(slip.eventId) });
+    if (!event) return { success: false, error: "Event not found" };
+    if (event.status === "cancelled") {
+      return { success: false, error: "This event has been cancelled" };
+    }
+    const cost = getEventEffectiveCost(event, slip.selectedOccurrenceDates);
+    if (!cost || cost <= 0) {
+      return { success: false, error: "There is nothing to pay for this event" };
+    }
+    // Part may already have been paid in person; only ask for the rest
+    const adjustment = slip.studentId
+      ? await getRecordedEventAdjustment(slip.studentId, slip.eventId)
+      : 0;
+    const amountCents = Math.round((cost + adjustment) * 100);
+    if (amountCents <= 0) {
+      return { success: false, error: "There is nothing left to pay for this event" };
+    }
+
+    const intents = await paymentIntentsCollection();
+    const now = new Date();
+    const openIntent = await intents.findOne({
+      slipId,
+      provider: provider.id,
+      status: "pending",
+      amountCents,
+      createdAt: { $gt: new Date(now.getTime() - CHECKOUT_REUSE_MS) },
+    });
+    if (openIntent) {
+      return { success: true, checkoutUrl: openIntent.checkoutUrl };
+    }
+
+    const students = await studentsCollection();
+    const student = slip.studentId && /^[a-f0-9]{24}$/i.test(slip.studentId)
+      ? await students.findOne({ _id: new ObjectId(slip.studentId) })
+      : null;
+    const intentId = new ObjectId();
+    const base = (process.env.APP_BASE_URL ?? "http://localhost:3000").replace(/\/$/, "");
+    const session = await provider.createCheckout({
+      reference: intentId.toString(),
+      amountCents,
+      currency: CURRENCY,
+      description: student ? `${event.title} - ${student.name}` : event.title,
+      returnUrl: `${base}/?payment=${intentId.toString()}`,
+    });
+    await intents.insertOne({
+      _id: intentId,
+      slipId,
+      eventId: slip.eventId,
+      guardianId: auth0Id,
+      provider: provider.id,
+      providerPaymentId: session.providerPaymentId,
+      amountCents,
+      currency: CURRENCY,
+      status: "pending",
+      checkoutUrl: session.checkoutUrl,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return { success: true, checkoutUrl: session.checkoutUrl };
+  } catch (error) {
+    console.error("[startSlipCheckout] Failed:", error);
+    return { success: false, error: "Couldn't start the payment. Please try again." };
+  }
+}
+
+/**
+ * Applies a provider's webhook. Only a verified webhook can mark a slip paid; the parent
+ * coming back from checkout proves nothing. Repeated deliveries are ignored.
+ */
+export async function handlePaymentWebhook(
+  providerId: string,
+  rawBody: string,
+  headers: Headers
+): Promise<{ success: true } | { success: false; error: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+  const provider = getPaymentProvider(providerId);
+  if (!provider) return { success: false, error: "Unknown payment provider" };
+
+  try {
+    const webhook = provider.parseWebhook(rawBody, headers);
+    if (!webhook) return { success: false, error: "Invalid signature" };
+
+    const intents = await paymentIntentsCollection();
+    const intent = await intents.findOne({
+      provider: provider.id,
+      providerPaymentId: webhook.providerPaymentId,
+    });
+    if (!intent?._id) return { success: false, error: "Payment not found" };
+    if (intent.status !== "pending") return { success: true };
+
+    const now = new Date();
+    if (webhook.status !== "succeeded") {
+      await intents.updateOne(
+        { _id: intent._id, status: "pending" },
+        {
+          $set: {
+            status: webhook.status,
+            updatedAt: now,
+            ...(webhook.failureReason && { failureReason: webhook.failureReason.slice(0, 200) }),
+          },
+        }
+      );
+      return { success: true };
+    }
+
+    const claimed = await intents.updateOne(
+      { _id: intent._id, status: "pending" },
+      {
+        $set: {
+          status: "succeeded",
+          paidAt: now,
+          updatedAt: now,
+          receiptNumber: toReceiptNumber(intent._id, now),
+        },
+      }
+    );
+    if (claimed.modifiedCount === 0) return { success: true };
+
+    const slips = await eventPermissionSlipsCollection();
+    const updated = await slips.updateOne(
+      { _id: new ObjectId(intent.slipId), paidAt: { $exists: false } },
+      {
+        $set: {
+          paidAt: now,
+          amountPaid: intent.amountCents / 100,
+          paymentIntentId: intent._id.toString(),
+        },
+      }
+    );
+    if (updated.modifiedCount === 0) {
+      // Paid twice (e.g. two tabs). Keep the record so the school can refund it
+      console.error("[handlePaymentWebhook] Slip already paid:", intent.slipId, intent._id.toString());
+    }
+    return { success: true };
+  } catch (error) {
+    console.error("[handlePaymentWebhook] Failed:", error);
+    return { success: false, error: "Failed to record payment" };
+  }
+}
+
+/** Receipt for a succeeded payment, for the parent who paid or a teacher of the class */
+export async function getPaymentReceipt(
+  auth0Id: string,
+  intentId: string
+): Promise<{ success: true; receipt: PaymentReceipt } | { success: false; error: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+  if (!/^[a-f0-9]{24}$/i.test(intentId)) {
+    return { success: false, error: "Receipt not found" };
+  }
+
+  try {
+    const intents = await paymentIntentsCollection();
+    const intent = await intents.findOne({ _id: new ObjectId(intentId), status: "succeeded" });
+    if (!intent?.paidAt || !intent.receiptNumber) {
+      return { success: false, error: "Receipt not found" };
+    }
+    const slips = await eventPermissionSlipsCollection();
+    const slip = await slips.findOne({ _id: new ObjectId(intent.slipId) });
+    const classes = await classesCollection();
+    const cls = slip ? await classes.findOne({ _id: new ObjectId(slip.classId) }) : null;
+    if (intent.guardianId !== auth0Id && !cls?.teacherIds?.includes(auth0Id)) {
+      return { success: false, error: "Receipt not found" };
+    }
+
+    const [event, student, payer] = await Promise.all([
+      calendarEventsCollection().then((c) => c.findOne({ _id: new ObjectId(intent.eventId) })),
+      slip?.studentId && /^[a-f0-9]{24}$/i.test(slip.studentId)
+        ? studentsCollection().then((c) => c.findOne({ _id: new ObjectId(slip.studentId) }))
+        : null,
+      usersCollection().then((c) => c.findOne({ auth0Id: intent.guardianId })),
+    ]);
+
+    return {
+      success: true,
+      receipt: {
+        receiptNumber: intent.receiptNumber,
+        paidAt: intent.paidAt.toISOString(),
+        amount: intent.amountCents / 100,
+        currency: intent.currency,
+        eventTitle: event?.title ?? "Event",
+        eventStartAt: event?.startAt ?? "",
+        className: cls?.name ?? "",
+        studentName: student?.name ?? "",
+        payerName: payer?.name ?? payer?.email ?? "",
+        timeZone: await getSchoolTimeZone(event?.schoolId ?? ""),
+      },
+    };
+  } catch (error) {
+    console.error("[getPaymentReceipt] Failed:", error);
+    return { success: false, error: "Failed to load the receipt" };
+  }
+}
+
+/** One-page PDF receipt */
+export async function renderReceiptPdf(receipt: PaymentReceipt): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const page = pdf.addPage([612, 792]);
+  const left = 72;
+  let top = 720;
+
+  page.drawText("Payment receipt", { x: left, y: top, size: 20, font: bold });
+  top -= 24;
+  page.drawText(encodable(font, receipt.receiptNumber), {
+    x: left,
+    y: top,
+    size: 11,
+    font,
+    color: rgb(0.45, 0.45, 0.48),
+  });
+  top -= 40;
+
+  const eventDay = receipt.eventStartAt
+    ? new Date(`${receipt.eventStartAt.slice(0, 10)}T12:00:00`).toLocaleDateString("en-US", {
+        month: "long",
+        day: "numeric",
+        year: "numeric",
+      })
+    : "";
+  const rows: [string, string][] = [
+    ["Event", eventDay ? `${receipt.eventTitle} (${eventDay})` : receipt.eventTitle],
+    ["Class", receipt.className],
+    ["Student", receipt.studentName],
+    ["Paid by", receipt.payerName],
+    ["Paid on", toZonedLocal(new Date(receipt.paidAt), receipt.timeZone).slice(0, 16).replace("T", " ")],
+    ["Amount", `$${receipt.amount.toFixed(2)} ${receipt.currency.toUpperCase()}`],
+  ];
+  for (const [label, value] of rows) {
+    if (!value) continue;
+    page.drawText(label, { x: left, y: top, size: 11, font, color: rgb(0.45, 0.45, 0.48) });
+    page.drawText(encodable(font, value), { x: left + 110, y: top, size: 11, font, maxWidth: 360 });
+    top -= 22;
+  }
+
+  return Buffer.from(await pdf.save());
+}
+
+/**
+ * The fake provider's checkout page, for the parent who started the checkout. Null outside
+ * development or for unknown payments.
+ */
+export async function getFakeCheckout(
+  auth0Id: string,
+  providerPaymentId: string
+): Promise<FakeCheckoutSerialized | null> {
+  if (!isDbConfigured() || getPaymentProvider()?.id !== "fake") return null;
+
+  try {
+    const intents = await paymentIntentsCollection();
+    const intent = await intents.findOne({
+      provider: "fake",
+      providerPaymentId,
+      guardianId: auth0Id,
+    });
+    if (!intent) return null;
+    const events = await calendarEventsCollection();
+    const event = await events.findOne({ _id: new ObjectId(intent.eventId) });
+    return {
+      providerPaymentId,
+      amount: intent.amountCents / 100,
+      currency: intent.currency,
+      description: event?.title ?? "School payment",
+      status: intent.status,
+    };
+  } catch (error) {
+    console.error("[getFakeCheckout] Failed:", error);
+    return null;
+  }
+}
+
+/** Pretends to be the fake provider telling us how the parent's checkout went */
+export async function completeFakeCheckout(
+  auth0Id: string,
+  providerPaymentId: string,
+  outcome: "succeeded" | "cancelled"
+): Promise<{ success: true } | { success: false; error: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+  if (getPaymentProvider()?.id !== "fake") {
+    return { success: false, error: "Payment not found" };
+  }
+
+  try {
+    const intents = await paymentIntentsCollection();
+    const intent = await intents.findOne({
+      provider: "fake",
+      providerPaymentId,
+      guardianId: auth0Id,
+    });
+    if (!intent) return { success: false, error: "Payment not found" };
+    const { rawBody, headers } = buildFakeWebhook({ providerPaymentId, status: outcome });
+    return await handlePaymentWebhook("fake", rawBody, headers);
+  } catch (error) {
+    console.error("[completeFakeCheckout] Failed:", error);
+    return { success: false, error: "Failed to complete checkout" };
+  }
+}
@@ -0,0 +1,153 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFImage, type PDFPage } from "pdf-lib";
+import type { SlipStampField, SlipStampLayout } from "./db/types";
+
+export interface SlipStampValues {
+  formTitle: string;
+  parentName: string;
+  studentName: string;
+  /** Drawn signature as a PNG data URL; without one the typed name is written in script */
+  signatureImage?: string;
+  /** Signing date, already formatted on the school's clock */
+  date: string;
+  /** e.g. "Pay online"; omitted for free events */
+  payment?: string;
+  signatureHash: string;
+}
+
+const TEXT_SIZE = 11;
+const TYPED_SIGNATURE_SIZE = 20;
+const SIGNATURE_WIDTH = 150;
+const TEXT_COLOR = rgb(0.09, 0.09, 0.11);
+const MUTED_COLOR = rgb(0.45, 0.45, 0.48);
+
+/** Standard fonts only cover Latin-1; anything else would make pdf-lib throw */
+export function encodable(font: PDFFont, text: string): string {
+  const supported = new Set(font.getCharacterSet());
+  return [...text].map((c) => (supported.has(c.codePointAt(0)!) ? c : "?")).join("");
+}
+
+interface StampContext {
+  font: PDFFont;
+  script: PDFFont;
+  signature: PDFImage | null;
+  values: SlipStampValues;
+}
+
+/** Draws one item with its top-left corner at (x, top) in PDF points */
+function drawItem(
+  page: PDFPage,
+  field: SlipStampField,
+  x: number,
+  top: number,
+  { font, script, signature, values }: StampContext
+): void {
+  if (field === "signature") {
+    if (signature) {
+      const height = (SIGNATURE_WIDTH * signature.height) / signature.width;
+      page.drawImage(signature, { x, y: top - height, width: SIGNATURE_WIDTH, height });
+    } else {
+      page.drawText(encodable(script, values.parentName), {
+        x,
+        y: top - TYPED_SIGNATURE_SIZE,
+        size: TYPED_SIGNATURE_SIZE,
+        font: script,
+        color: TEXT_COLOR,
+      });
+    }
+    return;
+  }
+  const text = {
+    parentName: values.parentName,
+    studentName: values.studentName,
+    date: values.date,
+    payment: values.payment ?? "",
+  }[field];
+  if (!text) return;
+  page.drawText(encodable(font, text), {
+    x,
+    y: top - TEXT_SIZE,
+    size: TEXT_SIZE,
+    font,
+    color: TEXT_COLOR,
+  });
+}
+
+/** A page listing who signed, for forms the teacher hasn't placed fields on */
+function appendSignaturePage(pdf: PDFDocument, ctx: StampContext): void {
+  const reference = pdf.getPages().at(-1);
+  const [width, height] = reference
+    ? [reference.getWidth(), reference.getHeight()]
+    : [612, 792];
+  const page = pdf.addPage([width, height]);
+  const left = 72;
+  let top = height - 72;
+
+  page.drawText("Electronic signature", { x: left, y: top - 16, size: 16, font: ctx.font });
+  top -= 28;
+  page.drawText(encodable(ctx.font, ctx.values.formTitle), {
+    x: left,
+    y: top - TEXT_SIZE,
+    size: TEXT_SIZE,
+    font: ctx.font,
+    color: MUTED_COLOR,
+  });
+  top -= 36;
+
+  const rows: [string, SlipStampField][] = [
+    ["Parent/guardian", "parentName"],
+    ["Student", "studentName"],
+    ["Signed", "date"],
+    ...(ctx.values.payment ? [["Payment", "payment"] as [string, SlipStampField]] : []),
+    ["Signature", "signature"],
+  ];
+  for (const [label, field] of rows) {
+    page.drawText(label, { x: left, y: top - TEXT_SIZE, size: TEXT_SIZE, font: ctx.font, color: MUTED_COLOR });
+    drawItem(page, field, left + 120, top, ctx);
+    top -= field === "signature" ? 70 : 24;
+  }
+}
+
+/**
+ * Stamps a parent's e-signature onto the teacher's permission form and returns the signed
+ * PDF as base64. Items go where the teacher placed them; with no layout a signature page is
+ * added at the end. Every signed copy carries the signature hash at the foot of its last page.
+ */
+export async function stampSignedSlip(
+  formPdfBase64: string,
+  layout: SlipStampLayout | undefined,
+  values: SlipStampValues
+): Promise<string> {
+  const pdf = await PDFDocument.load(Buffer.from(formPdfBase64, "base64"), {
+    ignoreEncryption: true,
+  });
+  const ctx: StampContext = {
+    font: await pdf.embedFont(StandardFonts.Helvetica),
+    script: await pdf.embedFont(StandardFonts.TimesRomanItalic),
+    signature: values.signatureImage ? await pdf.embedPng(values.signatureImage) : null,
+    values,
+  };
+
+  const placed = Object.entries(layout ?? {}) as [SlipStampField, { page: number; x: number; y: number }][];
+  const pages = pdf.getPages();
+  if (placed.length === 0 || pages.length === 0) {
+    appendSignaturePage(pdf, ctx);
+  } else {
+    for (const [field, position] of placed) {
+      // Positions past the end (e.g. the form was replaced with a shorter one) land on the last page
+      const page = pages[Math.min(Math.max(position.page, 1), pages.length) - 1];
+      const { width, height } = page.getSize();
+      drawItem(page, field, (position.x / 100) * width, height - (position.y / 100) * height, ctx);
+    }
+  }
+
+  const last = pdf.getPages().at(-1)!;
+  last.drawText(`Signed electronically · SHA-256 ${values.signatureHash}`, {
+    x: 24,
+    y: 14,
+    size: 6,
+    font: ctx.font,
+    color: MUTED_COLOR,
+  });
+
+  return Buffer.from(await pdf.save()).toString("base64");
+}
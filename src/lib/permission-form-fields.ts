@@ -0,0 +1,24 @@
+import type { PermissionFormField, PermissionFormResponses } from "./db/types";
+
+/** An answer as shown to teachers and in exports */
+export function formatFormResponse(
+  field: PermissionFormField,
+  value: string | boolean | undefined
+): string {
+  if (field.type === "checkbox") return value === true ? "Yes" : "No";
+  return typeof value === "string" ? value : "";
+}
+
+/** Whether every required question has an answer, so submit buttons can wait for them */
+export function hasRequiredAnswers(
+  fields: PermissionFormField[],
+  value: PermissionFormResponses
+): boolean {
+  return fields.every((field) => {
+    if (!field.required) return true;
+    const answer = value[field.key];
+    return field.type === "checkbox"
+      ? answer === true
+      : typeof answer === "string" && answer.trim() !== "";
+  });
+}
@@ -0,0 +1,416 @@
+import { createHash } from "crypto";
+import { ObjectId } from "mongodb";
+import {
+  classesCollection,
+  eventPermissionSlipsCollection,
+  permissionFormsCollection,
+  signaturesCollection,
+  studentsCollection,
+} from "./db/collections";
+import type {
+  CalendarEvent,
+  EventPermissionSlip,
+  FormSnapshot,
+  PaymentMethod,
+  PermissionForm,
+  PermissionFormField,
+  PermissionFormFieldType,
+  PermissionFormResponses,
+  Signature,
+} from "./db/types";
+import { getEventOccurrenceDates } from "./recurrence";
+import { getSchoolTimeZone } from "./schools";
+import { zonedLocalToDate } from "./timezone";
+import { stampSignedSlip } from "./pdf-stamp";
+
+/** Drawn signatures arrive as PNG data URLs from the signature pad */
+const SIGNATURE_IMAGE_PREFIX = "data:image/png;base64,";
+const MAX_SIGNATURE_IMAGE_LENGTH = 200_000;
+
+const MAX_FIELDS = 20;
+const MAX_OPTIONS = 10;
+const MAX_RESPONSE_LENGTH = 500;
+const FIELD_TYPES: PermissionFormFieldType[] = ["text", "checkbox", "choice"];
+
+const PAYMENT_LABELS: Record<PaymentMethod, string> = {
+  online: "Pay online",
+  cash: "Cash sent with child",
+};
+
+export interface SignatureInput {
+  /** Full name as typed by the parent; this is the signature when nothing is drawn */
+  signerName: string;
+  /** Drawn signature as a PNG data URL */
+  signatureImage?: string;
+}
+
+export interface PermissionFormFieldInput {
+  /** Existing fields keep their key so answers already given stay attached */
+  key?: string;
+  label: string;
+  type: PermissionFormFieldType;
+  required?: boolean;
+  options?: string[];
+}
+
+/** What teachers see about an e-signed slip */
+export interface SignatureSummary {
+  signerName: string;
+  signedAt: string;
+  signatureImageUrl?: string;
+  signatureHash: string;
+}
+
+export function validateSignatureInput(
+  input: SignatureInput
+): { success: true; signerName: string } | { success: false; error: string } {
+  const signerName = input.signerName.trim().replace(/\s+/g, " ");
+  if (signerName.length < 2) {
+    return { success: false, error: "Type your full name to sign" };
+  }
+  if (signerName.length > 100) return { success: false, error: "Name is too long" };
+  if (
+    input.signatureImage &&
+    (!input.signatureImage.startsWith(SIGNATURE_IMAGE_PREFIX) ||
+      input.signatureImage.length > MAX_SIGNATURE_IMAGE_LENGTH)
+  ) {
+    return { success: false, error: "The drawn signature couldn't be read. Please try again." };
+  }
+  return { success: true, signerName };
+}
+
+export function resolvePermissionFormFields(
+  input: PermissionFormFieldInput[]
+): { success: true; fields: PermissionFormField[] } | { success: false; error: string } {
+  if (input.length > MAX_FIELDS) {
+    return { success: false, error: `Add at most ${MAX_FIELDS} form questions` };
+  }
+  const fields: PermissionFormField[] = [];
+  for (const field of input) {
+    const label = field.label.trim();
+    if (!label) return { success: false, error: "Each form question needs a label" };
+    if (label.length > 100) return { success: false, error: "Form question is too long" };
+    if (!FIELD_TYPES.includes(field.type)) {
+      return { success: false, error: "Unknown form question type" };
+    }
+    const key =
+      field.key && /^[a-f0-9]{24}$/i.test(field.key) ? field.key : new ObjectId().toString();
+    if (fields.some((f) => f.key === key)) {
+      return { success: false, error: "Duplicate form question" };
+    }
+    let options: string[] | undefined;
+    if (field.type === "choice") {
+      options = [...new Set((field.options ?? []).map((o) => o.trim()).filter(Boolean))];
+      if (options.length < 2) {
+        return { success: false, error: `"${label}" needs at least two choices` };
+      }
+      if (options.length > MAX_OPTIONS || options.some((o) => o.length > 60)) {
+        return { success: false, error: `"${label}" has too many or too long choices` };
+      }
+    }
+    fields.push({
+      key,
+      label,
+      type: field.type,
+      ...(field.required && { required: true }),
+      ...(options && { options }),
+    });
+  }
+  return { success: true, fields };
+}
+
+/**
+ * Checks a parent's answers against the form's fields. Unknown keys and blank answers are
+ * dropped; a required checkbox has to be ticked.
+ */
+export function validateFormResponses(
+  fields: PermissionFormField[],
+  input: PermissionFormResponses | undefined
+): { success: true; responses: PermissionFormResponses } | { success: false; error: string } {
+  const responses: PermissionFormResponses = {};
+  for (const field of fields) {
+    const value = input?.[field.key];
+    if (field.type === "checkbox") {
+      if (value === true) responses[field.key] = true;
+      else if (field.required) {
+        return { success: false, error: `Please tick "${field.label}"` };
+      }
+      continue;
+    }
+    const text = typeof value === "string" ? value.trim() : "";
+    if (!text) {
+      if (field.required) return { success: false, error: `Please answer "${field.label}"` };
+      continue;
+    }
+    if (text.length > MAX_RESPONSE_LENGTH) {
+      return { success: false, error: `Your answer to "${field.label}" is too long` };
+    }
+    if (field.type === "choice" && !field.options?.includes(text)) {
+      return { success: false, error: `Please pick one of the choices for "${field.label}"` };
+    }
+    responses[field.key] = text;
+  }
+  return { success: true, responses };
+}
+
+function formatFormDate(date: string): string {
+  return new Date(`${date}T12:00:00`).toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+/** The consent statement the parent signs, written out so the snapshot reads on its own */
+function buildConsentText(event: CalendarEvent, studentName: string): string {
+  const dates = getEventOccurrenceDates(event);
+  const when =
+    dates.length > 1
+      ? `on ${dates.length} dates starting ${formatFormDate(dates[0])}`
+      : `on ${formatFormDate(dates[0])}`;
+  const consent = `I give permission for ${studentName} to take part in "${event.title}" ${when}.`;
+  return event.description ? `${consent}\n\n${event.description}` : consent;
+}
+
+/**
+ * The student's open (unsigned) form for an event, created on first use. Each time a slip is
+ * re-signed a new form is opened, so earlier signatures stay on record untouched.
+ */
+async function openPermissionForm(
+  event: CalendarEvent,
+  slip: EventPermissionSlip & { studentId: string },
+  studentName: string
+): Promise<PermissionForm & { _id: ObjectId }> {
+  const forms = await permissionFormsCollection();
+  const eventId = event._id!.toString();
+  const existing = await forms.findOne({
+    eventId,
+    studentId: slip.studentId,
+    status: { $ne: "signed" },
+  });
+  if (existing?._id) return { ...existing, _id: existing._id };
+
+  const dueDate = event.permissionSlipDueDate ?? event.startAt.slice(0, 10);
+  const classes = await classesCollection();
+  const cls = await classes.findOne({ _id: new ObjectId(slip.classId) });
+  const form: PermissionForm = {
+    schoolId: event.schoolId,
+    classId: slip.classId,
+    eventId,
+    studentId: slip.studentId,
+    title: event.title,
+    bodyText: buildConsentText(event, studentName),
+    ...(event.permissionFormFields?.length && { fields: event.permissionFormFields }),
+    dueAt: zonedLocalToDate(`${dueDate}T23:59:59`, await getSchoolTimeZone(event.schoolId)),
+    status: "sent",
+    // The form is written out from the teacher's event, so it's theirs
+    createdBy: cls?.teacherIds[0] ?? "",
+    createdAt: new Date(),
+  };
+  const result = await forms.insertOne(form);
+  return { ...form, _id: result.insertedId };
+}
+
+function hashPdf(pdfBase64: string): string {
+  return createHash("sha256").update(Buffer.from(pdfBase64, "base64")).digest("hex");
+}
+
+/**
+ * The teacher's form with the signature stamped on. Undefined when there's no form or it
+ * can't be read; the download then falls back to the unsigned form.
+ */
+async function renderSignedSlipPdf(
+  event: CalendarEvent,
+  signature: Signature,
+  studentName: string,
+  paymentMethod: PaymentMethod | undefined
+): Promise<string | undefined> {
+  if (!event.permissionFormPdfBase64) return undefined;
+  try {
+    const timeZone = await getSchoolTimeZone(event.schoolId);
+    return await stampSignedSlip(event.permissionFormPdfBase64, event.permissionFormStampLayout, {
+      formTitle: signature.formSnapshot.title,
+      parentName: signature.signerNameTyped,
+      studentName,
+      ...(signature.signatureImageUrl && { signatureImage: signature.signatureImageUrl }),
+      date: signature.signedAt.toLocaleString("en-US", {
+        month: "long",
+        day: "numeric",
+        year: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+        timeZone,
+      }),
+      ...(paymentMethod && { payment: PAYMENT_LABELS[paymentMethod] }),
+      signatureHash: signature.signatureHash,
+    });
+  } catch (error) {
+    console.error("[renderSignedSlipPdf] Failed:", error);
+    return undefined;
+  }
+}
+
+/** Fingerprint of everything the parent agreed to, so later edits to the record show up */
+function hashSignature(signature: Omit<Signature, "_id" | "signatureHash">): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify({
+        formId: signature.formId,
+        studentId: signature.studentId,
+        signedBy: signature.signedBy,
+        signedAt: signature.signedAt.toISOString(),
+        signerNameTyped: signature.signerNameTyped,
+        signatureImageUrl: signature.signatureImageUrl ?? null,
+        formSnapshot: signature.formSnapshot,
+      })
+    )
+    .digest("hex");
+}
+
+/**
+ * Records a parent's e-signature on a slip: freezes the form as they saw it, hashes the
+ * record and marks the form signed. Returns the signature id and the stamped PDF to store
+ * on the slip.
+ */
+export async function recordSlipSignature(
+  event: CalendarEvent,
+  slip: EventPermissionSlip & { studentId: string },
+  studentName: string,
+  signer: { signerName: string; signatureImage?: string },
+  values: {
+    paymentMethod?: PaymentMethod;
+    selectedOccurrenceDates?: string[];
+    responses?: PermissionFormResponses;
+  }
+): Promise<{ signatureId: string; signedPdfBase64?: string }> {
+  const form = await openPermissionForm(event, slip, studentName);
+  // The questions as they are now, even if the open form was started before an edit
+  const fields = event.permissionFormFields?.length ? event.permissionFormFields : undefined;
+  const formSnapshot: FormSnapshot = {
+    title: form.title,
+    bodyText: form.bodyText,
+    ...(fields && { fields }),
+    ...(Object.keys(values).length > 0 && { values }),
+    ...(event.permissionFormPdfBase64 && {
+      formPdfSha256: hashPdf(event.permissionFormPdfBase64),
+    }),
+  };
+  const unsigned: Omit<Signature, "_id" | "signatureHash"> = {
+    formId: form._id.toString(),
+    studentId: slip.studentId,
+    signedBy: slip.guardianId,
+    signedAt: new Date(),
+    signerNameTyped: signer.signerName,
+    signatureImageUrl: signer.signatureImage ?? null,
+    formSnapshot,
+  };
+
+  const signature: Signature = { ...unsigned, signatureHash: hashSignature(unsigned) };
+  const signatures = await signaturesCollection();
+  const result = await signatures.insertOne(signature);
+  const forms = await permissionFormsCollection();
+  await forms.updateOne({ _id: form._id }, { $set: { status: "signed" } });
+  const signedPdfBase64 = await renderSignedSlipPdf(
+    event,
+    signature,
+    studentName,
+    values.paymentMethod
+  );
+  return { signatureId: result.insertedId.toString(), signedPdfBase64 };
+}
+
+/**
+ * Re-stamps an event's e-signed slips after the teacher moves the signature fields. Slips
+ * signed on an earlier version of the form keep the copy they signed.
+ */
+export async function restampSignedSlips(event: CalendarEvent): Promise<void> {
+  if (!event._id || !event.permissionFormPdfBase64) return;
+  const formHash = hashPdf(event.permissionFormPdfBase64);
+  const slips = await eventPermissionSlipsCollection();
+  const signedSlips = await slips
+    .find({
+      eventId: event._id.toString(),
+      status: { $in: ["signed", "waitlisted"] },
+      signatureId: { $exists: true },
+    })
+    .toArray();
+  if (signedSlips.length === 0) return;
+
+  const signatures = await signaturesCollection();
+  const signatureDocs = await signatures
+    .find({
+      _id: {
+        $in: signedSlips.flatMap((s) => (s.signatureId ? [new ObjectId(s.signatureId)] : [])),
+      },
+    })
+    .toArray();
+  const signatureMap = new Map(signatureDocs.map((s) => [s._id?.toString(), s]));
+  const students = await studentsCollection();
+  const studentDocs = await students
+    .find({
+      _id: {
+        $in: signedSlips
+          .map((s) => s.studentId)
+          .filter((id): id is string => typeof id === "string" && /^[a-f0-9]{24}$/i.test(id))
+          .map((id) => new ObjectId(id)),
+      },
+    })
+    .toArray();
+  const studentNames = new Map(studentDocs.map((s) => [s._id?.toString(), s.name]));
+
+  for (const slip of signedSlips) {
+    const signature = slip.signatureId ? signatureMap.get(slip.signatureId) : undefined;
+    if (!signature || signature.formSnapshot.formPdfSha256 !== formHash) continue;
+    const signedPdfBase64 = await renderSignedSlipPdf(
+      event,
+      signature,
+      (slip.studentId && studentNames.get(slip.studentId)) || "my child",
+      slip.paymentMethod
+    );
+    if (signedPdfBase64) {
+      await slips.updateOne({ _id: slip._id }, { $set: { signedPdfBase64 } });
+    }
+  }
+}
+
+/**
+ * Undoes a signature whose slip could not be updated (e.g. it was signed in another tab
+ * at the same moment), reopening its form.
+ */
+export async function discardSlipSignature(signatureId: string): Promise<void> {
+  const signatures = await signaturesCollection();
+  const signature = await signatures.findOneAndDelete({ _id: new ObjectId(signatureId) });
+  if (signature && /^[a-f0-9]{24}$/i.test(signature.formId)) {
+    const forms = await permissionFormsCollection();
+    await forms.updateOne(
+      { _id: new ObjectId(signature.formId) },
+      { $set: { status: "sent" } }
+    );
+  }
+}
+
+/**
+ * Signature summaries keyed by signature id.
+ */
+export async function getSignatureSummaries(
+  signatureIds: string[]
+): Promise<Map<string, SignatureSummary>> {
+  const validIds = [...new Set(signatureIds)].filter((id) => /^[a-f0-9]{24}$/i.test(id));
+  if (validIds.length === 0) return new Map();
+  const signatures = await signaturesCollection();
+  const docs = await signatures
+    .find({ _id: { $in: validIds.map((id) => new ObjectId(id)) } })
+    .toArray();
+  return new Map(
+    docs.map((s) => [
+      s._id?.toString() ?? "",
+      {
+        signerName: s.signerNameTyped,
+        signedAt: s.signedAt.toISOString(),
+        ...(s.signatureImageUrl && { signatureImageUrl: s.signatureImageUrl }),
+        signatureHash: s.signatureHash,
+      },
+    ])
+  );
+}
@@ -0,0 +1,268 @@
+import type {
+  CalendarEvent,
+  RecurrenceOverride,
+  RecurrenceRule,
+} from "./db/types";
+
+/** Upper bound on generated occurrences, so a bad rule can't produce an unbounded list */
+export const MAX_RECURRENCE_OCCURRENCES = 200;
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_RE = /^\d{2}:\d{2}$/;
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+type OccurrenceSource = Pick<
+  CalendarEvent,
+  | "startAt"
+  | "endAt"
+  | "occurrenceDates"
+  | "recurrence"
+  | "recurrenceExceptions"
+  | "recurrenceOverrides"
+  | "closureDates"
+>;
+
+function parseDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function formatDate(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+function isRealDate(date: string): boolean {
+  if (!DATE_RE.test(date)) return false;
+  const d = parseDate(date);
+  return !isNaN(d.getTime()) && formatDate(d) === date;
+}
+
+/**
+ * Validates a recurrence rule. Returns an error message, or null if valid.
+ */
+export function validateRecurrenceRule(rule: RecurrenceRule): string | null {
+  if (!["daily", "weekly", "monthly"].includes(rule.freq)) {
+    return "Invalid repeat frequency";
+  }
+  if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > 52) {
+    return "Repeat interval must be between 1 and 52";
+  }
+  if (!isRealDate(rule.startDate)) return "Invalid repeat start date";
+  if (rule.byWeekday) {
+    if (rule.byWeekday.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+      return "Invalid days of the week";
+    }
+  }
+  if (rule.until == null && rule.count == null) {
+    return "Choose an end date or number of occurrences";
+  }
+  if (rule.until != null) {
+    if (!isRealDate(rule.until)) return "Invalid repeat end date";
+    if (rule.until < rule.startDate) return "Repeat end date must be after the start date";
+  }
+  if (rule.count != null) {
+    if (!Number.isInteger(rule.count) || rule.count < 1) {
+      return "Number of occurrences must be at least 1";
+    }
+    if (rule.count > MAX_RECURRENCE_OCCURRENCES) {
+      return `Maximum ${MAX_RECURRENCE_OCCURRENCES} occurrences`;
+    }
+  }
+  // An end date alone could reach past the cap; refuse rather than drop the later dates
+  if (
+    rule.count == null &&
+    generateRuleDates(rule, MAX_RECURRENCE_OCCURRENCES + 1).length > MAX_RECURRENCE_OCCURRENCES
+  ) {
+    return `Maximum ${MAX_RECURRENCE_OCCURRENCES} occurrences`;
+  }
+  return null;
+}
+
+/**
+ * Generates the dates produced by a rule (before exceptions and overrides).
+ * Monthly rules repeat on startDate's day of month and skip months without that day.
+ */
+export function expandRecurrenceRule(rule: RecurrenceRule): string[] {
+  if (validateRecurrenceRule(rule)) return [];
+  return generateRuleDates(
+    rule,
+    Math.min(rule.count ?? MAX_RECURRENCE_OCCURRENCES, MAX_RECURRENCE_OCCURRENCES)
+  );
+}
+
+/** Walks a rule's dates up to `limit`; the rule must already have passed the field checks */
+function generateRuleDates(rule: RecurrenceRule, limit: number): string[] {
+  const dates: string[] = [];
+  const start = parseDate(rule.startDate);
+  const withinUntil = (date: string) => rule.until == null || date <= rule.until;
+
+  if (rule.freq === "daily") {
+    const d = new Date(start);
+    while (dates.length < limit && withinUntil(formatDate(d))) {
+      dates.push(formatDate(d));
+      d.setUTCDate(d.getUTCDate() + rule.interval);
+    }
+  } else if (rule.freq === "weekly") {
+    const weekdays = [
+      ...new Set(rule.byWeekday?.length ? rule.byWeekday : [start.getUTCDay()]),
+    ].sort();
+    // Walk week by week from the Sunday of the start week
+    const weekStart = new Date(start);
+    weekStart.setUTCDate(weekStart.getUTCDate() - weekStart.getUTCDay());
+    let guard = 0;
+    while (dates.length < limit && guard < 1000) {
+      for (const weekday of weekdays) {
+        const d = new Date(weekStart);
+        d.setUTCDate(d.getUTCDate() + weekday);
+        const date = formatDate(d);
+        if (date < rule.startDate) continue;
+        if (!withinUntil(date) || dates.length >= limit) break;
+        dates.push(date);
+      }
+      weekStart.setUTCDate(weekStart.getUTCDate() + 7 * rule.interval);
+      if (!withinUntil(formatDate(weekStart))) break;
+      guard++;
+    }
+  } else {
+    const day = start.getUTCDate();
+    let guard = 0;
+    for (let i = 0; dates.length < limit && guard < 1000; i += rule.interval, guard++) {
+      const d = new Date(
+        Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + i, day)
+      );
+      // Month without this day (e.g. the 31st) - skip it
+      if (d.getUTCDate() !== day) continue;
+      const date = formatDate(d);
+      if (!withinUntil(date)) break;
+      dates.push(date);
+    }
+  }
+
+  return dates;
+}
+
+/**
+ * Validates exceptions and overrides against the dates a rule generates.
+ * Returns an error message, or null if valid.
+ */
+export function validateRecurrenceChanges(
+  rule: RecurrenceRule,
+  exceptions: string[] = [],
+  overrides: RecurrenceOverride[] = []
+): string | null {
+  const ruleDates = new Set(expandRecurrenceRule(rule));
+  if (exceptions.some((d) => !ruleDates.has(d))) {
+    return "Skipped dates must be part of the repeat schedule";
+  }
+  for (const o of overrides) {
+    if (!ruleDates.has(o.date)) return "Changed dates must be part of the repeat schedule";
+    if (o.newDate != null && !isRealDate(o.newDate)) return "Invalid new date";
+    if (o.startTime != null && !TIME_RE.test(o.startTime)) return "Invalid start time";
+    if (o.endTime != null && !TIME_RE.test(o.endTime)) return "Invalid end time";
+    if (o.startTime && o.endTime && o.endTime <= o.startTime) {
+      return "End time must be after start time";
+    }
+  }
+  return null;
+}
+
+/**
+ * Rule dates that fall on a closed day and aren't already skipped or moved elsewhere.
+ * The series skips them (stored as closureDates).
+ */
+export function getClosedRuleDates(
+  rule: RecurrenceRule,
+  exceptions: string[],
+  overrides: RecurrenceOverride[],
+  closedDates: Set<string>
+): string[] {
+  const skipped = new Set(exceptions);
+  const moved = new Set(overrides.filter((o) => o.newDate).map((o) => o.date));
+  return expandRecurrenceRule(rule).filter(
+    (d) => closedDates.has(d) && !skipped.has(d) && !moved.has(d)
+  );
+}
+
+/**
+ * All occurrence dates for an event (YYYY-MM-DD, sorted). Uses the recurrence rule when set
+ * (minus exceptions and school closures, with moved overrides), else occurrenceDates, else
+ * the start date.
+ */
+export function getEventOccurrenceDates(
+  event: Pick<
+    OccurrenceSource,
+    | "startAt"
+    | "occurrenceDates"
+    | "recurrence"
+    | "recurrenceExceptions"
+    | "recurrenceOverrides"
+    | "closureDates"
+  >
+): string[] {
+  if (event.recurrence) {
+    const skipped = new Set([
+      ...(event.recurrenceExceptions ?? []),
+      ...(event.closureDates ?? []),
+    ]);
+    const moved = new Map(
+      (event.recurrenceOverrides ?? [])
+        .filter((o) => o.newDate)
+        .map((o) => [o.date, o.newDate!])
+    );
+    const dates = expandRecurrenceRule(event.recurrence)
+      .filter((d) => !skipped.has(d))
+      .map((d) => moved.get(d) ?? d);
+    return [...new Set(dates)].sort();
+  }
+  if (event.occurrenceDates && event.occurrenceDates.length > 0) {
+    return [...event.occurrenceDates].sort();
+  }
+  return [event.startAt.slice(0, 10)];
+}
+
+/**
+ * Start/end (local YYYY-MM-DDTHH:mm:ss) for one occurrence date, applying any override times.
+ */
+export function getOccurrenceTimes(
+  event: Pick<OccurrenceSource, "startAt" | "endAt" | "recurrenceOverrides">,
+  date: string
+): { startAt: string; endAt: string } {
+  const override = event.recurrenceOverrides?.find(
+    (o) => (o.newDate ?? o.date) === date
+  );
+  const startTime = override?.startTime ? `T${override.startTime}:00` : event.startAt.slice(10);
+  const endTime = override?.endTime ? `T${override.endTime}:00` : event.endAt.slice(10);
+  return { startAt: `${date}${startTime}`, endAt: `${date}${endTime}` };
+}
+
+/**
+ * Human-readable summary, e.g. "Every 2 weeks on Fri until Jun 26, 2026".
+ */
+export function describeRecurrenceRule(rule: RecurrenceRule): string {
+  const unit = { daily: "day", weekly: "week", monthly: "month" }[rule.freq];
+  let text =
+    rule.interval === 1
+      ? { daily: "Daily", weekly: "Weekly", monthly: "Monthly" }[rule.freq]
+      : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.freq === "weekly") {
+    const days = rule.byWeekday?.length
+      ? [...rule.byWeekday].sort().map((d) => WEEKDAY_NAMES[d])
+      : [WEEKDAY_NAMES[parseDate(rule.startDate).getUTCDay()]];
+    text += ` on ${days.join(", ")}`;
+  } else if (rule.freq === "monthly") {
+    text += ` on day ${parseDate(rule.startDate).getUTCDate()}`;
+  }
+
+  if (rule.until) {
+    const until = parseDate(rule.until).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      timeZone: "UTC",
+    });
+    text += ` until ${until}`;
+  } else if (rule.count) {
+    text += `, ${rule.count} time${rule.count === 1 ? "" : "s"}`;
+  }
+  return text;
+}
@@ -0,0 +1,150 @@
+import { ObjectId } from "mongodb";
+import { schoolClosuresCollection } from "./db/collections";
+import type { SchoolClosure, SchoolClosureKind } from "./db/types";
+import { isDbConfigured } from "./db";
+import { CLOSURE_KIND_LABELS, MAX_CLOSURE_DAYS, expandClosureDates } from "./closure-dates";
+import { addDaysToDate } from "./timezone";
+import { canManageSchool } from "./schools";
+
+export interface SchoolClosureSerialized {
+  id: string;
+  schoolId: string;
+  name: string;
+  kind: SchoolClosureKind;
+  startDate: string;
+  endDate: string;
+}
+
+function serializeClosure(closure: SchoolClosure): SchoolClosureSerialized {
+  return {
+    id: closure._id?.toString() ?? "",
+    schoolId: closure.schoolId,
+    name: closure.name,
+    kind: closure.kind,
+    startDate: closure.startDate,
+    endDate: closure.endDate,
+  };
+}
+
+/**
+ * Closures at the given schools, in date order.
+ */
+export async function getSchoolClosures(
+  schoolIds: string[]
+): Promise<SchoolClosureSerialized[]> {
+  if (!isDbConfigured() || schoolIds.length === 0) return [];
+
+  try {
+    const closures = await schoolClosuresCollection();
+    const docs = await closures
+      .find({ schoolId: { $in: [...new Set(schoolIds)] } })
+      .sort({ startDate: 1 })
+      .toArray();
+    return docs.map(serializeClosure);
+  } catch (error) {
+    console.error("[getSchoolClosures] Failed:", error);
+    return [];
+  }
+}
+
+/**
+ * Every closed date (YYYY-MM-DD) at a school, for skipping repeat dates.
+ */
+export async function getSchoolClosureDates(schoolId: string): Promise<string[]> {
+  const closures = await getSchoolClosures([schoolId]);
+  return expandClosureDates(closures);
+}
+
+/**
+ * Adds a holiday, PD day or other closure. Repeating events at the school skip the closed days.
+ */
+export async function addSchoolClosure(
+  auth0Id: string,
+  input: {
+    schoolId: string;
+    name: string;
+    kind: SchoolClosureKind;
+    startDate: string;
+    endDate?: string;
+  }
+): Promise<{ success: true; closureId: string } | { success: false; error: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+
+  if (!Object.hasOwn(CLOSURE_KIND_LABELS, input.kind)) {
+    return { success: false, error: "Choose what kind of closure this is" };
+  }
+  const name = input.name.trim() || CLOSURE_KIND_LABELS[input.kind];
+  if (name.length > 100) return { success: false, error: "Name is too long" };
+  const startDate = input.startDate;
+  const endDate = input.endDate || input.startDate;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate) || !/^\d{4}-\d{2}-\d{2}$/.test(endDate)) {
+    return { success: false, error: "Choose the closed dates" };
+  }
+  if (endDate < startDate) {
+    return { success: false, error: "The last day must be on or after the first day" };
+  }
+  if (endDate > addDaysToDate(startDate, MAX_CLOSURE_DAYS - 1)) {
+    return { success: false, error: `A closure can be up to ${MAX_CLOSURE_DAYS} days` };
+  }
+
+  try {
+    if (!(await canManageSchool(auth0Id, input.schoolId))) {
+      return { success: false, error: "You can't change closures for this school" };
+    }
+
+    const closures = await schoolClosuresCollection();
+    const result = await closures.insertOne({
+      schoolId: input.schoolId,
+      name,
+      kind: input.kind,
+      startDate,
+      endDate,
+      createdBy: auth0Id,
+      createdAt: new Date(),
+    });
+
+    const { applySchoolClosures } = await import("./calendar-events");
+    await applySchoolClosures(input.schoolId);
+
+    return { success: true, closureId: result.insertedId.toString() };
+  } catch (error) {
+    console.error("[addSchoolClosure] Failed:", error);
+    return { success: false, error: "Failed to add closure. Please try again." };
+  }
+}
+
+/**
+ * Removes a closure. Repeating dates it skipped come back.
+ */
+export async function deleteSchoolClosure(
+  auth0Id: string,
+  closureId: string
+): Promise<{ success: true } | { success: false; error: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+  if (!/^[a-f0-9]{24}$/i.test(closureId)) {
+    return { success: false, error: "Closure not found" };
+  }
+
+  try {
+    const closures = await schoolClosuresCollection();
+    const closure = await closures.findOne({ _id: new ObjectId(closureId) });
+    if (!closure) return { success: false, error: "Closure not found" };
+    if (!(await canManageSchool(auth0Id, closure.schoolId))) {
+      return { success: false, error: "You can't change closures for this school" };
+    }
+
+    await closures.deleteOne({ _id: closure._id });
+
+    const { applySchoolClosures } = await import("./calendar-events");
+    await applySchoolClosures(closure.schoolId);
+
+    return { success: true };
+  } catch (error) {
+    console.error("[deleteSchoolClosure] Failed:", error);
+    return { success: false, error: "Failed to delete closure. Please try again." };
+  }
+}
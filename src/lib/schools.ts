@@ -0,0 +1,92 @@
+import { ObjectId, type Filter } from "mongodb";
+import { classesCollection, schoolsCollection, usersCollection } from "./db/collections";
+import type { CalendarEvent } from "./db/types";
+import { isDbConfigured } from "./db";
+import { getZonedNow, resolveTimeZone } from "./timezone";
+
+/**
+ * Looks up the time zone of each school, keyed by schoolId. Schools without one (or that
+ * can't be found) get the default zone.
+ */
+export async function getSchoolTimeZones(
+  schoolIds: string[]
+): Promise<Map<string, string>> {
+  const unique = [...new Set(schoolIds)];
+  const result = new Map(unique.map((id) => [id, resolveTimeZone(null)]));
+  const validIds = unique.filter((id) => /^[a-f0-9]{24}$/i.test(id));
+  if (!isDbConfigured() || validIds.length === 0) return result;
+
+  try {
+    const schools = await schoolsCollection();
+    const docs = await schools
+      .find({ _id: { $in: validIds.map((id) => new ObjectId(id)) } })
+      .toArray();
+    for (const school of docs) {
+      if (school._id) result.set(school._id.toString(), resolveTimeZone(school.timezone));
+    }
+  } catch (error) {
+    console.error("[getSchoolTimeZones] Failed:", error);
+  }
+  return result;
+}
+
+/**
+ * Time zone of one school.
+ */
+export async function getSchoolTimeZone(schoolId: string): Promise<string> {
+  const zones = await getSchoolTimeZones([schoolId]);
+  return zones.get(schoolId) ?? resolveTimeZone(null);
+}
+
+/**
+ * School-wide actions (closures, urgent broadcasts) are open to the school's admin and to
+ * teachers with a class there.
+ */
+export async function canManageSchool(auth0Id: string, schoolId: string): Promise<boolean> {
+  const users = await usersCollection();
+  const user = await users.findOne({ auth0Id });
+  if (user?.role === "admin") return user.schoolId === schoolId;
+  const classes = await classesCollection();
+  return Boolean(await classes.findOne({ schoolId, teacherIds: auth0Id }));
+}
+
+/**
+ * Schools with an admin (principal) need them to approve field trips and paid events
+ * before families see them.
+ */
+export async function schoolRequiresApproval(schoolId: string): Promise<boolean> {
+  if (!isDbConfigured()) return false;
+  try {
+    const users = await usersCollection();
+    const admin = await users.findOne({ role: "admin", schoolId });
+    return Boolean(admin);
+  } catch (error) {
+    console.error("[schoolRequiresApproval] Failed:", error);
+    return false;
+  }
+}
+
+/**
+ * Matches events that haven't ended yet, judged by each school's own clock. Recurring events
+ * count while any occurrence date is today or later at the school.
+ */
+export function upcomingEventsFilter(
+  timeZones: Map<string, string>,
+  options: { includeRecurring?: boolean } = {}
+): Filter<CalendarEvent> {
+  const includeRecurring = options.includeRecurring ?? true;
+  const bySchool = [...timeZones].map(([schoolId, timeZone]) => {
+    const now = getZonedNow(timeZone);
+    const today = now.slice(0, 10); // YYYY-MM-DD for occurrenceDates comparison
+    return {
+      schoolId,
+      $or: [
+        { startAt: { $gte: now } },
+        { startAt: { $lt: now }, endAt: { $gte: now } },
+        ...(includeRecurring ? [{ occurrenceDates: { $elemMatch: { $gte: today } } }] : []),
+      ],
+    };
+  });
+  // No schools: match nothing
+  return bySchool.length > 0 ? { $or: bySchool } : { _id: { $exists: false } };
+}
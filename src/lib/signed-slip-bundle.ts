@@ -0,0 +1,204 @@
+import { ObjectId } from "mongodb";
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "pdf-lib";
+import { eventPermissionSlipsCollection } from "./db/collections";
+import type { EventPermissionStatus, EventPermissionStatusByStudent } from "./event-permission-slips";
+import { encodable } from "./pdf-stamp";
+import { buildZip } from "./zip";
+
+export type SignedSlipBundleFormat = "zip" | "pdf";
+
+interface SignedSlipPdf {
+  student: EventPermissionStatusByStudent;
+  pdfBase64: string;
+  signedAt?: Date;
+}
+
+const PAGE_SIZE: [number, number] = [612, 792];
+const MARGIN = 72;
+const TEXT_SIZE = 10;
+const LINE_HEIGHT = 15;
+const TEXT_COLOR = rgb(0.09, 0.09, 0.11);
+const MUTED_COLOR = rgb(0.45, 0.45, 0.48);
+
+/** Signed copies for every student with a submitted slip, in class-list order */
+async function getSignedSlipPdfs(status: EventPermissionStatus): Promise<SignedSlipPdf[]> {
+  const signed = status.students.filter(
+    (s) => s.status === "signed" && s.slipId && /^[a-f0-9]{24}$/i.test(s.slipId)
+  );
+  if (signed.length === 0) return [];
+
+  const slips = await eventPermissionSlipsCollection();
+  const slipDocs = await slips
+    .find(
+      { _id: { $in: signed.map((s) => new ObjectId(s.slipId)) }, eventId: status.eventId },
+      { projection: { signedPdfBase64: 1, signedAt: 1 } }
+    )
+    .toArray();
+  const slipMap = new Map(slipDocs.map((s) => [s._id?.toString(), s]));
+
+  return signed.flatMap((student) => {
+    const slip = slipMap.get(student.slipId ?? "");
+    return slip?.signedPdfBase64
+      ? [{ student, pdfBase64: slip.signedPdfBase64, signedAt: slip.signedAt }]
+      : [];
+  });
+}
+
+/** "Ava Chen.pdf", with a number added when two students share a name */
+function toFileNames(pdfs: SignedSlipPdf[]): string[] {
+  const used = new Map<string, number>();
+  return pdfs.map(({ student }) => {
+    const base = student.studentName.replace(/[\\/:*?"<>|\x00-\x1f]/g, "-").trim() || "Student";
+    const count = (used.get(base) ?? 0) + 1;
+    used.set(base, count);
+    return count === 1 ? `${base}.pdf` : `${base} (${count}).pdf`;
+  });
+}
+
+function formatEventDay(local: string): string {
+  return new Date(`${local.slice(0, 10)}T12:00:00`).toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+interface LineOptions {
+  size?: number;
+  bold?: boolean;
+  muted?: boolean;
+  indent?: number;
+}
+
+/** Writes lines top to bottom, starting a new page when one fills up */
+function createCoverWriter(pdf: PDFDocument, font: PDFFont, bold: PDFFont) {
+  let page: PDFPage = pdf.addPage(PAGE_SIZE);
+  let top = PAGE_SIZE[1] - MARGIN;
+
+  return {
+    line(text: string, options: LineOptions = {}) {
+      const size = options.size ?? TEXT_SIZE;
+      const lineFont = options.bold ? bold : font;
+      if (top - size < MARGIN) {
+        page = pdf.addPage(PAGE_SIZE);
+        top = PAGE_SIZE[1] - MARGIN;
+      }
+      page.drawText(encodable(lineFont, text), {
+        x: MARGIN + (options.indent ?? 0),
+        y: top - size,
+        size,
+        font: lineFont,
+        color: options.muted ? MUTED_COLOR : TEXT_COLOR,
+        maxWidth: PAGE_SIZE[0] - MARGIN * 2,
+      });
+      top -= Math.max(LINE_HEIGHT, size + 6);
+    },
+    gap(height = 10) {
+      top -= height;
+    },
+  };
+}
+
+/**
+ * Cover sheet for the merged PDF: who has signed, who hasn't, and which students have no
+ * parent linked, so the teacher can check the pile before the trip.
+ */
+async function buildCoverSheet(
+  status: EventPermissionStatus,
+  unreadable: EventPermissionStatusByStudent[]
+): Promise<PDFDocument> {
+  const pdf = await PDFDocument.create();
+  const writer = createCoverWriter(
+    pdf,
+    await pdf.embedFont(StandardFonts.Helvetica),
+    await pdf.embedFont(StandardFonts.HelveticaBold)
+  );
+
+  writer.line(status.eventTitle, { size: 18, bold: true });
+  writer.line(`${status.className} · ${formatEventDay(status.eventStartAt)}`, { muted: true });
+  writer.line(`Due ${formatEventDay(status.dueDate)}`, { muted: true });
+  writer.gap();
+
+  const groups: [string, EventPermissionStatusByStudent[]][] = [
+    ["Signed", status.students.filter((s) => s.status === "signed")],
+    ["Waitlisted", status.students.filter((s) => s.status === "waitlisted")],
+    ["Not submitted", status.students.filter((s) => s.status === "pending")],
+    ["No parent linked", status.students.filter((s) => s.status === "no_parent")],
+  ];
+  for (const [label, students] of groups) {
+    if (label === "Waitlisted" && students.length === 0) continue;
+    writer.line(`${label} (${students.length})`, { size: 12, bold: true });
+    if (students.length === 0) {
+      writer.line("None", { muted: true, indent: 12 });
+    }
+    for (const student of students) {
+      const details = [
+        student.signedBy && `signed by ${student.signedBy}`,
+        student.paymentMethod === "online" && "paying online",
+        student.paymentMethod === "cash" && (student.cashReceived ? "cash received" : "paying cash"),
+        student.waitlistPosition != null && `#${student.waitlistPosition}`,
+      ].filter(Boolean);
+      writer.line(
+        details.length > 0 ? `${student.studentName} - ${details.join(", ")}` : student.studentName,
+        { indent: 12 }
+      );
+    }
+    writer.gap();
+  }
+
+  if (unreadable.length > 0) {
+    writer.line("Not included in this file", { size: 12, bold: true });
+    writer.line("These signed PDFs couldn't be read. Open them one by one.", {
+      muted: true,
+      indent: 12,
+    });
+    for (const student of unreadable) {
+      writer.line(student.studentName, { indent: 12 });
+    }
+  }
+
+  return pdf;
+}
+
+/**
+ * Every signed slip for an event in one download: a ZIP of the PDFs named by student, or one
+ * PDF with a cover sheet followed by each signed copy.
+ */
+export async function buildSignedSlipBundle(
+  status: EventPermissionStatus,
+  format: SignedSlipBundleFormat
+): Promise<Buffer> {
+  const pdfs = await getSignedSlipPdfs(status);
+
+  if (format === "zip") {
+    const names = toFileNames(pdfs);
+    return buildZip(
+      pdfs.map((p, i) => ({
+        name: names[i],
+        data: Buffer.from(p.pdfBase64, "base64"),
+        modifiedAt: p.signedAt,
+      }))
+    );
+  }
+
+  const merged = await PDFDocument.create();
+  const included: PDFDocument[] = [];
+  const unreadable: EventPermissionStatusByStudent[] = [];
+  for (const p of pdfs) {
+    try {
+      included.push(
+        await PDFDocument.load(Buffer.from(p.pdfBase64, "base64"), { ignoreEncryption: true })
+      );
+    } catch (error) {
+      console.error("[buildSignedSlipBundle] Skipping unreadable slip:", p.student.slipId, error);
+      unreadable.push(p.student);
+    }
+  }
+
+  for (const doc of [await buildCoverSheet(status, unreadable), ...included]) {
+    const pages = await merged.copyPages(doc, doc.getPageIndices());
+    pages.forEach((page) => merged.addPage(page));
+  }
+  return Buffer.from(await merged.save());
+}
@@ -0,0 +1,309 @@
+import { ObjectId } from "mongodb";
+import {
+  calendarEventsCollection,
+  classesCollection,
+  eventPermissionSlipsCollection,
+  permissionFormsCollection,
+  studentsCollection,
+  usersCollection,
+} from "./db/collections";
+import type { CalendarEvent, SlipEscalation } from "./db/types";
+import { isDbConfigured } from "./db";
+import { getEventOccurrenceDates } from "./recurrence";
+import { getSchoolTimeZones } from "./schools";
+import { addDaysToDate, getZonedToday } from "./timezone";
+
+const MAX_REMIND_DAYS_BEFORE = 30;
+
+/** An outstanding slip passed on to the school admin */
+export interface OverdueSlipSerialized {
+  slipId: string;
+  eventId: string;
+  eventTitle: string;
+  className: string;
+  studentName: string;
+  guardianName: string;
+  /** YYYY-MM-DD */
+  dueDate: string;
+  flaggedAt: string;
+  remindersSent: number;
+}
+
+/** Families only get reminders for slips they have to sign or pay for */
+function needsFamilyAction(event: CalendarEvent): boolean {
+  return (
+    Boolean(event.requiresPermissionSlip) ||
+    (event.cost ?? 0) > 0 ||
+    (event.costPerOccurrence ?? 0) > 0
+  );
+}
+
+function getDueDate(event: CalendarEvent): string {
+  return event.permissionSlipDueDate ?? event.startAt.slice(0, 10);
+}
+
+/**
+ * Validates a teacher's escalation settings. Returns null when nothing is switched on, so
+ * the field can be removed from the event.
+ */
+export function resolveSlipEscalation(
+  input: SlipEscalation | null
+): { success: true; escalation: SlipEscalation | null } | { success: false; error: string } {
+  if (!input) return { success: true, escalation: null };
+  const { remindDaysBefore } = input;
+  if (
+    remindDaysBefore != null &&
+    (!Number.isInteger(remindDaysBefore) ||
+      remindDaysBefore < 1 ||
+      remindDaysBefore > MAX_REMIND_DAYS_BEFORE)
+  ) {
+    return {
+      success: false,
+      error: `Reminder days must be a whole number from 1 to ${MAX_REMIND_DAYS_BEFORE}`,
+    };
+  }
+  const escalation: SlipEscalation = {
+    ...(remindDaysBefore != null && { remindDaysBefore }),
+    ...(input.remindOnDueDate && { remindOnDueDate: true }),
+    ...(input.flagToAdmin && { flagToAdmin: true }),
+  };
+  return { success: true, escalation: Object.keys(escalation).length > 0 ? escalation : null };
+}
+
+/**
+ * Clears scheduled reminders, the admin flag and overdue forms after the due date moves, so
+ * they run again against the new date. Reminders the teacher sent by hand stay in the history.
+ */
+export async function resetSlipEscalation(eventId: string): Promise<void> {
+  const slips = await eventPermissionSlipsCollection();
+  await slips.updateMany(
+    { eventId },
+    {
+      $pull: { reminders: { kind: { $in: ["before_due", "due_date"] } } },
+      $unset: { overdueFlaggedAt: "" },
+    }
+  );
+  const forms = await permissionFormsCollection();
+  await forms.updateMany({ eventId, status: "overdue" }, { $set: { status: "sent" } });
+}
+
+/**
+ * Daily job: marks forms overdue once their due date has passed, sends the reminders each
+ * event's escalation calls for, then flags slips still outstanding after the due date to the
+ * school admin. Every step runs once per slip, so the
+ * job can safely run more than once a day.
+ */
+export async function runSlipEscalations(
+  now: Date = new Date()
+): Promise<{ success: true; reminded: number; flagged: number } | { success: false; error: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+
+  try {
+    const events = await calendarEventsCollection();
+    const eventDocs = await events
+      .find({
+        $or: [
+          { slipEscalation: { $exists: true } },
+          { requiresPermissionSlip: true },
+          { cost: { $gt: 0 } },
+          { costPerOccurrence: { $gt: 0 } },
+        ],
+        status: { $nin: ["cancelled", "postponed"] },
+        approvalStatus: { $nin: ["pending", "rejected"] },
+      })
+      .toArray();
+    const timeZones = await getSchoolTimeZones(eventDocs.map((e) => e.schoolId));
+    const slips = await eventPermissionSlipsCollection();
+    const forms = await permissionFormsCollection();
+    let reminded = 0;
+    let flagged = 0;
+
+    for (const event of eventDocs) {
+      if (!event._id || !needsFamilyAction(event)) continue;
+      const today = getZonedToday(timeZones.get(event.schoolId)!, now);
+      const eventId = event._id.toString();
+      const dueDate = getDueDate(event);
+
+      // Forms still waiting on a signature are overdue once the due date passes, whether or
+      // not the teacher turned on reminders
+      if (today > dueDate) {
+        await forms.updateMany({ eventId, status: "sent" }, { $set: { status: "overdue" } });
+      }
+
+      const escalation = event.slipEscalation;
+      // Nothing to chase once the event is over
+      if (!escalation || today > getEventOccurrenceDates(event).at(-1)!) continue;
+
+      const kinds: ("before_due" | "due_date")[] = [];
+      if (escalation.remindOnDueDate && today === dueDate) {
+        kinds.push("due_date");
+      } else if (
+        escalation.remindDaysBefore != null &&
+        today < dueDate &&
+        today >= addDaysToDate(dueDate, -escalation.remindDaysBefore)
+      ) {
+        kinds.push("before_due");
+      }
+      for (const kind of kinds) {
+        const result = await slips.updateMany(
+          { eventId, status: "pending", "reminders.kind": { $ne: kind } },
+          { $push: { reminders: { kind, sentAt: now } } }
+        );
+        reminded += result.modifiedCount;
+      }
+
+      if (escalation.flagToAdmin && today > dueDate) {
+        const result = await slips.updateMany(
+          { eventId, status: "pending", overdueFlaggedAt: { $exists: false } },
+          { $set: { overdueFlaggedAt: now } }
+        );
+        flagged += result.modifiedCount;
+      }
+    }
+
+    return { success: true, reminded, flagged };
+  } catch (error) {
+    console.error("[runSlipEscalations] Failed:", error);
+    return { success: false, error: "Failed to run slip reminders" };
+  }
+}
+
+/**
+ * Teacher reminds every family that hasn't signed or paid yet. Families reminded by hand in
+ * the last day are skipped.
+ */
+export async function sendSlipReminders(
+  auth0Id: string,
+  eventId: string
+): Promise<{ success: true; reminded: number } | { success: false; error: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+  if (!/^[a-f0-9]{24}$/i.test(eventId)) {
+    return { success: false, error: "Event not found" };
+  }
+
+  try {
+    const events = await calendarEventsCollection();
+    const event = await events.findOne({ _id: new ObjectId(eventId) });
+    if (!event?.classId) return { success: false, error: "Event not found" };
+    const classes = await classesCollection();
+    const cls = await classes.findOne({ _id: new ObjectId(event.classId) });
+    if (!cls?.teacherIds?.includes(auth0Id)) {
+      return { success: false, error: "You don't have access to this event" };
+    }
+    if (event.status === "cancelled") {
+      return { success: false, error: "This event has been cancelled" };
+    }
+    if (!needsFamilyAction(event)) {
+      return { success: false, error: "There is nothing for families to sign or pay" };
+    }
+
+    const now = new Date();
+    const slips = await eventPermissionSlipsCollection();
+    const result = await slips.updateMany(
+      {
+        eventId,
+        status: "pending",
+        reminders: {
+          $not: {
+            $elemMatch: { kind: "manual", sentAt: { $gt: new Date(now.getTime() - 86_400_000) } },
+          },
+        },
+      },
+      { $push: { reminders: { kind: "manual", sentAt: now } } }
+    );
+    if (result.modifiedCount === 0) {
+      const outstanding = await slips.countDocuments({ eventId, status: "pending" });
+      return {
+        success: false,
+        error:
+          outstanding > 0
+            ? "These families were already reminded today"
+            : "Every family has already responded",
+      };
+    }
+    return { success: true, reminded: result.modifiedCount };
+  } catch (error) {
+    console.error("[sendSlipReminders] Failed:", error);
+    return { success: false, error: "Failed to send reminders. Please try again." };
+  }
+}
+
+/**
+ * Slips at a school that are still outstanding after their due date and were flagged to the
+ * admin, most overdue first.
+ */
+export async function getOverdueSlipsForSchool(
+  schoolId: string
+): Promise<OverdueSlipSerialized[]> {
+  if (!isDbConfigured()) return [];
+
+  try {
+    const events = await calendarEventsCollection();
+    const eventDocs = await events
+      .find({
+        schoolId,
+        "slipEscalation.flagToAdmin": true,
+        status: { $ne: "cancelled" },
+      })
+      .toArray();
+    if (eventDocs.length === 0) return [];
+    const eventMap = new Map(eventDocs.map((e) => [e._id?.toString() ?? "", e]));
+
+    const slips = await eventPermissionSlipsCollection();
+    const slipDocs = await slips
+      .find({
+        eventId: { $in: [...eventMap.keys()] },
+        status: "pending",
+        overdueFlaggedAt: { $exists: true },
+      })
+      .sort({ overdueFlaggedAt: 1 })
+      .toArray();
+    if (slipDocs.length === 0) return [];
+
+    const toObjectIds = (ids: (string | undefined)[]) =>
+      [...new Set(ids)]
+        .filter((id): id is string => typeof id === "string" && /^[a-f0-9]{24}$/i.test(id))
+        .map((id) => new ObjectId(id));
+    const [classDocs, studentDocs, guardianDocs] = await Promise.all([
+      classesCollection().then((c) =>
+        c.find({ _id: { $in: toObjectIds(slipDocs.map((s) => s.classId)) } }).toArray()
+      ),
+      studentsCollection().then((c) =>
+        c.find({ _id: { $in: toObjectIds(slipDocs.map((s) => s.studentId)) } }).toArray()
+      ),
+      usersCollection().then((c) =>
+        c.find({ auth0Id: { $in: [...new Set(slipDocs.map((s) => s.guardianId))] } }).toArray()
+      ),
+    ]);
+    const classNames = new Map(classDocs.map((c) => [c._id?.toString(), c.name]));
+    const studentNames = new Map(studentDocs.map((s) => [s._id?.toString(), s.name]));
+    const guardianNames = new Map(
+      guardianDocs.map((u) => [u.auth0Id, u.name ?? u.email ?? "Unknown"])
+    );
+
+    return slipDocs.flatMap((slip) => {
+      const event = eventMap.get(slip.eventId);
+      if (!event || !slip.overdueFlaggedAt) return [];
+      return [
+        {
+          slipId: slip._id?.toString() ?? "",
+          eventId: slip.eventId,
+          eventTitle: event.title,
+          className: classNames.get(slip.classId) ?? "Unknown class",
+          studentName: (slip.studentId && studentNames.get(slip.studentId)) || "Unknown",
+          guardianName: guardianNames.get(slip.guardianId) ?? "Unknown",
+          dueDate: getDueDate(event),
+          flaggedAt: slip.overdueFlaggedAt.toISOString(),
+          remindersSent: slip.reminders?.length ?? 0,
+        },
+      ];
+    });
+  } catch (error) {
+    console.error("[getOverdueSlipsForSchool] Failed:", error);
+    return [];
+  }
+}
@@ -0,0 +1,113 @@
+import { ObjectId } from "mongodb";
+import { classesCollection } from "./db/collections";
+import type { StudentGroup } from "./db/types";
+import { isDbConfigured } from "./db";
+
+const MAX_GROUPS_PER_CLASS = 30;
+
+/**
+ * Creates a student group in a class, or replaces an existing one's name and students.
+ * Verifies the teacher owns the class and that every student is in it.
+ */
+export async function saveStudentGroup(
+  auth0Id: string,
+  classId: string,
+  input: { groupId?: string; name: string; studentIds: string[] }
+): Promise<{ success: true; groupId: string } | { success: false; error: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+  if (!/^[a-f0-9]{24}$/i.test(classId)) {
+    return { success: false, error: "Class not found" };
+  }
+
+  const name = input.name.trim();
+  if (!name) return { success: false, error: "Group name is required" };
+  if (name.length > 100) return { success: false, error: "Group name is too long" };
+  const studentIds = [...new Set(input.studentIds)];
+  if (studentIds.length === 0) {
+    return { success: false, error: "Pick at least one student" };
+  }
+
+  try {
+    const classes = await classesCollection();
+    const cls = await classes.findOne({ _id: new ObjectId(classId) });
+    if (!cls || !cls.teacherIds?.includes(auth0Id)) {
+      return { success: false, error: "Class not found or access denied" };
+    }
+    const classStudentIds = new Set(cls.studentIds ?? []);
+    if (studentIds.some((id) => !classStudentIds.has(id))) {
+      return { success: false, error: "All students must be in this class" };
+    }
+
+    const groups = cls.groups ?? [];
+    if (
+      groups.some(
+        (g) => g.id !== input.groupId && g.name.toLowerCase() === name.toLowerCase()
+      )
+    ) {
+      return { success: false, error: "A group with this name already exists" };
+    }
+
+    let updatedGroups: StudentGroup[];
+    let groupId: string;
+    if (input.groupId) {
+      if (!groups.some((g) => g.id === input.groupId)) {
+        return { success: false, error: "Group not found" };
+      }
+      groupId = input.groupId;
+      updatedGroups = groups.map((g) =>
+        g.id === groupId ? { id: groupId, name, studentIds } : g
+      );
+    } else {
+      if (groups.length >= MAX_GROUPS_PER_CLASS) {
+        return {
+          success: false,
+          error: `A class can have up to ${MAX_GROUPS_PER_CLASS} groups`,
+        };
+      }
+      groupId = new ObjectId().toString();
+      updatedGroups = [...groups, { id: groupId, name, studentIds }];
+    }
+
+    await classes.updateOne(
+      { _id: new ObjectId(classId) },
+      { $set: { groups: updatedGroups } }
+    );
+    return { success: true, groupId };
+  } catch (error) {
+    console.error("[saveStudentGroup] Failed:", error);
+    return { success: false, error: "Failed to save group. Please try again." };
+  }
+}
+
+/**
+ * Deletes a student group. Events already aimed at it keep their student list.
+ */
+export async function deleteStudentGroup(
+  auth0Id: string,
+  classId: string,
+  groupId: string
+): Promise<{ success: true } | { success: false; error: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+  if (!/^[a-f0-9]{24}$/i.test(classId)) {
+    return { success: false, error: "Class not found" };
+  }
+
+  try {
+    const classes = await classesCollection();
+    const result = await classes.updateOne(
+      { _id: new ObjectId(classId), teacherIds: auth0Id },
+      { $pull: { groups: { id: groupId } } }
+    );
+    if (result.matchedCount === 0) {
+      return { success: false, error: "Class not found or access denied" };
+    }
+    return { success: true };
+  } catch (error) {
+    console.error("[deleteStudentGroup] Failed:", error);
+    return { success: false, error: "Failed to delete group. Please try again." };
+  }
+}
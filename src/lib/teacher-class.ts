@@ -1,5 +1,6 @@
 import { schoolsCollection, classesCollection, usersCollection } from "./db/collections";
 import { isDbConfigured } from "./db";
+import { isValidTimeZone } from "./timezone";
 
 const CODE_CHARS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
 const CODE_LENGTH = 6;
@@ -29,7 +30,8 @@ export async function createTeacherClass(
   auth0Id: string,
   schoolName: string,
   className: string,
-  term: string
+  term: string,
+  timeZone?: string
 ): Promise<
   | { success: true; code: string; className: string }
   | { success: false; error: string }
@@ -47,6 +49,9 @@ export async function createTeacherClass(
   if (!trimmedTerm) return { success: false, error: "Term is required" };
   if (trimmedSchool.length > 100) return { success: false, error: "School name is too long" };
   if (trimmedClass.length > 100) return { success: false, error: "Class name is too long" };
+  if (timeZone && !isValidTimeZone(timeZone)) {
+    return { success: false, error: "Invalid time zone" };
+  }
 
   try {
     const schools = await schoolsCollection();
@@ -55,6 +60,7 @@ export async function createTeacherClass(
 
     const schoolResult = await schools.insertOne({
       name: trimmedSchool,
+      ...(timeZone && { timezone: timeZone }),
       createdAt: new Date(),
     });
     const schoolId = schoolResult.insertedId?.toString();
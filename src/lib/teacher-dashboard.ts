@@ -1,18 +1,43 @@
 import { ObjectId } from "mongodb";
-import type { Class, CalendarEvent } from "./db/types";
+import type {
+  Class,
+  CalendarEvent,
+  CalendarEventStatus,
+  EventApprovalStatus,
+  EventScheduleChangeType,
+  EventVolunteerRole,
+  PermissionFormField,
+  RecurrenceOverride,
+  RecurrenceRule,
+  SlipEscalation,
+  SlipStampLayout,
+  StudentGroup,
+} from "./db/types";
 import {
   classesCollection,
   schoolsCollection,
   calendarEventsCollection,
+  studentsCollection,
   usersCollection,
 } from "./db/collections";
 import { isDbConfigured } from "./db";
+import { getCalendarFeedToken, getCalendarFeedUrl } from "./calendar-feed";
+import { upcomingEventsFilter } from "./schools";
+import { resolveTimeZone } from "./timezone";
 import { getClassStudentsWithGuardians } from "./class-students";
 import {
   getEventPermissionSlipStatus,
   type EventPermissionStatus,
 } from "./event-permission-slips";
 import { getEventEffectiveCost } from "./calendar-events";
+import { getEventRevisions } from "./event-revisions";
+import { getSchoolClosures, type SchoolClosureSerialized } from "./school-closures";
+import { getSchoolBroadcasts, type UrgentBroadcastSummarySerialized } from "./urgent-broadcasts";
+import type { EventRevisionSerialized } from "./event-revisions";
+import { getVolunteerRoleStatus } from "./event-volunteers";
+import type { VolunteerRoleStatus } from "./event-volunteers";
+import { getEventTemplatesForTeacher } from "./event-templates";
+import type { EventTemplateSerialized } from "./event-templates";
 import { getReportCardsForTeacher } from "./report-cards";
 import type { ReportCardSerialized } from "./report-cards";
 import { getInterviewSlotsForTeacher } from "./interview-slots";
@@ -22,10 +47,14 @@ import {
   getConversationSummariesForTeacher,
 } from "./messaging";
 import type { StudentWithGuardians } from "./messaging";
+import { getClassBalances, type ClassBalanceReport } from "./family-ledger";
+import { getFeeWaiversForTeacher, type FeeWaiverSerialized } from "./fee-waivers";
 export type { StudentWithGuardians };
 
 export interface TeacherClassWithSchool extends Class {
   schoolName: string;
+  /** School's IANA time zone */
+  schoolTimeZone: string;
 }
 
 export interface ClassStudentSerialized {
@@ -52,8 +81,12 @@ export interface TeacherClassSerialized {
   guardianIds?: string[];
   term: string;
   schoolName: string;
+  /** School's IANA time zone */
+  timeZone: string;
   students: ClassStudentSerialized[];
   guardians: ClassGuardianSerialized[];
+  /** Teams and clubs; only students still in the class are listed */
+  groups: StudentGroup[];
 }
 
 export interface CalendarEventSerialized {
@@ -66,22 +99,66 @@ export interface CalendarEventSerialized {
   endAt: string;
   requiresPermissionSlip?: boolean;
   hasPermissionForm?: boolean;
+  /** Where signature details are stamped on the form; unset means a signature page is added */
+  permissionFormStampLayout?: SlipStampLayout;
+  permissionFormFields?: PermissionFormField[];
+  /** Automatic reminders and admin escalation for outstanding slips */
+  slipEscalation?: SlipEscalation;
   /** Cost in dollars. When set, parents must choose payment method. Includes recurring total. */
   cost?: number;
   /** Recurring: occurrence dates (YYYY-MM-DD) */
   occurrenceDates?: string[];
+  /** Recurring: repeat rule, exceptions and one-off changes (occurrenceDates already reflects them) */
+  recurrence?: RecurrenceRule;
+  recurrenceExceptions?: string[];
+  recurrenceOverrides?: RecurrenceOverride[];
+  /** Recurring: rule dates skipped because the school is closed */
+  closureDates?: string[];
   /** Recurring: cost per occurrence */
   costPerOccurrence?: number;
   /** Due date for form and payment (YYYY-MM-DD) */
   permissionSlipDueDate?: string | null;
+  /** Maximum number of students (unset = unlimited) */
+  capacity?: number;
+  volunteerRoles?: EventVolunteerRole[];
+  status: CalendarEventStatus;
+  statusReason?: string;
+  /** Change log (cancel/postpone/reschedule/reinstate), oldest first */
+  scheduleChanges?: EventScheduleChangeSerialized[];
+  /** Only these students are included. Unset = the whole class */
+  targetStudentIds?: string[];
+  targetGroupId?: string;
+  /** Unset = no approval needed */
+  approvalStatus?: EventApprovalStatus;
+  approvalComment?: string;
+}
+
+export interface EventScheduleChangeSerialized {
+  type: EventScheduleChangeType;
+  changedAt: string;
+  reason?: string;
+  fromStartAt?: string;
+  toStartAt?: string;
 }
 
 export interface TeacherInterviewClass {
   classId: string;
   className: string;
+  /** School time zone; slot times are shown on the school's clock */
+  timeZone: string;
   slots: InterviewSlotSerialized[];
 }
 
+/** A class at one of the teacher's schools that an event can also be published to */
+export interface SchoolClassOption {
+  id: string;
+  schoolId: string;
+  name: string;
+  /** Grades of the students in the class (split classes have more than one) */
+  grades: string[];
+  teacherNames: string[];
+}
+
 export interface TeacherDashboardData {
   classes: TeacherClassSerialized[];
   upcomingEvents: CalendarEventSerialized[];
@@ -93,6 +170,28 @@ export interface TeacherDashboardData {
   interviewSlotsByClass: TeacherInterviewClass[];
   studentsWithGuardians: StudentWithGuardians[];
   conversationSummaries: Record<string, { conversationId: string; lastMessageAt: string; lastMessagePreview: string | null; messageCount: number }>;
+  /** Private iCalendar subscription URL, or null when the feed is turned off */
+  calendarFeedUrl: string | null;
+  /** Edit history per event id, newest first */
+  eventRevisions: Record<string, EventRevisionSerialized[]>;
+  /** Who signed up for each volunteer role, per event id */
+  volunteerStatus: Record<string, VolunteerRoleStatus[]>;
+  /** Templates this teacher can start an event from (own and school-shared) */
+  eventTemplates: EventTemplateSerialized[];
+  /** Every class at the teacher's schools, for publishing one event to several classes */
+  schoolClasses: SchoolClassOption[];
+  /** Names of the other classes a linked event was published to, per event id */
+  linkedClasses: Record<string, string[]>;
+  /** Holidays, PD days and other closures at the teacher's schools */
+  schoolClosures: SchoolClosureSerialized[];
+  /** Recent urgent broadcasts at the teacher's schools, with who has seen them */
+  urgentBroadcasts: UrgentBroadcastSummarySerialized[];
+  /** Each class's family accounts, for the outstanding balances report */
+  classBalances: ClassBalanceReport[];
+  /** Families' private requests for help with costs, pending first */
+  feeWaivers: FeeWaiverSerialized[];
+  /** School time zone used to show dates and times (first class's school) */
+  timeZone: string;
 }
 
 /**
@@ -113,12 +212,14 @@ export async function getTeacherClasses(
 
     const schoolIds = [...new Set(teacherClasses.map((c) => c.schoolId))];
     const schoolMap = new Map<string, string>();
+    const timeZoneMap = new Map<string, string>();
     for (const id of schoolIds) {
       try {
         const school = await schools.findOne({
           _id: new ObjectId(id),
         });
         if (school?.name) schoolMap.set(id, school.name);
+        timeZoneMap.set(id, resolveTimeZone(school?.timezone));
       } catch {
         schoolMap.set(id, "Unknown School");
       }
@@ -127,6 +228,7 @@ export async function getTeacherClasses(
     return teacherClasses.map((cls) => ({
       ...cls,
       schoolName: schoolMap.get(cls.schoolId) ?? "Unknown School",
+      schoolTimeZone: timeZoneMap.get(cls.schoolId) ?? resolveTimeZone(null),
     }));
   } catch (error) {
     console.error("[getTeacherClasses] Failed:", error);
@@ -148,30 +250,21 @@ export async function getTeacherUpcomingEvents(
       .map((c) => c._id?.toString())
       .filter((id): id is string => Boolean(id));
     const schoolIds = [...new Set(teacherClasses.map((c) => c.schoolId))];
+    const timeZones = new Map(teacherClasses.map((c) => [c.schoolId, c.schoolTimeZone]));
 
     const orConditions = [
       ...(classIds.length > 0 ? [{ classId: { $in: classIds } }] : []),
-      ...(schoolIds.length > 0 ? [{ schoolId: { $in: schoolIds } }] : []),
+      // Other classes' events only when shared school-wide (not their linked copies)
+      ...(schoolIds.length > 0
+        ? [{ schoolId: { $in: schoolIds }, $or: [{ classId: null }, { visibility: "school" as const }] }]
+        : []),
     ];
     if (orConditions.length === 0) return [];
 
     const events = await calendarEventsCollection();
-    const now = new Date().toISOString();
-    const today = now.slice(0, 10); // YYYY-MM-DD for occurrenceDates comparison
-
     const upcoming = await events
       .find({
-        $and: [
-          { $or: orConditions },
-          {
-            $or: [
-              { startAt: { $gte: now } },
-              { startAt: { $lt: now }, endAt: { $gte: now } },
-              // Recurring: include if any occurrence date is today or in the future
-              { occurrenceDates: { $elemMatch: { $gte: today } } },
-            ],
-          },
-        ],
+        $and: [{ $or: orConditions }, upcomingEventsFilter(timeZones)],
       })
       .sort({ startAt: 1 })
       .toArray();
@@ -215,8 +308,13 @@ async function serializeClassWithStudents(
     guardianIds: cls.guardianIds,
     term: cls.term,
     schoolName: cls.schoolName,
+    timeZone: cls.schoolTimeZone,
     students,
     guardians,
+    groups: (cls.groups ?? []).map((g) => ({
+      ...g,
+      studentIds: g.studentIds.filter((id) => cls.studentIds?.includes(id)),
+    })),
   };
 }
 
@@ -232,10 +330,32 @@ function serializeEvent(event: CalendarEvent): CalendarEventSerialized {
     endAt: event.endAt,
     requiresPermissionSlip: event.requiresPermissionSlip ?? false,
     hasPermissionForm: Boolean(event.permissionFormPdfBase64),
+    permissionFormStampLayout: event.permissionFormStampLayout,
+    permissionFormFields: event.permissionFormFields,
+    slipEscalation: event.slipEscalation,
     cost,
     occurrenceDates: event.occurrenceDates,
+    recurrence: event.recurrence,
+    recurrenceExceptions: event.recurrenceExceptions,
+    recurrenceOverrides: event.recurrenceOverrides,
+    closureDates: event.closureDates,
     costPerOccurrence: event.costPerOccurrence,
     permissionSlipDueDate: event.permissionSlipDueDate ?? null,
+    capacity: event.capacity,
+    volunteerRoles: event.volunteerRoles,
+    status: event.status ?? "scheduled",
+    statusReason: event.statusReason,
+    scheduleChanges: event.scheduleChanges?.map((c) => ({
+      type: c.type,
+      changedAt: c.changedAt.toISOString(),
+      reason: c.reason,
+      fromStartAt: c.fromStartAt,
+      toStartAt: c.toStartAt,
+    })),
+    targetStudentIds: event.targetStudentIds,
+    targetGroupId: event.targetGroupId,
+    approvalStatus: event.approvalStatus,
+    approvalComment: event.approvalComment,
   };
 }
 
@@ -254,27 +374,24 @@ export async function getTeacherPermissionSlipEvents(
       .map((c) => c._id?.toString())
       .filter((id): id is string => Boolean(id));
     const schoolIds = [...new Set(teacherClasses.map((c) => c.schoolId))];
+    const timeZones = new Map(teacherClasses.map((c) => [c.schoolId, c.schoolTimeZone]));
 
     const orConditions = [
       ...(classIds.length > 0 ? [{ classId: { $in: classIds } }] : []),
-      ...(schoolIds.length > 0 ? [{ schoolId: { $in: schoolIds } }] : []),
+      // Other classes' events only when shared school-wide (not their linked copies)
+      ...(schoolIds.length > 0
+        ? [{ schoolId: { $in: schoolIds }, $or: [{ classId: null }, { visibility: "school" as const }] }]
+        : []),
     ];
     if (orConditions.length === 0) return [];
 
     const events = await calendarEventsCollection();
-    const now = new Date().toISOString();
-
     return events
       .find({
         requiresPermissionSlip: true,
         $and: [
           { $or: orConditions },
-          {
-            $or: [
-              { startAt: { $gte: now } },
-              { startAt: { $lt: now }, endAt: { $gte: now } },
-            ],
-          },
+          upcomingEventsFilter(timeZones, { includeRecurring: false }),
         ],
       })
       .sort({ startAt: 1 })
@@ -285,6 +402,102 @@ export async function getTeacherPermissionSlipEvents(
   }
 }
 
+/**
+ * Lists every class at the teacher's schools with its students' grades and teachers.
+ */
+export async function getSchoolClassOptions(
+  schoolIds: string[]
+): Promise<SchoolClassOption[]> {
+  if (!isDbConfigured() || schoolIds.length === 0) return [];
+
+  try {
+    const [classes, students, users] = await Promise.all([
+      classesCollection(),
+      studentsCollection(),
+      usersCollection(),
+    ]);
+    const schoolClasses = await classes
+      .find({ schoolId: { $in: schoolIds } })
+      .sort({ name: 1 })
+      .toArray();
+    const schoolStudents = await students
+      .find({ schoolId: { $in: schoolIds } }, { projection: { grade: 1, classIds: 1 } })
+      .toArray();
+    const gradesByClass = new Map<string, Set<string>>();
+    for (const student of schoolStudents) {
+      if (!student.grade) continue;
+      for (const classId of student.classIds ?? []) {
+        const grades = gradesByClass.get(classId) ?? new Set<string>();
+        grades.add(student.grade);
+        gradesByClass.set(classId, grades);
+      }
+    }
+    const teacherIds = [...new Set(schoolClasses.flatMap((c) => c.teacherIds ?? []))];
+    const teacherDocs = teacherIds.length
+      ? await users.find({ auth0Id: { $in: teacherIds } }).toArray()
+      : [];
+    const teacherNames = new Map(
+      teacherDocs.map((u) => [u.auth0Id, u.name ?? u.email ?? "Unknown"])
+    );
+
+    return schoolClasses.map((cls) => {
+      const id = cls._id?.toString() ?? "";
+      return {
+        id,
+        schoolId: cls.schoolId,
+        name: cls.name,
+        grades: [...(gradesByClass.get(id) ?? [])].sort(),
+        teacherNames: (cls.teacherIds ?? []).map((t) => teacherNames.get(t) ?? "Unknown"),
+      };
+    });
+  } catch (error) {
+    console.error("[getSchoolClassOptions] Failed:", error);
+    return [];
+  }
+}
+
+/**
+ * Names of the other classes each linked event was published to, keyed by event id.
+ */
+async function getLinkedClassNames(
+  events: CalendarEvent[]
+): Promise<Record<string, string[]>> {
+  const linkGroupIds = [
+    ...new Set(events.flatMap((e) => (e.linkGroupId ? [e.linkGroupId] : []))),
+  ];
+  if (linkGroupIds.length === 0) return {};
+
+  try {
+    const [eventsCol, classes] = await Promise.all([
+      calendarEventsCollection(),
+      classesCollection(),
+    ]);
+    const linked = await eventsCol
+      .find({ linkGroupId: { $in: linkGroupIds } }, { projection: { linkGroupId: 1, classId: 1 } })
+      .toArray();
+    const classIds = [
+      ...new Set(linked.flatMap((e) => (e.classId ? [e.classId] : []))),
+    ].filter((id) => /^[a-f0-9]{24}$/i.test(id));
+    const classDocs = await classes
+      .find({ _id: { $in: classIds.map((id) => new ObjectId(id)) } })
+      .toArray();
+    const classNames = new Map(classDocs.map((c) => [c._id?.toString(), c.name]));
+
+    const result: Record<string, string[]> = {};
+    for (const event of events) {
+      const id = event._id?.toString();
+      if (!id || !event.linkGroupId) continue;
+      result[id] = linked
+        .filter((e) => e.linkGroupId === event.linkGroupId && e.classId !== event.classId)
+        .map((e) => classNames.get(e.classId ?? "") ?? "Unknown class");
+    }
+    return result;
+  } catch (error) {
+    console.error("[getLinkedClassNames] Failed:", error);
+    return {};
+  }
+}
+
 /**
  * Fetches full teacher dashboard data (serialized for Client Components).
  */
@@ -310,15 +523,43 @@ export async function getTeacherDashboardData(
   const studentsWithGuardians = await getStudentsWithGuardiansForTeacher(
     auth0Id
   );
-  const [permissionSlipStatus, reportCards, interviewSlotsByClass, convSummaries] =
-    await Promise.all([
-      permissionSlipEventIds.length > 0
-        ? getEventPermissionSlipStatus(permissionSlipEventIds)
-        : Promise.resolve([]),
-      getReportCardsForTeacher(auth0Id),
-      getInterviewSlotsForTeacher(auth0Id),
-      getConversationSummariesForTeacher(auth0Id, studentsWithGuardians),
-    ]);
+  const [
+    permissionSlipStatus,
+    reportCards,
+    interviewSlotsByClass,
+    convSummaries,
+    calendarFeedToken,
+    eventRevisions,
+    volunteerStatus,
+    eventTemplates,
+    schoolClasses,
+    linkedClasses,
+    schoolClosures,
+    urgentBroadcasts,
+    classBalances,
+    feeWaivers,
+  ] = await Promise.all([
+    permissionSlipEventIds.length > 0
+      ? getEventPermissionSlipStatus(permissionSlipEventIds)
+      : Promise.resolve([]),
+    getReportCardsForTeacher(auth0Id),
+    getInterviewSlotsForTeacher(auth0Id),
+    getConversationSummariesForTeacher(auth0Id, studentsWithGuardians),
+    getCalendarFeedToken(auth0Id),
+    getEventRevisions(
+      upcomingEvents
+        .map((e) => e._id?.toString())
+        .filter((id): id is string => Boolean(id))
+    ),
+    getVolunteerRoleStatus(upcomingEvents),
+    getEventTemplatesForTeacher(auth0Id),
+    getSchoolClassOptions([...new Set(classes.map((c) => c.schoolId))]),
+    getLinkedClassNames(upcomingEvents),
+    getSchoolClosures(classes.map((c) => c.schoolId)),
+    getSchoolBroadcasts(classes.map((c) => c.schoolId)),
+    getClassBalances(auth0Id),
+    getFeeWaiversForTeacher(auth0Id),
+  ]);
 
   const conversationSummaries = Object.fromEntries(convSummaries);
 
@@ -331,5 +572,18 @@ export async function getTeacherDashboardData(
     interviewSlotsByClass,
     studentsWithGuardians,
     conversationSummaries,
+    calendarFeedUrl: calendarFeedToken
+      ? getCalendarFeedUrl(calendarFeedToken)
+      : null,
+    eventRevisions,
+    volunteerStatus,
+    eventTemplates,
+    schoolClasses,
+    linkedClasses,
+    schoolClosures,
+    urgentBroadcasts,
+    classBalances,
+    feeWaivers,
+    timeZone: resolveTimeZone(classes[0]?.schoolTimeZone),
   };
 }
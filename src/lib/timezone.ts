@@ -0,0 +1,114 @@
+/**
+ * School time zone helpers. Event times are stored as floating local strings
+ * (YYYY-MM-DDTHH:mm:ss) and dates as YYYY-MM-DD, both meaning wall-clock time at the
+ * school. These helpers compare and convert them in the school's zone instead of the
+ * server's or browser's. Safe to import from Client Components.
+ */
+
+/** Used for schools created before time zones were recorded */
+export const DEFAULT_SCHOOL_TIME_ZONE = "America/Toronto";
+
+/** Choices offered when a teacher sets up their school */
+export const SCHOOL_TIME_ZONE_OPTIONS = [
+  { value: "America/St_Johns", label: "Newfoundland" },
+  { value: "America/Halifax", label: "Atlantic" },
+  { value: "America/Toronto", label: "Eastern" },
+  { value: "America/Winnipeg", label: "Central" },
+  { value: "America/Regina", label: "Saskatchewan" },
+  { value: "America/Edmonton", label: "Mountain" },
+  { value: "America/Vancouver", label: "Pacific" },
+] as const;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** School zone, falling back to the default for unset or unknown values */
+export function resolveTimeZone(timeZone: string | null | undefined): string {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_SCHOOL_TIME_ZONE;
+}
+
+/**
+ * Wall-clock time of an instant in the given zone, as a floating local string
+ * (YYYY-MM-DDTHH:mm:ss). Comparable with event startAt/endAt.
+ */
+export function toZonedLocal(date: Date, timeZone: string): string {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}:${parts.second}`;
+}
+
+/** Current wall-clock time at the school (YYYY-MM-DDTHH:mm:ss) */
+export function getZonedNow(timeZone: string, at: Date = new Date()): string {
+  return toZonedLocal(at, timeZone);
+}
+
+/** Today's date at the school (YYYY-MM-DD) */
+export function getZonedToday(timeZone: string, at: Date = new Date()): string {
+  return toZonedLocal(at, timeZone).slice(0, 10);
+}
+
+/** Adds days to a YYYY-MM-DD date */
+export function addDaysToDate(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function wallClockMs(date: Date, timeZone: string): number {
+  return new Date(`${toZonedLocal(date, timeZone)}Z`).getTime();
+}
+
+/**
+ * Instant at which the school's clock shows the given floating local time. Times skipped
+ * by a DST change resolve to the first valid time after the gap.
+ */
+export function zonedLocalToDate(local: string, timeZone: string): Date {
+  const padded = local.length === 10 ? `${local}T00:00:00` : local.slice(0, 19);
+  const asUtc = new Date(`${padded.length === 16 ? `${padded}:00` : padded}Z`).getTime();
+  const offset = wallClockMs(new Date(asUtc), timeZone) - asUtc;
+  const first = asUtc - offset;
+  const firstOffset = wallClockMs(new Date(first), timeZone) - first;
+  if (firstOffset === offset) return new Date(first);
+  // Offset changed between the guess and the answer (DST boundary): retry with the new one
+  const second = asUtc - firstOffset;
+  const secondOffset = wallClockMs(new Date(second), timeZone) - second;
+  return new Date(secondOffset === firstOffset ? second : first);
+}
+
+/** A YYYY-MM-DD due date has passed once the school's day is over */
+export function isPastDueDate(
+  dueDate: string,
+  timeZone: string,
+  at: Date = new Date()
+): boolean {
+  return getZonedToday(timeZone, at) > dueDate.slice(0, 10);
+}
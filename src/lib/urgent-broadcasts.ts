@@ -0,0 +1,298 @@
+import { ObjectId } from "mongodb";
+import {
+  classesCollection,
+  schoolsCollection,
+  urgentBroadcastsCollection,
+  usersCollection,
+} from "./db/collections";
+import type { UrgentBroadcast, UrgentBroadcastKind } from "./db/types";
+import { isDbConfigured } from "./db";
+import { canManageSchool, getSchoolTimeZone } from "./schools";
+import { getZonedToday } from "./timezone";
+import { addSchoolClosure, getSchoolClosures } from "./school-closures";
+import { findClosureOn } from "./closure-dates";
+import { cancelSchoolEventsOn } from "./calendar-events";
+
+const URGENT_BROADCAST_KINDS: UrgentBroadcastKind[] = ["closure", "lockdown", "other"];
+
+/** An unacknowledged broadcast pinned on a parent's dashboard */
+export interface ParentUrgentBroadcastSerialized {
+  id: string;
+  kind: UrgentBroadcastKind;
+  title: string;
+  message: string;
+  schoolName: string | null;
+  senderName: string;
+  sentAt: string;
+  cancelledDate?: string;
+}
+
+/** A sent broadcast with who has and hasn't seen it, for teachers and admins */
+export interface UrgentBroadcastSummarySerialized {
+  id: string;
+  schoolId: string;
+  kind: UrgentBroadcastKind;
+  title: string;
+  message: string;
+  senderName: string;
+  sentAt: string;
+  cancelledDate?: string;
+  cancelledEventCount?: number;
+  /** Families it went to, not-yet-seen first */
+  recipients: { name: string; acknowledgedAt?: string }[];
+  acknowledgedCount: number;
+}
+
+async function getUserNames(auth0Ids: string[]): Promise<Map<string, string>> {
+  const unique = [...new Set(auth0Ids)];
+  if (unique.length === 0) return new Map();
+  const users = await usersCollection();
+  const docs = await users.find({ auth0Id: { $in: unique } }).toArray();
+  return new Map(docs.map((u) => [u.auth0Id, u.name ?? u.email ?? "Unknown"]));
+}
+
+/**
+ * Sends an urgent message to every family in the school's classes. Optionally closes the
+ * school for today: one-off events that day are cancelled and repeating ones skip it.
+ */
+export async function sendUrgentBroadcast(
+  auth0Id: string,
+  input: {
+    schoolId: string;
+    kind: UrgentBroadcastKind;
+    title: string;
+    message: string;
+    cancelTodaysEvents: boolean;
+  }
+): Promise<
+  | { success: true; broadcastId: string; recipientCount: number; cancelledEventCount?: number }
+  | { success: false; error: string }
+> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+
+  if (!URGENT_BROADCAST_KINDS.includes(input.kind)) {
+    return { success: false, error: "Choose what kind of message this is" };
+  }
+  const title = input.title.trim();
+  const message = input.message.trim();
+  if (!title) return { success: false, error: "Title is required" };
+  if (title.length > 120) return { success: false, error: "Title is too long" };
+  if (!message) return { success: false, error: "Message is required" };
+  if (message.length > 2000) return { success: false, error: "Message is too long" };
+
+  try {
+    if (!(await canManageSchool(auth0Id, input.schoolId))) {
+      return { success: false, error: "You can't send messages for this school" };
+    }
+
+    const classes = await classesCollection();
+    const schoolClasses = await classes.find({ schoolId: input.schoolId }).toArray();
+    const recipientIds = [...new Set(schoolClasses.flatMap((c) => c.guardianIds ?? []))];
+    if (recipientIds.length === 0) {
+      return { success: false, error: "No families have joined a class at this school yet" };
+    }
+
+    const broadcasts = await urgentBroadcastsCollection();
+    const sentAt = new Date();
+    const result = await broadcasts.insertOne({
+      schoolId: input.schoolId,
+      kind: input.kind,
+      title,
+      message,
+      sentBy: auth0Id,
+      sentAt,
+      recipientIds,
+      acknowledgements: [],
+    });
+
+    if (!input.cancelTodaysEvents) {
+      return {
+        success: true,
+        broadcastId: result.insertedId.toString(),
+        recipientCount: recipientIds.length,
+      };
+    }
+
+    // The message is already out; a failed cancellation shouldn't report it as unsent
+    try {
+      const today = getZonedToday(await getSchoolTimeZone(input.schoolId));
+      const closures = await getSchoolClosures([input.schoolId]);
+      if (!findClosureOn(closures, today)) {
+        const closure = await addSchoolClosure(auth0Id, {
+          schoolId: input.schoolId,
+          name: title.slice(0, 100),
+          kind: input.kind === "closure" ? "snow_day" : "other",
+          startDate: today,
+        });
+        if (!closure.success) throw new Error(closure.error);
+      }
+      const cancelledEventCount = await cancelSchoolEventsOn(
+        input.schoolId,
+        today,
+        auth0Id,
+        title
+      );
+      await broadcasts.updateOne(
+        { _id: result.insertedId },
+        { $set: { cancelledDate: today, cancelledEventCount } }
+      );
+      return {
+        success: true,
+        broadcastId: result.insertedId.toString(),
+        recipientCount: recipientIds.length,
+        cancelledEventCount,
+      };
+    } catch (error) {
+      console.error("[sendUrgentBroadcast] Cancelling today's events failed:", error);
+      return {
+        success: true,
+        broadcastId: result.insertedId.toString(),
+        recipientCount: recipientIds.length,
+      };
+    }
+  } catch (error) {
+    console.error("[sendUrgentBroadcast] Failed:", error);
+    return { success: false, error: "Failed to send message. Please try again." };
+  }
+}
+
+/**
+ * Records that a parent has seen a broadcast, which unpins it from their dashboard.
+ */
+export async function acknowledgeUrgentBroadcast(
+  guardianId: string,
+  broadcastId: string
+): Promise<{ success: true } | { success: false; error: string }> {
+  if (!isDbConfigured()) {
+    return { success: false, error: "Database not configured" };
+  }
+  if (!/^[a-f0-9]{24}$/i.test(broadcastId)) {
+    return { success: false, error: "Message not found" };
+  }
+
+  try {
+    const broadcasts = await urgentBroadcastsCollection();
+    const broadcast = await broadcasts.findOne({
+      _id: new ObjectId(broadcastId),
+      recipientIds: guardianId,
+    });
+    if (!broadcast) return { success: false, error: "Message not found" };
+
+    // Matching on "not acknowledged yet" keeps the first time a double-click records
+    await broadcasts.updateOne(
+      { _id: broadcast._id, "acknowledgements.guardianId": { $ne: guardianId } },
+      { $push: { acknowledgements: { guardianId, acknowledgedAt: new Date() } } }
+    );
+    return { success: true };
+  } catch (error) {
+    console.error("[acknowledgeUrgentBroadcast] Failed:", error);
+    return { success: false, error: "Failed to save. Please try again." };
+  }
+}
+
+/**
+ * Broadcasts a parent hasn't acknowledged yet, newest first.
+ */
+export async function getUnacknowledgedBroadcasts(
+  guardianId: string
+): Promise<ParentUrgentBroadcastSerialized[]> {
+  if (!isDbConfigured()) return [];
+
+  try {
+    const broadcasts = await urgentBroadcastsCollection();
+    const docs = await broadcasts
+      .find({
+        recipientIds: guardianId,
+        "acknowledgements.guardianId": { $ne: guardianId },
+      })
+      .sort({ sentAt: -1 })
+      .limit(10)
+      .toArray();
+    if (docs.length === 0) return [];
+
+    const senderNames = await getUserNames(docs.map((b) => b.sentBy));
+    const schools = await schoolsCollection();
+    const schoolIds = [...new Set(docs.map((b) => b.schoolId))].filter((id) =>
+      /^[a-f0-9]{24}$/i.test(id)
+    );
+    const schoolDocs = await schools
+      .find({ _id: { $in: schoolIds.map((id) => new ObjectId(id)) } })
+      .toArray();
+    const schoolNames = new Map(schoolDocs.map((s) => [s._id?.toString(), s.name]));
+
+    return docs.map((b) => ({
+      id: b._id?.toString() ?? "",
+      kind: b.kind,
+      title: b.title,
+      message: b.message,
+      schoolName: schoolNames.get(b.schoolId) ?? null,
+      senderName: senderNames.get(b.sentBy) ?? "Your school",
+      sentAt: b.sentAt.toISOString(),
+      ...(b.cancelledDate && { cancelledDate: b.cancelledDate }),
+    }));
+  } catch (error) {
+    console.error("[getUnacknowledgedBroadcasts] Failed:", error);
+    return [];
+  }
+}
+
+function serializeSummary(
+  broadcast: UrgentBroadcast,
+  names: Map<string, string>
+): UrgentBroadcastSummarySerialized {
+  const acknowledged = new Map(
+    broadcast.acknowledgements.map((a) => [a.guardianId, a.acknowledgedAt.toISOString()])
+  );
+  const recipients = broadcast.recipientIds
+    .map((id) => ({
+      name: names.get(id) ?? "Unknown",
+      ...(acknowledged.has(id) && { acknowledgedAt: acknowledged.get(id) }),
+    }))
+    .sort(
+      (a, b) =>
+        Number(Boolean(a.acknowledgedAt)) - Number(Boolean(b.acknowledgedAt)) ||
+        a.name.localeCompare(b.name)
+    );
+  return {
+    id: broadcast._id?.toString() ?? "",
+    schoolId: broadcast.schoolId,
+    kind: broadcast.kind,
+    title: broadcast.title,
+    message: broadcast.message,
+    senderName: names.get(broadcast.sentBy) ?? "Unknown",
+    sentAt: broadcast.sentAt.toISOString(),
+    ...(broadcast.cancelledDate && { cancelledDate: broadcast.cancelledDate }),
+    ...(broadcast.cancelledEventCount != null && {
+      cancelledEventCount: broadcast.cancelledEventCount,
+    }),
+    recipients,
+    acknowledgedCount: acknowledged.size,
+  };
+}
+
+/**
+ * Recent broadcasts at the given schools, newest first, with acknowledgement tracking.
+ */
+export async function getSchoolBroadcasts(
+  schoolIds: string[]
+): Promise<UrgentBroadcastSummarySerialized[]> {
+  if (!isDbConfigured() || schoolIds.length === 0) return [];
+
+  try {
+    const broadcasts = await urgentBroadcastsCollection();
+    const docs = await broadcasts
+      .find({ schoolId: { $in: [...new Set(schoolIds)] } })
+      .sort({ sentAt: -1 })
+      .limit(20)
+      .toArray();
+    if (docs.length === 0) return [];
+
+    const names = await getUserNames(docs.flatMap((b) => [b.sentBy, ...b.recipientIds]));
+    return docs.map((b) => serializeSummary(b, names));
+  } catch (error) {
+    console.error("[getSchoolBroadcasts] Failed:", error);
+    return [];
+  }
+}